@@ -0,0 +1,65 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { MockProvider } from "llm/providers/mock.provider";
+import { LlmTool } from "llm/llm.types";
+
+const tools: LlmTool[] = [
+  { name: "buildTree", description: "module tree", parameters: { type: "object" } },
+  { name: "emitFiles", description: "write files", parameters: { type: "object" } },
+];
+
+function fixture(name: string) {
+  const file = path.resolve("fixtures/llm/tools", `${name}.json`);
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+describe("MockProvider", () => {
+  const mock = new MockProvider();
+
+  it("calls the tool named in the last user message with its fixture", async () => {
+    const response = await mock.chat({
+      messages: [{ role: "user", content: "now call emitFiles please" }],
+      tools,
+    });
+    assert.equal(response.toolCalls.length, 1);
+    assert.equal(response.toolCalls[0].name, "emitFiles");
+    assert.deepEqual(JSON.parse(response.toolCalls[0].arguments), fixture("emitFiles"));
+  });
+
+  it("lets a forced tool choice win over the message", async () => {
+    const response = await mock.chat({
+      messages: [{ role: "user", content: "call emitFiles" }],
+      tools,
+      toolChoice: { name: "buildTree" },
+    });
+    assert.equal(response.toolCalls[0].name, "buildTree");
+  });
+
+  it("answers with text when no tools are offered", async () => {
+    const response = await mock.chat({
+      messages: [{ role: "user", content: "hello" }],
+    });
+    assert.equal(response.toolCalls.length, 0);
+    assert.ok(response.text.length > 0);
+  });
+
+  it("streams the same answer it returns from chat, with stable call ids", async () => {
+    const request = { messages: [{ role: "user" as const, content: "emitFiles" }], tools };
+    const events = [];
+    for await (const event of mock.stream(request)) events.push(event);
+    assert.ok(events.length > 1);
+
+    const [a, b] = await Promise.all([mock.chat(request), mock.chat(request)]);
+    assert.equal(a.toolCalls[0].id, b.toolCalls[0].id);
+    assert.equal(a.toolCalls[0].arguments, b.toolCalls[0].arguments);
+  });
+
+  it("embeds equal text to equal unit vectors", async () => {
+    const [a, b, c] = await mock.embed({ input: ["same", "same", "other"], dimensions: 16 });
+    assert.deepEqual(a, b);
+    assert.notDeepEqual(a, c);
+    assert.ok(Math.abs(Math.hypot(...a) - 1) < 1e-9);
+  });
+});
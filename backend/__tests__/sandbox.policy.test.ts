@@ -0,0 +1,106 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { CommandPolicyEngine } from "sandbox/sandbox.policy";
+
+describe("CommandPolicyEngine.evaluate", () => {
+  let base: string;
+  let engine: CommandPolicyEngine;
+  const env = { file: process.env.COMMAND_POLICY_FILE, dir: process.env.COMMAND_POLICY_DIR };
+
+  before(async () => {
+    base = await fs.mkdtemp(path.join(os.tmpdir(), "command-policy-"));
+    await fs.mkdir(path.join(base, "projects"));
+    // no global file: the builtin policy applies
+    process.env.COMMAND_POLICY_FILE = path.join(base, "command-policy.json");
+    process.env.COMMAND_POLICY_DIR = path.join(base, "projects");
+    engine = new CommandPolicyEngine();
+  });
+
+  after(async () => {
+    process.env.COMMAND_POLICY_FILE = env.file;
+    process.env.COMMAND_POLICY_DIR = env.dir;
+    if (env.file === undefined) delete process.env.COMMAND_POLICY_FILE;
+    if (env.dir === undefined) delete process.env.COMMAND_POLICY_DIR;
+    await fs.rm(base, { recursive: true, force: true });
+  });
+
+  const evaluate = (command: string, extra: { cwd?: string; projectId?: string } = {}) =>
+    engine.evaluate({ command, ...extra });
+
+  it("allows listed subcommands and denies the others", async () => {
+    const build = await evaluate("npm run build");
+    assert.equal(build.allowed, true);
+    assert.equal(build.policy, "builtin");
+    assert.deepEqual(build.args, ["run", "build"]);
+
+    const publish = await evaluate("npm publish");
+    assert.equal(publish.allowed, false);
+    assert.equal(publish.rule, "commands.npm.subcommands");
+    assert.match(publish.hint ?? "", /npm install/);
+  });
+
+  it("finds the subcommand after leading flags", async () => {
+    assert.equal((await evaluate("npm --silent publish")).allowed, false);
+    assert.equal((await evaluate("npm --silent test")).allowed, true);
+  });
+
+  it("denies forbidden flags, also with a value or inside a bundle", async () => {
+    for (const line of ["npm install -g left-pad", "npm install -gx", "npm install --prefix=/tmp", "node -e 1"]) {
+      const decision = await evaluate(line);
+      assert.equal(decision.allowed, false, line);
+      assert.match(decision.rule, /forbiddenFlags$/, line);
+    }
+    // a long flag is not read as a bundle of letters
+    assert.equal((await evaluate("npm install --save-dev typescript")).allowed, true);
+  });
+
+  it("keeps git and ls inside the workspace", async () => {
+    for (const line of ["git -C /tmp status", "git diff --output=x.txt", "git log --git-dir=../other", "ls /", "ls ../", "echo ~/x"]) {
+      assert.equal((await evaluate(line)).allowed, false, line);
+    }
+    for (const line of ["git log HEAD~1..HEAD", "git commit -am msg", "ls src", "echo hello"]) {
+      assert.equal((await evaluate(line)).allowed, true, line);
+    }
+  });
+
+  it("denies commands that are unknown, turned off or given as a path", async () => {
+    assert.equal((await evaluate("curl example.com")).rule, "commands");
+    assert.equal((await evaluate("npx create-react-app x")).rule, "commands.npx");
+    const byPath = await evaluate("./node_modules/.bin/tsc");
+    assert.equal(byPath.allowed, false);
+    assert.match(byPath.reason, /is a path/);
+  });
+
+  it("applies the cwd deny globs", async () => {
+    assert.equal((await evaluate("npm test", { cwd: "node_modules" })).allowed, false);
+    assert.equal((await evaluate("npm test", { cwd: "node_modules/pkg/lib" })).rule, "defaults.cwd");
+    assert.equal((await evaluate("git status", { cwd: ".git" })).allowed, false);
+    assert.equal((await evaluate("npm test", { cwd: "packages/app" })).allowed, true);
+    assert.equal((await evaluate("npm test", { cwd: "../x" })).rule, "cwd");
+  });
+
+  it("merges a project policy over the global one", async () => {
+    await fs.writeFile(
+      path.join(base, "projects", "demo.json"),
+      JSON.stringify({ commands: { npm: { subcommands: ["test"] }, make: {} } })
+    );
+    const scoped = { projectId: "demo" };
+    const decision = await evaluate("make", scoped);
+    assert.equal(decision.allowed, true);
+    assert.equal(decision.policy, "project:demo+builtin");
+    assert.equal((await evaluate("npm install", scoped)).allowed, false);
+    assert.equal((await evaluate("git status", scoped)).allowed, true);
+    // other workspaces keep the global policy
+    assert.equal((await evaluate("make")).allowed, false);
+  });
+
+  it("denies everything a broken policy file covers", async () => {
+    await fs.writeFile(path.join(base, "projects", "broken.json"), "{ not json");
+    const decision = await evaluate("npm test", { projectId: "broken" });
+    assert.equal(decision.allowed, false);
+    assert.equal(decision.rule, "file");
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { applyPatch, describeRejects } from "workspace/workspace.patch";
+
+const original = ["one", "two", "three", "four", "five", "six", "seven", ""].join("\n");
+
+describe("applyPatch: unified diff", () => {
+  it("applies a hunk at the line its header names", () => {
+    const diff = ["--- a/f.txt", "+++ b/f.txt", "@@ -2,3 +2,3 @@", " two", "-three", "+THREE", " four"].join("\n");
+    const { content, hunks, rejected } = applyPatch(original, { diff }, "f.txt");
+    assert.equal(rejected, 0);
+    assert.equal(content, original.replace("three", "THREE"));
+    assert.equal(hunks[0].status, "applied");
+    assert.equal(hunks[0].line, 2);
+  });
+
+  it("finds a hunk whose header is off and reports the offset", () => {
+    const diff = ["@@ -1,3 +1,3 @@", " five", "-six", "+SIX", " seven"].join("\n");
+    const { content, hunks } = applyPatch(original, { diff }, "f.txt");
+    assert.equal(content, original.replace("six", "SIX"));
+    assert.equal(hunks[0].status, "applied");
+    assert.ok(hunks[0].offset);
+  });
+
+  it("searches the whole file for headers without line numbers", () => {
+    const diff = ["@@ @@", " one", "-two", "+TWO"].join("\n");
+    const { content } = applyPatch(original, { diff }, "f.txt");
+    assert.equal(content, original.replace("two", "TWO"));
+  });
+
+  it("uses the section of a multi-file diff for the operation's path", () => {
+    const diff = [
+      "--- a/other.txt",
+      "+++ b/other.txt",
+      "@@ -1 +1 @@",
+      "-x",
+      "+y",
+      "--- a/f.txt",
+      "+++ b/f.txt",
+      "@@ -1,2 +1,2 @@",
+      "-one",
+      "+ONE",
+      " two",
+    ].join("\n");
+    const { content } = applyPatch(original, { diff }, "f.txt");
+    assert.equal(content, original.replace("one", "ONE"));
+  });
+
+  it("reports a hunk that does not match, with the lines found around it", () => {
+    const diff = [
+      "@@ -1,2 +1,2 @@",
+      "-one",
+      "+ONE",
+      " two",
+      "@@ -5,2 +5,2 @@",
+      "-not in the file",
+      "+whatever",
+      " six",
+    ].join("\n");
+    const { hunks, rejected } = applyPatch(original, { diff }, "f.txt");
+    assert.equal(rejected, 1);
+    assert.equal(hunks[0].status, "applied");
+    assert.equal(hunks[1].status, "rejected");
+    assert.ok(hunks[1].found);
+    assert.match(describeRejects(hunks), /1 of 2 hunks rejected, file unchanged: hunk 2/);
+  });
+});
+
+describe("applyPatch: search/replace edits", () => {
+  it("replaces a search text that occurs once", () => {
+    const { content, rejected } = applyPatch(
+      original,
+      { edits: [{ search: "four\nfive", replace: "4\n5" }] },
+      "f.txt"
+    );
+    assert.equal(rejected, 0);
+    assert.equal(content, original.replace("four\nfive", "4\n5"));
+  });
+
+  it("matches ignoring indentation when the exact text is missing", () => {
+    const code = "function f() {\n    return 1;\n}\n";
+    const { content, rejected } = applyPatch(
+      code,
+      { edits: [{ search: "return 1;", replace: "return 2;" }] },
+      "f.ts"
+    );
+    assert.equal(rejected, 0);
+    assert.match(content, /return 2;/);
+  });
+
+  it("rejects a search text that is missing or ambiguous", () => {
+    const missing = applyPatch(original, { edits: [{ search: "eight", replace: "8" }] }, "f.txt");
+    assert.equal(missing.rejected, 1);
+    assert.equal(missing.content, original);
+
+    const twice = "a\nb\na\n";
+    const ambiguous = applyPatch(twice, { edits: [{ search: "a", replace: "c" }] }, "f.txt");
+    assert.equal(ambiguous.rejected, 1);
+    assert.equal(ambiguous.content, twice);
+  });
+
+  it("needs a diff or edits", () => {
+    assert.throws(() => applyPatch(original, {}, "f.txt"), /needs a unified diff/);
+  });
+});
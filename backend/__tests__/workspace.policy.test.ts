@@ -0,0 +1,91 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import {
+  WorkspacePathError,
+  normalizeRelPath,
+  resolveInside,
+  resolveWritable,
+} from "workspace/workspace.policy";
+
+describe("normalizeRelPath", () => {
+  it("tolerates leading slashes, ./ and backslashes", () => {
+    assert.equal(normalizeRelPath("/index.html"), "index.html");
+    assert.equal(normalizeRelPath("./src/app.ts"), "src/app.ts");
+    assert.equal(normalizeRelPath("src\\lib\\a.ts"), "src/lib/a.ts");
+    assert.equal(normalizeRelPath("src/"), "src");
+    assert.equal(normalizeRelPath("."), "");
+  });
+
+  it("keeps .. that stays inside the root", () => {
+    assert.equal(normalizeRelPath("a/../b"), "b");
+    assert.equal(normalizeRelPath("a/b/../../c"), "c");
+  });
+
+  it("refuses paths that escape the root", () => {
+    for (const p of ["..", "../b", "a/../../b", "..\\b", "/../etc/passwd"]) {
+      assert.throws(() => normalizeRelPath(p), WorkspacePathError, p);
+    }
+  });
+
+  it("refuses drive letters and NUL bytes", () => {
+    assert.throws(() => normalizeRelPath("C:\\Windows"), WorkspacePathError);
+    assert.throws(() => normalizeRelPath("a\0b"), WorkspacePathError);
+  });
+});
+
+describe("resolveInside", () => {
+  let base: string;
+  let root: string;
+  let outside: string;
+
+  before(async () => {
+    base = await fs.mkdtemp(path.join(os.tmpdir(), "workspace-policy-"));
+    root = path.join(base, "root");
+    outside = path.join(base, "outside");
+    await fs.mkdir(path.join(root, "src"), { recursive: true });
+    await fs.mkdir(outside);
+    await fs.writeFile(path.join(outside, "secret.txt"), "secret");
+    await fs.symlink(outside, path.join(root, "escape"));
+    await fs.symlink(path.join(outside, "secret.txt"), path.join(root, "secret.txt"));
+    await fs.symlink(path.join(root, "src"), path.join(root, "inner"));
+  });
+
+  after(async () => {
+    await fs.rm(base, { recursive: true, force: true });
+  });
+
+  it("resolves files and not yet existing paths inside the root", async () => {
+    assert.deepEqual(await resolveInside(root, "src/a.ts"), {
+      rel: "src/a.ts",
+      full: path.join(root, "src/a.ts"),
+    });
+    const created = await resolveInside(root, "new/dir/file.ts");
+    assert.equal(created.full, path.join(root, "new/dir/file.ts"));
+  });
+
+  it("refuses lexical traversal", async () => {
+    await assert.rejects(resolveInside(root, "../outside/secret.txt"), WorkspacePathError);
+  });
+
+  it("refuses symlinks whose target is outside the root", async () => {
+    await assert.rejects(resolveInside(root, "secret.txt"), WorkspacePathError);
+    await assert.rejects(resolveInside(root, "escape/secret.txt"), WorkspacePathError);
+    // checked through the existing parent for files about to be created
+    await assert.rejects(resolveInside(root, "escape/new.txt"), WorkspacePathError);
+  });
+
+  it("follows symlinks that stay inside the root", async () => {
+    const resolved = await resolveInside(root, "inner/a.ts");
+    assert.equal(resolved.rel, "inner/a.ts");
+  });
+
+  it("keeps writes out of the root itself and the tooling directories", async () => {
+    await assert.rejects(resolveWritable(root, ""), WorkspacePathError);
+    await assert.rejects(resolveWritable(root, ".git/config"), WorkspacePathError);
+    await assert.rejects(resolveWritable(root, "src/.mcp_backups/x"), WorkspacePathError);
+    assert.equal((await resolveWritable(root, "src/a.ts")).rel, "src/a.ts");
+  });
+});
@@ -0,0 +1,90 @@
+// src/jobs/jobs.commands.ts
+// The "runCommand" job: one command in the sandbox of the job's workspace,
+// its output streamed into the job log. The command policy decides on
+// enqueue whether it may run, and again when it starts (the policy may have
+// changed meanwhile); its decision sets timeout, output cap and network.
+import { z } from "zod";
+import sandbox from "sandbox/sandbox";
+import commandPolicy, { explainDecision } from "sandbox/sandbox.policy";
+import workspaceRegistry from "workspace/workspace.registry";
+import { JobFailedError } from "./jobs.errors";
+import { JobContext } from "./jobs.types";
+
+// output kept in the job result; the log has all of it
+const RESULT_TAIL_CHARS = 20000;
+
+export const RunCommandJobSchema = z.object({
+  cmd: z.string().min(1).max(200),
+  args: z.array(z.string()).max(100).optional(),
+  cwd: z.string().optional(),
+  timeoutMs: z
+    .number()
+    .int()
+    .min(1000)
+    .max(30 * 60_000)
+    .optional(),
+  memoryMb: z.number().int().min(32).max(64_000).optional(),
+});
+
+export type RunCommandJobInput = z.infer<typeof RunCommandJobSchema>;
+
+export async function admitCommandJob(projectId: string, input: RunCommandJobInput) {
+  await commandPolicy.enforce({
+    projectId,
+    command: input.cmd,
+    args: input.args,
+    cwd: input.cwd,
+    timeoutMs: input.timeoutMs,
+  });
+}
+
+export async function runCommandJob({ job, signal, log }: JobContext<RunCommandJobInput>) {
+  const { cmd, args = [], cwd, timeoutMs, memoryMb } = job.input;
+  log("info", `$ ${[cmd, ...args].join(" ")}\n`);
+
+  const decision = await commandPolicy.evaluate({
+    projectId: job.projectId,
+    command: cmd,
+    args,
+    cwd,
+    timeoutMs,
+  });
+  if (!decision.allowed) {
+    const explanation = explainDecision(decision);
+    log("info", `${explanation}\n`);
+    throw new JobFailedError(explanation);
+  }
+
+  const { limits } = decision;
+  // the policy's memory is a ceiling for the requested one
+  const memory = limits.memoryMb ? Math.min(memoryMb ?? limits.memoryMb, limits.memoryMb) : memoryMb;
+  const run = await sandbox.run({
+    root: job.workspaceRoot ?? workspaceRegistry.get(job.projectId).root,
+    command: cmd,
+    args,
+    cwd,
+    timeoutMs: limits.timeoutMs,
+    maxOutputChars: limits.maxOutputChars,
+    network: limits.network,
+    limits: memory ? { memoryMb: memory } : undefined,
+    signal,
+    onOutput: log,
+  });
+  const result = {
+    exitCode: run.exitCode,
+    signal: run.signal,
+    timedOut: run.timedOut,
+    durationMs: run.durationMs,
+    isolation: run.isolation,
+    network: run.network,
+    stdout: run.stdout.slice(-RESULT_TAIL_CHARS),
+    stderr: run.stderr.slice(-RESULT_TAIL_CHARS),
+  };
+  log("info", `\nexit ${run.exitCode ?? run.signal} after ${run.durationMs} ms\n`);
+
+  if (run.timedOut) throw new JobFailedError(`Timed out after ${run.durationMs} ms`, result);
+  if (run.exitCode !== 0 && !run.aborted) {
+    throw new JobFailedError(`Exited with ${run.exitCode ?? run.signal}`, result);
+  }
+  return result;
+}
@@ -0,0 +1,24 @@
+// src/jobs/jobs.errors.ts
+
+export class JobNotFoundError extends Error {
+  constructor(public readonly jobId: string) {
+    super(`Unknown job: ${jobId}`);
+    this.name = "JobNotFoundError";
+  }
+}
+
+/** An enqueue or cancel the queue cannot take, e.g. an unknown job type. */
+export class JobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JobError";
+  }
+}
+
+/** Thrown by a handler to fail its job while still keeping a result (exit code, output). */
+export class JobFailedError extends Error {
+  constructor(message: string, public readonly result?: any) {
+    super(message);
+    this.name = "JobFailedError";
+  }
+}
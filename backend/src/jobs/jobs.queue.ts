@@ -0,0 +1,378 @@
+// src/jobs/jobs.queue.ts
+// Durable queue for long-running work (commands, generations). A job is
+// enqueued for a registered type, waits until the concurrency limits allow
+// it (JOBS_MAX_RUNNING overall, JOBS_PER_PROJECT per workspace), runs its
+// handler with an abort signal and a log, and ends succeeded, failed or
+// cancelled.
+//
+// Jobs and logs are kept by a JobStore (files under JOBS_DIR by default),
+// so they survive restarts: queued jobs run again once their type is
+// registered, jobs that were running are marked failed. Changes are sent
+// as `job:updated` to the rooms "jobs", "jobs:<projectId>" and
+// "job:<jobId>", log lines as `job:log` to "job:<jobId>".
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { FileJobStore } from "./jobs.store";
+import { JobError, JobFailedError, JobNotFoundError } from "./jobs.errors";
+import { RunCommandJobSchema, admitCommandJob, runCommandJob } from "./jobs.commands";
+import {
+  EnqueueRequest,
+  FINAL_STATUSES,
+  Job,
+  JobFilter,
+  JobLogEntry,
+  JobLogStream,
+  JobStatus,
+  JobStore,
+  JobType,
+} from "./jobs.types";
+
+// log lines are written in batches
+const FLUSH_MS = 250;
+
+export function jobLimits() {
+  const limit = (key: string, fallback: number) => {
+    const value = Number(process.env[key] ?? fallback);
+    return Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback;
+  };
+  return {
+    maxRunning: limit("JOBS_MAX_RUNNING", 4),
+    perProject: limit("JOBS_PER_PROJECT", 1),
+    // finished jobs kept, oldest are removed first
+    keep: limit("JOBS_KEEP", 500),
+    maxLogChars: limit("JOBS_MAX_LOG_CHARS", 5_000_000),
+  };
+}
+
+export function isFinal(status: JobStatus) {
+  return FINAL_STATUSES.includes(status);
+}
+
+type LogListener = (entry: JobLogEntry) => void;
+
+export class JobQueue {
+  private readonly types = new Map<string, JobType>();
+  private loaded?: Promise<Map<string, Job>>;
+  private readonly controllers = new Map<string, AbortController>();
+  private readonly waiters = new Map<string, Array<(job: Job) => void>>();
+  private readonly listeners = new Map<string, Set<LogListener>>();
+  private readonly logChars = new Map<string, number>();
+  private buffered = new Map<string, JobLogEntry[]>();
+  private flushTimer?: NodeJS.Timeout;
+  private flushing: Promise<void> = Promise.resolve();
+  private pumping = false;
+  private pumpAgain = false;
+
+  constructor(private readonly store: JobStore = new FileJobStore()) {}
+
+  /** Make a job type runnable; queued jobs of that type start right away. */
+  register<I>(type: string, jobType: JobType<I>) {
+    this.types.set(type, jobType);
+    void this.pump();
+  }
+
+  async enqueue<I>(request: EnqueueRequest<I>): Promise<Job<I>> {
+    const type = this.types.get(request.type);
+    if (!type) throw new JobError(`Unknown job type: ${request.type}`);
+    if (!request.projectId) throw new JobError("projectId is required");
+    if (request.parentId) {
+      const parent = (await this.load()).get(request.parentId);
+      if (parent?.status !== "running") {
+        throw new JobError(`Parent job ${request.parentId} is not running`);
+      }
+    }
+    const input = type.schema ? type.schema.parse(request.input) : request.input;
+    await type.admit?.(request.projectId, input);
+
+    const now = new Date().toISOString();
+    const job: Job<I> = {
+      id: uuidv4(),
+      projectId: request.projectId,
+      type: request.type,
+      status: "queued",
+      input,
+      ...(request.requestedBy ? { requestedBy: request.requestedBy } : {}),
+      ...(request.parentId ? { parentId: request.parentId } : {}),
+      ...(request.workspaceRoot ? { workspaceRoot: path.resolve(request.workspaceRoot) } : {}),
+      createdAt: now,
+      updatedAt: now,
+      logSeq: 0,
+    };
+    // stored before a pump can pick it up
+    await this.store.save(job);
+    (await this.load()).set(job.id, job);
+    this.emit(job);
+    void this.pump();
+    return job;
+  }
+
+  /** With a projectId, a job of another project is reported as unknown. */
+  async get(id: string, projectId?: string): Promise<Job> {
+    const job = (await this.load()).get(id);
+    if (!job || (projectId !== undefined && job.projectId !== projectId)) {
+      throw new JobNotFoundError(id);
+    }
+    return job;
+  }
+
+  /** Jobs, newest first. */
+  async list(filter: JobFilter = {}, limit = 100) {
+    return [...(await this.load()).values()]
+      .filter((j) => !filter.projectId || j.projectId === filter.projectId)
+      .filter((j) => !filter.type || j.type === filter.type)
+      .filter((j) => !filter.status || j.status === filter.status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+  }
+
+  /**
+   * Log entries with seq >= `from`; poll again from `next` until `done`
+   * (the job finished and everything was read).
+   */
+  async logs(id: string, from = 0, limit = 1000) {
+    const job = await this.get(id);
+    await this.flush();
+    const entries = await this.store.readLog(id, from, limit);
+    const next = entries.length ? entries[entries.length - 1].seq + 1 : from;
+    return {
+      jobId: id,
+      status: job.status,
+      entries,
+      next,
+      done: isFinal(job.status) && next >= job.logSeq,
+    };
+  }
+
+  /** Follow the log of a job in this process; returns the unsubscribe function. */
+  onLog(id: string, listener: LogListener) {
+    const set = this.listeners.get(id) ?? new Set<LogListener>();
+    set.add(listener);
+    this.listeners.set(id, set);
+    return () => {
+      set.delete(listener);
+      if (!set.size) this.listeners.delete(id);
+    };
+  }
+
+  /**
+   * Cancel a job: a queued one ends at once, a running one is aborted and
+   * ends when its handler returns. Finished jobs are returned unchanged.
+   */
+  async cancel(id: string, by?: string): Promise<Job> {
+    const job = await this.get(id);
+    if (isFinal(job.status)) return job;
+    const reason = `Cancelled${by ? ` by ${by}` : ""}`;
+    if (job.status === "queued") {
+      await this.finish(job, "cancelled", { error: reason });
+      return job;
+    }
+    job.cancelRequested = true;
+    job.error = reason;
+    job.updatedAt = new Date().toISOString();
+    this.controllers.get(id)?.abort();
+    await this.store.save(job);
+    this.emit(job);
+    return job;
+  }
+
+  /** Resolves with the job once it succeeded, failed or was cancelled. */
+  async wait(id: string): Promise<Job> {
+    const job = await this.get(id);
+    if (isFinal(job.status)) return job;
+    return new Promise((resolve) => {
+      this.waiters.set(id, [...(this.waiters.get(id) ?? []), resolve]);
+    });
+  }
+
+  // start queued jobs, oldest first, as far as the limits allow
+  private async pump() {
+    if (this.pumping) {
+      this.pumpAgain = true;
+      return;
+    }
+    this.pumping = true;
+    try {
+      do {
+        this.pumpAgain = false;
+        const all = await this.load();
+        const jobs = [...all.values()];
+        const { maxRunning, perProject } = jobLimits();
+        // children of a running job use its slot and are not counted
+        const inParentSlot = (job: Job) =>
+          Boolean(job.parentId) && all.get(job.parentId!)?.status === "running";
+        const perProjectRunning = new Map<string, number>();
+        let running = 0;
+        for (const job of jobs) {
+          if (job.status !== "running" || inParentSlot(job)) continue;
+          running++;
+          perProjectRunning.set(job.projectId, (perProjectRunning.get(job.projectId) ?? 0) + 1);
+        }
+
+        const queued = jobs
+          .filter((j) => j.status === "queued" && this.types.has(j.type))
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        for (const job of queued) {
+          if (!inParentSlot(job)) {
+            if (running >= maxRunning) continue;
+            const count = perProjectRunning.get(job.projectId) ?? 0;
+            if (count >= perProject) continue;
+            running++;
+            perProjectRunning.set(job.projectId, count + 1);
+          }
+          // marked before the next pass counts it
+          job.status = "running";
+          job.startedAt = job.updatedAt = new Date().toISOString();
+          void this.execute(job);
+        }
+      } while (this.pumpAgain);
+    } finally {
+      this.pumping = false;
+    }
+  }
+
+  private async execute(job: Job) {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    await this.store.save(job).catch((err) => console.warn("[JobQueue] save failed", err));
+    this.emit(job);
+
+    let status: JobStatus;
+    let patch: Partial<Job>;
+    try {
+      const result = await this.types.get(job.type)!.handler({
+        job,
+        signal: controller.signal,
+        log: (stream, text) => this.log(job, stream, text),
+      });
+      status = controller.signal.aborted ? "cancelled" : "succeeded";
+      patch = { result };
+    } catch (err: any) {
+      status = controller.signal.aborted ? "cancelled" : "failed";
+      patch = {
+        ...(controller.signal.aborted ? {} : { error: err?.message ?? String(err) }),
+        ...(err instanceof JobFailedError && err.result !== undefined ? { result: err.result } : {}),
+      };
+    } finally {
+      this.controllers.delete(job.id);
+    }
+
+    await this.finish(job, status, patch);
+    void this.pump();
+  }
+
+  private async finish(job: Job, status: JobStatus, patch: Partial<Job>) {
+    const now = new Date().toISOString();
+    Object.assign(job, patch, { status, finishedAt: now, updatedAt: now });
+    await this.flush();
+    await this.store.save(job).catch((err) => console.warn("[JobQueue] save failed", err));
+    this.emit(job);
+
+    for (const resolve of this.waiters.get(job.id) ?? []) resolve(job);
+    this.waiters.delete(job.id);
+    this.listeners.delete(job.id);
+    this.logChars.delete(job.id);
+    await this.prune();
+  }
+
+  private log(job: Job, stream: JobLogStream, text: string) {
+    if (!text || isFinal(job.status)) return;
+    const { maxLogChars } = jobLimits();
+    const used = this.logChars.get(job.id) ?? 0;
+    if (used >= maxLogChars) return;
+    this.logChars.set(job.id, used + text.length);
+    const kept =
+      used + text.length > maxLogChars
+        ? `${text.slice(0, maxLogChars - used)}\n[log limit reached, further output dropped]\n`
+        : text;
+
+    const entry: JobLogEntry = {
+      seq: job.logSeq++,
+      stream,
+      text: kept,
+      at: new Date().toISOString(),
+    };
+    this.buffered.set(job.id, [...(this.buffered.get(job.id) ?? []), entry]);
+    this.flushTimer ??= setTimeout(() => void this.flush(), FLUSH_MS);
+
+    for (const listener of this.listeners.get(job.id) ?? []) {
+      try {
+        listener(entry);
+      } catch (err) {
+        console.warn("[JobQueue] log listener error", err);
+      }
+    }
+    this.send("job:log", [`job:${job.id}`], { jobId: job.id, projectId: job.projectId, ...entry });
+  }
+
+  // append buffered log entries, in order
+  private flush() {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    const batch = this.buffered;
+    this.buffered = new Map();
+    this.flushing = this.flushing.then(async () => {
+      for (const [id, entries] of batch) {
+        await this.store
+          .appendLog(id, entries)
+          .catch((err) => console.warn(`[JobQueue] log write for ${id} failed`, err));
+      }
+    });
+    return this.flushing;
+  }
+
+  // drop the oldest finished jobs beyond JOBS_KEEP
+  private async prune() {
+    const jobs = await this.load();
+    const finished = [...jobs.values()]
+      .filter((j) => isFinal(j.status))
+      .sort((a, b) => (b.finishedAt ?? "").localeCompare(a.finishedAt ?? ""));
+    for (const job of finished.slice(jobLimits().keep)) {
+      jobs.delete(job.id);
+      await this.store.remove(job.id).catch(() => {});
+    }
+  }
+
+  private load() {
+    return (this.loaded ??= (async () => {
+      const jobs = new Map<string, Job>();
+      const stored = await this.store.loadAll().catch((err) => {
+        console.warn("[JobQueue] could not load jobs", err);
+        return [] as Job[];
+      });
+      for (const job of stored) {
+        if (job.status === "running") {
+          // the process running it is gone
+          job.status = "failed";
+          job.error = "Interrupted by a server restart";
+          job.finishedAt = job.updatedAt = new Date().toISOString();
+          await this.store.save(job).catch(() => {});
+        }
+        jobs.set(job.id, job);
+      }
+      return jobs;
+    })());
+  }
+
+  private emit(job: Job) {
+    this.send("job:updated", ["jobs", `jobs:${job.projectId}`, `job:${job.id}`], job);
+  }
+
+  private send(event: string, rooms: string[], payload: any) {
+    try {
+      const io = (global as any).__expressIoInstance;
+      io?.to(rooms).emit(event, payload);
+    } catch (err) {
+      console.warn("[JobQueue] socket emit failed", err);
+    }
+  }
+}
+
+const jobQueue = new JobQueue();
+
+jobQueue.register("runCommand", {
+  handler: runCommandJob,
+  schema: RunCommandJobSchema,
+  admit: admitCommandJob,
+});
+
+export default jobQueue;
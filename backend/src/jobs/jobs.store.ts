@@ -0,0 +1,90 @@
+// src/jobs/jobs.store.ts
+// File-backed job store (JOBS_DIR, default ./jobs): `<id>.json` holds the
+// job, written atomically on every state change, and `<id>.log` its log as
+// JSON lines, appended as output arrives.
+import fs from "fs/promises";
+import path from "path";
+import { Job, JobLogEntry, JobStore } from "./jobs.types";
+
+export function jobsDir() {
+  return path.resolve(process.cwd(), process.env.JOBS_DIR || "jobs");
+}
+
+export class FileJobStore implements JobStore {
+  private writes = 0;
+  private readonly saving = new Map<string, Promise<void>>();
+
+  constructor(readonly dir: string = jobsDir()) {}
+
+  async loadAll(): Promise<Job[]> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const jobs: Job[] = [];
+    for (const name of await fs.readdir(this.dir)) {
+      if (!name.endsWith(".json")) continue;
+      try {
+        jobs.push(JSON.parse(await fs.readFile(path.join(this.dir, name), "utf8")));
+      } catch (err) {
+        console.warn(`[FileJobStore] skipping unreadable ${name}`, err);
+      }
+    }
+    return jobs;
+  }
+
+  // writes of one job in call order, so an older state never lands last
+  save(job: Job) {
+    const data = JSON.stringify(job, null, 2);
+    const write = (this.saving.get(job.id) ?? Promise.resolve())
+      .catch(() => {})
+      .then(() => this.write(job.id, data));
+    this.saving.set(job.id, write);
+    write
+      .catch(() => {})
+      .then(() => {
+        if (this.saving.get(job.id) === write) this.saving.delete(job.id);
+      });
+    return write;
+  }
+
+  async appendLog(id: string, entries: JobLogEntry[]) {
+    if (!entries.length) return;
+    await fs.appendFile(
+      this.file(id, "log"),
+      entries.map((e) => JSON.stringify(e)).join("\n") + "\n"
+    );
+  }
+
+  async readLog(id: string, from: number, limit: number) {
+    const text = await fs.readFile(this.file(id, "log"), "utf8").catch(() => "");
+    const entries: JobLogEntry[] = [];
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry: JobLogEntry = JSON.parse(line);
+        if (entry.seq < from) continue;
+        entries.push(entry);
+        if (entries.length >= limit) break;
+      } catch {
+        // a line cut short by a crash
+      }
+    }
+    return entries;
+  }
+
+  async remove(id: string) {
+    await fs.rm(this.file(id, "json"), { force: true });
+    await fs.rm(this.file(id, "log"), { force: true });
+  }
+
+  private async write(id: string, data: string) {
+    await fs.mkdir(this.dir, { recursive: true });
+    const target = this.file(id, "json");
+    const tmp = `${target}.${process.pid}.${++this.writes}.tmp`;
+    await fs.writeFile(tmp, data);
+    await fs.rename(tmp, target);
+  }
+
+  // ids are uuids generated by the queue
+  private file(id: string, ext: "json" | "log") {
+    return path.join(this.dir, `${path.basename(id)}.${ext}`);
+  }
+}
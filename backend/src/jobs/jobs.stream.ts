@@ -0,0 +1,141 @@
+// src/jobs/jobs.stream.ts
+// Output of a job pushed to one socket, as a terminal would show it:
+// `run:start` when attached, `run:stdout` / `run:stderr` per chunk and
+// `run:exit` once the job ended. Chunks carry the seq of their log entry,
+// so a client that lost its connection attaches again with `from` = last
+// seq + 1 and gets the missed output replayed before the live one.
+import jobQueue from "./jobs.queue";
+import { Job, JobLogEntry, JobStatus } from "./jobs.types";
+
+// The payloads as the client sees them (mirrored in client/src/types/run.types.ts)
+export interface RunStartEvent {
+  jobId: string;
+  projectId: string;
+  type: Job["type"];
+  input: Job["input"];
+  status: JobStatus;
+  // seq the replay starts at
+  from: number;
+}
+
+export interface RunChunkEvent {
+  jobId: string;
+  seq: number;
+  data: string;
+}
+
+export interface RunExitEvent {
+  jobId: string;
+  // logSeq of the job: the seq its next log entry would get
+  seq: number;
+  status: JobStatus;
+  code: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  error?: string;
+}
+
+export interface RunEvents {
+  "run:start": RunStartEvent;
+  "run:stdout": RunChunkEvent;
+  "run:stderr": RunChunkEvent;
+  "run:exit": RunExitEvent;
+}
+
+export type RunEvent = {
+  [E in keyof RunEvents]: { event: E; payload: RunEvents[E] };
+}[keyof RunEvents];
+
+export class RunStreams {
+  // socket id -> job id -> detach
+  private readonly attached = new Map<string, Map<string, () => void>>();
+
+  async attach(jobId: string, socketId: string, from = 0): Promise<Job> {
+    const job = await jobQueue.get(jobId);
+    this.detach(jobId, socketId);
+
+    let last = from - 1;
+    let replaying = true;
+    const pending: JobLogEntry[] = [];
+    const send = (entry: JobLogEntry) => {
+      if (entry.seq <= last) return;
+      last = entry.seq;
+      // info lines are the queue's own ("$ cmd", "exit 0"); run:start / run:exit cover them
+      if (entry.stream === "info") return;
+      this.send(socketId, entry.stream === "stderr" ? "run:stderr" : "run:stdout", {
+        jobId,
+        seq: entry.seq,
+        data: entry.text,
+      });
+    };
+    const unsubscribe = jobQueue.onLog(jobId, (entry) => {
+      if (replaying) pending.push(entry);
+      else send(entry);
+    });
+    const detach = () => unsubscribe();
+    const jobs = this.attached.get(socketId) ?? new Map<string, () => void>();
+    jobs.set(jobId, detach);
+    this.attached.set(socketId, jobs);
+
+    this.send(socketId, "run:start", {
+      jobId,
+      projectId: job.projectId,
+      type: job.type,
+      input: job.input,
+      status: job.status,
+      from,
+    });
+    try {
+      for (let next = from; ; ) {
+        const page = await jobQueue.logs(jobId, next, 1000);
+        page.entries.forEach(send);
+        if (page.done || !page.entries.length) break;
+        next = page.next;
+      }
+    } finally {
+      replaying = false;
+      pending.splice(0).forEach(send);
+    }
+
+    void jobQueue.wait(jobId).then((done) => {
+      if (this.attached.get(socketId)?.get(jobId) !== detach) return;
+      this.send(socketId, "run:exit", {
+        jobId,
+        seq: done.logSeq,
+        status: done.status,
+        code: done.result?.exitCode ?? null,
+        signal: done.result?.signal ?? null,
+        timedOut: done.result?.timedOut === true,
+        error: done.error,
+      });
+      this.detach(jobId, socketId);
+    });
+    return job;
+  }
+
+  detach(jobId: string, socketId: string) {
+    const jobs = this.attached.get(socketId);
+    jobs?.get(jobId)?.();
+    jobs?.delete(jobId);
+    if (jobs && !jobs.size) this.attached.delete(socketId);
+  }
+
+  /** Stop every stream of a socket, e.g. on disconnect. */
+  detachSocket(socketId: string) {
+    for (const detach of this.attached.get(socketId)?.values() ?? []) detach();
+    this.attached.delete(socketId);
+  }
+
+  private send<E extends keyof RunEvents>(socketId: string, event: E, payload: RunEvents[E]) {
+    try {
+      const io = (global as any).__expressIoInstance;
+      io?.to(socketId).emit(event, payload);
+    } catch (err) {
+      console.warn("[RunStreams] socket emit failed", err);
+    }
+  }
+}
+
+const runStreams = new RunStreams();
+
+export default runStreams;
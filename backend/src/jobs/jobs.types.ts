@@ -0,0 +1,89 @@
+// src/jobs/jobs.types.ts
+import type { ZodType } from "zod";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export const FINAL_STATUSES: readonly JobStatus[] = ["succeeded", "failed", "cancelled"];
+
+export interface Job<I = any> {
+  id: string;
+  // workspace the job works on (a project id or a named workspace); the
+  // per-project concurrency limit applies to it
+  projectId: string;
+  type: string;
+  status: JobStatus;
+  input: I;
+  requestedBy?: string;
+  // running job that enqueued this one and waits for it (see EnqueueRequest)
+  parentId?: string;
+  // set by server code only (see EnqueueRequest)
+  workspaceRoot?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  // cancel asked for while running; the status follows once the handler stopped
+  cancelRequested?: boolean;
+  result?: any;
+  error?: string;
+  // log entries written so far (the next entry gets this seq)
+  logSeq: number;
+}
+
+export type JobLogStream = "stdout" | "stderr" | "info";
+
+export interface JobLogEntry {
+  seq: number;
+  stream: JobLogStream;
+  text: string;
+  at: string;
+}
+
+export interface JobContext<I = any> {
+  job: Job<I>;
+  // aborted by cancel(); handlers stop as soon as they can
+  signal: AbortSignal;
+  log(stream: JobLogStream, text: string): void;
+}
+
+/** Resolves with the job result; throwing fails the job (see JobFailedError). */
+export type JobHandler<I = any> = (context: JobContext<I>) => Promise<any>;
+
+export interface JobType<I = any> {
+  handler: JobHandler<I>;
+  // input check on enqueue
+  schema?: ZodType<I>;
+  // checks that need the workspace (e.g. the command policy); throwing
+  // refuses the job before it is queued
+  admit?: (projectId: string, input: I) => Promise<void>;
+}
+
+export interface EnqueueRequest<I = any> {
+  projectId: string;
+  type: string;
+  input: I;
+  requestedBy?: string;
+  // a running job that waits for this one, e.g. a generation running the
+  // commands of its verify stage: the child runs in the parent's slot, so a
+  // queue full of waiting parents cannot starve their children
+  parentId?: string;
+  // directory to work in instead of the registry's workspace of projectId,
+  // e.g. a builder's own project directory; never taken from a request body
+  workspaceRoot?: string;
+}
+
+export interface JobFilter {
+  projectId?: string;
+  type?: string;
+  status?: string;
+}
+
+/** Where jobs and their logs are kept; FileJobStore by default. */
+export interface JobStore {
+  loadAll(): Promise<Job[]>;
+  save(job: Job): Promise<void>;
+  appendLog(id: string, entries: JobLogEntry[]): Promise<void>;
+  // entries with seq >= from, at most `limit`
+  readLog(id: string, from: number, limit: number): Promise<JobLogEntry[]>;
+  remove(id: string): Promise<void>;
+}
@@ -0,0 +1,349 @@
+// src/llm/context.manager.ts
+// Fits a request into the model's context window before it is sent, so a
+// large project goes out as one call instead of a chunk-and-acknowledge
+// sequence. Token counts are estimates (characters per token, per model
+// family); windows are matched by the longest model id prefix and
+// LLM_CONTEXT_WINDOWS='{"my-model":64000}' adds or overrides entries.
+//
+// Snapshot files are ranked (files named in the prompt, entry points and
+// sources first; lockfiles, maps and minified bundles last) and packed into
+// one message: in full while they fit, then as an outline, then by path only,
+// and the rest are counted as omitted. LLM_SNAPSHOT_TOKENS caps the snapshot
+// share of the window (default 60000 tokens).
+import { LlmTool } from "./llm.types";
+
+export interface ContextFile {
+  path: string;
+  content: string;
+}
+
+export type ContextMessage = {
+  role: "system" | "user" | "assistant" | string;
+  content: string;
+  cache?: boolean;
+};
+
+export type FilePlacement = "full" | "summary" | "path" | "omitted";
+
+export interface ContextReport {
+  model: string;
+  window: number;
+  // tokens left for the prompt once the answer is reserved
+  budget: number;
+  // estimated prompt tokens of the packed request
+  promptTokens: number;
+  // non-system messages shortened to fit
+  trimmedMessages: number;
+  snapshot: Record<FilePlacement, number> & { files: number; tokens: number };
+}
+
+export interface PackRequest<M extends ContextMessage = ContextMessage> {
+  model: string;
+  messages: M[];
+  // tokens reserved for the answer
+  maxOutputTokens: number;
+  tools?: LlmTool[];
+  snapshot?: ContextFile[];
+  // text the snapshot is ranked against, usually the user prompt
+  focus?: string;
+}
+
+/** Context handling accepted by the streamed tool-call helpers in utils/. */
+export interface ContextOptions {
+  // "packed" (default, LLM_CONTEXT_MODE): one call within the window;
+  // "chunked": the legacy chunk-and-acknowledge sequence
+  contextMode?: "packed" | "chunked";
+  // project files packed into the request by priority
+  snapshot?: ContextFile[];
+  // text the snapshot is ranked against (defaults to the last user message)
+  snapshotFocus?: string;
+}
+
+export interface PackedContext {
+  messages: ContextMessage[];
+  report: ContextReport;
+}
+
+export class ContextOverflowError extends Error {
+  constructor(
+    public readonly model: string,
+    public readonly promptTokens: number,
+    public readonly budget: number
+  ) {
+    super(
+      `Prompt for ${model} needs ~${promptTokens} tokens but only ${budget} fit in its context window`
+    );
+    this.name = "ContextOverflowError";
+  }
+}
+
+interface ModelContext {
+  window: number;
+  charsPerToken: number;
+}
+
+const DEFAULT_CONTEXT: ModelContext = { window: 128_000, charsPerToken: 4 };
+
+const MODEL_CONTEXT: Record<string, ModelContext> = {
+  "gpt-4.1": { window: 1_047_576, charsPerToken: 4 },
+  "gpt-4o": { window: 128_000, charsPerToken: 4 },
+  "gpt-5": { window: 400_000, charsPerToken: 4 },
+  o3: { window: 200_000, charsPerToken: 4 },
+  "o4-mini": { window: 200_000, charsPerToken: 4 },
+  "claude-": { window: 200_000, charsPerToken: 3.5 },
+  "gemini-1.5-pro": { window: 2_097_152, charsPerToken: 4 },
+  "gemini-": { window: 1_048_576, charsPerToken: 4 },
+  "mock-": { window: 32_768, charsPerToken: 4 },
+};
+
+// per-message framing (role markers, separators)
+const MESSAGE_OVERHEAD = 4;
+// head of a file kept in its outline
+const SUMMARY_HEAD_LINES = 12;
+const SUMMARY_OUTLINE_LINES = 40;
+// no single file may take more than this share of the snapshot budget in full
+const MAX_FILE_SHARE = 0.25;
+// slack for the estimate being off
+const SAFETY_MARGIN = 0.05;
+
+const OUTLINE_LINE =
+  /^\s*(?:export\b|import\b|(?:async\s+)?function\b|class\b|interface\b|type\s+\w+\s*=|def\s|(?:const|let|var)\s+\w+\s*=\s*(?:async\s*)?(?:\(|function)|<(?:section|header|footer|nav|main|form|script|link|template)\b|[.#]?[\w-]+(?:[\s,>+~.#:\w-]*)\{\s*$|@media\b)/;
+
+const ENTRY_FILE = /(?:^|\/)(?:index\.html?|package\.json|(?:main|app|index)\.(?:[cm]?[jt]sx?|vue|svelte|css))$/i;
+const CONFIG_FILE = /(?:^|\/)(?:readme\.md|tsconfig\.json|(?:vite|webpack|tailwind|next)\.config\.[cm]?[jt]s)$/i;
+const SOURCE_FILE = /\.(?:html?|css|scss|[cm]?[jt]sx?|vue|svelte|json|md|py|sql)$/i;
+const LOW_VALUE_FILE =
+  /(?:^|\/)(?:package-lock\.json|yarn\.lock|pnpm-lock\.yaml)$|\.(?:map|lock|log|svg|csv)$|\.min\.(?:js|css)$/i;
+
+export class ContextManager {
+  private windows: Record<string, number> | undefined;
+
+  private modelContext(model: string): ModelContext {
+    const id = model.toLowerCase();
+    const key = Object.keys(MODEL_CONTEXT)
+      .filter((prefix) => id.startsWith(prefix))
+      .sort((a, b) => b.length - a.length)[0];
+    return key ? MODEL_CONTEXT[key] : DEFAULT_CONTEXT;
+  }
+
+  private windowOverrides() {
+    if (!this.windows) {
+      try {
+        this.windows = JSON.parse(process.env.LLM_CONTEXT_WINDOWS || "{}");
+      } catch (err) {
+        console.warn("[ContextManager] ignoring invalid LLM_CONTEXT_WINDOWS", err);
+        this.windows = {};
+      }
+    }
+    return this.windows!;
+  }
+
+  /** Context window of a model, in tokens. */
+  contextWindow(model: string) {
+    const overrides = this.windowOverrides();
+    const id = model.toLowerCase();
+    const key = Object.keys(overrides)
+      .filter((prefix) => id.startsWith(prefix.toLowerCase()))
+      .sort((a, b) => b.length - a.length)[0];
+    return key ? Number(overrides[key]) : this.modelContext(model).window;
+  }
+
+  estimateTokens(text: string, model: string) {
+    if (!text) return 0;
+    return Math.ceil(text.length / this.modelContext(model).charsPerToken);
+  }
+
+  messageTokens(messages: ContextMessage[], model: string) {
+    return messages.reduce(
+      (sum, m) => sum + MESSAGE_OVERHEAD + this.estimateTokens(m.content, model),
+      0
+    );
+  }
+
+  snapshotBudget() {
+    const value = Number(process.env.LLM_SNAPSHOT_TOKENS ?? 60_000);
+    return Number.isFinite(value) && value >= 0 ? value : 60_000;
+  }
+
+  /**
+   * Pack messages and snapshot into the model's window. System messages and
+   * the last message are kept as they are; earlier messages are shortened
+   * from the middle when they alone overflow. The snapshot goes in as one
+   * user message right after the system messages. Throws
+   * ContextOverflowError when even the kept messages do not fit.
+   */
+  pack<M extends ContextMessage>(request: PackRequest<M>): PackedContext {
+    const { model } = request;
+    const window = this.contextWindow(model);
+    const toolTokens = request.tools?.length
+      ? this.estimateTokens(JSON.stringify(request.tools), model)
+      : 0;
+    const budget = Math.max(
+      0,
+      Math.floor(window * (1 - SAFETY_MARGIN)) - request.maxOutputTokens - toolTokens
+    );
+
+    const messages: ContextMessage[] = request.messages.map((m) => ({
+      role: m.role,
+      content: String(m.content ?? ""),
+      ...(m.cache ? { cache: true } : {}),
+    }));
+    const trimmedMessages = this.trimMessages(messages, model, budget);
+    const messageTokens = this.messageTokens(messages, model);
+    if (messageTokens > budget) {
+      throw new ContextOverflowError(model, messageTokens + toolTokens, budget + toolTokens);
+    }
+
+    const files = request.snapshot ?? [];
+    const snapshotTokens = Math.min(
+      this.snapshotBudget(),
+      budget - messageTokens - MESSAGE_OVERHEAD
+    );
+    const snapshot = this.packSnapshot(files, model, snapshotTokens, request.focus);
+
+    const packed = [...messages];
+    if (files.length) {
+      const firstOther = packed.findIndex((m) => m.role !== "system");
+      // right after the system prompt, so both form a prefix the providers can cache
+      packed.splice(firstOther === -1 ? packed.length : firstOther, 0, {
+        role: "user",
+        content: snapshot.text,
+        cache: true,
+      });
+    }
+
+    return {
+      messages: packed,
+      report: {
+        model,
+        window,
+        budget,
+        promptTokens: this.messageTokens(packed, model) + toolTokens,
+        trimmedMessages,
+        snapshot: { ...snapshot.counts, files: files.length, tokens: snapshot.tokens },
+      },
+    };
+  }
+
+  /** Shorten non-system messages other than the last, longest first, until they fit. */
+  private trimMessages(messages: ContextMessage[], model: string, budget: number) {
+    const trimmed = new Set<number>();
+    let excess = this.messageTokens(messages, model) - budget;
+    const candidates = messages
+      .map((m, index) => ({ index, tokens: this.estimateTokens(m.content, model) }))
+      .filter(({ index }) => messages[index].role !== "system" && index < messages.length - 1)
+      .sort((a, b) => b.tokens - a.tokens);
+
+    for (const { index, tokens } of candidates) {
+      if (excess <= 0) break;
+      const keep = Math.max(0, tokens - excess - 16);
+      const content = messages[index].content;
+      const chars = Math.floor((content.length * keep) / Math.max(tokens, 1));
+      const head = content.slice(0, Math.ceil(chars / 2));
+      const tail = content.slice(content.length - Math.floor(chars / 2));
+      messages[index] = {
+        ...messages[index],
+        content: `${head}\n[... ${tokens - keep} tokens omitted to fit the context window ...]\n${tail}`,
+      };
+      trimmed.add(index);
+      excess = this.messageTokens(messages, model) - budget;
+    }
+    return trimmed.size;
+  }
+
+  /** Higher is more useful to the model. */
+  private filePriority(file: ContextFile, focus: string) {
+    const filePath = file.path.replace(/\\/g, "/");
+    const base = filePath.split("/").pop() ?? filePath;
+    let score = 0;
+    if (focus && (focus.includes(filePath) || focus.includes(base))) score += 100;
+    if (ENTRY_FILE.test(filePath)) score += 30;
+    if (CONFIG_FILE.test(filePath)) score += 10;
+    if (SOURCE_FILE.test(filePath)) score += 5;
+    if (LOW_VALUE_FILE.test(filePath)) score -= 50;
+    return score - filePath.split("/").length;
+  }
+
+  private packSnapshot(
+    files: ContextFile[],
+    model: string,
+    budget: number,
+    focus = ""
+  ) {
+    const counts: Record<FilePlacement, number> = { full: 0, summary: 0, path: 0, omitted: 0 };
+    const ranked = files
+      .map((file) => ({
+        file,
+        priority: this.filePriority(file, focus),
+        tokens: this.estimateTokens(file.content, model),
+      }))
+      .sort((a, b) => b.priority - a.priority || a.tokens - b.tokens);
+
+    const sections: string[] = [];
+    const pathOnly: string[] = [];
+    let used = 0;
+    const fits = (text: string) => used + this.estimateTokens(text, model) <= budget;
+    const take = (text: string) => (used += this.estimateTokens(text, model));
+
+    for (const { file, tokens } of ranked) {
+      const full = `--- ${file.path} ---\n${file.content}\n`;
+      if (tokens <= budget * MAX_FILE_SHARE && fits(full)) {
+        sections.push(full);
+        take(full);
+        counts.full++;
+        continue;
+      }
+      const summary = `--- ${file.path} (outline of ${lineCount(file.content)} lines) ---\n${summarizeFile(file.content)}\n`;
+      if (fits(summary)) {
+        sections.push(summary);
+        take(summary);
+        counts.summary++;
+        continue;
+      }
+      const listed = `- ${file.path}\n`;
+      if (fits(listed)) {
+        pathOnly.push(listed);
+        take(listed);
+        counts.path++;
+        continue;
+      }
+      counts.omitted++;
+    }
+
+    const header =
+      `PROJECT SNAPSHOT (${files.length} files: ${counts.full} in full, ${counts.summary} outlined, ` +
+      `${counts.path} by path only, ${counts.omitted} omitted to fit the context window)`;
+    const text = [
+      header,
+      "",
+      ...sections,
+      ...(pathOnly.length ? ["Other files (path only):", pathOnly.join("").trimEnd()] : []),
+    ]
+      .join("\n")
+      .trimEnd();
+    return { text, counts, tokens: this.estimateTokens(text, model) };
+  }
+}
+
+function lineCount(content: string) {
+  return content ? content.split("\n").length : 0;
+}
+
+/** Head of a file plus its declaration-looking lines (exports, functions, sections, selectors). */
+export function summarizeFile(content: string) {
+  const lines = content.split("\n");
+  const clip = (line: string) => line.trimEnd().slice(0, 160);
+  const head = lines.slice(0, SUMMARY_HEAD_LINES).map(clip);
+  const outline = lines
+    .slice(SUMMARY_HEAD_LINES)
+    .filter((line) => OUTLINE_LINE.test(line))
+    .slice(0, SUMMARY_OUTLINE_LINES)
+    .map(clip);
+  return [...head, ...(outline.length ? ["...", ...outline] : []), "..."].join("\n");
+}
+
+export function defaultContextMode(): "packed" | "chunked" {
+  return process.env.LLM_CONTEXT_MODE === "chunked" ? "chunked" : "packed";
+}
+
+export default new ContextManager();
@@ -0,0 +1,153 @@
+// src/llm/generation.registry.ts
+// In-flight generations, so a client can cancel one with the `ai:abort`
+// socket event. Each generation owns an AbortController whose signal is
+// passed down to the model streams, spawned commands and file-emission loops.
+// When a run stops early its partial results are written to
+// GENERATION_PARTIALS_DIR (default ./generations/partials) and the owning
+// socket receives `ai:aborted`.
+import fs from "fs-extra";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+
+export interface Generation {
+  id: string;
+  socketId?: string;
+  controller: AbortController;
+  signal: AbortSignal;
+  startedAt: string;
+}
+
+/** What had been produced when the run stopped (streamed text, tool args...). */
+export type GenerationPartial = Record<string, any>;
+
+export class GenerationAbortedError extends Error {
+  constructor(public readonly partial: GenerationPartial = {}) {
+    super("Generation aborted");
+    this.name = "GenerationAbortedError";
+  }
+}
+
+/** True for our own abort error and the AbortErrors raised by fetch / the SDKs. */
+export function isAbortError(err: any, signal?: AbortSignal) {
+  return (
+    Boolean(signal?.aborted) ||
+    err instanceof GenerationAbortedError ||
+    err?.name === "AbortError" ||
+    err?.name === "APIUserAbortError"
+  );
+}
+
+export function throwIfAborted(signal?: AbortSignal, partial?: GenerationPartial) {
+  if (signal?.aborted) throw new GenerationAbortedError(partial);
+}
+
+function safeId(id: string) {
+  return id.replace(/[^a-zA-Z0-9_.-]/g, "_").slice(0, 128);
+}
+
+// client-chosen ids are only unique per socket
+function registryKey(id: string, socketId?: string) {
+  return socketId ? `${socketId}:${id}` : id;
+}
+
+export class GenerationRegistry {
+  // registryKey -> generation
+  private readonly active = new Map<string, Generation>();
+  private readonly partialsDir = path.resolve(
+    process.cwd(),
+    process.env.GENERATION_PARTIALS_DIR || "generations/partials"
+  );
+
+  /** Register a generation; `requestedId` lets the client pick the id it will abort with. */
+  start(socketId?: string, requestedId?: string): Generation {
+    const id = requestedId ? safeId(String(requestedId)) : uuidv4();
+    // a retried request reusing its id supersedes the old run of the same
+    // socket; another socket's run with that id is a different entry
+    this.active.get(registryKey(id, socketId))?.controller.abort();
+
+    const controller = new AbortController();
+    const generation: Generation = {
+      id,
+      socketId,
+      controller,
+      signal: controller.signal,
+      startedAt: new Date().toISOString(),
+    };
+    this.active.set(registryKey(id, socketId), generation);
+    return generation;
+  }
+
+  get(id: string, socketId?: string) {
+    return this.lookup(safeId(String(id ?? "")), socketId);
+  }
+
+  /** Abort a running generation. Only the socket that started it may abort it. */
+  abort(id: string, socketId?: string): boolean {
+    const generation = this.get(id, socketId);
+    if (!generation) return false;
+    console.log(`[GenerationRegistry] aborting ${generation.id}`);
+    generation.controller.abort();
+    return true;
+  }
+
+  finish(generation: Generation) {
+    // a superseded run must not unregister its replacement
+    const key = registryKey(generation.id, generation.socketId);
+    if (this.active.get(key) === generation) {
+      this.active.delete(key);
+    }
+  }
+
+  // the socket's own run, else one no socket owns (started without a socket)
+  private lookup(id: string, socketId?: string) {
+    return (socketId && this.active.get(registryKey(id, socketId))) || this.active.get(id);
+  }
+
+  /**
+   * Persist the partial results of an aborted generation, notify its socket
+   * with `ai:aborted` and drop it from the registry. Returns the file written.
+   */
+  async aborted(generation: Generation, partial: GenerationPartial) {
+    let partialPath: string | null = null;
+    try {
+      partialPath = path.join(this.partialsDir, `${generation.id}.json`);
+      await fs.outputFile(
+        partialPath,
+        JSON.stringify(
+          {
+            id: generation.id,
+            startedAt: generation.startedAt,
+            abortedAt: new Date().toISOString(),
+            ...partial,
+          },
+          null,
+          2
+        ),
+        "utf8"
+      );
+    } catch (err) {
+      partialPath = null;
+      console.warn(`[GenerationRegistry] failed to persist partial ${generation.id}`, err);
+    }
+
+    try {
+      const io = (global as any).__expressIoInstance;
+      if (io && generation.socketId) {
+        io.to(generation.socketId).emit("ai:aborted", {
+          id: generation.id,
+          stage: partial.stage,
+          partialPath,
+        });
+      }
+    } catch (err) {
+      console.warn("Socket emit error:", err);
+    }
+
+    this.finish(generation);
+    return partialPath;
+  }
+}
+
+const generationRegistry = new GenerationRegistry();
+
+export default generationRegistry;
@@ -0,0 +1,209 @@
+// src/llm/llm.cassette.ts
+// Record/replay of model traffic, for reproducing bad generations.
+//
+//   LLM_CASSETTE_MODE=record  every call is forwarded and its stream of events
+//                             (text / tool-call deltas, original boundaries) saved
+//   LLM_CASSETTE_MODE=replay  calls are served from disk; a miss is an error
+//   LLM_CASSETTE_DIR          default ./cassettes/llm
+//
+// Cassettes live at <dir>/<provider>/<key>.json where the key hashes the
+// normalised request (messages, tools, tool choice, model, response format).
+// Tool-call ids are left out of the key since providers generate fresh ones.
+import crypto from "crypto";
+import fs from "fs-extra";
+import path from "path";
+import { collectStream, eventsFromResponse } from "./llm.messages";
+import {
+  LlmChatRequest,
+  LlmChatResponse,
+  LlmEmbedRequest,
+  LlmError,
+  LlmProvider,
+  LlmStreamEvent,
+} from "./llm.types";
+
+export type CassetteMode = "off" | "record" | "replay";
+
+interface ChatCassette {
+  kind: "chat";
+  key: string;
+  provider: string;
+  model: string;
+  recordedAt: string;
+  request: Omit<LlmChatRequest, "signal">;
+  events: LlmStreamEvent[];
+}
+
+interface EmbedCassette {
+  kind: "embed";
+  key: string;
+  provider: string;
+  recordedAt: string;
+  request: LlmEmbedRequest;
+  vectors: number[][];
+}
+
+export function cassetteMode(): CassetteMode {
+  const mode = (process.env.LLM_CASSETTE_MODE || "off").trim().toLowerCase();
+  if (mode === "record" || mode === "replay") return mode;
+  return "off";
+}
+
+function normalizeText(text: string) {
+  return String(text ?? "").replace(/\r\n/g, "\n").trim();
+}
+
+function hash(value: unknown) {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify(value))
+    .digest("hex")
+    .slice(0, 32);
+}
+
+export function chatCassetteKey(model: string, request: LlmChatRequest) {
+  return hash({
+    model,
+    messages: request.messages.map((m) => ({
+      role: m.role,
+      content: normalizeText(m.content),
+      toolCalls: m.toolCalls?.map((c) => ({ name: c.name, arguments: c.arguments })),
+      name: m.name,
+    })),
+    tools: request.tools?.map((t) => ({ name: t.name, parameters: t.parameters })),
+    toolChoice: request.toolChoice ?? "auto",
+    responseFormat: request.responseFormat ?? "text",
+  });
+}
+
+export function embedCassetteKey(model: string, request: LlmEmbedRequest) {
+  return hash({ model, input: request.input, dimensions: request.dimensions });
+}
+
+/** Stream events equivalent to a final response, for cassettes recorded via chat(). */
+/**
+ * Wraps a provider so its traffic is recorded to / replayed from cassette
+ * files. Streaming playback yields the recorded events one by one.
+ */
+export class CassetteProvider implements LlmProvider {
+  readonly name: LlmProvider["name"];
+  readonly defaultModel: string;
+  private readonly dir = path.resolve(
+    process.cwd(),
+    process.env.LLM_CASSETTE_DIR || "cassettes/llm"
+  );
+
+  constructor(
+    private readonly inner: LlmProvider,
+    private readonly mode: Exclude<CassetteMode, "off">
+  ) {
+    this.name = inner.name;
+    this.defaultModel = inner.defaultModel;
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    if (this.mode === "replay") return collectStream(this.stream(request));
+
+    const response = await this.inner.chat(request);
+    await this.save(this.chatCassette(request, eventsFromResponse(response)));
+    return response;
+  }
+
+  async *stream(request: LlmChatRequest): AsyncIterable<LlmStreamEvent> {
+    if (this.mode === "replay") {
+      const cassette = await this.load<ChatCassette>(
+        this.chatKey(request),
+        "chat"
+      );
+      for (const event of cassette.events) {
+        request.signal?.throwIfAborted();
+        yield event;
+      }
+      return;
+    }
+
+    // only complete streams are saved; an aborted one leaves no cassette
+    const events: LlmStreamEvent[] = [];
+    for await (const event of this.inner.stream(request)) {
+      events.push(event);
+      yield event;
+    }
+    await this.save(this.chatCassette(request, events));
+  }
+
+  async embed(request: LlmEmbedRequest): Promise<number[][]> {
+    const key = embedCassetteKey(request.model || this.defaultModel, request);
+    if (this.mode === "replay") {
+      return (await this.load<EmbedCassette>(key, "embed")).vectors;
+    }
+
+    const vectors = await this.inner.embed(request);
+    await this.save<EmbedCassette>({
+      kind: "embed",
+      key,
+      provider: this.name,
+      recordedAt: new Date().toISOString(),
+      request,
+      vectors,
+    });
+    return vectors;
+  }
+
+  private chatKey(request: LlmChatRequest) {
+    return chatCassetteKey(request.model || this.defaultModel, request);
+  }
+
+  private chatCassette(
+    request: LlmChatRequest,
+    events: LlmStreamEvent[]
+  ): ChatCassette {
+    const { signal: _signal, ...rest } = request;
+    return {
+      kind: "chat",
+      key: this.chatKey(request),
+      provider: this.name,
+      model: request.model || this.defaultModel,
+      recordedAt: new Date().toISOString(),
+      request: rest,
+      events,
+    };
+  }
+
+  private file(key: string) {
+    return path.join(this.dir, this.name, `${key}.json`);
+  }
+
+  private async save<T extends { key: string }>(cassette: T) {
+    try {
+      await fs.outputFile(
+        this.file(cassette.key),
+        JSON.stringify(cassette, null, 2),
+        "utf8"
+      );
+    } catch (err) {
+      // recording is best effort and must not fail the call
+      console.warn(`[CassetteProvider] failed to write cassette ${cassette.key}`, err);
+    }
+  }
+
+  private async load<T extends ChatCassette | EmbedCassette>(
+    key: string,
+    kind: T["kind"]
+  ): Promise<T> {
+    const file = this.file(key);
+    if (!(await fs.pathExists(file))) {
+      throw new LlmError(this.name, `No ${kind} cassette ${key} in ${path.dirname(file)}`);
+    }
+    const cassette = (await fs.readJson(file)) as T;
+    if (cassette.kind !== kind) {
+      throw new LlmError(this.name, `Cassette ${key} is a ${cassette.kind} cassette, expected ${kind}`);
+    }
+    return cassette;
+  }
+}
+
+/** Applies LLM_CASSETTE_MODE to a freshly created provider. */
+export function withCassette(provider: LlmProvider): LlmProvider {
+  const mode = cassetteMode();
+  return mode === "off" ? provider : new CassetteProvider(provider, mode);
+}
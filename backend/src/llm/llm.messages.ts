@@ -0,0 +1,199 @@
+// src/llm/llm.messages.ts
+// Conversions between the shapes used around the codebase (OpenAI chat
+// messages, legacy `functions`, Anthropic tools) and the neutral LLM types.
+import {
+  LlmChatResponse,
+  LlmFinishReason,
+  LlmMessage,
+  LlmProviderName,
+  LlmStreamEvent,
+  LlmTool,
+  LlmToolCall,
+  LlmUsage,
+} from "./llm.types";
+
+function textOf(content: any): string {
+  if (content === null || content === undefined) return "";
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((part) =>
+        typeof part === "string" ? part : part?.text ?? part?.content ?? ""
+      )
+      .join("");
+  }
+  if (typeof content?.text === "string") return content.text;
+  return JSON.stringify(content);
+}
+
+/** Accepts OpenAI-style messages (including tool_calls / function roles). */
+export function toLlmMessages(messages: any[]): LlmMessage[] {
+  return messages.map((m): LlmMessage => {
+    const role = String(m?.role ?? "user").toLowerCase();
+    const content = textOf(m?.content ?? m?.message);
+    const cache = m?.cache === true ? { cache: true } : {};
+
+    if (role === "tool" || role === "function") {
+      return { role: "tool", content, toolCallId: m.tool_call_id, name: m.name };
+    }
+    if (role === "assistant") {
+      const toolCalls: LlmToolCall[] = (m.tool_calls ?? []).map((c: any) => ({
+        id: String(c.id ?? ""),
+        name: c.function?.name ?? c.name,
+        arguments: c.function?.arguments ?? c.arguments ?? "{}",
+      }));
+      if (m.function_call?.name) {
+        toolCalls.push({
+          id: "",
+          name: m.function_call.name,
+          arguments: m.function_call.arguments ?? "{}",
+        });
+      }
+      return toolCalls.length
+        ? { role: "assistant", content, toolCalls, ...cache }
+        : { role: "assistant", content, ...cache };
+    }
+    return { role: role === "system" ? "system" : "user", content, ...cache };
+  });
+}
+
+/**
+ * Accepts OpenAI tools ({type:"function", function}), legacy OpenAI
+ * functions ({name, parameters}) and Anthropic tools ({name, input_schema}).
+ */
+export function toLlmTools(tools: readonly any[] = []): LlmTool[] {
+  return tools
+    .map((t) => (t?.type === "function" && t.function ? t.function : t))
+    .filter((t) => t?.name)
+    .map((t) => ({
+      name: t.name,
+      description: t.description,
+      parameters: t.parameters ??
+        t.input_schema ?? { type: "object", properties: {} },
+    }));
+}
+
+/**
+ * OpenAI chat-completion view of a normalised response, for the callers that
+ * still read `choices[0].message.function_call` / `tool_calls`.
+ */
+export function toChatCompletion(response: LlmChatResponse) {
+  const [first] = response.toolCalls;
+  return {
+    object: "chat.completion",
+    provider: response.provider,
+    model: response.model,
+    choices: [
+      {
+        index: 0,
+        finish_reason: response.finishReason,
+        message: {
+          role: "assistant" as const,
+          content: response.text || null,
+          ...(first
+            ? {
+                function_call: { name: first.name, arguments: first.arguments },
+                tool_calls: response.toolCalls.map((c) => ({
+                  id: c.id,
+                  type: "function" as const,
+                  function: { name: c.name, arguments: c.arguments },
+                })),
+              }
+            : {}),
+        },
+      },
+    ],
+    usage: response.usage
+      ? {
+          prompt_tokens: response.usage.inputTokens,
+          completion_tokens: response.usage.outputTokens,
+          total_tokens: response.usage.inputTokens + response.usage.outputTokens,
+          prompt_tokens_details: {
+            cached_tokens: response.usage.cachedInputTokens ?? 0,
+          },
+        }
+      : undefined,
+  };
+}
+
+/** The events a stream producing `response` would have yielded. */
+export function eventsFromResponse(response: LlmChatResponse): LlmStreamEvent[] {
+  const events: LlmStreamEvent[] = [];
+  if (response.text) events.push({ type: "text", text: response.text });
+  response.toolCalls.forEach((call, index) => {
+    events.push({ type: "tool_call_start", index, id: call.id, name: call.name });
+    events.push({ type: "tool_call_delta", index, argumentsDelta: call.arguments });
+  });
+  events.push({ type: "done", response });
+  return events;
+}
+
+/** Drain a stream, forwarding each event, and return the final response. */
+export async function collectStream(
+  events: AsyncIterable<LlmStreamEvent>,
+  onEvent?: (event: LlmStreamEvent) => void
+): Promise<LlmChatResponse> {
+  let response: LlmChatResponse | undefined;
+  for await (const event of events) {
+    onEvent?.(event);
+    if (event.type === "done") response = event.response;
+  }
+  if (!response) throw new Error("LLM stream ended without a final response");
+  return response;
+}
+
+/**
+ * Accumulates text and indexed tool-call fragments while a provider stream
+ * is consumed and turns them into normalised events / the final response.
+ */
+export class StreamCollector {
+  private text = "";
+  private readonly calls = new Map<number, LlmToolCall>();
+  usage?: LlmUsage;
+  finishReason: LlmFinishReason = "stop";
+
+  constructor(
+    private readonly provider: LlmProviderName,
+    private readonly model: string
+  ) {}
+
+  addText(text: string): LlmStreamEvent {
+    this.text += text;
+    return { type: "text", text };
+  }
+
+  startToolCall(index: number, id: string, name: string): LlmStreamEvent {
+    this.calls.set(index, { id, name, arguments: "" });
+    return { type: "tool_call_start", index, id, name };
+  }
+
+  hasToolCall(index: number) {
+    return this.calls.has(index);
+  }
+
+  appendArguments(index: number, argumentsDelta: string): LlmStreamEvent {
+    const call = this.calls.get(index);
+    if (call) call.arguments += argumentsDelta;
+    return { type: "tool_call_delta", index, argumentsDelta };
+  }
+
+  done(): LlmStreamEvent {
+    const toolCalls = [...this.calls.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, c]) => ({ ...c, arguments: c.arguments || "{}" }));
+    return {
+      type: "done",
+      response: {
+        provider: this.provider,
+        model: this.model,
+        text: this.text,
+        toolCalls,
+        finishReason:
+          toolCalls.length && this.finishReason === "stop"
+            ? "tool_calls"
+            : this.finishReason,
+        usage: this.usage,
+      },
+    };
+  }
+}
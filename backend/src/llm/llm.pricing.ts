@@ -0,0 +1,71 @@
+// src/llm/llm.pricing.ts
+// List prices used to estimate the cost of a call, in USD per million tokens.
+// Models are matched by the longest id prefix; unknown models cost null.
+// LLM_PRICING='{"my-model":{"input":1,"output":2}}' adds or overrides entries.
+import { LlmUsage } from "./llm.types";
+
+export interface ModelPrice {
+  input: number;
+  // prompt tokens served from cache; defaults to `input`
+  cachedInput?: number;
+  // prompt tokens written to the cache; defaults to `input`
+  cacheWrite?: number;
+  output: number;
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gpt-4.1": { input: 2, cachedInput: 0.5, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, cachedInput: 0.1, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, cachedInput: 0.025, output: 0.4 },
+  "gpt-4o": { input: 2.5, cachedInput: 1.25, output: 10 },
+  "gpt-4o-mini": { input: 0.15, cachedInput: 0.075, output: 0.6 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  "claude-sonnet-4": { input: 3, cachedInput: 0.3, cacheWrite: 3.75, output: 15 },
+  "claude-opus-4": { input: 15, cachedInput: 1.5, cacheWrite: 18.75, output: 75 },
+  "claude-haiku-4": { input: 1, cachedInput: 0.1, cacheWrite: 1.25, output: 5 },
+  "claude-3-5-haiku": { input: 0.8, cachedInput: 0.08, cacheWrite: 1, output: 4 },
+  "gemini-2.0-flash": { input: 0.1, cachedInput: 0.025, output: 0.4 },
+  "gemini-2.5-flash": { input: 0.3, cachedInput: 0.075, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, cachedInput: 0.31, output: 10 },
+  "text-embedding-004": { input: 0, output: 0 },
+  "mock-": { input: 0, output: 0 },
+};
+
+let prices: Record<string, ModelPrice> | undefined;
+
+function loadPrices() {
+  if (!prices) {
+    let overrides: Record<string, ModelPrice> = {};
+    try {
+      overrides = JSON.parse(process.env.LLM_PRICING || "{}");
+    } catch (err) {
+      console.warn("[LlmPricing] ignoring invalid LLM_PRICING", err);
+    }
+    prices = { ...DEFAULT_PRICES, ...overrides };
+  }
+  return prices;
+}
+
+export function priceFor(model: string): ModelPrice | undefined {
+  const table = loadPrices();
+  const id = model.toLowerCase();
+  const key = Object.keys(table)
+    .filter((prefix) => id.startsWith(prefix.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? table[key] : undefined;
+}
+
+/** Estimated USD cost of one call, or null when the model has no known price. */
+export function estimateCost(model: string, usage: LlmUsage): number | null {
+  const price = priceFor(model);
+  if (!price) return null;
+  const cached = Math.min(usage.cachedInputTokens ?? 0, usage.inputTokens);
+  const written = Math.min(usage.cacheWriteTokens ?? 0, usage.inputTokens - cached);
+  const cost =
+    (usage.inputTokens - cached - written) * price.input +
+    cached * (price.cachedInput ?? price.input) +
+    written * (price.cacheWrite ?? price.input) +
+    usage.outputTokens * price.output;
+  return cost / 1_000_000;
+}
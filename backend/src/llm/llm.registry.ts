@@ -0,0 +1,123 @@
+// src/llm/llm.registry.ts
+// Picks the model provider for a call. Resolution order:
+//   1. provider requested for this call (request body / builder options)
+//   2. LLM_PROVIDER_<FEATURE>, e.g. LLM_PROVIDER_SQL=gemini
+//   3. LLM_PROVIDER
+//   4. the feature's historical default
+// Providers are wrapped for record/replay when LLM_CASSETTE_MODE is set, get
+// retries, rate limits and the feature's fallbacks (LLM_FALLBACK_<FEATURE>,
+// see llm.resilience), and every call is recorded in the usage ledger under
+// the requesting feature.
+import { AnthropicProvider } from "./providers/anthropic.provider";
+import { GeminiProvider } from "./providers/gemini.provider";
+import { MockProvider } from "./providers/mock.provider";
+import { OpenAIProvider } from "./providers/openai.provider";
+import { openAIEndpoint } from "./providers/openai.compat";
+import { withCassette } from "./llm.cassette";
+import { MeteredProvider } from "./usage.ledger";
+import { ResilientProvider } from "./llm.resilience";
+import {
+  LLM_PROVIDER_NAMES,
+  LlmFeature,
+  LlmProvider,
+  LlmProviderName,
+} from "./llm.types";
+
+const FEATURE_DEFAULTS: Record<LlmFeature, LlmProviderName> = {
+  chat: "openai",
+  builder: "anthropic",
+  docs: "openai",
+  sql: "openai",
+  editor: "anthropic",
+  embeddings: "openai",
+};
+
+export function isLlmProviderName(name: unknown): name is LlmProviderName {
+  return LLM_PROVIDER_NAMES.includes(name as LlmProviderName);
+}
+
+export class LlmRegistry {
+  // factories get the feature so endpoints can differ per feature (OPENAI_BASE_URL_<FEATURE>)
+  private readonly factories = new Map<string, (feature: LlmFeature) => LlmProvider>();
+  private readonly instances = new Map<string, LlmProvider>();
+  private readonly metered = new Map<string, LlmProvider>();
+
+  register(name: LlmProviderName, factory: (feature: LlmFeature) => LlmProvider) {
+    this.factories.set(name, factory);
+    for (const key of this.instances.keys()) {
+      if (key.startsWith(`${name}:`)) this.instances.delete(key);
+    }
+    // any chain may include this provider as a fallback
+    this.metered.clear();
+  }
+
+  resolveName(feature: LlmFeature = "chat", requested?: string): LlmProviderName {
+    const candidates = [
+      requested,
+      process.env[`LLM_PROVIDER_${feature.toUpperCase()}`],
+      process.env.LLM_PROVIDER,
+    ];
+    for (const candidate of candidates) {
+      if (!candidate) continue;
+      const name = candidate.trim().toLowerCase();
+      if (!isLlmProviderName(name)) {
+        throw new Error(
+          `Unknown LLM provider "${candidate}" (expected one of ${LLM_PROVIDER_NAMES.join(", ")})`
+        );
+      }
+      return name;
+    }
+    return FEATURE_DEFAULTS[feature];
+  }
+
+  /** Providers tried after `primary` when it is degraded, from LLM_FALLBACK_<FEATURE>. */
+  fallbackNames(feature: LlmFeature, primary: LlmProviderName): LlmProviderName[] {
+    const names: LlmProviderName[] = [];
+    const configured = process.env[`LLM_FALLBACK_${feature.toUpperCase()}`] ?? "";
+    for (const candidate of configured.split(",")) {
+      const name = candidate.trim().toLowerCase();
+      if (!name) continue;
+      if (!isLlmProviderName(name)) {
+        throw new Error(
+          `Unknown LLM fallback provider "${candidate.trim()}" (expected one of ${LLM_PROVIDER_NAMES.join(", ")})`
+        );
+      }
+      if (name !== primary && !names.includes(name)) names.push(name);
+    }
+    return names;
+  }
+
+  private instance(name: LlmProviderName, feature: LlmFeature): LlmProvider {
+    const key = `${name}:${feature}`;
+    let provider = this.instances.get(key);
+    if (!provider) {
+      const factory = this.factories.get(name);
+      if (!factory) throw new Error(`LLM provider "${name}" is not registered`);
+      provider = withCassette(factory(feature));
+      this.instances.set(key, provider);
+    }
+    return provider;
+  }
+
+  get(feature: LlmFeature = "chat", requested?: string): LlmProvider {
+    const name = this.resolveName(feature, requested);
+    const chain = [name, ...this.fallbackNames(feature, name)];
+    const key = `${feature}:${chain.join(">")}`;
+    let metered = this.metered.get(key);
+    if (!metered) {
+      const resilient = new ResilientProvider(chain.map((n) => this.instance(n, feature)));
+      metered = new MeteredProvider(resilient, feature);
+      this.metered.set(key, metered);
+    }
+    return metered;
+  }
+}
+
+const llmRegistry = new LlmRegistry();
+
+llmRegistry.register("openai", (feature) => new OpenAIProvider(openAIEndpoint(feature)));
+llmRegistry.register("anthropic", () => new AnthropicProvider());
+llmRegistry.register("gemini", () => new GeminiProvider());
+llmRegistry.register("mock", () => new MockProvider());
+
+export default llmRegistry;
@@ -0,0 +1,362 @@
+// src/llm/llm.resilience.ts
+// Retries, rate limits and provider fallback for model calls.
+//
+// - Rate-limit and overload answers (408/409/429/5xx/529) and dropped
+//   connections are retried with jittered exponential backoff
+//   (LLM_RETRY_ATTEMPTS, LLM_RETRY_BASE_MS, LLM_RETRY_MAX_MS); a retry-after /
+//   retry-after-ms header from the provider takes precedence.
+// - Each provider gets a concurrency and requests-per-minute budget shared
+//   by every feature, e.g. LLM_PROVIDER_LIMITS='{"anthropic":{"concurrency":2,"rpm":50}}'.
+// - A provider that is still rate limited or overloaded after its retries is
+//   marked degraded for a while (the retry-after, or LLM_DEGRADED_MS) and the
+//   call moves on to the feature's fallback, LLM_FALLBACK_<FEATURE>=openai.
+//   The fallback answers with its own default model.
+//
+// A stream is only retried or handed to the fallback before its first event;
+// once output has been forwarded the error reaches the caller.
+import { isAbortError } from "./generation.registry";
+import {
+  LlmChatRequest,
+  LlmChatResponse,
+  LlmEmbedRequest,
+  LlmProvider,
+  LlmProviderName,
+  LlmStreamEvent,
+} from "./llm.types";
+
+export interface ProviderLimits {
+  // calls in flight at once (0 = unlimited)
+  concurrency: number;
+  // calls started per rolling minute (0 = unlimited)
+  rpm: number;
+}
+
+const DEFAULT_LIMITS: ProviderLimits = { concurrency: 4, rpm: 0 };
+const RETRYABLE_STATUS = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+// statuses that say the provider itself is struggling, not this request
+const DEGRADING_STATUS = new Set([429, 503, 529]);
+const NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+function envNumber(name: string, fallback: number) {
+  const value = Number(process.env[name] ?? fallback);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function retryPolicy() {
+  return {
+    // retries after the first attempt
+    attempts: Math.floor(envNumber("LLM_RETRY_ATTEMPTS", 3)),
+    baseMs: envNumber("LLM_RETRY_BASE_MS", 500),
+    maxMs: envNumber("LLM_RETRY_MAX_MS", 30_000),
+  };
+}
+
+function statusOf(err: any): number | undefined {
+  const status = err?.status ?? err?.statusCode ?? err?.response?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+function header(err: any, name: string): string | undefined {
+  const headers = err?.headers ?? err?.response?.headers;
+  if (!headers) return undefined;
+  if (typeof headers.get === "function") return headers.get(name) ?? undefined;
+  return headers[name] ?? headers[name.toLowerCase()];
+}
+
+/** Delay the provider asked for, in ms, if any. */
+export function retryAfterMs(err: any): number | undefined {
+  if (typeof err?.retryAfterMs === "number") return err.retryAfterMs;
+  const ms = Number(header(err, "retry-after-ms"));
+  if (Number.isFinite(ms) && ms >= 0) return ms;
+  const value = header(err, "retry-after");
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function isRetryable(err: any, signal?: AbortSignal) {
+  if (isAbortError(err, signal)) return false;
+  const status = statusOf(err);
+  if (status !== undefined) return RETRYABLE_STATUS.has(status);
+  const code = err?.code ?? err?.cause?.code;
+  return (
+    NETWORK_CODES.has(code) ||
+    err?.name === "APIConnectionError" ||
+    err?.name === "APIConnectionTimeoutError" ||
+    /fetch failed|socket hang up|network/i.test(String(err?.message ?? ""))
+  );
+}
+
+function isDegrading(err: any) {
+  const status = statusOf(err);
+  return status === undefined ? isRetryable(err) : DEGRADING_STATUS.has(status);
+}
+
+/** Full-jitter exponential backoff, unless the provider named a delay. */
+export function backoffMs(attempt: number, err?: any) {
+  const { baseMs, maxMs } = retryPolicy();
+  const asked = retryAfterMs(err);
+  if (asked !== undefined) return Math.min(asked, maxMs);
+  return Math.floor(Math.random() * Math.min(maxMs, baseMs * 2 ** attempt));
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Concurrency slots and a rolling one-minute request window for one
+ * provider, plus the time until which it is considered degraded.
+ */
+export class ProviderBudget {
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+  private readonly started: number[] = [];
+  degradedUntil = 0;
+
+  constructor(
+    readonly provider: LlmProviderName,
+    readonly limits: ProviderLimits
+  ) {}
+
+  get degraded() {
+    return Date.now() < this.degradedUntil;
+  }
+
+  markDegraded(ms: number) {
+    this.degradedUntil = Math.max(this.degradedUntil, Date.now() + ms);
+    console.warn(
+      `[LlmResilience] ${this.provider} degraded for ${Math.round(ms / 1000)}s`
+    );
+  }
+
+  /** Wait for a slot and a free spot in the minute window; returns the release. */
+  async acquire(signal?: AbortSignal): Promise<() => void> {
+    const { concurrency, rpm } = this.limits;
+    if (concurrency > 0 && this.active >= concurrency) {
+      // the releasing call hands its slot over
+      await this.waitForSlot(signal);
+    } else {
+      this.active++;
+    }
+    try {
+      while (rpm > 0) {
+        const windowStart = Date.now() - 60_000;
+        while (this.started.length && this.started[0] <= windowStart) {
+          this.started.shift();
+        }
+        if (this.started.length < rpm) break;
+        await sleep(this.started[0] - windowStart, signal);
+      }
+    } catch (err) {
+      this.release();
+      throw err;
+    }
+    this.started.push(Date.now());
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.release();
+    };
+  }
+
+  private waitForSlot(signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason);
+      const onAbort = () => {
+        // gave up while queued: leave the line without taking a slot
+        const index = this.waiting.indexOf(waiter);
+        if (index >= 0) this.waiting.splice(index, 1);
+        reject(signal!.reason);
+      };
+      const waiter = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      this.waiting.push(waiter);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  private release() {
+    const next = this.waiting.shift();
+    if (next) next();
+    else this.active--;
+  }
+}
+
+const budgets = new Map<LlmProviderName, ProviderBudget>();
+
+function loadLimits(): Partial<Record<string, Partial<ProviderLimits>>> {
+  try {
+    return JSON.parse(process.env.LLM_PROVIDER_LIMITS || "{}");
+  } catch (err) {
+    console.warn("[LlmResilience] ignoring invalid LLM_PROVIDER_LIMITS", err);
+    return {};
+  }
+}
+
+/** Budget of a provider, shared by every feature that uses it. */
+export function providerBudget(provider: LlmProviderName) {
+  let budget = budgets.get(provider);
+  if (!budget) {
+    budget = new ProviderBudget(provider, {
+      ...DEFAULT_LIMITS,
+      ...loadLimits()[provider],
+    });
+    budgets.set(provider, budget);
+  }
+  return budget;
+}
+
+export function providerHealth() {
+  return [...budgets.values()].map((b) => ({
+    provider: b.provider,
+    limits: b.limits,
+    degraded: b.degraded,
+    degradedUntil: b.degraded ? new Date(b.degradedUntil).toISOString() : null,
+  }));
+}
+
+/**
+ * A provider chain: the primary plus its fallbacks. Calls go to the first
+ * provider that is not degraded (the last one is always tried), each with
+ * its own retries within the provider's budget.
+ */
+export class ResilientProvider implements LlmProvider {
+  readonly name: LlmProviderName;
+  readonly defaultModel: string;
+
+  constructor(private readonly chain: LlmProvider[]) {
+    this.name = chain[0].name;
+    this.defaultModel = chain[0].defaultModel;
+  }
+
+  private candidates() {
+    const healthy = this.chain.filter(
+      (p, i) => i === this.chain.length - 1 || !providerBudget(p.name).degraded
+    );
+    return healthy.length ? healthy : this.chain.slice(-1);
+  }
+
+  // the requested model only makes sense for the primary provider
+  private requestFor(provider: LlmProvider, request: LlmChatRequest) {
+    return provider === this.chain[0] ? request : { ...request, model: undefined };
+  }
+
+  private giveUp(provider: LlmProvider, err: any, last: boolean, signal?: AbortSignal) {
+    if (isAbortError(err, signal) || !isRetryable(err, signal)) throw err;
+    if (isDegrading(err)) {
+      providerBudget(provider.name).markDegraded(
+        retryAfterMs(err) ?? envNumber("LLM_DEGRADED_MS", 60_000)
+      );
+    }
+    if (last) throw err;
+    console.warn(
+      `[LlmResilience] ${provider.name} failed (${String(err?.message ?? err)}), falling back`
+    );
+  }
+
+  private async withRetries<T>(
+    provider: LlmProvider,
+    signal: AbortSignal | undefined,
+    call: () => Promise<T>
+  ): Promise<T> {
+    const { attempts } = retryPolicy();
+    const budget = providerBudget(provider.name);
+    for (let attempt = 0; ; attempt++) {
+      const release = await budget.acquire(signal);
+      try {
+        return await call();
+      } catch (err) {
+        if (attempt >= attempts || !isRetryable(err, signal)) throw err;
+        const delay = backoffMs(attempt, err);
+        console.warn(
+          `[LlmResilience] ${provider.name} retry ${attempt + 1}/${attempts} in ${delay}ms: ${String((err as any)?.message ?? err)}`
+        );
+        release();
+        await sleep(delay, signal);
+      } finally {
+        release();
+      }
+    }
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const chain = this.candidates();
+    for (let i = 0; ; i++) {
+      const provider = chain[i];
+      try {
+        return await this.withRetries(provider, request.signal, () =>
+          provider.chat(this.requestFor(provider, request))
+        );
+      } catch (err) {
+        this.giveUp(provider, err, i === chain.length - 1, request.signal);
+      }
+    }
+  }
+
+  async *stream(request: LlmChatRequest): AsyncIterable<LlmStreamEvent> {
+    const { attempts } = retryPolicy();
+    const chain = this.candidates();
+    for (let i = 0; ; i++) {
+      const provider = chain[i];
+      const budget = providerBudget(provider.name);
+      let started = false;
+      try {
+        for (let attempt = 0; ; attempt++) {
+          const release = await budget.acquire(request.signal);
+          try {
+            for await (const event of provider.stream(this.requestFor(provider, request))) {
+              started = true;
+              yield event;
+            }
+            return;
+          } catch (err) {
+            if (started || attempt >= attempts || !isRetryable(err, request.signal)) throw err;
+            const delay = backoffMs(attempt, err);
+            console.warn(
+              `[LlmResilience] ${provider.name} stream retry ${attempt + 1}/${attempts} in ${delay}ms: ${String((err as any)?.message ?? err)}`
+            );
+            release();
+            await sleep(delay, request.signal);
+          } finally {
+            release();
+          }
+        }
+      } catch (err) {
+        if (started) throw err;
+        this.giveUp(provider, err, i === chain.length - 1, request.signal);
+      }
+    }
+  }
+
+  // embeddings differ between providers, so they are retried but never fall back
+  embed(request: LlmEmbedRequest): Promise<number[][]> {
+    const primary = this.chain[0];
+    return this.withRetries(primary, undefined, () => primary.embed(request));
+  }
+}
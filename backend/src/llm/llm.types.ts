@@ -0,0 +1,122 @@
+// src/llm/llm.types.ts
+// Provider-neutral shapes shared by every model adapter.
+
+export const LLM_PROVIDER_NAMES = ["openai", "anthropic", "gemini", "mock"] as const;
+export type LlmProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+// Features that can be pointed at a different provider via LLM_PROVIDER_<FEATURE>
+export type LlmFeature =
+  | "chat"
+  | "builder"
+  | "docs"
+  | "sql"
+  | "editor"
+  | "embeddings";
+
+export type LlmRole = "system" | "user" | "assistant" | "tool";
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  // raw JSON text, exactly as produced by the model
+  arguments: string;
+}
+
+export interface LlmMessage {
+  role: LlmRole;
+  content: string;
+  // assistant turns that called tools
+  toolCalls?: LlmToolCall[];
+  // tool turns: the call being answered
+  toolCallId?: string;
+  name?: string;
+  // ends a stable prefix (e.g. a project snapshot) worth a prompt-cache breakpoint
+  cache?: boolean;
+}
+
+export interface LlmTool {
+  name: string;
+  description?: string;
+  // JSON schema of the arguments object
+  parameters: Record<string, any>;
+}
+
+export type LlmToolChoice = "auto" | "none" | "required" | { name: string };
+
+export interface LlmChatRequest {
+  messages: LlmMessage[];
+  tools?: LlmTool[];
+  toolChoice?: LlmToolChoice;
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  responseFormat?: "text" | "json";
+  signal?: AbortSignal;
+}
+
+/** Per-call provider selection accepted by the legacy helpers in utils/. */
+export interface LlmCallOptions {
+  provider?: string;
+  feature?: LlmFeature;
+  model?: string;
+  // cancels the underlying model stream (see generation.registry)
+  signal?: AbortSignal;
+}
+
+export interface LlmUsage {
+  // all prompt tokens, including the ones served from the provider's cache
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens?: number;
+  // prompt tokens written to the provider's cache by this call (Anthropic)
+  cacheWriteTokens?: number;
+}
+
+export type LlmFinishReason = "stop" | "tool_calls" | "length" | "other";
+
+export interface LlmChatResponse {
+  provider: LlmProviderName;
+  model: string;
+  text: string;
+  toolCalls: LlmToolCall[];
+  finishReason: LlmFinishReason;
+  usage?: LlmUsage;
+}
+
+/**
+ * Normalised streaming events. Tool calls are announced once with
+ * tool_call_start and their JSON arguments follow as tool_call_delta
+ * fragments; `done` always comes last and carries the aggregated response.
+ */
+export type LlmStreamEvent =
+  | { type: "text"; text: string }
+  | { type: "tool_call_start"; index: number; id: string; name: string }
+  | { type: "tool_call_delta"; index: number; argumentsDelta: string }
+  | { type: "done"; response: LlmChatResponse };
+
+export interface LlmEmbedRequest {
+  input: string[];
+  model?: string;
+  dimensions?: number;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly defaultModel: string;
+  chat(request: LlmChatRequest): Promise<LlmChatResponse>;
+  stream(request: LlmChatRequest): AsyncIterable<LlmStreamEvent>;
+  embed(request: LlmEmbedRequest): Promise<number[][]>;
+}
+
+export class LlmError extends Error {
+  constructor(
+    public readonly provider: string,
+    message: string,
+    public readonly status?: number,
+    // delay the provider asked for before a retry (retry-after)
+    public readonly retryAfterMs?: number
+  ) {
+    super(`[${provider}] ${message}`);
+    this.name = "LlmError";
+  }
+}
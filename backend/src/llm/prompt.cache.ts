@@ -0,0 +1,58 @@
+// src/llm/prompt.cache.ts
+// Prompt caching shared by the providers. A request is laid out as a stable
+// prefix (tools, system prompt, messages flagged `cache`, such as the
+// project snapshot) followed by the turns that change between calls:
+// - Anthropic gets cache_control breakpoints on the tools, the system prompt,
+//   the last flagged message and the final turn (the 4 the API allows).
+// - OpenAI caches any repeated prefix by itself; system messages are moved to
+//   the front so the prefix stays byte-identical, and a prompt_cache_key
+//   derived from it routes calls sharing it to the same cache.
+// LLM_PROMPT_CACHE=off disables both; LLM_PROMPT_CACHE_TTL=1h asks Anthropic
+// for the longer cache lifetime (default 5m).
+import crypto from "crypto";
+import { LlmChatRequest, LlmMessage } from "./llm.types";
+
+export function promptCachingEnabled() {
+  return process.env.LLM_PROMPT_CACHE !== "off";
+}
+
+export function cacheControl(): { type: "ephemeral"; ttl?: "5m" | "1h" } {
+  return process.env.LLM_PROMPT_CACHE_TTL === "1h"
+    ? { type: "ephemeral", ttl: "1h" }
+    : { type: "ephemeral" };
+}
+
+/** System messages first, everything else in its original order. */
+export function stablePrefixOrder(messages: LlmMessage[]): LlmMessage[] {
+  return [
+    ...messages.filter((m) => m.role === "system"),
+    ...messages.filter((m) => m.role !== "system"),
+  ];
+}
+
+/** Index of the last message flagged as the end of the stable prefix, or -1. */
+export function lastCacheBreakpoint(messages: LlmMessage[]) {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].cache) return i;
+  }
+  return -1;
+}
+
+/** Hash of the stable prefix: model, tools, system prompt and flagged messages. */
+export function promptCacheKey(request: LlmChatRequest, model: string) {
+  const ordered = stablePrefixOrder(request.messages);
+  const end = lastCacheBreakpoint(ordered);
+  const prefix =
+    end === -1 ? ordered.filter((m) => m.role === "system") : ordered.slice(0, end + 1);
+  const hash = crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify({
+        model,
+        tools: request.tools ?? [],
+        prefix: prefix.map((m) => [m.role, m.content]),
+      })
+    )
+    .digest("hex");
+  return `prefix-${hash.slice(0, 32)}`;
+}
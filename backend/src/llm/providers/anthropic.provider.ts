@@ -0,0 +1,237 @@
+// src/llm/providers/anthropic.provider.ts
+import Anthropic from "@anthropic-ai/sdk";
+import type {
+  ContentBlockParam,
+  MessageCreateParamsBase,
+  MessageParam,
+  TextBlockParam,
+  ToolChoice,
+} from "@anthropic-ai/sdk/resources/messages.js";
+import { StreamCollector, collectStream } from "../llm.messages";
+import {
+  LlmChatRequest,
+  LlmChatResponse,
+  LlmEmbedRequest,
+  LlmError,
+  LlmFinishReason,
+  LlmMessage,
+  LlmProvider,
+  LlmStreamEvent,
+  LlmToolChoice,
+} from "../llm.types";
+import {
+  cacheControl,
+  lastCacheBreakpoint,
+  promptCachingEnabled,
+} from "../prompt.cache";
+
+const DEFAULT_MAX_TOKENS = 4096;
+
+function parseArguments(raw: string) {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * System turns move to the `system` parameter; tool results become user turns.
+ * `breakpoint` is the block that ends the last message flagged for caching.
+ */
+function toAnthropicMessages(messages: LlmMessage[]) {
+  const system: TextBlockParam[] = messages
+    .filter((m) => m.role === "system" && m.content)
+    .map((m) => ({ type: "text", text: m.content }));
+
+  const flagged = lastCacheBreakpoint(messages);
+  let breakpoint: ContentBlockParam | undefined;
+  const out: MessageParam[] = [];
+  for (const [index, m] of messages.entries()) {
+    if (m.role === "system") continue;
+
+    let role: MessageParam["role"] = "user";
+    let blocks: ContentBlockParam[];
+    if (m.role === "tool") {
+      blocks = [
+        { type: "tool_result", tool_use_id: m.toolCallId ?? "", content: m.content },
+      ];
+    } else if (m.role === "assistant") {
+      role = "assistant";
+      blocks = [
+        ...(m.content ? [{ type: "text" as const, text: m.content }] : []),
+        ...(m.toolCalls ?? []).map((c) => ({
+          type: "tool_use" as const,
+          id: c.id,
+          name: c.name,
+          input: parseArguments(c.arguments),
+        })),
+      ];
+    } else {
+      blocks = [{ type: "text", text: m.content }];
+    }
+    if (!blocks.length) continue;
+    if (index === flagged) breakpoint = blocks[blocks.length - 1];
+
+    // the API expects alternating turns; merge consecutive ones
+    const last = out[out.length - 1];
+    if (last?.role === role) {
+      (last.content as ContentBlockParam[]).push(...blocks);
+    } else {
+      out.push({ role, content: blocks });
+    }
+  }
+
+  return { system, messages: out, breakpoint };
+}
+
+/**
+ * cache_control on the tools, the system prompt, the flagged message and the
+ * final turn, so repeated prefixes and follow-up turns (tool repairs,
+ * external tool loops) are read from the cache (see prompt.cache).
+ */
+function addCacheBreakpoints(params: MessageCreateParamsBase, breakpoint?: ContentBlockParam) {
+  const control = cacheControl();
+  const mark = (block?: { cache_control?: unknown }) => {
+    if (block) block.cache_control = control;
+  };
+  mark(params.tools?.[params.tools.length - 1] as { cache_control?: unknown });
+  if (Array.isArray(params.system)) mark(params.system[params.system.length - 1]);
+  mark(breakpoint as { cache_control?: unknown });
+  const last = params.messages[params.messages.length - 1];
+  if (Array.isArray(last?.content)) {
+    mark(last.content[last.content.length - 1] as { cache_control?: unknown });
+  }
+}
+
+function toToolChoice(choice?: LlmToolChoice): ToolChoice | undefined {
+  if (!choice) return undefined;
+  if (typeof choice === "object") return { type: "tool", name: choice.name };
+  if (choice === "required") return { type: "any" };
+  return { type: choice };
+}
+
+function toFinishReason(reason?: string | null): LlmFinishReason {
+  if (reason === "end_turn" || reason === "stop_sequence") return "stop";
+  if (reason === "tool_use") return "tool_calls";
+  if (reason === "max_tokens") return "length";
+  return "other";
+}
+
+export class AnthropicProvider implements LlmProvider {
+  readonly name = "anthropic" as const;
+  readonly defaultModel =
+    process.env.ANTHROPIC_MODEL ||
+    process.env.CLAUDE_MODEL ||
+    "claude-sonnet-4-5-20250929";
+  private _client?: Anthropic;
+
+  private get client(): Anthropic {
+    if (!this._client) {
+      const apiKey = process.env.ANTHROPIC_API_KEY || process.env.CLAUDE_API_KEY;
+      if (!apiKey) {
+        throw new LlmError(this.name, "Missing ANTHROPIC_API_KEY / CLAUDE_API_KEY");
+      }
+      // retries are handled by llm.resilience
+      this._client = new Anthropic({
+        apiKey,
+        baseURL: process.env.ANTHROPIC_BASE_URL,
+        maxRetries: 0,
+      });
+    }
+    return this._client;
+  }
+
+  private params(request: LlmChatRequest): MessageCreateParamsBase {
+    const { system, messages, breakpoint } = toAnthropicMessages(request.messages);
+    const tools = request.tools?.length ? request.tools : undefined;
+    // no JSON mode on this API; ask for it in the system prompt instead
+    const jsonHint =
+      request.responseFormat === "json"
+        ? "Respond with a single valid JSON object and nothing else."
+        : "";
+
+    if (jsonHint) system.push({ type: "text", text: jsonHint });
+
+    const params: MessageCreateParamsBase = {
+      model: request.model || this.defaultModel,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      system: system.length ? system : undefined,
+      messages,
+      tools: tools?.map((t) => ({
+        name: t.name,
+        description: t.description,
+        input_schema: { type: "object", ...t.parameters },
+      })),
+      tool_choice: tools ? toToolChoice(request.toolChoice) : undefined,
+      temperature: request.temperature,
+    };
+    if (promptCachingEnabled()) addCacheBreakpoints(params, breakpoint);
+    return params;
+  }
+
+  // Always streamed: the SDK refuses non-streaming calls whose max_tokens
+  // could take longer than its 10 minute request timeout.
+  chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    return collectStream(this.stream(request));
+  }
+
+  async *stream(request: LlmChatRequest): AsyncIterable<LlmStreamEvent> {
+    const params = this.params(request);
+    const stream = await this.client.messages.create(
+      { ...params, stream: true },
+      { signal: request.signal }
+    );
+    const collector = new StreamCollector(this.name, params.model);
+    // input_tokens excludes cache reads/writes; LlmUsage counts all of them
+    let usage = { input: 0, cacheRead: 0, cacheWrite: 0 };
+
+    for await (const event of stream) {
+      switch (event.type) {
+        case "message_start":
+          usage = {
+            input: event.message.usage.input_tokens,
+            cacheRead: event.message.usage.cache_read_input_tokens ?? 0,
+            cacheWrite: event.message.usage.cache_creation_input_tokens ?? 0,
+          };
+          break;
+        case "content_block_start":
+          if (event.content_block.type === "tool_use") {
+            yield collector.startToolCall(
+              event.index,
+              event.content_block.id,
+              event.content_block.name
+            );
+          }
+          break;
+        case "content_block_delta":
+          if (event.delta.type === "text_delta") {
+            yield collector.addText(event.delta.text);
+          } else if (event.delta.type === "input_json_delta") {
+            yield collector.appendArguments(event.index, event.delta.partial_json);
+          }
+          break;
+        case "message_delta":
+          collector.finishReason = toFinishReason(event.delta.stop_reason);
+          usage = {
+            input: event.usage.input_tokens ?? usage.input,
+            cacheRead: event.usage.cache_read_input_tokens ?? usage.cacheRead,
+            cacheWrite: event.usage.cache_creation_input_tokens ?? usage.cacheWrite,
+          };
+          collector.usage = {
+            inputTokens: usage.input + usage.cacheRead + usage.cacheWrite,
+            outputTokens: event.usage.output_tokens,
+            cachedInputTokens: usage.cacheRead,
+            cacheWriteTokens: usage.cacheWrite,
+          };
+          break;
+      }
+    }
+
+    yield collector.done();
+  }
+
+  async embed(_request: LlmEmbedRequest): Promise<number[][]> {
+    throw new LlmError(this.name, "Embeddings are not supported by this provider");
+  }
+}
@@ -0,0 +1,275 @@
+// src/llm/providers/gemini.provider.ts
+// Gemini over its REST API (generateContent / streamGenerateContent?alt=sse).
+import { v4 as uuidv4 } from "uuid";
+import { StreamCollector } from "../llm.messages";
+import {
+  LlmChatRequest,
+  LlmChatResponse,
+  LlmEmbedRequest,
+  LlmError,
+  LlmFinishReason,
+  LlmMessage,
+  LlmProvider,
+  LlmStreamEvent,
+  LlmToolChoice,
+  LlmUsage,
+} from "../llm.types";
+import { retryAfterMs } from "../llm.resilience";
+
+const BASE_URL =
+  process.env.GEMINI_BASE_URL ||
+  "https://generativelanguage.googleapis.com/v1beta";
+
+// JSON-schema keywords the function-declaration schema rejects
+const UNSUPPORTED_SCHEMA_KEYS = new Set(["$schema", "additionalProperties", "default"]);
+
+function cleanSchema(schema: any): any {
+  if (Array.isArray(schema)) return schema.map(cleanSchema);
+  if (!schema || typeof schema !== "object") return schema;
+  return Object.fromEntries(
+    Object.entries(schema)
+      .filter(([key]) => !UNSUPPORTED_SCHEMA_KEYS.has(key))
+      .map(([key, value]) => [key, cleanSchema(value)])
+  );
+}
+
+function parseArguments(raw: string) {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+function toContents(messages: LlmMessage[]) {
+  // functionResponse parts are matched by name, not by call id
+  const callNames = new Map<string, string>();
+  const contents: { role: "user" | "model"; parts: any[] }[] = [];
+
+  for (const m of messages) {
+    if (m.role === "system") continue;
+
+    let role: "user" | "model" = "user";
+    let parts: any[];
+    if (m.role === "assistant") {
+      role = "model";
+      parts = [
+        ...(m.content ? [{ text: m.content }] : []),
+        ...(m.toolCalls ?? []).map((c) => {
+          callNames.set(c.id, c.name);
+          return { functionCall: { name: c.name, args: parseArguments(c.arguments) } };
+        }),
+      ];
+    } else if (m.role === "tool") {
+      parts = [
+        {
+          functionResponse: {
+            name: m.name ?? callNames.get(m.toolCallId ?? "") ?? "tool",
+            response: { content: m.content },
+          },
+        },
+      ];
+    } else {
+      parts = [{ text: m.content }];
+    }
+    if (!parts.length) continue;
+
+    const last = contents[contents.length - 1];
+    if (last?.role === role) last.parts.push(...parts);
+    else contents.push({ role, parts });
+  }
+  return contents;
+}
+
+function toToolConfig(choice?: LlmToolChoice) {
+  if (!choice) return undefined;
+  if (typeof choice === "object") {
+    return {
+      functionCallingConfig: { mode: "ANY", allowedFunctionNames: [choice.name] },
+    };
+  }
+  const mode = { auto: "AUTO", none: "NONE", required: "ANY" }[choice];
+  return { functionCallingConfig: { mode } };
+}
+
+function toFinishReason(reason?: string): LlmFinishReason {
+  if (!reason || reason === "STOP") return "stop";
+  if (reason === "MAX_TOKENS") return "length";
+  return "other";
+}
+
+function toUsage(meta: any): LlmUsage | undefined {
+  if (!meta) return undefined;
+  return {
+    inputTokens: meta.promptTokenCount ?? 0,
+    outputTokens: meta.candidatesTokenCount ?? 0,
+    cachedInputTokens: meta.cachedContentTokenCount ?? 0,
+  };
+}
+
+export class GeminiProvider implements LlmProvider {
+  readonly name = "gemini" as const;
+  readonly defaultModel = process.env.GEMINI_MODEL || "gemini-2.0-flash";
+
+  private get apiKey(): string {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) throw new LlmError(this.name, "Missing GEMINI_API_KEY");
+    return apiKey;
+  }
+
+  private body(request: LlmChatRequest) {
+    const system = request.messages
+      .filter((m) => m.role === "system")
+      .map((m) => m.content)
+      .filter(Boolean)
+      .join("\n\n");
+    const tools = request.tools?.length ? request.tools : undefined;
+
+    return {
+      contents: toContents(request.messages),
+      ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+      ...(tools
+        ? {
+            tools: [
+              {
+                functionDeclarations: tools.map((t) => ({
+                  name: t.name,
+                  description: t.description,
+                  parameters: cleanSchema(t.parameters),
+                })),
+              },
+            ],
+            toolConfig: toToolConfig(request.toolChoice),
+          }
+        : {}),
+      generationConfig: {
+        maxOutputTokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(request.responseFormat === "json"
+          ? { responseMimeType: "application/json" }
+          : {}),
+      },
+    };
+  }
+
+  private async post(path: string, body: any, signal?: AbortSignal) {
+    const response = await fetch(`${BASE_URL}/${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-goog-api-key": this.apiKey,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      throw new LlmError(
+        this.name,
+        `API Error ${response.status}: ${await response.text()}`,
+        response.status,
+        retryAfterMs(response)
+      );
+    }
+    return response;
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const model = request.model || this.defaultModel;
+    const response = await this.post(
+      `models/${model}:generateContent`,
+      this.body(request),
+      request.signal
+    );
+    const data: any = await response.json();
+    const candidate = data.candidates?.[0];
+
+    let text = "";
+    const toolCalls = [];
+    for (const part of candidate?.content?.parts ?? []) {
+      if (typeof part.text === "string") text += part.text;
+      if (part.functionCall) {
+        toolCalls.push({
+          id: `call_${uuidv4()}`,
+          name: part.functionCall.name,
+          arguments: JSON.stringify(part.functionCall.args ?? {}),
+        });
+      }
+    }
+
+    return {
+      provider: this.name,
+      model,
+      text,
+      toolCalls,
+      finishReason: toolCalls.length
+        ? "tool_calls"
+        : toFinishReason(candidate?.finishReason),
+      usage: toUsage(data.usageMetadata),
+    };
+  }
+
+  async *stream(request: LlmChatRequest): AsyncIterable<LlmStreamEvent> {
+    const model = request.model || this.defaultModel;
+    const response = await this.post(
+      `models/${model}:streamGenerateContent?alt=sse`,
+      this.body(request),
+      request.signal
+    );
+    const collector = new StreamCollector(this.name, model);
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let callIndex = 0;
+
+    for await (const bytes of response.body as any as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() ?? "";
+
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter((l) => l.startsWith("data:"))
+          .map((l) => l.slice(5).trim())
+          .join("");
+        if (!data) continue;
+
+        const chunk = JSON.parse(data);
+        const candidate = chunk.candidates?.[0];
+        for (const part of candidate?.content?.parts ?? []) {
+          if (typeof part.text === "string" && part.text) {
+            yield collector.addText(part.text);
+          }
+          // function calls arrive whole, never split across chunks
+          if (part.functionCall) {
+            const index = callIndex++;
+            yield collector.startToolCall(index, `call_${uuidv4()}`, part.functionCall.name);
+            yield collector.appendArguments(
+              index,
+              JSON.stringify(part.functionCall.args ?? {})
+            );
+          }
+        }
+        if (candidate?.finishReason) {
+          collector.finishReason = toFinishReason(candidate.finishReason);
+        }
+        if (chunk.usageMetadata) collector.usage = toUsage(chunk.usageMetadata);
+      }
+    }
+
+    yield collector.done();
+  }
+
+  async embed(request: LlmEmbedRequest): Promise<number[][]> {
+    const model =
+      request.model || process.env.GEMINI_EMBEDDING_MODEL || "text-embedding-004";
+    const response = await this.post(`models/${model}:batchEmbedContents`, {
+      requests: request.input.map((text) => ({
+        model: `models/${model}`,
+        content: { parts: [{ text }] },
+        ...(request.dimensions ? { outputDimensionality: request.dimensions } : {}),
+      })),
+    });
+    const data: any = await response.json();
+    return (data.embeddings ?? []).map((e: any) => e.values);
+  }
+}
@@ -0,0 +1,229 @@
+// src/llm/providers/mock.provider.ts
+// Offline, deterministic provider (LLM_PROVIDER=mock) that answers from
+// fixture files so the builder, doc and SQL pipelines run without network.
+//
+// Fixture directory (LLM_MOCK_FIXTURES, default ./fixtures/llm):
+//   tools/<toolName>.json  arguments of the canned call for that tool
+//   mock.script.json       { text: [{ contains, fixture | text }], defaultText }
+//
+// A forced tool_choice wins; then text rules with scope "last" that match the
+// latest user message (e.g. chunk acknowledgements); then the offered tool
+// named in the most recent user message, then the first offered tool that has
+// a fixture; otherwise a text reply. Text fixtures may use {{input.a.b}}
+// placeholders, resolved against the last user message when it is JSON.
+// LLM_MOCK_CHUNK_DELAY_MS slows streaming down, e.g. to try out ai:abort.
+import fs from "fs-extra";
+import path from "path";
+import { v5 as uuidv5 } from "uuid";
+import { StreamCollector, collectStream } from "../llm.messages";
+import {
+  LlmChatRequest,
+  LlmChatResponse,
+  LlmEmbedRequest,
+  LlmMessage,
+  LlmProvider,
+  LlmStreamEvent,
+} from "../llm.types";
+
+const CHUNK_SIZE = 32;
+const CHUNK_DELAY_MS = Number(process.env.LLM_MOCK_CHUNK_DELAY_MS || 0);
+const DEFAULT_DIMENSIONS = 1536;
+// stable namespace so call ids are reproducible across runs
+const ID_NAMESPACE = "6f1c2d1e-4c0b-4b7e-9d1a-2f0e6a5b7c3d";
+
+interface MockTextRule {
+  // case-insensitive substring of the system + user messages
+  contains: string;
+  // "last": match only the latest user message, and answer even when tools are offered
+  scope?: "all" | "last";
+  fixture?: string;
+  text?: string;
+}
+
+interface MockScript {
+  text?: MockTextRule[];
+  defaultText?: string;
+}
+
+type MockReply =
+  | { kind: "tool"; name: string; arguments: string }
+  | { kind: "text"; text: string };
+
+function lastUser(messages: LlmMessage[]) {
+  return [...messages].reverse().find((m) => m.role === "user")?.content ?? "";
+}
+
+function lookup(source: any, dotted: string) {
+  return dotted
+    .split(".")
+    .reduce((value, key) => (value == null ? undefined : value[key]), source);
+}
+
+function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+function pause(signal?: AbortSignal) {
+  signal?.throwIfAborted();
+  if (!CHUNK_DELAY_MS) return;
+  return new Promise<void>((resolve) => setTimeout(resolve, CHUNK_DELAY_MS));
+}
+
+function chunks(text: string) {
+  const out: string[] = [];
+  for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+    out.push(text.slice(i, i + CHUNK_SIZE));
+  }
+  return out;
+}
+
+export class MockProvider implements LlmProvider {
+  readonly name = "mock" as const;
+  readonly defaultModel = "mock-1";
+  private readonly dir = path.resolve(
+    process.cwd(),
+    process.env.LLM_MOCK_FIXTURES || "fixtures/llm"
+  );
+  private script?: MockScript;
+
+  chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    return collectStream(this.stream(request));
+  }
+
+  async *stream(request: LlmChatRequest): AsyncIterable<LlmStreamEvent> {
+    const collector = new StreamCollector(this.name, request.model || this.defaultModel);
+    const reply = await this.reply(request);
+
+    if (reply.kind === "tool") {
+      const id = `call_${uuidv5(`${reply.name}:${reply.arguments}`, ID_NAMESPACE)}`;
+      yield collector.startToolCall(0, id, reply.name);
+      for (const part of chunks(reply.arguments)) {
+        await pause(request.signal);
+        yield collector.appendArguments(0, part);
+      }
+    } else {
+      for (const part of chunks(reply.text)) {
+        await pause(request.signal);
+        yield collector.addText(part);
+      }
+    }
+    request.signal?.throwIfAborted();
+
+    const prompt = request.messages.map((m) => m.content).join("\n");
+    collector.usage = {
+      inputTokens: estimateTokens(prompt),
+      outputTokens: estimateTokens(
+        reply.kind === "tool" ? reply.arguments : reply.text
+      ),
+    };
+    yield collector.done();
+  }
+
+  /** Deterministic unit vectors derived from the text, so equal text => equal embedding. */
+  async embed(request: LlmEmbedRequest): Promise<number[][]> {
+    const dimensions = request.dimensions || DEFAULT_DIMENSIONS;
+    return request.input.map((text) => {
+      let seed = 2166136261;
+      for (let i = 0; i < text.length; i++) {
+        seed = Math.imul(seed ^ text.charCodeAt(i), 16777619) >>> 0;
+      }
+      const vector = Array.from({ length: dimensions }, () => {
+        seed = Math.imul(seed ^ (seed >>> 15), 2246822507) >>> 0;
+        seed = Math.imul(seed ^ (seed >>> 13), 3266489909) >>> 0;
+        return seed / 0xffffffff - 0.5;
+      });
+      const norm = Math.hypot(...vector) || 1;
+      return vector.map((v) => v / norm);
+    });
+  }
+
+  private async reply(request: LlmChatRequest): Promise<MockReply> {
+    const tools = request.tools ?? [];
+    const choice = request.toolChoice ?? "auto";
+    const forced = typeof choice === "object" ? choice.name : undefined;
+    const script = await this.loadScript();
+
+    if (!forced) {
+      const latest = lastUser(request.messages).toLowerCase();
+      const rule = script.text?.find(
+        (r) => r.scope === "last" && latest.includes(r.contains.toLowerCase())
+      );
+      if (rule) return { kind: "text", text: await this.render(rule, request.messages) };
+    }
+
+    if (tools.length && choice !== "none") {
+      const name = forced ?? (await this.pickTool(request));
+      if (name) {
+        const args = await this.readFixture(`tools/${name}.json`);
+        return {
+          kind: "tool",
+          name,
+          arguments: args ? JSON.stringify(JSON.parse(args)) : "{}",
+        };
+      }
+    }
+
+    const haystack = request.messages
+      .filter((m) => m.role === "system" || m.role === "user")
+      .map((m) => m.content)
+      .join("\n")
+      .toLowerCase();
+    const rule = script.text?.find(
+      (r) => r.scope !== "last" && haystack.includes(r.contains.toLowerCase())
+    );
+    return { kind: "text", text: await this.render(rule, request.messages) };
+  }
+
+  private async pickTool(request: LlmChatRequest) {
+    const names = (request.tools ?? []).map((t) => t.name);
+
+    const users = request.messages.filter((m) => m.role === "user").reverse();
+    for (const message of users) {
+      const mentioned = names.find((n) => message.content.includes(n));
+      if (mentioned) return mentioned;
+    }
+
+    for (const name of names) {
+      if (await fs.pathExists(path.join(this.dir, "tools", `${name}.json`))) {
+        return name;
+      }
+    }
+    return undefined;
+  }
+
+  private async render(rule: MockTextRule | undefined, messages: LlmMessage[]) {
+    const script = await this.loadScript();
+    const template =
+      (rule?.fixture ? await this.readFixture(rule.fixture) : rule?.text) ??
+      script.defaultText ??
+      "Understood.";
+
+    let input: any = {};
+    try {
+      input = JSON.parse(lastUser(messages));
+    } catch {
+      // plain-text prompt; {{input.*}} resolves to ""
+    }
+    return template.replace(/\{\{\s*input\.([\w.]+)\s*\}\}/g, (_m, key) => {
+      const value = lookup(input, key);
+      if (value === undefined || value === null) return "";
+      // placeholders usually sit inside JSON strings
+      return JSON.stringify(String(value)).slice(1, -1);
+    });
+  }
+
+  private async loadScript(): Promise<MockScript> {
+    if (!this.script) {
+      const raw = await this.readFixture("mock.script.json");
+      this.script = raw ? JSON.parse(raw) : {};
+    }
+    return this.script!;
+  }
+
+  private async readFixture(relative: string): Promise<string | undefined> {
+    const file = path.resolve(this.dir, relative);
+    if (!file.startsWith(this.dir + path.sep)) return undefined;
+    if (!(await fs.pathExists(file))) return undefined;
+    return fs.readFile(file, "utf8");
+  }
+}
@@ -0,0 +1,145 @@
+// src/llm/providers/openai.compat.ts
+// Support for OpenAI-compatible servers (llama.cpp server, vLLM, Ollama, ...).
+//
+// Every OPENAI_* setting can be given per feature, the feature name as a
+// suffix winning over the global value: OPENAI_BASE_URL_DOCS,
+// OPENAI_MODEL_DOCS, OPENAI_API_KEY_DOCS, OPENAI_TOOL_MODE_DOCS. A custom base
+// URL does not need an API key.
+//
+// Tool calling on such servers depends on the model and on how the server
+// was started, so it is probed once per base URL and model (OPENAI_TOOL_MODE
+// "auto"); "native" and "json" skip the probe. In "json" mode the tools are
+// described in the system prompt and the model answers with
+// {"tool": ..., "arguments": ...} as plain text, which is turned back into a
+// tool call.
+import { LlmFeature, LlmMessage, LlmTool, LlmToolCall, LlmToolChoice } from "../llm.types";
+
+export type OpenAIToolMode = "auto" | "native" | "json";
+
+export interface OpenAIEndpoint {
+  feature?: LlmFeature;
+  // undefined = api.openai.com
+  baseURL?: string;
+  apiKey?: string;
+  model: string;
+  embeddingModel: string;
+  toolMode: OpenAIToolMode;
+}
+
+// accepted by local servers that do not check keys
+const LOCAL_API_KEY = "local";
+
+function setting(key: string, feature?: LlmFeature) {
+  const scoped = feature ? process.env[`OPENAI_${key}_${feature.toUpperCase()}`] : undefined;
+  return scoped || process.env[`OPENAI_${key}`] || undefined;
+}
+
+function toolModeOf(value?: string): OpenAIToolMode {
+  const mode = (value ?? "auto").trim().toLowerCase();
+  if (mode === "native" || mode === "json") return mode;
+  if (mode !== "auto") {
+    console.warn(`[OpenAIProvider] unknown OPENAI_TOOL_MODE "${value}", using auto`);
+  }
+  return "auto";
+}
+
+export function isCustomEndpoint(endpoint: OpenAIEndpoint) {
+  if (!endpoint.baseURL) return false;
+  try {
+    return new URL(endpoint.baseURL).hostname !== "api.openai.com";
+  } catch {
+    return true;
+  }
+}
+
+/** Endpoint settings of a feature (global OPENAI_* values when it has none). */
+export function openAIEndpoint(feature?: LlmFeature): OpenAIEndpoint {
+  const baseURL = setting("BASE_URL", feature);
+  const endpoint: OpenAIEndpoint = {
+    feature,
+    baseURL,
+    apiKey: setting("API_KEY", feature),
+    model: setting("MODEL", feature) || "gpt-4.1-2025-04-14",
+    embeddingModel: setting("EMBEDDING_MODEL", feature) || "text-embedding-3-small",
+    toolMode: toolModeOf(setting("TOOL_MODE", feature)),
+  };
+  if (!endpoint.apiKey && isCustomEndpoint(endpoint)) endpoint.apiKey = LOCAL_API_KEY;
+  return endpoint;
+}
+
+// ---------- text-only JSON tool protocol ----------
+
+function describeTools(tools: LlmTool[], choice?: LlmToolChoice) {
+  const rule =
+    typeof choice === "object"
+      ? `You must call the tool "${choice.name}".`
+      : choice === "required"
+        ? "You must call exactly one of these tools."
+        : "Call one of these tools when it is needed; otherwise answer normally.";
+  const list = tools
+    .map(
+      (t) =>
+        `- ${t.name}${t.description ? `: ${t.description}` : ""}\n  arguments (JSON schema): ${JSON.stringify(t.parameters)}`
+    )
+    .join("\n");
+  return [
+    "TOOLS",
+    rule,
+    'To call a tool, answer with only this JSON object and no other text: {"tool": "<tool name>", "arguments": { ... }}',
+    list,
+  ].join("\n");
+}
+
+/**
+ * Messages for a server without native tool calling: the tool list goes into
+ * the system prompt and earlier tool calls / results become plain turns.
+ */
+export function toJsonToolMessages(
+  messages: LlmMessage[],
+  tools: LlmTool[],
+  choice?: LlmToolChoice
+): LlmMessage[] {
+  const converted = messages.map((m): LlmMessage => {
+    if (m.role === "assistant" && m.toolCalls?.length) {
+      const [call] = m.toolCalls;
+      return {
+        role: "assistant",
+        content: JSON.stringify({ tool: call.name, arguments: safeParse(call.arguments) }),
+      };
+    }
+    if (m.role === "tool") {
+      return { role: "user", content: `Result of tool ${m.name ?? ""}:\n${m.content}` };
+    }
+    return { role: m.role, content: m.content };
+  });
+  if (!tools.length || choice === "none") return converted;
+  return [{ role: "system", content: describeTools(tools, choice) }, ...converted];
+}
+
+function safeParse(text: string) {
+  try {
+    return JSON.parse(text || "{}");
+  } catch {
+    return text;
+  }
+}
+
+/** The tool call written as JSON text in an answer, if there is one. */
+export function parseJsonToolCall(text: string, tools: LlmTool[]): LlmToolCall | undefined {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text);
+  const body = (fenced ? fenced[1] : text).trim();
+  const start = body.indexOf("{");
+  const end = body.lastIndexOf("}");
+  if (start === -1 || end <= start) return undefined;
+
+  const parsed = safeParse(body.slice(start, end + 1));
+  if (!parsed || typeof parsed !== "object") return undefined;
+  const name = parsed.tool ?? parsed.name;
+  if (typeof name !== "string" || !tools.some((t) => t.name === name)) return undefined;
+  const args = parsed.arguments ?? parsed.parameters ?? {};
+  return {
+    id: "call_0",
+    name,
+    arguments: typeof args === "string" ? args : JSON.stringify(args),
+  };
+}
@@ -0,0 +1,291 @@
+// src/llm/providers/openai.provider.ts
+import { OpenAI } from "openai";
+import type {
+  ChatCompletionCreateParamsBase,
+  ChatCompletionMessageParam,
+  ChatCompletionToolChoiceOption,
+} from "openai/resources/chat/completions";
+import { StreamCollector, eventsFromResponse } from "../llm.messages";
+import {
+  LlmChatRequest,
+  LlmChatResponse,
+  LlmEmbedRequest,
+  LlmError,
+  LlmFinishReason,
+  LlmMessage,
+  LlmProvider,
+  LlmStreamEvent,
+  LlmToolChoice,
+  LlmUsage,
+} from "../llm.types";
+import {
+  OpenAIEndpoint,
+  isCustomEndpoint,
+  openAIEndpoint,
+  parseJsonToolCall,
+  toJsonToolMessages,
+} from "./openai.compat";
+import {
+  promptCacheKey,
+  promptCachingEnabled,
+  stablePrefixOrder,
+} from "../prompt.cache";
+
+// tool-calling support probed per base URL and model
+const toolModes = new Map<string, Promise<"native" | "json">>();
+
+function toOpenAIMessages(messages: LlmMessage[]): ChatCompletionMessageParam[] {
+  return messages.map((m): ChatCompletionMessageParam => {
+    switch (m.role) {
+      case "tool":
+        return { role: "tool", tool_call_id: m.toolCallId ?? "", content: m.content };
+      case "assistant":
+        return m.toolCalls?.length
+          ? {
+              role: "assistant",
+              content: m.content || null,
+              tool_calls: m.toolCalls.map((c) => ({
+                id: c.id,
+                type: "function",
+                function: { name: c.name, arguments: c.arguments },
+              })),
+            }
+          : { role: "assistant", content: m.content };
+      default:
+        return { role: m.role, content: m.content };
+    }
+  });
+}
+
+function toToolChoice(choice?: LlmToolChoice): ChatCompletionToolChoiceOption | undefined {
+  if (!choice) return undefined;
+  if (typeof choice === "object") {
+    return { type: "function", function: { name: choice.name } };
+  }
+  return choice;
+}
+
+function toUsage(usage?: OpenAI.CompletionUsage | null): LlmUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+    cachedInputTokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+  };
+}
+
+function toFinishReason(reason?: string | null): LlmFinishReason {
+  if (reason === "stop") return "stop";
+  if (reason === "tool_calls" || reason === "function_call") return "tool_calls";
+  if (reason === "length") return "length";
+  return "other";
+}
+
+export class OpenAIProvider implements LlmProvider {
+  readonly name = "openai" as const;
+  readonly defaultModel: string;
+  private _client?: OpenAI;
+
+  constructor(private readonly endpoint: OpenAIEndpoint = openAIEndpoint()) {
+    this.defaultModel = endpoint.model;
+  }
+
+  // created on first use so a missing key only fails the calls that need it
+  private get client(): OpenAI {
+    if (!this._client) {
+      const { apiKey, baseURL } = this.endpoint;
+      if (!apiKey) throw new LlmError(this.name, "Missing OPENAI_API_KEY");
+      // retries are handled by llm.resilience
+      this._client = new OpenAI({ apiKey, baseURL, maxRetries: 0 });
+    }
+    return this._client;
+  }
+
+  /**
+   * Whether the server calls tools natively or needs the JSON text protocol.
+   * api.openai.com is trusted; other servers get one probe call with a
+   * trivial tool, and an error or a plain-text answer means "json".
+   */
+  private toolMode(model: string): Promise<"native" | "json"> {
+    const { toolMode } = this.endpoint;
+    if (toolMode !== "auto") return Promise.resolve(toolMode);
+    if (!isCustomEndpoint(this.endpoint)) return Promise.resolve("native");
+
+    const key = `${this.endpoint.baseURL}|${model}`;
+    let mode = toolModes.get(key);
+    if (!mode) {
+      mode = this.probeTools(model).catch((err) => {
+        // unreachable server: probe again next time
+        toolModes.delete(key);
+        throw err;
+      });
+      toolModes.set(key, mode);
+    }
+    return mode;
+  }
+
+  private async probeTools(model: string): Promise<"native" | "json"> {
+    let mode: "native" | "json";
+    try {
+      const completion = await this.client.chat.completions.create({
+        model,
+        messages: [{ role: "user", content: "Call the ping tool." }],
+        tools: [
+          {
+            type: "function",
+            function: {
+              name: "ping",
+              description: "Connectivity check",
+              parameters: { type: "object", properties: {} },
+            },
+          },
+        ],
+        tool_choice: "auto",
+        max_tokens: 64,
+        temperature: 0,
+      });
+      mode = completion.choices[0]?.message?.tool_calls?.length ? "native" : "json";
+    } catch (err: any) {
+      // no status = the server was not reached at all
+      if (typeof err?.status !== "number") throw err;
+      mode = "json";
+    }
+    console.log(
+      `[OpenAIProvider] ${this.endpoint.baseURL} ${model}: ${mode === "native" ? "native tool calling" : "JSON text tool calls"}`
+    );
+    return mode;
+  }
+
+  private async needsJsonTools(request: LlmChatRequest) {
+    if (!request.tools?.length) return false;
+    return (await this.toolMode(request.model || this.defaultModel)) === "json";
+  }
+
+  /** One call through the JSON text protocol; the tool call is parsed from the answer. */
+  private async chatWithJsonTools(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const tools = request.tools ?? [];
+    const response = await this.chat({
+      ...request,
+      messages: toJsonToolMessages(request.messages, tools, request.toolChoice),
+      tools: undefined,
+      toolChoice: undefined,
+    });
+    const call = request.toolChoice === "none" ? undefined : parseJsonToolCall(response.text, tools);
+    return call
+      ? { ...response, text: "", toolCalls: [call], finishReason: "tool_calls" }
+      : response;
+  }
+
+  private params(request: LlmChatRequest): ChatCompletionCreateParamsBase {
+    const tools = request.tools?.length ? request.tools : undefined;
+    const model = request.model || this.defaultModel;
+    // a byte-identical prefix is what the automatic prompt cache matches on
+    const caching = promptCachingEnabled();
+    return {
+      model,
+      messages: toOpenAIMessages(
+        caching ? stablePrefixOrder(request.messages) : request.messages
+      ),
+      tools: tools?.map((t) => ({
+        type: "function",
+        function: { name: t.name, description: t.description, parameters: t.parameters },
+      })),
+      tool_choice: tools ? toToolChoice(request.toolChoice) : undefined,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      response_format:
+        request.responseFormat === "json" ? { type: "json_object" } : undefined,
+      // compatible servers may reject parameters they do not know
+      prompt_cache_key:
+        caching && !isCustomEndpoint(this.endpoint)
+          ? promptCacheKey(request, model)
+          : undefined,
+    };
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    if (await this.needsJsonTools(request)) return this.chatWithJsonTools(request);
+    const completion = await this.client.chat.completions.create(
+      { ...this.params(request), stream: false },
+      { signal: request.signal }
+    );
+    const choice = completion.choices[0];
+    const message = choice?.message;
+
+    return {
+      provider: this.name,
+      model: completion.model,
+      text: message?.content ?? "",
+      toolCalls: (message?.tool_calls ?? [])
+        .filter((c) => c.type === "function")
+        .map((c: any) => ({
+          id: c.id,
+          name: c.function.name,
+          arguments: c.function.arguments || "{}",
+        })),
+      finishReason: toFinishReason(choice?.finish_reason),
+      usage: toUsage(completion.usage),
+    };
+  }
+
+  async *stream(request: LlmChatRequest): AsyncIterable<LlmStreamEvent> {
+    // the JSON answer is only usable once complete, so it is not streamed
+    if (await this.needsJsonTools(request)) {
+      yield* eventsFromResponse(await this.chatWithJsonTools(request));
+      return;
+    }
+    const params = this.params(request);
+    const stream = await this.client.chat.completions.create(
+      { ...params, stream: true, stream_options: { include_usage: true } },
+      { signal: request.signal }
+    );
+    const collector = new StreamCollector(this.name, params.model);
+
+    for await (const chunk of stream) {
+      if (chunk.usage) collector.usage = toUsage(chunk.usage);
+      const choice = chunk.choices?.[0];
+      if (!choice) continue;
+
+      if (choice.delta?.content) yield collector.addText(choice.delta.content);
+
+      for (const call of choice.delta?.tool_calls ?? []) {
+        if (!collector.hasToolCall(call.index)) {
+          yield collector.startToolCall(
+            call.index,
+            call.id ?? `call_${call.index}`,
+            call.function?.name ?? ""
+          );
+        }
+        if (call.function?.arguments) {
+          yield collector.appendArguments(call.index, call.function.arguments);
+        }
+      }
+
+      if (choice.finish_reason) {
+        collector.finishReason = toFinishReason(choice.finish_reason);
+      }
+    }
+
+    yield collector.done();
+  }
+
+  async embed(request: LlmEmbedRequest): Promise<number[][]> {
+    // compatible servers often reject `dimensions`; their size is checked instead
+    const custom = isCustomEndpoint(this.endpoint);
+    const response = await this.client.embeddings.create({
+      model: request.model || this.endpoint.embeddingModel,
+      input: request.input,
+      encoding_format: "float",
+      dimensions: custom ? undefined : request.dimensions,
+    });
+    const vectors = response.data.map((item) => item.embedding);
+    const size = vectors[0]?.length;
+    if (custom && request.dimensions && size && size !== request.dimensions) {
+      throw new LlmError(
+        this.name,
+        `Embedding model returned ${size} dimensions, expected ${request.dimensions} (set EMBEDDING_DIMENSIONS=${size})`
+      );
+    }
+    return vectors;
+  }
+}
@@ -0,0 +1,277 @@
+// src/llm/tool.validation.ts
+// Checks model tool calls against their schemas: a zod schema when the caller
+// registers one for the tool, otherwise the tool's own JSON schema (ajv).
+// Invalid calls get a bounded number of repair turns — the structured errors
+// are sent back as the tool result and the model answers again
+// (LLM_TOOL_REPAIR_ATTEMPTS, default 2). A call that is still invalid after
+// that is reported as a ToolValidationError; nothing is substituted for it.
+import Ajv, { ErrorObject, ValidateFunction } from "ajv";
+import { ZodTypeAny } from "zod";
+import { collectStream } from "./llm.messages";
+import {
+  LlmChatRequest,
+  LlmChatResponse,
+  LlmMessage,
+  LlmProvider,
+  LlmStreamEvent,
+  LlmTool,
+  LlmToolCall,
+} from "./llm.types";
+
+export interface ToolIssue {
+  // dotted path into the arguments, "(root)" for the whole call
+  path: string;
+  message: string;
+}
+
+export type ToolValidation<T = any> =
+  | { ok: true; value: T }
+  | { ok: false; issues: ToolIssue[] };
+
+/** zod schemas by tool name; tools without one are checked against their JSON schema. */
+export type ToolSchemas = Record<string, ZodTypeAny>;
+
+export type ToolCallValidation<T = any> =
+  | { ok: true; call: LlmToolCall; value: T }
+  | { ok: false; call?: LlmToolCall; issues: ToolIssue[] };
+
+export function formatIssues(issues: ToolIssue[]) {
+  return issues.map((i) => `${i.path}: ${i.message}`).join("; ");
+}
+
+export class ToolValidationError extends Error {
+  constructor(
+    public readonly toolName: string | null,
+    public readonly issues: ToolIssue[],
+    public readonly attempts: number,
+    public readonly rawArguments?: string
+  ) {
+    super(
+      `${toolName ? `Tool ${toolName}` : "Tool call"} still invalid after ${attempts} attempt(s): ${formatIssues(issues)}`
+    );
+    this.name = "ToolValidationError";
+  }
+}
+
+const ROOT = "(root)";
+const ajv = new Ajv({ allErrors: true, strict: false });
+const compiled = new WeakMap<object, ValidateFunction | null>();
+
+function ajvIssue(error: ErrorObject): ToolIssue {
+  const path = error.instancePath.replace(/^\//, "").replace(/\//g, ".");
+  const detail =
+    error.keyword === "required"
+      ? `missing required property "${error.params.missingProperty}"`
+      : error.keyword === "additionalProperties"
+        ? `unexpected property "${error.params.additionalProperty}"`
+        : error.keyword === "enum"
+          ? `${error.message} (${error.params.allowedValues.join(", ")})`
+          : error.message ?? error.keyword;
+  return { path: path || ROOT, message: detail };
+}
+
+export function validateWithJsonSchema(
+  schema: Record<string, any>,
+  args: unknown
+): ToolValidation {
+  if (!compiled.has(schema)) {
+    try {
+      compiled.set(schema, ajv.compile(schema));
+    } catch (err) {
+      // a schema ajv cannot compile is not the model's fault; accept the call
+      console.warn("[ToolValidation] cannot compile tool schema, skipping checks", err);
+      compiled.set(schema, null);
+    }
+  }
+  const validate = compiled.get(schema);
+  if (!validate || validate(args)) return { ok: true, value: args };
+  return { ok: false, issues: (validate.errors ?? []).map(ajvIssue) };
+}
+
+export function validateWithZod<T>(schema: ZodTypeAny, args: unknown): ToolValidation<T> {
+  const result = schema.safeParse(args);
+  if (result.success) return { ok: true, value: result.data };
+  return {
+    ok: false,
+    issues: result.error.issues.map((issue) => ({
+      path: issue.path.join(".") || ROOT,
+      message: issue.message,
+    })),
+  };
+}
+
+/** JSON text of an answer given as plain text (```json fences allowed). */
+function jsonOfText(text: string) {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text);
+  return (fenced ? fenced[1] : text).trim();
+}
+
+/**
+ * Validate the first tool call of a response. With `textTool`, a response
+ * without tool calls is read as that tool's arguments written as JSON text
+ * (used when the call was made with toolChoice "none").
+ */
+export function validateToolCall<T = any>(
+  response: LlmChatResponse,
+  tools: LlmTool[],
+  schemas: ToolSchemas = {},
+  textTool?: string
+): ToolCallValidation<T> {
+  const names = tools.map((t) => t.name);
+  let call = response.toolCalls[0];
+  if (!call && textTool && response.text.trim()) {
+    call = { id: "", name: textTool, arguments: jsonOfText(response.text) };
+  }
+  if (!call) {
+    return {
+      ok: false,
+      issues: [{ path: ROOT, message: `No tool call in the answer; call one of: ${names.join(", ")}` }],
+    };
+  }
+
+  const tool = tools.find((t) => t.name === call.name);
+  if (!tool && !schemas[call.name]) {
+    return {
+      ok: false,
+      call,
+      issues: [{ path: ROOT, message: `Unknown tool "${call.name}"; call one of: ${names.join(", ")}` }],
+    };
+  }
+
+  let args: unknown;
+  try {
+    args = JSON.parse(call.arguments || "{}");
+  } catch (err: any) {
+    return {
+      ok: false,
+      call,
+      issues: [{ path: ROOT, message: `Arguments are not valid JSON: ${err?.message ?? err}` }],
+    };
+  }
+
+  const result = schemas[call.name]
+    ? validateWithZod<T>(schemas[call.name], args)
+    : validateWithJsonSchema(tool!.parameters, args);
+  return result.ok ? { ok: true, call, value: result.value } : { ok: false, call, issues: result.issues };
+}
+
+/** Structured report of a rejected call, sent back to the model. */
+export function toolRepairReport(failure: Extract<ToolCallValidation, { ok: false }>) {
+  const toolName = failure.call?.name ?? null;
+  return JSON.stringify(
+    {
+      ok: false,
+      error: "invalid_tool_call",
+      tool: toolName,
+      issues: failure.issues,
+      instruction: toolName
+        ? `Call ${toolName} again with complete arguments that fix every issue.`
+        : "Answer with exactly one tool call.",
+    },
+    null,
+    2
+  );
+}
+
+/** Messages that hand the validation errors back to the model. */
+function repairMessages(
+  response: LlmChatResponse,
+  failure: Extract<ToolCallValidation, { ok: false }>
+): LlmMessage[] {
+  const report = toolRepairReport(failure);
+  const [realCall] = response.toolCalls;
+  if (realCall) {
+    return [
+      { role: "assistant", content: response.text, toolCalls: [realCall] },
+      { role: "tool", toolCallId: realCall.id, name: realCall.name, content: report },
+    ];
+  }
+  return [
+    { role: "assistant", content: response.text || "(no tool call)" },
+    { role: "user", content: report },
+  ];
+}
+
+export interface ToolRepairOptions {
+  schemas?: ToolSchemas;
+  // repair turns after the first answer; LLM_TOOL_REPAIR_ATTEMPTS by default
+  maxRepairs?: number;
+  // stream each turn, forwarding its events
+  stream?: boolean;
+  onEvent?: (event: LlmStreamEvent) => void;
+  textTool?: string;
+  onRepair?: (repair: { attempt: number; toolName: string | null; issues: ToolIssue[] }) => void;
+}
+
+export interface ToolCallResult<T = any> {
+  response: LlmChatResponse;
+  call: LlmToolCall;
+  args: T;
+  // repair turns that were needed
+  repairs: number;
+}
+
+export function defaultMaxRepairs() {
+  const value = Number(process.env.LLM_TOOL_REPAIR_ATTEMPTS ?? 2);
+  return Number.isFinite(value) && value >= 0 ? Math.floor(value) : 2;
+}
+
+/**
+ * Call the model until its tool call validates, giving it at most
+ * `maxRepairs` extra turns. Throws ToolValidationError otherwise.
+ */
+export async function callWithToolRepair<T = any>(
+  llm: LlmProvider,
+  request: LlmChatRequest,
+  options: ToolRepairOptions = {}
+): Promise<ToolCallResult<T>> {
+  return (await repairLoop<T>(llm, request, options, false)) as ToolCallResult<T>;
+}
+
+/**
+ * Like callWithToolRepair, for turns where the model may also just answer:
+ * a response without a tool call is returned as is (no `call`).
+ */
+export async function chatWithToolRepair<T = any>(
+  llm: LlmProvider,
+  request: LlmChatRequest,
+  options: ToolRepairOptions = {}
+): Promise<ToolCallResult<T> | { response: LlmChatResponse; call?: undefined; args?: undefined; repairs: number }> {
+  return repairLoop<T>(llm, request, options, true);
+}
+
+async function repairLoop<T>(
+  llm: LlmProvider,
+  request: LlmChatRequest,
+  options: ToolRepairOptions,
+  allowText: boolean
+) {
+  const maxRepairs = options.maxRepairs ?? defaultMaxRepairs();
+  const tools = request.tools ?? [];
+  const messages = [...request.messages];
+
+  for (let attempt = 0; ; attempt++) {
+    const turn = { ...request, messages: [...messages] };
+    const response = options.stream
+      ? await collectStream(llm.stream(turn), options.onEvent)
+      : await llm.chat(turn);
+
+    if (allowText && !response.toolCalls.length) {
+      return { response, repairs: attempt };
+    }
+    const result = validateToolCall<T>(response, tools, options.schemas, options.textTool);
+    if (result.ok) {
+      return { response, call: result.call, args: result.value, repairs: attempt };
+    }
+
+    const toolName = result.call?.name ?? null;
+    if (attempt >= maxRepairs) {
+      throw new ToolValidationError(toolName, result.issues, attempt + 1, result.call?.arguments);
+    }
+    console.warn(
+      `[ToolValidation] ${toolName ?? "answer"} rejected (repair ${attempt + 1}/${maxRepairs}): ${formatIssues(result.issues)}`
+    );
+    options.onRepair?.({ attempt: attempt + 1, toolName, issues: result.issues });
+    messages.push(...repairMessages(response, result));
+  }
+}
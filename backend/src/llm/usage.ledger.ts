@@ -0,0 +1,365 @@
+// src/llm/usage.ledger.ts
+// Token usage and estimated cost of every model call. Providers handed out
+// by the registry are metered per feature; the project / socket / generation
+// a call belongs to comes from the scope opened with usageLedger.track().
+//
+// Entries are kept in memory (LLM_USAGE_MAX_ENTRIES, default 10000) and
+// appended to LLM_USAGE_LEDGER_FILE (default ./usage/ledger.jsonl) so the
+// totals survive restarts. Set LLM_USAGE_LEDGER_FILE=off to disable the file.
+import { AsyncLocalStorage } from "async_hooks";
+import fs from "fs-extra";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { estimateCost } from "./llm.pricing";
+import {
+  LlmChatRequest,
+  LlmChatResponse,
+  LlmEmbedRequest,
+  LlmFeature,
+  LlmProvider,
+  LlmStreamEvent,
+  LlmUsage,
+} from "./llm.types";
+
+export interface UsageScope {
+  projectId?: string;
+  socketId?: string;
+  generationId?: string;
+}
+
+export interface UsageEntry extends UsageScope {
+  id: string;
+  at: string;
+  provider: string;
+  model: string;
+  feature: LlmFeature;
+  kind: "chat" | "stream" | "embed";
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+  // absent on entries recorded before cache writes were tracked
+  cacheWriteTokens?: number;
+  latencyMs: number;
+  costUsd: number | null;
+  // embeddings report no usage; their input tokens are estimated
+  estimated?: boolean;
+  ok: boolean;
+  error?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+  cacheWriteTokens: number;
+  // share of the prompt tokens served from the provider's cache (0..1)
+  cacheHitRate: number;
+  // calls that read at least part of their prompt from the cache
+  cachedCalls: number;
+  totalTokens: number;
+  costUsd: number;
+  // calls whose model has no known price (not included in costUsd)
+  unpricedCalls: number;
+  latencyMs: number;
+}
+
+export interface UsageFilter extends UsageScope {
+  feature?: string;
+  provider?: string;
+  since?: string;
+}
+
+export type UsageGroupKey = "projectId" | "socketId" | "feature" | "model" | "provider";
+
+const MAX_ENTRIES = Number(process.env.LLM_USAGE_MAX_ENTRIES || 10000);
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    failedCalls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cachedInputTokens: 0,
+    cacheWriteTokens: 0,
+    cacheHitRate: 0,
+    cachedCalls: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    unpricedCalls: 0,
+    latencyMs: 0,
+  };
+}
+
+function addTo(totals: UsageTotals, entry: UsageEntry) {
+  totals.calls++;
+  if (!entry.ok) totals.failedCalls++;
+  totals.inputTokens += entry.inputTokens;
+  totals.outputTokens += entry.outputTokens;
+  totals.cachedInputTokens += entry.cachedInputTokens;
+  totals.cacheWriteTokens += entry.cacheWriteTokens ?? 0;
+  if (entry.cachedInputTokens > 0) totals.cachedCalls++;
+  totals.cacheHitRate = totals.inputTokens
+    ? Math.round((totals.cachedInputTokens / totals.inputTokens) * 1000) / 1000
+    : 0;
+  totals.totalTokens += entry.inputTokens + entry.outputTokens;
+  if (entry.costUsd === null) totals.unpricedCalls++;
+  else totals.costUsd += entry.costUsd;
+  totals.latencyMs += entry.latencyMs;
+  return totals;
+}
+
+export class UsageLedger {
+  private readonly scope = new AsyncLocalStorage<UsageScope>();
+  private entries: UsageEntry[] = [];
+  private loaded?: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+  private readonly file =
+    process.env.LLM_USAGE_LEDGER_FILE === "off"
+      ? null
+      : path.resolve(
+          process.cwd(),
+          process.env.LLM_USAGE_LEDGER_FILE || "usage/ledger.jsonl"
+        );
+
+  /** Run `fn` with calls attributed to the given project / socket / generation. */
+  track<T>(scope: UsageScope, fn: () => Promise<T>): Promise<T> {
+    return this.scope.run({ ...this.scope.getStore(), ...scope }, fn);
+  }
+
+  /**
+   * Attribute the rest of the current async execution (e.g. a request
+   * handler) to the given scope, merged over the one already active.
+   */
+  enter(scope: UsageScope) {
+    this.scope.enterWith({ ...this.scope.getStore(), ...scope });
+  }
+
+  currentScope(): UsageScope {
+    return this.scope.getStore() ?? {};
+  }
+
+  record(
+    entry: Omit<UsageEntry, "id" | "at" | "costUsd" | keyof UsageScope> &
+      Partial<Pick<UsageEntry, "costUsd">>
+  ): UsageEntry {
+    const full: UsageEntry = {
+      id: uuidv4(),
+      at: new Date().toISOString(),
+      ...this.currentScope(),
+      ...entry,
+      costUsd:
+        entry.costUsd !== undefined
+          ? entry.costUsd
+          : estimateCost(entry.model, {
+              inputTokens: entry.inputTokens,
+              outputTokens: entry.outputTokens,
+              cachedInputTokens: entry.cachedInputTokens,
+              cacheWriteTokens: entry.cacheWriteTokens,
+            }),
+    };
+    this.push(full);
+    this.append(full);
+    return full;
+  }
+
+  async list(filter: UsageFilter = {}, limit = 200): Promise<UsageEntry[]> {
+    await this.load();
+    return this.entries.filter((e) => this.matches(e, filter)).slice(-limit).reverse();
+  }
+
+  /** Totals for the filter, plus the same totals grouped by feature, model, project and socket. */
+  async summarize(filter: UsageFilter = {}) {
+    await this.load();
+    return this.summarizeLoaded(filter);
+  }
+
+  /** Totals of the entries recorded since boot (no file read), e.g. for one build. */
+  totalsFor(filter: UsageFilter): UsageTotals {
+    return this.entries
+      .filter((e) => this.matches(e, filter))
+      .reduce(addTo, emptyTotals());
+  }
+
+  private summarizeLoaded(filter: UsageFilter) {
+    const selected = this.entries.filter((e) => this.matches(e, filter));
+    const group = (key: UsageGroupKey) => {
+      const out: Record<string, UsageTotals> = {};
+      for (const entry of selected) {
+        const value = entry[key] ?? "unknown";
+        out[value] = addTo(out[value] ?? emptyTotals(), entry);
+      }
+      return out;
+    };
+    return {
+      totals: selected.reduce(addTo, emptyTotals()),
+      byFeature: group("feature"),
+      byModel: group("model"),
+      byProject: group("projectId"),
+      bySocket: group("socketId"),
+    };
+  }
+
+  private matches(entry: UsageEntry, filter: UsageFilter) {
+    return (
+      (!filter.projectId || entry.projectId === filter.projectId) &&
+      (!filter.socketId || entry.socketId === filter.socketId) &&
+      (!filter.generationId || entry.generationId === filter.generationId) &&
+      (!filter.feature || entry.feature === filter.feature) &&
+      (!filter.provider || entry.provider === filter.provider) &&
+      (!filter.since || entry.at >= filter.since)
+    );
+  }
+
+  private push(entry: UsageEntry) {
+    this.entries.push(entry);
+    if (this.entries.length > MAX_ENTRIES) {
+      this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+    }
+  }
+
+  // appends are chained so lines never interleave; failures only warn
+  private append(entry: UsageEntry) {
+    if (!this.file) return;
+    const file = this.file;
+    this.writing = this.writing
+      .then(() => fs.ensureFile(file))
+      .then(() => fs.appendFile(file, JSON.stringify(entry) + "\n"))
+      .catch((err) => console.warn("[UsageLedger] failed to append entry", err));
+  }
+
+  /** Read back the ledger file once, ahead of the entries recorded since boot. */
+  private load() {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        if (!this.file || !(await fs.pathExists(this.file))) return;
+        try {
+          const lines = (await fs.readFile(this.file, "utf8")).split("\n");
+          const previous: UsageEntry[] = [];
+          for (const line of lines) {
+            if (!line.trim()) continue;
+            try {
+              previous.push(JSON.parse(line));
+            } catch {
+              // skip a torn last line
+            }
+          }
+          const known = new Set(this.entries.map((e) => e.id));
+          this.entries = [
+            ...previous.filter((e) => !known.has(e.id)),
+            ...this.entries,
+          ].slice(-MAX_ENTRIES);
+        } catch (err) {
+          console.warn("[UsageLedger] failed to read ledger file", err);
+        }
+      })();
+    }
+    return this.loaded;
+  }
+}
+
+const usageLedger = new UsageLedger();
+
+export default usageLedger;
+
+function usageOf(response?: LlmChatResponse): LlmUsage {
+  return response?.usage ?? { inputTokens: 0, outputTokens: 0 };
+}
+
+/**
+ * Provider view that records every call of `inner` in the ledger under
+ * `feature`. Handed out by the registry, one per feature and provider.
+ */
+export class MeteredProvider implements LlmProvider {
+  readonly name: LlmProvider["name"];
+  readonly defaultModel: string;
+
+  constructor(
+    private readonly inner: LlmProvider,
+    private readonly feature: LlmFeature,
+    private readonly ledger: UsageLedger = usageLedger
+  ) {
+    this.name = inner.name;
+    this.defaultModel = inner.defaultModel;
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const started = Date.now();
+    try {
+      const response = await this.inner.chat(request);
+      this.recordChat("chat", request, started, response);
+      return response;
+    } catch (err) {
+      this.recordChat("chat", request, started, undefined, err);
+      throw err;
+    }
+  }
+
+  async *stream(request: LlmChatRequest): AsyncIterable<LlmStreamEvent> {
+    const started = Date.now();
+    let response: LlmChatResponse | undefined;
+    try {
+      for await (const event of this.inner.stream(request)) {
+        if (event.type === "done") response = event.response;
+        yield event;
+      }
+      this.recordChat("stream", request, started, response);
+    } catch (err) {
+      this.recordChat("stream", request, started, response, err);
+      throw err;
+    }
+  }
+
+  async embed(request: LlmEmbedRequest): Promise<number[][]> {
+    const started = Date.now();
+    const entry = {
+      provider: this.name,
+      model: request.model || this.defaultModel,
+      feature: this.feature,
+      kind: "embed" as const,
+      inputTokens: Math.ceil(request.input.join("").length / 4),
+      outputTokens: 0,
+      cachedInputTokens: 0,
+      estimated: true,
+    };
+    try {
+      const vectors = await this.inner.embed(request);
+      this.ledger.record({ ...entry, latencyMs: Date.now() - started, ok: true });
+      return vectors;
+    } catch (err: any) {
+      this.ledger.record({
+        ...entry,
+        inputTokens: 0,
+        latencyMs: Date.now() - started,
+        ok: false,
+        error: String(err?.message ?? err),
+      });
+      throw err;
+    }
+  }
+
+  private recordChat(
+    kind: "chat" | "stream",
+    request: LlmChatRequest,
+    started: number,
+    response?: LlmChatResponse,
+    err?: any
+  ) {
+    const usage = usageOf(response);
+    this.ledger.record({
+      // the fallback's name when the call was handed over
+      provider: response?.provider ?? this.name,
+      model: response?.model || request.model || this.defaultModel,
+      feature: this.feature,
+      kind,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cachedInputTokens: usage.cachedInputTokens ?? 0,
+      cacheWriteTokens: usage.cacheWriteTokens ?? 0,
+      latencyMs: Date.now() - started,
+      ok: !err,
+      ...(err ? { error: String(err?.message ?? err) } : {}),
+    });
+  }
+}
@@ -1,9 +1,11 @@
 // src/types/ai.ts
 export type FileOp = {
   path: string; // relative to project root
-  action: "create" | "update" | "delete";
+  action: "create" | "update" | "delete" | "patch";
   content?: string; // required for create/update
   encoding?: "utf8" | "base64";
+  diff?: string; // patch: unified diff
+  edits?: Array<{ search: string; replace: string }>; // patch: search/replace
 };
 
 export type EmitFilesArgs = {
@@ -32,13 +34,15 @@ export type JobStatus = {
   logs?: { stdout?: string; stderr?: string };
 };
 
-export type EmitAction = "create" | "update" | "delete";
+export type EmitAction = "create" | "update" | "delete" | "patch";
 
 export interface EmitOperation {
   path: string; // relative file path inside project
   action: EmitAction;
   content?: string; // required for create/update
   encoding?: "utf8" | "base64";
+  diff?: string; // patch: unified diff
+  edits?: Array<{ search: string; replace: string }>; // patch: search/replace
 }
 
 export interface EmitFilesPayload {
@@ -2,8 +2,26 @@ import { Request, Response, NextFunction } from "express";
 import aiService from "../services/ai.service";
 import fileService from "../services/file.service";
 import { runCommandSafe } from "../services/run.service";
-import jobService from "../services/job.service";
+import mcpClientManager from "mcp/client/mcpClient.manager";
+import llmRegistry from "llm/llm.registry";
+import { modelAuthor } from "workspace/workspace.history";
+import jobQueue from "jobs/jobs.queue";
+import { JobNotFoundError } from "jobs/jobs.errors";
+import { ToolSchemas, ToolValidationError } from "llm/tool.validation";
 import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import {
+  ApplyPatchSchema,
+  EmitFilesSchema,
+  RunCommandSchema,
+} from "../schemas/zod/chat.schemas";
+
+// the schemas the services parse these arguments with; other tools are
+// checked against their JSON schema
+const TOOL_SCHEMAS: ToolSchemas = {
+  emitFiles: EmitFilesSchema,
+  applyPatch: ApplyPatchSchema,
+  runCommand: RunCommandSchema,
+};
 
 /**
  * Helper: robustly extract assistant text from various OpenAI SDK shapes
@@ -67,7 +85,7 @@ class AIController {
     next: NextFunction
   ) => {
     try {
-      const { prompt, projectId, userId } = req.body;
+      const { prompt, projectId, userId, provider } = req.body;
       if (!prompt)
         return res.status(400).json({ ok: false, error: "prompt required" });
 
@@ -81,8 +99,25 @@ class AIController {
         { role: "user", content: prompt },
       ];
 
-      // Stream parse first response (may be plain text or a tool call)
-      const parsed = await aiService.streamAndParseChat(messages);
+      // Stream parse first response (may be plain text or a tool call); the
+      // arguments are validated, with repair turns for invalid ones
+      let parsed: Awaited<ReturnType<typeof aiService.streamAndParseChat>>;
+      try {
+        parsed = await aiService.streamAndParseChat(
+          messages,
+          undefined,
+          provider,
+          TOOL_SCHEMAS
+        );
+      } catch (err) {
+        if (!(err instanceof ToolValidationError)) throw err;
+        return res.status(400).json({
+          ok: false,
+          error: err.message,
+          issues: err.issues,
+          rawArgsSample: String(err.rawArguments ?? "").slice(0, 2000),
+        });
+      }
       const { fullMessage, toolCallName, toolCallArgsBuffer, toolCallId } =
         parsed;
       // If no tool call, return plain assistant text
@@ -91,28 +126,7 @@ class AIController {
         return res.json({ ok: true, modelReply: replyText });
       }
       console.log(toolCallName, toolCallArgsBuffer);
-
-      // Parse function args
-      let argsObj: any = {};
-      try {
-        argsObj = toolCallArgsBuffer ? JSON.parse(toolCallArgsBuffer) : {};
-      } catch (err) {
-        // Ask model to reformat arguments
-        messages.push({
-          role: "assistant",
-          content: `Invalid function_call arguments: ${String(
-            err
-          )}. Raw args: ${String(toolCallArgsBuffer).slice(0, 2000)}`,
-        });
-        const r2 = await aiService.callChatModel(messages);
-        const fallback = extractAssistantContent(r2);
-        return res.status(400).json({
-          ok: false,
-          error: "Invalid function_call arguments (JSON parse failed)",
-          modelReply: fallback,
-          rawArgsSample: String(toolCallArgsBuffer).slice(0, 2000),
-        });
-      }
+      const argsObj: any = parsed.toolCallArgs ?? {};
 
       // Add the assistant message with tool_calls to the conversation
       messages.push({
@@ -147,19 +161,34 @@ class AIController {
           content: JSON.stringify(result),
         });
 
-        const r2 = await aiService.callChatModel(messages);
+        const r2 = await aiService.callChatModel(
+          messages,
+          undefined,
+          undefined,
+          provider
+        );
         const modelReply = extractAssistantContent(r2);
         return res.json({ ok: !!result?.ok, project: result, modelReply });
       }
 
       if (toolCallName === "emitFiles") {
-        const result = await fileService.createSuggestion(argsObj);
+        // queued as a proposal; applied only after a user approves it
+        const llm = llmRegistry.get("chat", provider);
+        const result = await fileService.createSuggestion(
+          argsObj,
+          modelAuthor(llm.name, llm.defaultModel)
+        );
         messages.push({
           role: "tool",
           tool_call_id: toolCallId ?? "",
           content: JSON.stringify(result),
         });
-        const r2 = await aiService.callChatModel(messages);
+        const r2 = await aiService.callChatModel(
+          messages,
+          undefined,
+          undefined,
+          provider
+        );
         const modelReply = extractAssistantContent(r2);
         if (!modelReply || modelReply.trim().length === 0) {
           return res.json({
@@ -185,7 +214,12 @@ class AIController {
           tool_call_id: toolCallId ?? "",
           content: JSON.stringify(result),
         });
-        const r2 = await aiService.callChatModel(messages);
+        const r2 = await aiService.callChatModel(
+          messages,
+          undefined,
+          undefined,
+          provider
+        );
         const modelReply = extractAssistantContent(r2);
         if (!modelReply || modelReply.trim().length === 0) {
           return res.json({
@@ -212,40 +246,41 @@ class AIController {
             error: "runCommand requires projectId and cmd",
           });
         }
-        const job = jobService.create(argsObj.projectId, "runCommand");
-        jobService.update(job.id, { status: "running" });
-
         const runResult = await runCommandSafe(argsObj);
-        jobService.update(job.id, {
-          status:
-            runResult &&
-            typeof runResult === "object" &&
-            "ok" in runResult &&
-            runResult.ok
-              ? "success"
-              : "failed",
-          result: runResult,
-        });
 
         messages.push({
           role: "tool",
           tool_call_id: toolCallId ?? "",
           content: JSON.stringify(runResult),
         });
-        const r2 = await aiService.callChatModel(messages);
+        const r2 = await aiService.callChatModel(
+          messages,
+          undefined,
+          undefined,
+          provider
+        );
         const modelReply = extractAssistantContent(r2);
-        return res.json({ ok: true, jobId: job.id, runResult, modelReply });
+        return res.json({ ok: true, jobId: runResult.jobId, runResult, modelReply });
       }
 
       if (toolCallName === "runJobStatus") {
         const { projectId, jobId } = argsObj;
-        const job = jobService.get(jobId);
+        // only jobs of the project the model names, like the MCP tool
+        const job = await jobQueue.get(String(jobId), String(projectId ?? "")).catch((err) => {
+          if (err instanceof JobNotFoundError) return null;
+          throw err;
+        });
         messages.push({
           role: "tool",
           tool_call_id: toolCallId ?? "",
-          content: JSON.stringify(job),
+          content: JSON.stringify(job ?? { projectId, jobId, status: "not_found" }),
         });
-        const r2 = await aiService.callChatModel(messages);
+        const r2 = await aiService.callChatModel(
+          messages,
+          undefined,
+          undefined,
+          provider
+        );
         const modelReply = extractAssistantContent(r2);
         return res.json({ ok: true, job, modelReply });
       }
@@ -258,7 +293,12 @@ class AIController {
           tool_call_id: toolCallId ?? "",
           content: JSON.stringify(list),
         });
-        const r2 = await aiService.callChatModel(messages);
+        const r2 = await aiService.callChatModel(
+          messages,
+          undefined,
+          undefined,
+          provider
+        );
         const modelReply = extractAssistantContent(r2);
         return res.json({ ok: true, list, modelReply });
       }
@@ -271,7 +311,12 @@ class AIController {
           tool_call_id: toolCallId ?? "",
           content: JSON.stringify(file),
         });
-        const r2 = await aiService.callChatModel(messages);
+        const r2 = await aiService.callChatModel(
+          messages,
+          undefined,
+          undefined,
+          provider
+        );
         const modelReply = extractAssistantContent(r2);
         return res.json({ ok: true, file, modelReply });
       }
@@ -285,7 +330,12 @@ class AIController {
             error: "formatFile not implemented",
           }),
         });
-        const r2 = await aiService.callChatModel(messages);
+        const r2 = await aiService.callChatModel(
+          messages,
+          undefined,
+          undefined,
+          provider
+        );
         const modelReply = extractAssistantContent(r2);
         return res.json({
           ok: true,
@@ -294,6 +344,26 @@ class AIController {
         });
       }
 
+      // tools served by external MCP servers
+      if (mcpClientManager.isExternalTool(toolCallName)) {
+        const toolResult = await mcpClientManager
+          .callTool(toolCallName, argsObj)
+          .catch((err) => ({ ok: false, error: String(err?.message ?? err) }));
+        messages.push({
+          role: "tool",
+          tool_call_id: toolCallId ?? "",
+          content: JSON.stringify(toolResult),
+        });
+        const r2 = await aiService.callChatModel(
+          messages,
+          undefined,
+          undefined,
+          provider
+        );
+        const modelReply = extractAssistantContent(r2);
+        return res.json({ ok: true, toolResult, modelReply });
+      }
+
       return res
         .status(400)
         .json({ ok: false, error: `Unknown function: ${toolCallName}` });
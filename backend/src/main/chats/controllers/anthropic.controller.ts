@@ -1,143 +1,121 @@
 // src/controllers/AnthropicController.ts  (replace method body)
 import { NextFunction, Response, Request } from "express";
 import * as path from "path";
-import CodeBuilderService from "../services/buildcode/buildcode.service";
-import {
-  callModelWithToolsStream,
-  extractJsonFromText,
-} from "../../../utils/Anthropic.utils";
-import {
-  FileOperation,
-  FileSystemManager,
-} from "../services/buildcode/fileSystem.service";
+import { callModelWithToolsStream } from "../../../utils/Anthropic.utils";
+import { Workspace } from "workspace/workspace";
+import { WorkspaceOperation as FileOperation } from "workspace/workspace.types";
+import { modelAuthor } from "workspace/workspace.history";
+import proposalQueue, {
+  Proposal,
+  ProposalError,
+  proposalSummary,
+} from "workspace/workspace.proposals";
+import workspaceRegistry from "workspace/workspace.registry";
 import {
   buildModuleTreeMessages,
   emitFilesMessages,
 } from "../services/buildcode/prompt.service";
+import { ANTHROPIC_PROJECT_TOOLS } from "../schemas/ai/code.bulder";
+import {
+  BuildModuleTreeToolSchema,
+  EmitFilesToolSchema,
+} from "../schemas/zod/chat.schemas";
+import mcpClientManager from "mcp/client/mcpClient.manager";
+import generationRegistry, {
+  GenerationPartial,
+  isAbortError,
+  throwIfAborted,
+} from "llm/generation.registry";
+import usageLedger from "llm/usage.ledger";
+import llmRegistry from "llm/llm.registry";
+import { ToolValidationError } from "llm/tool.validation";
+import { ContextOptions } from "llm/context.manager";
+import verifyService, { verifyEnabled } from "verify/verify.service";
+import { RepairResult } from "verify/verify.types";
 
 const projectRoot = path.resolve(__dirname, "../../../../../web");
+workspaceRegistry.register("web", projectRoot);
+const MAX_EXTERNAL_TOOL_CALLS = Number(
+  process.env.MCP_MAX_EXTERNAL_TOOL_CALLS || 5
+);
 
-function trimMessagesContent(messages: any[]) {
-  // Remove trailing whitespace from every message content to avoid API errors
-  return messages.map((m) => {
-    if (!m || typeof m.content !== "string") return m;
-    return { ...m, content: m.content.replace(/\s+$/u, "") };
-  });
-}
+// project tools are checked against these; external tools against their JSON schema
+const PROJECT_TOOL_SCHEMAS = {
+  build_module_tree_from_prompt: BuildModuleTreeToolSchema,
+  emitFiles: EmitFilesToolSchema,
+};
 
 /**
- * Extract first balanced JSON object starting at the last occurrence of '{"tool"'
- * Returns parsed object or null.
+ * Call the model with the project tools plus the tools of the configured
+ * external MCP servers. External tool calls are executed and their result
+ * fed back until the model answers with one of our own tools. Tool
+ * arguments are validated (with repair turns) before they are returned.
  */
-function extractToolJsonFromText(
-  raw: string
-): { tool?: string; args?: any } | null {
-  if (!raw || typeof raw !== "string") return null;
-  const lastIndex = raw.lastIndexOf('{"tool"');
-  if (lastIndex === -1) return null;
-
-  let i = lastIndex;
-  let depth = 0;
-  let inString = false;
-  let escape = false;
-  let endIndex = -1;
-  for (; i < raw.length; i++) {
-    const ch = raw[i];
-    if (escape) {
-      escape = false;
-      continue;
-    }
-    if (ch === "\\") {
-      escape = true;
-      continue;
-    }
-    if (ch === '"') {
-      inString = !inString;
-      continue;
+async function callModelWithExternalTools(
+  messages: any[],
+  socketId: string,
+  emitFn: (ev: string, d: any) => void,
+  signal?: AbortSignal,
+  context: ContextOptions = {}
+) {
+  const tools = [
+    ...ANTHROPIC_PROJECT_TOOLS,
+    ...(await mcpClientManager.anthropicTools()),
+  ];
+  const conversation = [...messages];
+
+  for (let call = 0; ; call++) {
+    throwIfAborted(signal);
+    const result = await callModelWithToolsStream(
+      conversation,
+      socketId,
+      undefined,
+      tools,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { ...context, signal, toolSchemas: PROJECT_TOOL_SCHEMAS }
+    );
+    const toolName = result.toolCallName;
+    if (!mcpClientManager.isExternalTool(toolName)) return result;
+    if (call >= MAX_EXTERNAL_TOOL_CALLS) {
+      throw new Error(
+        `External tool budget exhausted (${MAX_EXTERNAL_TOOL_CALLS} calls)`
+      );
     }
-    if (!inString) {
-      if (ch === "{") depth++;
-      else if (ch === "}") {
-        depth--;
-        if (depth === 0) {
-          endIndex = i;
-          break;
-        }
+
+    emitFn("external_tool", { tool: toolName, stage: "calling" });
+    const toolResult = await mcpClientManager
+      .callTool(toolName, result.toolArgs ?? {})
+      .catch((err) => ({ ok: false, content: String(err?.message ?? err) }));
+    emitFn("external_tool", {
+      tool: toolName,
+      stage: "done",
+      ok: toolResult.ok,
+    });
+
+    conversation.push(
+      {
+        role: "assistant",
+        content: `Called tool ${toolName} with ${result.toolCallArgsBuffer}`,
+      },
+      {
+        role: "user",
+        content: `Tool result (${toolName}${
+          toolResult.ok ? "" : ", error"
+        }):\n${toolResult.content.slice(0, 30000)}`,
       }
-    }
+    );
   }
-  if (endIndex > lastIndex) {
-    const jsonStr = raw.slice(lastIndex, endIndex + 1);
-    try {
-      const parsed = JSON.parse(jsonStr);
-      return parsed;
-    } catch (e) {
-      return null;
-    }
-  }
-  return null;
 }
 
-/**
- * Normalize tool call result: accept either explicit tool metadata returned by
- * callModelWithToolsStream or fallback-extract from raw assistant text fields.
- *
- * Returns object { tool, argsBuffer, raw } or throws with diagnostics.
- */
-function normalizeToolResult(
-  rawResult: any,
-  emitFn?: (ev: string, d: any) => void
-) {
-  const out: { tool?: string; argsBuffer?: string; raw?: any } = {
-    raw: rawResult,
-  };
-
-  // If the tool runner already detected a tool, use it:
-  if (rawResult && rawResult.toolCallName) {
-    out.tool = rawResult.toolCallName;
-    out.argsBuffer =
-      rawResult.toolCallArgsBuffer ?? rawResult.toolCallArgs ?? "";
-    return out;
-  }
-
-  // Try to find common assistant text fields that may contain the JSON
-  const candidateTexts: string[] = [];
-  if (rawResult?.outputText) candidateTexts.push(rawResult.outputText);
-  if (rawResult?.text) candidateTexts.push(rawResult.text);
-  if (rawResult?.assistantMessage?.content)
-    candidateTexts.push(rawResult.assistantMessage.content);
-  if (rawResult?.content) candidateTexts.push(rawResult.content);
-  if (rawResult?.message) candidateTexts.push(rawResult.message);
-  // join them, take last
-  const joined = candidateTexts.join("\n\n");
-
-  if (!joined) {
-    // nothing to extract
-    const msg = "No assistant text available to extract tool call from.";
-    if (emitFn) emitFn("debug", { message: msg, raw: rawResult });
-    throw new Error(msg);
-  }
-
-  const parsed = extractToolJsonFromText(joined);
-  if (!parsed) {
-    // Try looser: perhaps the assistant returned JSON only for args (no wrapper)
-    try {
-      const maybeArgs = JSON.parse(joined);
-      // not a wrapper, but might be args
-      out.tool = undefined;
-      out.argsBuffer = JSON.stringify(maybeArgs);
-      return out;
-    } catch (e) {
-      const msg = "Failed to extract tool JSON from assistant output.";
-      if (emitFn) emitFn("assistant_raw", { raw: joined.slice(0, 2000) });
-      throw new Error(msg);
-    }
-  }
-
-  // Successfully extracted wrapper JSON
-  out.tool = parsed.tool;
-  out.argsBuffer = JSON.stringify(parsed.args ?? {});
-  return out;
+function trimMessagesContent(messages: any[]) {
+  // Remove trailing whitespace from every message content to avoid API errors
+  return messages.map((m) => {
+    if (!m || typeof m.content !== "string") return m;
+    return { ...m, content: m.content.replace(/\s+$/u, "") };
+  });
 }
 
 class AnthropicController {
@@ -165,6 +143,12 @@ class AnthropicController {
       }
     };
 
+    // cancellable via the socket event `ai:abort { id: generationId }`
+    const generation = generationRegistry.start(socketId, req.body.generationId);
+    const { signal } = generation;
+    const partial: GenerationPartial = { stage: "init", userPrompt, stackType };
+    usageLedger.enter({ socketId, generationId: generation.id });
+
     try {
       console.log(`Building project in: ${projectRoot}`);
       emit("status", {
@@ -173,10 +157,14 @@ class AnthropicController {
       });
 
       // 1. Snapshot current state
-      const existingSnapshot = CodeBuilderService.snapshotDir(projectRoot);
+      const workspace = new Workspace(projectRoot, (eventName, payload) => {
+        emit(eventName, payload);
+      });
+      const existingSnapshot = await workspace.snapshot();
       emit("snapshot", { files: existingSnapshot.length });
 
       // 2. Phase 1: Build Module Tree
+      partial.stage = "planning";
       emit("status", {
         message: "Designing architecture with AI...",
         stage: "planning",
@@ -187,7 +175,15 @@ class AnthropicController {
         buildModuleTreeMessages(userPrompt, existingSnapshot, stackType)
       );
 
-      const rawTreeResult = await callModelWithToolsStream(buildMsgs, socketId);
+      // the snapshot is packed into the request by priority
+      const context = { snapshot: existingSnapshot, snapshotFocus: userPrompt };
+      const rawTreeResult = await callModelWithExternalTools(
+        buildMsgs,
+        socketId,
+        emit,
+        signal,
+        context
+      );
       console.log("rawTreeResult:", rawTreeResult);
       emit("debug", {
         rawTreeResult:
@@ -196,40 +192,15 @@ class AnthropicController {
             : String(rawTreeResult),
       });
 
-      // normalize/fallback-extract
-      let treeTool;
-      try {
-        const normalized = normalizeToolResult(rawTreeResult, (e, d) =>
-          emit(e, d)
-        );
-        treeTool = normalized;
-      } catch (err: any) {
-        emit("error", {
-          message: "Failed to parse module-tree tool call",
-          detail: err.message,
-        });
-        throw new Error(
-          "Failed to parse module-tree tool call: " + err.message
-        );
-      }
-
-      if (treeTool.tool !== "build_module_tree_from_prompt") {
+      if (rawTreeResult.toolCallName !== "build_module_tree_from_prompt") {
         throw new Error(
-          `Expected build_module_tree_from_prompt, got ${
-            treeTool.tool ?? "unknown"
-          }`
+          `Expected build_module_tree_from_prompt, got ${rawTreeResult.toolCallName}`
         );
       }
 
-      let moduleTreeObj;
-      try {
-        moduleTreeObj = JSON.parse(treeTool.argsBuffer ?? "{}");
-      } catch (err) {
-        throw new Error("Failed to JSON.parse moduleTree argsBuffer");
-      }
-
-      // moduleTree might be nested under .moduleTree
-      const moduleTree = moduleTreeObj.moduleTree ?? moduleTreeObj;
+      // validated against BuildModuleTreeToolSchema
+      const moduleTree = rawTreeResult.toolArgs.moduleTree;
+      partial.moduleTree = moduleTree;
       emit("module_tree", { tree: moduleTree, stage: "tree_complete" });
       console.log(
         "Module tree generated:",
@@ -238,15 +209,19 @@ class AnthropicController {
 
       // --- Replace the current filesResult handling with this block ---
       // 3. Phase 2: Generate Files
+      partial.stage = "generating";
       emit("status", {
         message:
           "Generating stunning UI with GSAP + Tailwind + Alpine + Premium CDNs...",
         stage: "generating",
       });
 
-      const rawFilesResult: any = await callModelWithToolsStream(
+      const rawFilesResult = await callModelWithExternalTools(
         emitFilesMessages(moduleTree, existingSnapshot, stackType),
-        socketId
+        socketId,
+        emit,
+        signal,
+        context
       );
       console.log("rawFilesResult:", rawFilesResult);
       emit("debug", {
@@ -256,230 +231,125 @@ class AnthropicController {
             : String(rawFilesResult),
       });
 
-      // helper: loose parse JSON substring
-      function tryParseJsonLoose(s?: string): any | null {
-        if (!s) return null;
-        try {
-          return JSON.parse(s);
-        } catch {}
-        // try balanced braces/array
-        const firstObj = s.indexOf("{");
-        const lastObj = s.lastIndexOf("}");
-        if (firstObj !== -1 && lastObj !== -1 && lastObj > firstObj) {
-          try {
-            return JSON.parse(s.slice(firstObj, lastObj + 1));
-          } catch {}
-        }
-        const firstArr = s.indexOf("[");
-        const lastArr = s.lastIndexOf("]");
-        if (firstArr !== -1 && lastArr !== -1 && lastArr > firstArr) {
-          try {
-            return JSON.parse(s.slice(firstArr, lastArr + 1));
-          } catch {}
-        }
-        return null;
-      }
-
-      // Normalize values from callModelWithToolsStream
-      let filesToolName: string | undefined = rawFilesResult?.toolCallName;
-      let filesArgsBuffer: string | undefined =
-        rawFilesResult?.toolCallArgsBuffer;
-      const fullMessage: string = String(rawFilesResult?.fullMessage ?? "");
-      const rawObj = rawFilesResult?.raw ?? null;
-
-      // If toolName is unknown, try robust extraction from fullMessage
-      if (!filesToolName || filesToolName === "unknown") {
-        // 1) try the extractor (handles fenced ```json and balanced braces)
-        const parsedFromFull = extractJsonFromText(fullMessage);
-        if (parsedFromFull && typeof parsedFromFull === "object") {
-          // wrapper with tool + args
-          if (
-            parsedFromFull.tool &&
-            (parsedFromFull.args || parsedFromFull.arguments)
-          ) {
-            filesToolName = String(parsedFromFull.tool);
-            filesArgsBuffer = JSON.stringify(
-              parsedFromFull.args ?? parsedFromFull.arguments ?? {}
-            );
-            emit("debug", {
-              message: "extractJsonFromText: found wrapper with tool",
-              tool: filesToolName,
-            });
-          }
-          // or an args-like object (emitFiles args with operations)
-          else if (
-            Array.isArray(parsedFromFull.operations) ||
-            Array.isArray(parsedFromFull)
-          ) {
-            filesToolName = "emitFiles";
-            filesArgsBuffer = JSON.stringify(
-              Array.isArray(parsedFromFull.operations)
-                ? parsedFromFull
-                : { operations: parsedFromFull }
-            );
-            emit("debug", {
-              message: "extractJsonFromText: found operations object",
-              operations:
-                (parsedFromFull.operations ?? parsedFromFull).length ?? null,
-            });
-          }
-        }
-
-        // 2) fallback: maybe toolCallArgsBuffer already contains a single operation object (common bug)
-        if (
-          (!filesToolName || filesToolName === "unknown") &&
-          filesArgsBuffer
-        ) {
-          const tryArgs = tryParseJsonLoose(filesArgsBuffer);
-          if (tryArgs && typeof tryArgs === "object") {
-            // if this looks like a single op (has path + action), wrap it into operations array
-            if (tryArgs.path && tryArgs.action) {
-              filesToolName = "emitFiles";
-              filesArgsBuffer = JSON.stringify({ operations: [tryArgs] });
-              emit("debug", {
-                message:
-                  "Wrapped single op into operations array (from toolCallArgsBuffer)",
-              });
-            } else if (Array.isArray(tryArgs.operations)) {
-              filesToolName = "emitFiles";
-              filesArgsBuffer = JSON.stringify(tryArgs);
-            }
-          }
-        }
-
-        // 3) last resort: try to find a ```json fenced block that mentions "tool":"emitFiles"
-        if ((!filesToolName || filesToolName === "unknown") && fullMessage) {
-          const fenceMatch =
-            fullMessage.match(/```json\s*([\s\S]*?)```/i) ||
-            fullMessage.match(/```([\s\S]*?)```/i);
-          if (fenceMatch && fenceMatch[1]) {
-            const inner = fenceMatch[1].trim();
-            const parsedInner = tryParseJsonLoose(inner);
-            if (parsedInner && parsedInner.tool && parsedInner.args) {
-              filesToolName = String(parsedInner.tool);
-              filesArgsBuffer = JSON.stringify(parsedInner.args);
-              emit("debug", { message: "Parsed fenced JSON block" });
-            } else if (parsedInner && Array.isArray(parsedInner.operations)) {
-              filesToolName = "emitFiles";
-              filesArgsBuffer = JSON.stringify(parsedInner);
-              emit("debug", { message: "Parsed fenced JSON operations block" });
-            }
-          }
-        }
-      }
-
-      // still unknown -> emit raw snippet + throw helpful error
-      if (filesToolName !== "emitFiles") {
+      if (rawFilesResult.toolCallName !== "emitFiles") {
         emit("assistant_raw_files_result", {
-          rawSnippet: fullMessage?.slice(0, 4000),
-          inferredTool: filesToolName ?? null,
-          toolCallArgsBuffer: filesArgsBuffer?.slice?.(0, 2000) ?? null,
-          rawObjPreview: rawObj ? JSON.stringify(rawObj).slice(0, 2000) : null,
+          rawSnippet: rawFilesResult.fullMessage.slice(0, 4000),
+          inferredTool: rawFilesResult.toolCallName,
         });
-        throw new Error(
-          `Expected emitFiles, got ${filesToolName ?? "unknown"}`
-        );
+        throw new Error(`Expected emitFiles, got ${rawFilesResult.toolCallName}`);
       }
 
-      // parse args (now guaranteed to exist)
-      let parsedFilesArgs: any = {};
+      // validated against EmitFilesToolSchema (content present for create/update)
+      const operations: FileOperation[] = rawFilesResult.toolArgs.operations;
+
+      emit("file_operations", { operations, count: operations.length });
+      partial.stage = "applying";
+      partial.operations = operations;
+      throwIfAborted(signal);
+
+      // Propose the operations; they are written once the user approves
+      // them (or at once with PROPOSALS_AUTO_APPROVE)
+      const llm = llmRegistry.get("builder");
+      let proposal: Proposal | null = null;
       try {
-        parsedFilesArgs = filesArgsBuffer ? JSON.parse(filesArgsBuffer) : {};
+        proposal = await proposalQueue.propose({
+          workspaceId: "web",
+          existing: "skip",
+          title: userPrompt,
+          author: modelAuthor(llm.name, llm.defaultModel),
+          operations,
+        });
       } catch (err) {
-        // fallback: try to parse fullMessage for operations
-        const fallback = tryParseJsonLoose(fullMessage);
-        if (fallback) parsedFilesArgs = fallback;
-        else throw new Error("Failed to parse emitFiles args buffer JSON");
-      }
-
-      // operations may be under parsedFilesArgs.operations or parsedFilesArgs may itself be an array
-      let operations: FileOperation[] | null = null;
-      if (Array.isArray(parsedFilesArgs.operations))
-        operations = parsedFilesArgs.operations;
-      else if (Array.isArray(parsedFilesArgs)) operations = parsedFilesArgs;
-      else if (
-        parsedFilesArgs?.operations &&
-        Array.isArray(parsedFilesArgs.operations)
-      )
-        operations = parsedFilesArgs.operations;
-
-      if (!Array.isArray(operations)) {
-        throw new Error(
-          "Invalid operations format: operations must be an array"
-        );
+        // every file already exists as emitted
+        if (!(err instanceof ProposalError)) throw err;
+        console.warn("[AnthropicController] nothing to propose:", err.message);
       }
-
-      // Basic validation of ops
-      const invalidOps = operations.filter((op) => {
-        if (
-          !op ||
-          typeof op.path !== "string" ||
-          !["create", "update", "delete"].includes(op.action)
-        )
-          return true;
-        if (
-          (op.action === "create" || op.action === "update") &&
-          typeof op.content !== "string"
-        )
-          return true;
-        return false;
-      });
-      if (invalidOps.length > 0) {
-        emit("debug", {
-          invalidOpsCount: invalidOps.length,
-          invalidOpsSample: invalidOps.slice(0, 3),
+      const files = proposal?.files ?? [];
+      const pending = proposal?.status === "pending";
+      const version = files.find((f) => f.version)?.version ?? null;
+      partial.proposalId = proposal?.id;
+      // what the workspace would have published had it written the files itself
+      if (proposal && !pending) emit("file.operations.summary", { results: files });
+      throwIfAborted(signal);
+
+      // 4. Verify: install/build/test what was written, patch what fails
+      // (`verify: false` in the body or BUILD_VERIFY=off skips it); a
+      // proposal still under review has nothing to verify yet
+      let verify: RepairResult | null = null;
+      if (!pending && req.body.verify !== false && verifyEnabled()) {
+        partial.stage = "verifying";
+        emit("status", {
+          message: "Building and testing the project...",
+          stage: "verifying",
         });
-        throw new Error(
-          "Operations failed validation (missing path/action/content)"
-        );
+        verify = await verifyService.repair("web", {
+          llm,
+          workspace,
+          goal: userPrompt,
+          signal,
+          socketId,
+          requestedBy: `socket:${socketId}`,
+          onEvent: (event) => emit("verify", event),
+        });
+        partial.verify = verify;
+        throwIfAborted(signal);
       }
 
-      emit("file_operations", { operations, count: operations.length });
-
-      // Apply operations as before
-      const fileManager = new FileSystemManager(
-        projectRoot,
-        (eventName, payload) => {
-          emit(eventName, payload);
-        }
-      );
-
-      const { results } = await fileManager.applyOperations(operations, {
-        dryRun: false,
-        backup: false,
-        rollbackOnError: true,
-        publishEvents: true,
-      });
-
-      const successCount = results.filter(
-        (r) => r.status === "applied" || r.status === "skipped"
-      ).length;
+      const successCount = files.filter((f) => f.status === "applied").length;
       emit("build_complete", {
         success: true,
-        message: `✨ Project built successfully! ${successCount}/${operations.length} files applied`,
-        results,
+        message: pending
+          ? `✨ ${files.length} files proposed for review (proposal ${proposal!.id})`
+          : `✨ Project built successfully! ${successCount}/${operations.length} files applied${
+              verify && !verify.ok ? ` (verify failed: ${verify.stopReason})` : ""
+            }`,
+        proposal: proposal && proposalSummary(proposal),
         moduleTree,
         operations,
+        version,
+        verify,
       });
 
       return res.json({
         ok: true,
-        message: "Project built successfully",
+        message: pending ? "Project proposed for review" : "Project built successfully",
+        proposal: proposal && proposalSummary(proposal),
         filesApplied: successCount,
         totalFiles: operations.length,
         moduleTree,
+        version,
+        verify,
       });
     } catch (error: any) {
+      if (isAbortError(error, signal)) {
+        const partialPath = await generationRegistry.aborted(generation, {
+          ...partial,
+          ...error?.partial,
+        });
+        return res.json({
+          ok: false,
+          aborted: true,
+          generationId: generation.id,
+          partialPath,
+        });
+      }
       console.error("Build failed:", error);
+      // a tool call that stayed invalid after its repair turns
+      const issues =
+        error instanceof ToolValidationError ? error.issues : undefined;
       emit("error", {
         message: error.message || "Unknown error during build",
         fullError: error.stack,
+        issues,
       });
 
       return res.status(500).json({
         ok: false,
         error: error.message || "Build failed",
+        issues,
       });
+    } finally {
+      generationRegistry.finish(generation);
     }
   };
 }
@@ -1,29 +1,35 @@
 import { NextFunction, Response, Request } from "express";
 import * as path from "path";
-import CodeBuilderService from "../services/buildcode/buildcode.service";
 import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
 import { callModelWithToolsStream } from "utils/aiClient";
-import {
-  FileOperation,
-  FileSystemManager,
-} from "../services/buildcode/fileSystem.service";
+import { Workspace } from "workspace/workspace";
+import { WorkspaceOperation as FileOperation } from "workspace/workspace.types";
+import { modelAuthor } from "workspace/workspace.history";
+import proposalQueue, {
+  Proposal,
+  ProposalError,
+  proposalSummary,
+} from "workspace/workspace.proposals";
+import workspaceRegistry from "workspace/workspace.registry";
+import llmRegistry from "llm/llm.registry";
 import {
   buildModuleTreeMessages,
   emitFilesMessages,
   emitPreviewMessages,
 } from "../services/buildcode/prompt.service";
 
+const projectRoot = path.resolve(
+  __dirname,
+  "../../../../../client_generator/src/pages"
+);
+workspaceRegistry.register("client-generator", projectRoot);
+
 class BuilderCodeEmitterController {
   public buildingProject = async (
     req: Request,
     res: Response,
     next: NextFunction
   ) => {
-    const projectRoot = path.resolve(
-      __dirname,
-      "../../../../../client_generator/src/pages"
-    );
-
     console.log(projectRoot);
     // const maxEmitAttempts = 2;
 
@@ -43,12 +49,24 @@ class BuilderCodeEmitterController {
       const isThinkMode = Boolean(thinkMode);
 
       // snapshot existing files
-      const existing = CodeBuilderService.snapshotDir(projectRoot);
+      const workspace = new Workspace(projectRoot);
+      const existing = await workspace.snapshot();
 
-      // call helper wrapper — returns toolCallArgsBuffer when tool call was emitted
+      // call helper wrapper — returns toolCallArgsBuffer when tool call was emitted;
+      // the snapshot is packed into each request by priority
       const callModelTool = async (messages: ChatCompletionMessageParam[]) => {
         const { toolCallName, toolCallArgsBuffer } =
-          await callModelWithToolsStream(messages, 4000, socketId);
+          await callModelWithToolsStream(
+            messages,
+            4000,
+            socketId,
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            { snapshot: existing, snapshotFocus: userPrompt }
+          );
         return { toolCallName, toolCallArgsBuffer };
       };
 
@@ -80,7 +98,7 @@ class BuilderCodeEmitterController {
         );
 
         const { toolCallArgsBuffer: previewBuffer } =
-          await callModelWithToolsStream(previewMessages, 4000, socketId);
+          await callModelTool(previewMessages);
 
         if (!previewBuffer) {
           throw new Error("Preview JSON not returned by model");
@@ -94,16 +112,15 @@ class BuilderCodeEmitterController {
         }
 
         // simulate application via dry-run
-        const manager = new FileSystemManager(projectRoot);
         let previewApplyResult;
         try {
-          previewApplyResult = await manager.applyOperations(
+          previewApplyResult = await workspace.apply(
             parsedPreview.operations || [],
             {
               dryRun: true,
               backup: false,
               rollbackOnError: false,
-              projectRoot,
+              existing: "skip",
             }
           );
         } catch (dryErr) {
@@ -155,21 +172,27 @@ class BuilderCodeEmitterController {
         throw new Error("emitFiles returned invalid operations");
       }
 
-      const manager = new FileSystemManager(projectRoot);
+      // the operations become a proposal the user reviews before anything
+      // is written (applied at once only with PROPOSALS_AUTO_APPROVE)
+      const llm = llmRegistry.get("chat");
+      const propose = (operations: FileOperation[]) =>
+        proposalQueue.propose({
+          workspaceId: "client-generator",
+          existing: "skip",
+          title: userPrompt,
+          author: modelAuthor(llm.name, llm.defaultModel),
+          operations,
+        });
 
-      // try apply and retry once on failure
-      let applyResult;
+      // propose and retry once when nothing usable came back
+      let proposal: Proposal;
       try {
-        applyResult = await manager.applyOperations(parsed.operations, {
-          dryRun: false,
-          backup: true,
-          rollbackOnError: true,
-          projectRoot,
-        });
-      } catch (applyErr) {
-        console.error("applyOperations initial failure:", applyErr);
+        proposal = await propose(parsed.operations);
+      } catch (proposeErr) {
+        if (!(proposeErr instanceof ProposalError)) throw proposeErr;
+        console.error("proposal initial failure:", proposeErr);
 
-        // retry: re-emit and reapply
+        // retry: re-emit and propose again
         const { toolCallArgsBuffer: emitArgsRetry } = await callModelTool(
           emitFilesMessages(moduleTreeBuffer, existing, stackType)
         );
@@ -177,8 +200,8 @@ class BuilderCodeEmitterController {
         if (!emitArgsRetry) {
           return res.status(500).json({
             ok: false,
-            error: "Failed to re-emit files after apply failure",
-            details: String(applyErr),
+            error: "Failed to re-emit files after an unusable proposal",
+            details: String(proposeErr),
           });
         }
 
@@ -194,24 +217,23 @@ class BuilderCodeEmitterController {
         }
 
         try {
-          applyResult = await manager.applyOperations(parsedRetry.operations, {
-            dryRun: false,
-            backup: true,
-            rollbackOnError: true,
-            projectRoot,
-          });
-        } catch (applyErr2) {
-          console.error("applyOperations retry failed:", applyErr2);
+          proposal = await propose(parsedRetry.operations ?? []);
+        } catch (proposeErr2) {
+          if (!(proposeErr2 instanceof ProposalError)) throw proposeErr2;
+          console.error("proposal retry failed:", proposeErr2);
           return res.status(500).json({
             ok: false,
-            error: "Failed to apply file operations after retries",
-            details: String(applyErr2),
+            error: "Failed to propose file operations after retries",
+            details: String(proposeErr2),
           });
         }
       }
 
-      const backupFolder = applyResult?.backupFolder;
-      res.send({ ok: true, backupFolder, results: applyResult?.results });
+      res.send({
+        ok: true,
+        proposal: proposalSummary(proposal),
+        version: proposal.files.find((f) => f.version)?.version ?? null,
+      });
     } catch (err) {
       next(err);
     }
@@ -5,22 +5,56 @@ import {
   ChatCompletionMessageParam,
   ChatCompletionTool,
 } from "openai/resources/chat/completions";
-import { OpenAI } from "openai";
 import { functions } from "../../chats/schemas/ai/functions";
-import { unlinkSync } from "node:fs";
 import { platform } from "os";
 import { spawn } from "child_process";
-import { mkdirSync, writeFileSync } from "fs";
-import { EmitFilesSchema } from "../schemas/zod/chat.schemas";
+import { EmitFilesToolSchema } from "../schemas/zod/chat.schemas";
+import mcpClientManager from "mcp/client/mcpClient.manager";
+import llmRegistry from "llm/llm.registry";
+import { collectStream, toLlmMessages, toLlmTools } from "llm/llm.messages";
+import generationRegistry, {
+  GenerationPartial,
+  isAbortError,
+  throwIfAborted,
+} from "llm/generation.registry";
+import usageLedger from "llm/usage.ledger";
+import {
+  ToolValidationError,
+  defaultMaxRepairs,
+  toolRepairReport,
+  validateToolCall,
+} from "llm/tool.validation";
+import { Workspace } from "workspace/workspace";
+import { WorkspaceOperation } from "workspace/workspace.types";
+import { modelAuthor } from "workspace/workspace.history";
+import proposalQueue, {
+  ProposalError,
+  describeProposal,
+} from "workspace/workspace.proposals";
+import workspaceRegistry from "workspace/workspace.registry";
+import commandPolicy, { explainDecision } from "sandbox/sandbox.policy";
 
-const apiKey = process.env.OPENAI_API_KEY;
-if (!apiKey) {
-  throw new Error("Missing OpenAI API key in environment variables");
+function aiServerRoot() {
+  return (
+    (process.env.AI_SERVER_ROOT && path.resolve(process.env.AI_SERVER_ROOT)) ||
+    path.resolve(__dirname, "../../../../../../aiServer")
+  );
 }
-const openai = new OpenAI({ apiKey });
+workspaceRegistry.register("ai-server", aiServerRoot());
 
 class MainChatsController {
   public addChats = async (req: Request, res: Response, next: NextFunction) => {
+    // cancellable via the socket event `ai:abort { id: generationId }`
+    const generation = generationRegistry.start(
+      req.body?.socketId,
+      req.body?.generationId
+    );
+    const { signal } = generation;
+    const partial: GenerationPartial = { stage: "chat" };
+    usageLedger.enter({
+      socketId: req.body?.socketId,
+      generationId: generation.id,
+    });
     try {
       const {
         body: { userPrompt, socketId },
@@ -34,23 +68,16 @@ class MainChatsController {
         throw new Error('Missing "userPrompt" or "socketId" in request body');
       }
 
-      const projectRoot =
-        (process.env.AI_SERVER_ROOT &&
-          path.resolve(process.env.AI_SERVER_ROOT)) ||
-        path.resolve(__dirname, "../../../../../../aiServer");
-
-      function isPathInside(root: string, resolved: string) {
-        const rootNormalized = path.resolve(root) + path.sep;
-        const resolvedNormalized = path.resolve(resolved) + path.sep;
-        return resolvedNormalized.startsWith(rootNormalized);
-      }
-      const existing = ChatService.snapshotDir(projectRoot);
+      const projectRoot = aiServerRoot();
+      const workspace = new Workspace(projectRoot);
+      const existing = await workspace.snapshot();
       const messages: ChatCompletionMessageParam[] = [
         {
           role: "system",
           content: [
             "You are an AI Code Generator & Debugger.",
             "Use project snapshot and user prompt to emit only tool calls: emitFiles or runCommand.",
+            "Change existing files with emitFiles patch operations (unified diff or search/replace edits) rather than resending them.",
           ].join(" "),
         },
         { role: "user", content: userPrompt },
@@ -64,164 +91,96 @@ class MainChatsController {
         },
       ];
 
-      const functionsSchemas = functions as ChatCompletionTool[];
+      partial.messages = messages;
+
+      // built-in tools + tools of the configured external MCP servers
+      const functionsSchemas: ChatCompletionTool[] = [
+        ...(functions as ChatCompletionTool[]),
+        ...(await mcpClientManager.openAITools()),
+      ];
+
+      const llm = llmRegistry.get("chat", req.body.provider);
+      const tools = toLlmTools(functionsSchemas);
+
+      // tool calls must match their schema; invalid ones get repair turns
+      const toolSchemas = { emitFiles: EmitFilesToolSchema };
+      const maxRepairs = defaultMaxRepairs();
+      let repairs = 0;
 
       const maxAttempts = 50;
       for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-        const stream = await openai.chat.completions.create({
-          model: "gpt-4.1-2025-04-14",
-          messages,
-          tools: functionsSchemas,
-          tool_choice: "auto",
-          stream: true,
-        });
+        throwIfAborted(signal);
+        partial.attempt = attempt;
+        const response = await collectStream(
+          llm.stream({
+            messages: toLlmMessages(messages),
+            tools,
+            toolChoice: "auto",
+            signal,
+          })
+        );
 
-        let fullMessage = "";
-        let toolCallName = "";
-        let toolCallArgsBuffer = "";
+        // Handle first tool call
+        const fullMessage = response.text;
+        const toolCallName = response.toolCalls[0]?.name ?? "";
 
-        for await (const chunk of stream) {
-          const choice = chunk.choices[0];
-          const delta = choice.delta;
-          if (delta?.content) {
-            fullMessage += delta.content;
-            // this.gateway.sendMessageChunk(socketId, delta.content);
-          }
+        // this.gateway.sendFinalMessage(socketId, fullMessage);
 
-          if (delta?.tool_calls) {
-            for (const toolCallDelta of delta.tool_calls) {
-              if (toolCallDelta.index === 0) {
-                // Handle first tool call
-                if (toolCallDelta.function?.name && !toolCallName) {
-                  toolCallName = toolCallDelta.function.name;
-                }
-                if (toolCallDelta.function?.arguments) {
-                  toolCallArgsBuffer += toolCallDelta.function.arguments;
-                }
-              }
+        if (toolCallName) {
+          const validation = validateToolCall(response, tools, toolSchemas);
+          if (!validation.ok) {
+            if (repairs >= maxRepairs) {
+              throw new ToolValidationError(
+                toolCallName,
+                validation.issues,
+                repairs + 1,
+                validation.call?.arguments
+              );
             }
+            repairs++;
+            messages.push(
+              {
+                role: "assistant",
+                content: `Called ${toolCallName} with ${ChatService.truncate(
+                  response.toolCalls[0].arguments
+                )}`,
+              },
+              { role: "user", content: toolRepairReport(validation) }
+            );
+            continue;
           }
-        }
-
-        // this.gateway.sendFinalMessage(socketId, fullMessage);
+          repairs = 0;
 
-        if (toolCallName && toolCallArgsBuffer) {
-          let functionArgs: {
+          const functionArgs: {
             operations?: { action: string; path: string; content?: string }[];
             cmd?: string;
             args?: string[];
-          };
-          try {
-            // console.log('funcArgsBuffer:', toolCallArgsBuffer); // Debug log
-            functionArgs = JSON.parse(toolCallArgsBuffer) as {
-              operations?: { action: string; path: string; content?: string }[];
-              cmd?: string;
-              args?: string[];
-            };
-            console.log("functionArgs:", functionArgs);
-            // path,
-            for (const { content } of functionArgs?.operations ?? []) {
-              if (content !== undefined) {
-                console.log(content);
-                // this.gateway.sendFinalMessage(socketId, content);
-                // this.gateway.sendMessageChunk(socketId, content);
-              }
-            }
-          } catch (err) {
-            // console.error('Failed to parse funcArgsBuffer:', toolCallArgsBuffer);
-            const errorMessage =
-              err instanceof Error ? err.message : "Unknown error";
-            throw new Error(`Invalid function_call arguments: ${errorMessage}`);
-          }
+          } = validation.value;
+          console.log("functionArgs:", functionArgs);
 
           if (toolCallName === "emitFiles") {
-            const operations = functionArgs.operations || [];
-            if (!Array.isArray(operations) || operations.length === 0) {
-              messages.push({
-                role: "assistant",
-                content: "emitFiles called with no operations.",
+            // validated: at least one operation, each with path and action;
+            // paths are checked by the workspace policy
+            const operations = (functionArgs.operations ?? []).map((op) => ({
+              ...op,
+              action: String(op.action || "").toLowerCase(),
+            })) as WorkspaceOperation[];
+            // a proposal for the user to review, not a write
+            let description: string;
+            try {
+              const proposal = await proposalQueue.propose({
+                workspaceId: "ai-server",
+                title: userPrompt,
+                author: modelAuthor(response.provider, response.model),
+                operations,
               });
-              continue;
+              description = describeProposal(proposal);
+            } catch (err) {
+              if (!(err instanceof ProposalError)) throw err;
+              description = `emitFiles changed nothing: ${err.message}`;
             }
-            for (const op of operations) {
-              console.log(op);
-              if (!op || typeof op.path !== "string" || !op.path.trim()) {
-                console.warn("Skipping operation with invalid path:", op);
-                messages.push({
-                  role: "assistant",
-                  content: `Skipped operation with invalid or missing path: ${JSON.stringify(
-                    op
-                  )}`,
-                });
-                continue;
-              }
-              const action = String(op.action || "").toLowerCase();
-              if (!["create", "update", "delete"].includes(action)) {
-                console.warn("Skipping operation with invalid action:", op);
-                messages.push({
-                  role: "assistant",
-                  content: `Skipped operation with invalid action: ${JSON.stringify(
-                    op
-                  )}`,
-                });
-                continue;
-              }
-              const sanitizedRel = op.path.replace(/^[\\/]*(\.\.[\\/])+/, "");
-              const target = path.resolve(projectRoot, sanitizedRel);
-              if (!isPathInside(projectRoot, target)) {
-                console.warn(
-                  "Rejected operation outside project root:",
-                  op.path,
-                  "->",
-                  target
-                );
-                messages.push({
-                  role: "assistant",
-                  content: `Rejected operation: path escapes project root (${op.path})`,
-                });
-                continue;
-              }
-              try {
-                if (action === "delete") {
-                  try {
-                    unlinkSync(target);
-                    messages.push({
-                      role: "assistant",
-                      content: `Deleted: ${op.path}`,
-                    });
-                  } catch (err) {
-                    console.error("Delete failed:", target, err);
-                    messages.push({
-                      role: "assistant",
-                      content: `Delete failed for ${op.path}: ${String(err)}`,
-                    });
-                  }
-                } else {
-                  // create/update -> ensure directory and write file
-                  mkdirSync(path.dirname(target), { recursive: true });
-                  writeFileSync(target, op.content ?? "", "utf8");
-                  messages.push({
-                    role: "assistant",
-                    content: `${action === "create" ? "Created" : "Updated"}: ${
-                      op.path
-                    }`,
-                  });
-                }
-              } catch (err) {
-                console.error("emitFiles operation error:", op, err);
-                messages.push({
-                  role: "assistant",
-                  content: `Error processing operation for ${op.path}: ${String(
-                    err
-                  )}`,
-                });
-              }
-            }
-            messages.push({
-              role: "assistant",
-              content:
-                "emitFiles executed (see messages for per-operation results).",
-            });
+            throwIfAborted(signal);
+            messages.push({ role: "assistant", content: description });
             continue;
           }
 
@@ -237,29 +196,27 @@ class MainChatsController {
               continue; // try next attempt or let model decide
             }
 
-            // Security: enforce allowlist (example)
-            const ALLOWED_COMMANDS = new Set([
-              "npm",
-              "yarn",
-              "git",
-              "pnpm",
-              "ls",
-              "node",
-              // "cd",
-            ]);
-            const baseCmd = cmd.split(/\s+/)[0];
-            if (!ALLOWED_COMMANDS.has(baseCmd)) {
+            // the command policy decides; a denial is explained to the model
+            const decision = await commandPolicy.evaluate({
+              projectId: "ai-server",
+              command: cmd,
+              args,
+            });
+            if (!decision.allowed) {
               messages.push({
                 role: "assistant",
-                content: `runCommand blocked: '${baseCmd}' is not allowed by server policy.`,
+                content: `runCommand blocked: ${explainDecision(decision)}`,
               });
               continue;
             }
 
-            // const options = { cwd: path.join(projectRoot, "backend") };
-
-            // Run command and capture logs
-            const stream$ = ChatService.runCommandStream(cmd, args);
+            // Run command in the sandbox of the workspace and capture logs;
+            // the requesting socket gets the output live as run:* events
+            const stream$ = ChatService.runCommandStream(cmd, args, {
+              projectId: "ai-server",
+              signal,
+              socketId,
+            });
             let stdoutLog = "";
             let stderrLog = "";
             let exitCode: number | null = null;
@@ -297,11 +254,8 @@ class MainChatsController {
                 next: (event: StreamEvent) => {
                   if (event.type === "stdout") {
                     stdoutLog += event.content;
-                    // Optionally push incremental updates to clients via socket:
-                    // this.gateway?.sendMessageChunk(socketId, event.content);
                   } else if (event.type === "stderr") {
                     stderrLog += event.content;
-                    // this.gateway?.sendMessageChunk(socketId, event.content);
                   } else if (event.type === "error") {
                     streamError = event.error;
                   } else if (event.type === "close") {
@@ -343,6 +297,27 @@ class MainChatsController {
             continue;
           }
 
+          if (mcpClientManager.isExternalTool(toolCallName)) {
+            try {
+              const result = await mcpClientManager.callTool(
+                toolCallName,
+                functionArgs
+              );
+              messages.push({
+                role: "assistant",
+                content: `Tool ${toolCallName} ${
+                  result.ok ? "result" : "error"
+                }:\n${ChatService.truncate(result.content)}`,
+              });
+            } catch (err) {
+              messages.push({
+                role: "assistant",
+                content: `Tool ${toolCallName} failed: ${String(err)}`,
+              });
+            }
+            continue;
+          }
+
           throw new Error(`Unexpected function_call: ${toolCallName}`);
         } else if (fullMessage) {
           messages.push({ role: "assistant", content: fullMessage });
@@ -354,7 +329,22 @@ class MainChatsController {
       res.send({ messages });
       throw new Error(`Failed after ${maxAttempts} attempts`);
     } catch (error) {
+      if (isAbortError(error, signal)) {
+        const partialPath = await generationRegistry.aborted(generation, {
+          ...partial,
+          ...(error as any)?.partial,
+        });
+        res.json({
+          ok: false,
+          aborted: true,
+          generationId: generation.id,
+          partialPath,
+        });
+        return;
+      }
       next(error);
+    } finally {
+      generationRegistry.finish(generation);
     }
   };
 }
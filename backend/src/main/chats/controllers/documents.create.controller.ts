@@ -4,6 +4,38 @@ import fs from "fs-extra";
 import * as path from "path";
 import { ProjectGeneratorService } from "../services/documents/projectGenerator.services";
 import { SqlService } from "../services/documents/sql.services";
+import jobQueue from "jobs/jobs.queue";
+import { JobFailedError } from "jobs/jobs.errors";
+import { resolveInside } from "workspace/workspace.policy";
+
+// a project generated from a JSON prompt file below the server directory
+jobQueue.register<{ usePath: string; projectId: string }>("generateProject", {
+  handler: async ({ job, signal, log }) => {
+    const { usePath, projectId } = job.input;
+    const { full } = await resolveInside(process.cwd(), usePath);
+    log("info", `Generating project from ${usePath}\n`);
+    const svc = new ProjectGeneratorService("./workspaces");
+    const result = await svc.createProjectFromJsonPrompt(full, projectId, {
+      signal,
+      // verify commands are jobs too; they run in this job's slot
+      parentJobId: job.id,
+      onVerify: (event) => {
+        if (event.stage === "step" && event.status !== "running") {
+          log("info", `verify: ${event.step} ${event.status}\n`);
+        } else if (event.stage === "repair") {
+          log("info", `verify: repair round ${event.round}, ${event.diagnostics} diagnostics in ${event.files.join(", ")}\n`);
+        }
+      },
+    });
+    log("info", `${result.filesCreated} files created, ${result.errors.length} errors\n`);
+    if (result.verify) {
+      log("info", `verify: ${result.verify.ok ? "passed" : `failed (${result.verify.stopReason})`}\n`);
+    }
+    if (!result.success) throw new JobFailedError("Project generation failed", result);
+    return result;
+  },
+});
+
 class documentCreateModuleController {
   public createDocumentModuleController = async (
     req: Request,
@@ -62,19 +94,18 @@ class documentCreateModuleController {
           .json({ ok: false, error: "usePath and projectId are required" });
       }
       console.log(req.body);
-      const svc = new ProjectGeneratorService("./workspaces");
-      const cwdir = process.cwd();
-      const promptJson = JSON.parse(
-        await fs.readFile(path.join(cwdir, usePath), "utf-8")
-      );
-
-      console.log("CWDIR", promptJson);
-
-      const result = await svc.createProjectFromJsonPrompt(
-        promptJson,
-        projectId
-      );
-      res.json(result);
+      // a job, so the generation can be followed, cancelled and outlive the request
+      const job = await jobQueue.enqueue({
+        projectId,
+        type: "generateProject",
+        input: { usePath, projectId },
+        requestedBy: "api",
+      });
+      if (req.body.background) {
+        return res.status(202).json({ ok: true, job });
+      }
+      const done = await jobQueue.wait(job.id);
+      res.json(done.result ?? { ok: false, error: done.error, jobId: job.id });
     } catch (err: any) {
       console.error(" error:", err);
       res.status(500).json({ ok: false, error: String(err?.message ?? err) });
@@ -86,7 +117,7 @@ class documentCreateModuleController {
     next: NextFunction
   ) => {
     try {
-      const { userPrompt, projectId } = req.body;
+      const { userPrompt, projectId, provider } = req.body;
 
       if (!userPrompt || !projectId) {
         return res
@@ -99,7 +130,7 @@ class documentCreateModuleController {
       const result = await sqlService.generateSqlFromPrompt(
         userPrompt,
         projectId,
-        { debug: true }
+        { debug: true, provider }
       );
 
       res.json({
@@ -16,8 +16,10 @@ import { runCmd } from "../services/codebuilder/run-cmd.service";
 import { IngestService } from "../services/codebuilder/ingest.service";
 import * as path from "path";
 import fs from "fs-extra";
+import { verifyEnabled } from "verify/verify.service";
+import { RepairResult } from "verify/verify.types";
 
-const generator = new ProjectGeneratorService(5);
+const generator = new ProjectGeneratorService();
 const ingestService = new IngestService(); // default settings
 
 class codeBuilderModuleController {
@@ -28,6 +30,8 @@ class codeBuilderModuleController {
   ) => {
     const body = req.body as BuildModuleTreePayload & {
       testCmdSchema?: RunCmdSchema;
+      // false skips the verify stage
+      verify?: boolean;
       readFilePath?: string;
       emitOperations?: EmitOperation[];
       // new: optional documents array for ingestion (fullContent or chunks)
@@ -156,30 +160,12 @@ class codeBuilderModuleController {
       // (createProjectFromPrompt already emitted, but we support re-emitting in case of adjustments)
       // emitResults already set above.
 
-      // 3) Determine run command: prefer user-provided testCmdSchema -> ask AI for suggestion
-      let runSchema: RunCmdSchema | undefined = body.testCmdSchema;
-      if (runSchema) {
-        if (!validateRunCmd(runSchema)) {
-          return res.status(400).json({ error: validateRunCmd.errors });
-        }
-      } else {
-        // Attempt to ask AI for a suggested command. Access AI via generator (bracket access).
-        try {
-          // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-          // @ts-ignore
-          const ai = generator["ai"];
-          if (ai && typeof ai.suggestRunCmd === "function") {
-            runSchema = await ai.suggestRunCmd(projectId, {
-              root: moduleRoot,
-              emitResults,
-            });
-          }
-        } catch (aiErr) {
-          console.warn("AI did not suggest a run command:", aiErr);
-        }
-      }
-
+      // 3) Verify: a testCmdSchema from the request runs as given; otherwise
+      // the project's own install/build/test/lint commands run and what fails
+      // is patched (`verify: false` or BUILD_VERIFY=off skips it)
+      const runSchema: RunCmdSchema | undefined = body.testCmdSchema;
       let runResult: any = undefined;
+      let verify: RepairResult | undefined;
       if (runSchema) {
         // runSchema may not include projectId; ensure cwd is set properly
         runSchema.projectId = runSchema.projectId ?? projectId;
@@ -189,10 +175,18 @@ class codeBuilderModuleController {
         }
 
         // Resolve project filesystem path
-        const projectRoot = generator["fs"].resolveProjectPath(projectId, "");
+        const projectRoot = await generator["fs"].resolveProjectPath(projectId, "");
 
         // 3.a) Run the command
-        runResult = await runCmd(projectRoot, runSchema as any);
+        runResult = await runCmd(projectRoot, runSchema as any, projectId);
+      } else if (body.verify !== false && verifyEnabled()) {
+        verify = await generator.verifyProject(projectId, {
+          goal:
+            typeof promptData.prompt === "string"
+              ? promptData.prompt
+              : JSON.stringify(promptData.prompt ?? {}).slice(0, 4000),
+          requestedBy: "api",
+        });
       }
 
       // 4) Optionally return a file's content
@@ -209,6 +203,7 @@ class codeBuilderModuleController {
         root: moduleRoot,
         emitResults,
         runResult,
+        verify,
         fileContent,
       });
     } catch (err: any) {
@@ -5,6 +5,7 @@ import type {
   RunCmdSchema,
 } from "../../chat.types";
 import { ToolUnion } from "@anthropic-ai/sdk/resources/messages.js";
+import { patchOperationProperties } from "./functions";
 
 export const ajv = new Ajv({ allErrors: true, strict: false });
 
@@ -18,8 +19,9 @@ export const emitFilesSchema = {
         type: "object",
         properties: {
           path: { type: "string" },
-          action: { type: "string", enum: ["create", "update", "delete"] },
+          action: { type: "string", enum: ["create", "update", "delete", "patch"] },
           content: { type: "string" },
+          ...patchOperationProperties,
           encoding: { type: "string", enum: ["utf8", "base64"] },
         },
         required: ["path", "action"],
@@ -125,9 +127,10 @@ export const PROJECT_TOOLS = [
                 path: { type: "string" },
                 action: {
                   type: "string",
-                  enum: ["create", "update", "delete"],
+                  enum: ["create", "update", "delete", "patch"],
                 },
                 content: { type: "string" },
+                ...patchOperationProperties,
                 encoding: { type: "string", enum: ["utf-8", "base64"] },
                 meta: { type: "object", additionalProperties: true },
               },
@@ -247,13 +250,14 @@ export const ANTHROPIC_PROJECT_TOOLS: ToolUnion[] = [
               },
               action: {
                 type: "string",
-                enum: ["create", "update", "delete"],
+                enum: ["create", "update", "delete", "patch"],
                 description: "File operation type",
               },
               content: {
                 type: "string",
                 description: "File content (required for create/update)",
               },
+              ...patchOperationProperties,
               encoding: {
                 type: "string",
                 enum: ["utf-8", "base64"],
@@ -1,9 +1,34 @@
+// "patch" operations send a unified diff or search/replace edits instead of
+// the whole file; rejected hunks come back in the operation result
+export const patchOperationProperties = {
+  diff: {
+    type: "string",
+    description:
+      "patch only: unified diff of this file (@@ hunks with 3 lines of context)",
+  },
+  edits: {
+    type: "array",
+    description:
+      "patch only: search/replace edits; each search text must occur once in the file",
+    items: {
+      type: "object",
+      properties: {
+        search: { type: "string" },
+        replace: { type: "string" },
+      },
+      required: ["search", "replace"],
+      additionalProperties: false,
+    },
+  },
+};
+
 export const functions = [
   {
     type: "function",
     function: {
       name: "emitFiles",
-      description: "Create, update, or delete files in the project",
+      description:
+        "Create, update, patch (unified diff or search/replace edits) or delete files in the project",
       parameters: {
         type: "object",
         properties: {
@@ -15,9 +40,10 @@ export const functions = [
                 path: { type: "string" },
                 action: {
                   type: "string",
-                  enum: ["create", "update", "delete"],
+                  enum: ["create", "update", "delete", "patch"],
                 },
                 content: { type: "string" },
+                ...patchOperationProperties,
               },
               required: ["path", "action"],
             },
@@ -45,7 +71,7 @@ export const functions = [
 ];
 // src/schemas/ai/functions.ts
 // Export functions2 in OpenAI functions format.
-// Note: applyPatch.operations uses the same explicit operations schema as emitFiles.
+// Note: emitFiles queues a proposal; applyPatch applies what the user approved of it.
 
 export const operationsSchema = {
   type: "array",
@@ -53,8 +79,9 @@ export const operationsSchema = {
     type: "object",
     properties: {
       path: { type: "string" },
-      action: { type: "string", enum: ["create", "update", "delete"] },
+      action: { type: "string", enum: ["create", "update", "delete", "patch"] },
       content: { type: "string" },
+      ...patchOperationProperties,
       encoding: { type: "string", enum: ["utf8", "base64"], default: "utf8" },
     },
     required: ["path", "action"],
@@ -95,7 +122,7 @@ export const openaiFunctions = [
   {
     name: "emitFiles",
     description:
-      "Emit file operations: create/update/delete files inside the project's workspace. The server must validate and sandbox all operations.",
+      "Propose file operations: create/update/delete/patch files inside the project's workspace. They are queued for the user's review and written only once approved.",
     parameters: {
       type: "object",
       properties: {
@@ -106,8 +133,9 @@ export const openaiFunctions = [
             type: "object",
             properties: {
               path: { type: "string" },
-              action: { type: "string", enum: ["create", "update", "delete"] },
+              action: { type: "string", enum: ["create", "update", "delete", "patch"] },
               content: { type: "string" },
+              ...patchOperationProperties,
               encoding: {
                 type: "string",
                 enum: ["utf8", "base64"],
@@ -125,6 +153,7 @@ export const openaiFunctions = [
           properties: {
             requestId: { type: "string" },
             userId: { type: "string" },
+            summary: { type: "string", description: "One-line title for the reviewer" },
           },
           additionalProperties: false,
         },
@@ -136,39 +165,21 @@ export const openaiFunctions = [
   {
     name: "applyPatch",
     description:
-      "Apply an approved patch (emitFiles-like) to a project workspace. This is only callable after user approval.",
+      "Apply a change proposal after the user reviewed it. Only the files and hunks the user approved are written; emitFiles returns the proposalId.",
     parameters: {
       type: "object",
       properties: {
         projectId: { type: "string" },
-        operations: {
-          type: "array",
-          items: {
-            type: "object",
-            properties: {
-              path: { type: "string" },
-              action: { type: "string", enum: ["create", "update", "delete"] },
-              content: { type: "string" },
-              encoding: {
-                type: "string",
-                enum: ["utf8", "base64"],
-                default: "utf8",
-              },
-            },
-            required: ["path", "action"],
-            additionalProperties: false,
-          },
-        },
-        approvedBy: { type: "string" },
+        proposalId: { type: "string" },
       },
-      required: ["projectId", "operations", "approvedBy"],
+      required: ["projectId", "proposalId"],
     },
   },
 
   {
     name: "runCommand",
     description:
-      "Run a sandboxed command inside the workspace and return logs and exit code.",
+      "Run a sandboxed command inside the workspace and return logs and exit code. A command policy checks the binary and every argument; a denied command comes back with the reason and what is allowed instead.",
     parameters: {
       type: "object",
       properties: {
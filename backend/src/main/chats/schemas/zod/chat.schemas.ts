@@ -1,23 +1,121 @@
 // src/validators/ai.ts
 import { z } from "zod";
 
+export const PatchEditSchema = z.object({
+  search: z.string(),
+  replace: z.string(),
+});
+
 export const FileOpSchema = z.object({
   path: z.string().min(1).max(1024),
-  action: z.enum(["create", "update", "delete"]),
+  action: z.enum(["create", "update", "delete", "patch"]),
   content: z.string().optional(),
   encoding: z.enum(["utf8", "base64"]).optional().default("utf8"),
+  // patch: unified diff or search/replace edits
+  diff: z.string().optional(),
+  edits: z.array(PatchEditSchema).min(1).max(100).optional(),
 });
 
 export const EmitFilesSchema = z.object({
   projectId: z.string().min(1),
   operations: z.array(FileOpSchema).min(1).max(200),
   meta: z
-    .object({ requestId: z.string().optional(), userId: z.string().optional() })
+    .object({
+      requestId: z.string().optional(),
+      userId: z.string().optional(),
+      // proposal title shown to the reviewer
+      summary: z.string().max(200).optional(),
+    })
     .optional(),
 });
 
-export const ApplyPatchSchema = EmitFilesSchema.extend({
-  approvedBy: z.string().min(1),
+// applies the approved files and hunks of a proposal, nothing else
+export const ApplyPatchSchema = z.object({
+  projectId: z.string().optional(),
+  proposalId: z.string().min(1),
+  appliedBy: z.string().min(1).optional(),
+});
+
+/**
+ * emitFiles tool arguments as the model sends them: projectId is optional,
+ * content is required for create/update and diff or edits for patch.
+ */
+export const EmitFilesToolSchema = z.object({
+  projectId: z.string().optional(),
+  operations: z
+    .array(
+      FileOpSchema.extend({
+        encoding: z.enum(["utf8", "utf-8", "base64"]).optional(),
+      })
+        .refine(
+          (op) =>
+            op.action === "delete" ||
+            op.action === "patch" ||
+            typeof op.content === "string",
+          { message: "content is required for create and update", path: ["content"] }
+        )
+        .refine(
+          (op) => op.action !== "patch" || Boolean(op.diff?.trim() || op.edits?.length),
+          { message: "patch needs a unified diff (diff) or search/replace edits (edits)", path: ["diff"] }
+        )
+    )
+    .min(1)
+    .max(200),
+});
+
+export const ModuleTreeNodeSchema: z.ZodType<any> = z.lazy(() =>
+  z
+    .object({
+      id: z.string().min(1),
+      name: z.string().min(1),
+      description: z.string().optional(),
+      files: z.array(z.string()).optional(),
+      children: z.array(ModuleTreeNodeSchema).optional(),
+      meta: z.record(z.any()).optional(),
+    })
+    .passthrough()
+);
+
+/** build_module_tree_from_prompt tool arguments */
+export const BuildModuleTreeToolSchema = z.object({
+  projectName: z.string().optional(),
+  prompt: z.string().optional(),
+  moduleTree: ModuleTreeNodeSchema,
+  options: z.record(z.any()).optional(),
+});
+
+/** generate_sql_schema_with_tree arguments (functionsSql); at least one table */
+export const SqlSchemaToolSchema = z.object({
+  prompt: z.string().optional(),
+  dialect: z.enum(["postgres", "mysql", "sqlite", "mssql"]).optional(),
+  includeConstraints: z.boolean().optional(),
+  tables: z
+    .array(
+      z.object({
+        tableName: z.string().min(1),
+        columns: z
+          .array(
+            z.object({
+              name: z.string().min(1),
+              type: z.string().min(1),
+              constraints: z.array(z.string()).optional(),
+            })
+          )
+          .min(1),
+        relationships: z
+          .array(
+            z.object({
+              type: z.enum(["one-to-one", "one-to-many", "many-to-many"]),
+              targetTable: z.string(),
+              sourceColumn: z.string(),
+              targetColumn: z.string(),
+            })
+          )
+          .optional(),
+      })
+    )
+    .min(1),
+  buildTree: z.boolean().optional(),
 });
 
 export const RunCommandSchema = z.object({
@@ -1,94 +1,85 @@
-import { OpenAI } from "openai";
 import { openaiFunctions } from "../schemas/ai/functions";
 import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import mcpClientManager from "mcp/client/mcpClient.manager";
+import llmRegistry from "llm/llm.registry";
+import { toChatCompletion, toLlmMessages, toLlmTools } from "llm/llm.messages";
+import { LlmTool } from "llm/llm.types";
+import { ToolSchemas, chatWithToolRepair } from "llm/tool.validation";
 
-const apiKey = process.env.OPENAI_API_KEY;
-if (!apiKey) throw new Error("Missing OPENAI_API_KEY");
-const client = new OpenAI({ apiKey });
+/**
+ * Built-in function schemas plus tools of the configured external MCP servers
+ */
+async function buildTools(): Promise<LlmTool[]> {
+  return toLlmTools([
+    ...openaiFunctions,
+    ...(await mcpClientManager.openAITools()),
+  ]);
+}
 
 /**
- * Non-streaming call
+ * Non-streaming call. Returns a chat-completion shaped object whatever the
+ * provider (LLM_PROVIDER_CHAT / LLM_PROVIDER, or `provider` per request).
  */
 export async function callChatModel(
   messages: ChatCompletionMessageParam[],
-  model = process.env.OPENAI_MODEL || "gpt-4o",
-  maxTokens = 1500
+  model?: string,
+  maxTokens = 1500,
+  provider?: string
 ) {
+  const llm = llmRegistry.get("chat", provider);
+  const tools = await buildTools();
   console.log(
-    "Passing functions to OpenAI (non-stream):",
-    openaiFunctions.map((f) => f.name)
+    `Passing functions to ${llm.name} (non-stream):`,
+    tools.map((t) => t.name)
   );
-  const resp = await client.chat.completions.create({
+  const response = await llm.chat({
+    messages: toLlmMessages(messages),
+    tools,
+    toolChoice: "auto",
     model,
-    messages,
-    tools: openaiFunctions.map((fn) => ({ type: "function", function: fn })),
-    tool_choice: "auto",
-    stream: false,
-    max_tokens: maxTokens,
+    maxTokens,
   });
-  return resp;
+  return toChatCompletion(response);
 }
 
 /**
- * Stream and parse chat completion
+ * Stream and parse chat completion. A tool call is checked against its
+ * schema (`toolSchemas`, else the tool's JSON schema) and an invalid one gets
+ * repair turns (see llm/tool.validation); still invalid, it throws
+ * ToolValidationError. `toolCallArgs` holds the validated arguments.
  */
 export async function streamAndParseChat(
   messages: ChatCompletionMessageParam[],
-  model = process.env.OPENAI_MODEL || "gpt-4o"
+  model?: string,
+  provider?: string,
+  toolSchemas: ToolSchemas = {}
 ): Promise<{
   fullMessage: string;
   toolCallName?: string;
   toolCallArgsBuffer?: string;
+  toolCallArgs?: any;
   toolCallId?: string;
 }> {
+  const llm = llmRegistry.get("chat", provider);
+  const tools = await buildTools();
   console.log(
-    "Passing functions to OpenAI (stream):",
-    openaiFunctions.map((f) => f.name)
+    `Passing functions to ${llm.name} (stream):`,
+    tools.map((t) => t.name)
   );
 
-  const stream = await client.chat.completions.create({
-    model,
-    messages,
-    tools: openaiFunctions.map((fn) => ({ type: "function", function: fn })),
-    tool_choice: "auto",
-    stream: true,
-  });
-
-  let fullMessage = "";
-  let toolCallName = "";
-  let toolCallArgsBuffer = "";
-  let toolCallId = "";
-
-  for await (const chunk of stream) {
-    const choice = chunk.choices?.[0];
-    if (!choice) continue;
-    const delta = choice.delta ?? {};
-
-    // Handle streaming text
-    if (delta.content) {
-      fullMessage += delta.content;
-    }
-
-    // Handle streaming tool calls
-    if (delta.tool_calls && Array.isArray(delta.tool_calls)) {
-      for (const toolCall of delta.tool_calls) {
-        if (toolCall.index === 0) {
-          // Handle only the first tool call
-          if (toolCall.id && !toolCallId) toolCallId = toolCall.id;
-          if (toolCall.function?.name && !toolCallName)
-            toolCallName = toolCall.function.name;
-          if (toolCall.function?.arguments)
-            toolCallArgsBuffer += toolCall.function.arguments;
-        }
-      }
-    }
-  }
-
+  // Handle only the first tool call
+  const { response, call, args } = await chatWithToolRepair(
+    llm,
+    { messages: toLlmMessages(messages), tools, toolChoice: "auto", model },
+    { schemas: toolSchemas, stream: true }
+  );
+  if (!call) return { fullMessage: response.text };
   return {
-    fullMessage,
-    toolCallName: toolCallName || undefined,
-    toolCallArgsBuffer: toolCallArgsBuffer || undefined,
-    toolCallId: toolCallId || undefined,
+    fullMessage: response.text,
+    toolCallName: call.name,
+    toolCallArgsBuffer: call.arguments || undefined,
+    toolCallArgs: args,
+    toolCallId: call.id || undefined,
   };
 }
 
@@ -1,6 +1,3 @@
-import { FileSnapshot } from "main/chats/chat.types";
-import { readdirSync, statSync, readFileSync, Stats } from "fs";
-import path from "path";
 // import { ChildProcessWithoutNullStreams, spawn } from "node:child_process";
 import fs from "fs";
 import { spawn, exec } from "child_process";
@@ -22,50 +19,6 @@ export type RunCmdResult = {
   attempts?: Array<{ method: string; error?: string; exitCode?: number }>;
 };
 class CodeBuilderService {
-  public snapshotDir(
-    dir: string,
-    prefix = "",
-    ignore = ["node_modules", ".git", "dist"],
-    maxFileSize = 10000 * 1024,
-    maxContent = 100000
-  ): FileSnapshot[] {
-    const files: FileSnapshot[] = [];
-    let entries: string[];
-
-    try {
-      entries = readdirSync(dir);
-    } catch {
-      return files;
-    }
-
-    for (const name of entries) {
-      if (ignore.includes(name)) continue;
-      const full = path.join(dir, name);
-      const rel = path.join(prefix, name);
-      let stats: Stats;
-
-      try {
-        stats = statSync(full);
-      } catch {
-        continue;
-      }
-
-      if (stats.isDirectory()) {
-        // NOTE the `this.` prefix here
-        files.push(
-          ...this.snapshotDir(full, rel, ignore, maxFileSize, maxContent)
-        );
-      } else if (stats.size <= maxFileSize) {
-        let content = readFileSync(full, "utf8");
-        if (content.length > maxContent) {
-          content = content.slice(0, maxContent) + "\n/* ...truncated... */";
-        }
-        files.push({ path: rel, content });
-      }
-    }
-    return files;
-  }
-
   public async runCommand(
     command: string,
     args: string[] = [],
@@ -1,59 +1,9 @@
-import { readdirSync, statSync, readFileSync, Stats } from "fs";
-import * as path from "path";
-import { spawn } from "node:child_process";
 import { Observable } from "rxjs";
-interface FileSnapshot {
-  path: string;
-  content: string;
-}
-
+import jobQueue from "jobs/jobs.queue";
+import runStreams from "jobs/jobs.stream";
 class ChatService {
   constructor() {}
 
-  public snapshotDir = (
-    dir: string,
-    prefix = "",
-    ignore = ["node_modules", ".git", "dist"],
-    maxFileSize = 10000 * 1024,
-    maxContent = 100000
-  ): FileSnapshot[] => {
-    const files: FileSnapshot[] = [];
-    let entries: string[];
-
-    try {
-      entries = readdirSync(dir);
-    } catch {
-      return files;
-    }
-
-    for (const name of entries) {
-      if (ignore.includes(name)) continue;
-      const full = path.join(dir, name);
-      const rel = path.join(prefix, name);
-      let stats: Stats;
-
-      try {
-        stats = statSync(full);
-      } catch {
-        continue;
-      }
-
-      if (stats.isDirectory()) {
-        files.push(
-          ...this.snapshotDir(full, rel, ignore, maxFileSize, maxContent)
-        );
-      } else if (stats.size <= maxFileSize) {
-        let content = readFileSync(full, "utf8");
-        if (content.length > maxContent) {
-          content = content.slice(0, maxContent) + "\n/* ...truncated... */";
-        }
-        files.push({ path: rel, content });
-      }
-    }
-
-    return files;
-  };
-
   public truncate = (s?: string, max = 30_000) => {
     if (!s) return "";
     if (s.length <= max) return s;
@@ -61,52 +11,75 @@ class ChatService {
   };
 
   /**
-   * Safer stream runner for commands.
-   * Default: shell disabled (useShell=false). If shell expansion is needed, pass useShell:true.
+   * Stream runner for commands: a "runCommand" job in the sandbox of the
+   * workspace `projectId` (no shell, scrubbed env, resource limits, no
+   * network). With `socketId` the output also goes to that socket as
+   * run:* events (see jobs/jobs.stream).
+   * An aborted `signal` cancels the job (reported as an "error" event).
    */
   runCommandStream = (
     cmd: string,
     args: string[] = [],
-    options: { cwd?: string; useShell?: boolean } = {}
+    options: {
+      projectId: string;
+      cwd?: string;
+      signal?: AbortSignal;
+      socketId?: string;
+    }
   ): Observable<
     | { type: "stdout" | "stderr"; content: string }
     | { type: "error"; error: Error }
     | { type: "close"; code: number }
   > => {
     return new Observable((observer) => {
-      try {
-        console.log(`Spawning process: ${cmd} ${args.join(" ")}`);
-        const proc = spawn(cmd, args, {
-          shell: options.useShell === true ? true : false,
-          cwd: options.cwd || process.cwd(),
+      console.log(`Spawning process: ${cmd} ${args.join(" ")}`);
+      let unsubscribe = () => {};
+      (async () => {
+        const job = await jobQueue.enqueue({
+          projectId: options.projectId,
+          type: "runCommand",
+          input: { cmd, args, cwd: options.cwd },
+          requestedBy: options.socketId ? `socket:${options.socketId}` : "chat",
         });
+        unsubscribe = jobQueue.onLog(job.id, (entry) => {
+          if (entry.stream !== "info") {
+            observer.next({ type: entry.stream, content: entry.text });
+          }
+        });
+        if (options.socketId) {
+          await runStreams.attach(job.id, options.socketId).catch((err) =>
+            console.warn("[ChatService] run stream attach failed", err)
+          );
+        }
 
-        proc.stdout.on("data", (buf: Buffer) =>
-          observer.next({ type: "stdout", content: buf.toString() })
-        );
-        proc.stderr.on("data", (buf: Buffer) =>
-          observer.next({ type: "stderr", content: buf.toString() })
-        );
-
-        proc.on("error", (err) => {
-          observer.next({ type: "error", error: err });
-          try {
-            observer.complete();
-          } catch {}
+        const onAbort = () => void jobQueue.cancel(job.id, "chat").catch(() => {});
+        options.signal?.addEventListener("abort", onAbort, { once: true });
+        if (options.signal?.aborted) onAbort();
+        const done = await jobQueue.wait(job.id).finally(() => {
+          options.signal?.removeEventListener("abort", onAbort);
+          unsubscribe();
         });
 
-        proc.on("close", (code) => {
-          observer.next({ type: "close", code: code ?? -1 });
+        if (done.status === "cancelled" || done.result?.timedOut || !done.result) {
+          const error = new Error(
+            done.status === "cancelled"
+              ? "Command aborted"
+              : done.result?.timedOut
+                ? "Command timed out"
+                : done.error ?? "Command failed"
+          );
+          if (done.status === "cancelled") error.name = "AbortError";
+          observer.next({ type: "error", error });
+        }
+        observer.next({ type: "close", code: done.result?.exitCode ?? -1 });
+      })()
+        .catch((err: any) => observer.next({ type: "error", error: err }))
+        .finally(() => {
           try {
             observer.complete();
           } catch {}
         });
-      } catch (err: any) {
-        observer.next({ type: "error", error: err });
-        try {
-          observer.complete();
-        } catch {}
-      }
+      return () => unsubscribe();
     });
   };
 }
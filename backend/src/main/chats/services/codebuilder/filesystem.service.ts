@@ -1,6 +1,6 @@
-import fs from "fs/promises";
 import path from "path";
 import type { EmitOperation } from "../../chat.types";
+import { projectWorkspace } from "workspace/workspace";
 
 export class FileSystemService {
   readonly workspaceRoot: string;
@@ -9,61 +9,29 @@ export class FileSystemService {
     this.workspaceRoot = workspaceRoot;
   }
 
+  public workspace(projectId: string) {
+    return projectWorkspace(projectId, this.workspaceRoot);
+  }
+
   // make resolve public so other services can compute the path
-  public resolveProjectPath(projectId: string, rel = ""): string {
-    const projectRoot = path.resolve(this.workspaceRoot, projectId);
-    const full = path.resolve(projectRoot, rel);
-    if (!full.startsWith(projectRoot))
-      throw new Error("Path traversal detected");
-    return full;
+  public resolveProjectPath(projectId: string, rel = ""): Promise<string> {
+    return this.workspace(projectId).resolve(rel);
   }
 
   public async applyOperations(projectId: string, ops: EmitOperation[]) {
-    const results: Array<{ op: EmitOperation; ok: boolean; msg?: string }> = [];
-    for (const op of ops) {
-      try {
-        const target = this.resolveProjectPath(projectId, op.path);
-        if (op.action === "delete") {
-          await fs.rm(target, { force: true }).catch(() => {});
-          results.push({ op, ok: true });
-          continue;
-        }
-
-        const dir = path.dirname(target);
-        await fs.mkdir(dir, { recursive: true });
-
-        if (op.action === "create") {
-          // if exists -> error
-          try {
-            await fs.access(target);
-            throw new Error(`File exists: ${op.path}`);
-          } catch (e) {
-            // file doesn't exist -> ok
-          }
-        }
-
-        if (op.action === "update" || op.action === "create") {
-          if (typeof op.content !== "string")
-            throw new Error("Missing content for create/update");
-          const data =
-            op.encoding === "base64"
-              ? Buffer.from(op.content, "base64")
-              : Buffer.from(op.content, "utf8");
-          await fs.writeFile(target, data);
-          results.push({ op, ok: true });
-          continue;
-        }
-
-        results.push({ op, ok: false, msg: "Unsupported action" });
-      } catch (err: any) {
-        results.push({ op, ok: false, msg: err.message });
-      }
-    }
-    return results;
+    const { results } = await this.workspace(projectId).apply(ops, {
+      backup: false,
+      rollbackOnError: false,
+    });
+    return results.map((r, i) => ({
+      op: ops[i],
+      ok: r.status !== "failed",
+      ...(r.message ? { msg: r.message } : {}),
+      ...(r.hunks ? { hunks: r.hunks } : {}),
+    }));
   }
 
   public async readFile(projectId: string, relPath: string) {
-    const full = this.resolveProjectPath(projectId, relPath);
-    return fs.readFile(full, "utf8");
+    return (await this.workspace(projectId).read(relPath)).content;
   }
 }
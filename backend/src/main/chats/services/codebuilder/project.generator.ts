@@ -1,14 +1,17 @@
 import type { BuildModuleTreePayload, EmitOperation } from "../../chat.types";
 import { AiService } from "./ai.service";
 import { FileSystemService } from "./filesystem.service";
-import { runCmd } from "./run-cmd.service";
 import { v4 as uuidv4 } from "uuid";
+import llmRegistry from "llm/llm.registry";
+import verifyService, { verifyMaxRounds } from "verify/verify.service";
+import { RepairOptions } from "verify/verify.types";
 
 export class ProjectGeneratorService {
   private ai = new AiService();
   private fs = new FileSystemService();
 
-  constructor(private maxAttempts = 5) {}
+  // repair rounds of the verify stage
+  constructor(private maxRounds = verifyMaxRounds()) {}
 
   public async createProjectFromPrompt(payload: BuildModuleTreePayload) {
     const projectId = uuidv4();
@@ -48,75 +51,37 @@ export class ProjectGeneratorService {
   }
 
   /**
-   * High level: emit files, then run a test command (either provided or suggested by AI),
-   * retry by asking AI to update module tree on errors and re-emitting until success (or attempts exhausted).
+   * Verify the project (install/build/test/lint by stack, see
+   * verify/verify.service) and let the model patch the files its
+   * diagnostics point at, until it passes or the rounds are used up.
    */
+  public async verifyProject(
+    projectId: string,
+    options: Omit<RepairOptions, "llm" | "workspace" | "maxRounds"> = {}
+  ) {
+    return verifyService.repair(projectId, {
+      ...options,
+      llm: llmRegistry.get("builder"),
+      // this service's project directory, not the registry's one of the id
+      workspace: this.fs.workspace(projectId),
+      maxRounds: this.maxRounds,
+    });
+  }
+
+  /** Emit the files of a module tree, then verify and repair the project. */
   public async emitAndTestLoop(
     projectId: string,
     root: any,
-    testCmdSchema?: any
+    options: Omit<RepairOptions, "llm" | "workspace" | "maxRounds"> = {}
   ) {
-    let attempts = 0;
-    let lastError: any = null;
-    let currentRoot = root;
-
-    while (attempts < this.maxAttempts) {
-      attempts++;
-      const ops = this.buildOperationsFromTree(currentRoot);
-      const emitResults = await this.fs.applyOperations(projectId, ops);
-
-      // choose run command: prefer provided testCmdSchema; else ask AI
-      let runSchema = testCmdSchema;
-      if (!runSchema) {
-        try {
-          runSchema = await this.ai.suggestRunCmd(projectId, {
-            root: currentRoot,
-            emitResults,
-            lastError,
-          });
-        } catch (e) {
-          // no suggested cmd — consider success if no errors in emit
-          const hasEmitError = emitResults.some((r) => !r.ok);
-          if (!hasEmitError) return { success: true, attempts, emitResults };
-          lastError = new Error(
-            "No run command suggested and emit reported errors"
-          );
-          currentRoot = await this.ai.buildModuleTree(
-            projectId,
-            { error: lastError?.message },
-            currentRoot
-          );
-          continue;
-        }
-      }
-
-      try {
-        const projectRootPath = this.fs.resolveProjectPath(projectId, "");
-        const runResult = await runCmd(projectRootPath, runSchema);
-        const failed = runResult.code !== 0 || (runResult.timedOut ?? false);
-        if (!failed) {
-          return { success: true, attempts, emitResults, runResult };
-        }
-        lastError = new Error(
-          `Run failed with code ${runResult.code}; stderr: ${runResult.stderr}`
-        );
-      } catch (err: any) {
-        lastError = err;
-      }
-
-      // Ask AI to improve module tree using error context
-      try {
-        currentRoot = await this.ai.buildModuleTree(
-          projectId,
-          { error: lastError?.message, previousRoot: currentRoot },
-          currentRoot
-        );
-      } catch (aiErr: any) {
-        // If AI fails to provide improved tree, stop and return failure
-        return { success: false, attempts, lastError: aiErr.message };
-      }
-    }
-
-    return { success: false, attempts, lastError: lastError?.message };
+    const ops = this.buildOperationsFromTree(root);
+    const emitResults = await this.fs.applyOperations(projectId, ops);
+    const verify = await this.verifyProject(projectId, options);
+    return {
+      success: verify.ok,
+      attempts: verify.rounds.length + 1,
+      emitResults,
+      verify,
+    };
   }
 }
@@ -1,5 +1,5 @@
-import { spawn } from "child_process";
-import path from "path";
+import sandbox from "sandbox/sandbox";
+import commandPolicy from "sandbox/sandbox.policy";
 
 export interface RunResult {
   stdout: string;
@@ -8,6 +8,11 @@ export interface RunResult {
   timedOut?: boolean;
 }
 
+/**
+ * Run the command of a run schema in the project's sandbox (see
+ * sandbox/sandbox), if the command policy of `projectId` (else the global
+ * one) allows it; a denial throws CommandPolicyError with the explanation.
+ */
 export async function runCmd(
   projectRoot: string,
   schema: {
@@ -19,73 +24,50 @@ export async function runCmd(
       env?: Record<string, string>;
       timeoutMs?: number;
     };
-  }
+  },
+  projectId?: string
 ): Promise<RunResult> {
-  return new Promise((resolve, reject) => {
-    const base = path.resolve(projectRoot);
-    let cmd: string;
-    let args: string[] = [];
-
-    // Determine how to spawn
-    if (schema.command) {
-      cmd = schema.command;
-      args = schema.args ?? [];
-    } else if (schema.args && schema.args.length > 0) {
-      cmd = schema.args[0];
-      args = schema.args.slice(1);
-    } else if (schema.cmd) {
-      // run via shell
-      cmd = "/bin/sh";
-      args = ["-c", schema.cmd];
-    } else {
-      return reject(new Error("No command specified"));
-    }
-
-    const options: any = { cwd: base };
-    if (schema.options?.cwd)
-      options.cwd = path.resolve(base, schema.options.cwd);
-    if (schema.options?.env)
-      options.env = { ...process.env, ...schema.options.env };
+  let command: string;
+  let args: string[] = [];
 
-    const child = spawn(cmd, args, {
-      cwd: options.cwd,
-      env: options.env,
-      shell: false,
-    });
-
-    let stdout = "";
-    let stderr = "";
-    let timedOut = false;
-    let finished = false;
-
-    const onFinish = (code: number | null) => {
-      if (finished) return;
-      finished = true;
-      resolve({ stdout, stderr, code, timedOut });
-    };
-
-    child.stdout?.on("data", (d) => {
-      stdout += d.toString();
-    });
-    child.stderr?.on("data", (d) => {
-      stderr += d.toString();
-    });
-
-    child.on("error", (err) => {
-      if (finished) return;
-      finished = true;
-      reject(err);
-    });
-
-    child.on("close", (code) => onFinish(code));
+  // Determine what to run; a plain `cmd` line is split into words, no shell
+  if (schema.command) {
+    command = schema.command;
+    args = schema.args ?? [];
+  } else if (schema.args && schema.args.length > 0) {
+    command = schema.args[0];
+    args = schema.args.slice(1);
+  } else if (schema.cmd) {
+    command = schema.cmd;
+  } else {
+    throw new Error("No command specified");
+  }
 
-    if (schema.options?.timeoutMs && schema.options.timeoutMs > 0) {
-      setTimeout(() => {
-        if (!finished) {
-          timedOut = true;
-          child.kill("SIGKILL");
-        }
-      }, schema.options!.timeoutMs);
-    }
+  const { limits } = await commandPolicy.enforce({
+    projectId,
+    command,
+    args,
+    cwd: schema.options?.cwd,
+    timeoutMs:
+      schema.options?.timeoutMs && schema.options.timeoutMs > 0
+        ? schema.options.timeoutMs
+        : undefined,
+  });
+  const result = await sandbox.run({
+    root: projectRoot,
+    command,
+    args,
+    cwd: schema.options?.cwd,
+    env: schema.options?.env,
+    timeoutMs: limits.timeoutMs,
+    maxOutputChars: limits.maxOutputChars,
+    network: limits.network,
+    limits: limits.memoryMb ? { memoryMb: limits.memoryMb } : undefined,
   });
+  return {
+    stdout: result.stdout,
+    stderr: result.stderr,
+    code: result.exitCode,
+    timedOut: result.timedOut,
+  };
 }
@@ -632,7 +632,8 @@ class DocGenerationService {
       messages,
       this.functions,
       32768,
-      false
+      false,
+      { feature: "docs" }
     );
 
     const parsed = parseModelResponse(resp);
@@ -739,7 +740,8 @@ class DocGenerationService {
         builderMessages,
         this.functions,
         10000,
-        true
+        true,
+        { feature: "docs" }
       );
 
       // parse builderResp for textual content
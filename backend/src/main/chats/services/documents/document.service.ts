@@ -7,7 +7,8 @@ import { callModelWithFunctions } from "utils/aiClient";
 import { FUNCTIONS_DEF } from "main/chats/schemas/ai/functions";
 import { runTool } from "utils/tools";
 import { chunkTextPreserveLines } from "utils/chunk";
-import { globSync } from "glob";
+import { Workspace } from "workspace/workspace";
+import { SNAPSHOT_IGNORE } from "workspace/workspace.policy";
 
 type FileSnapshot = { relPath: string; absPath?: string; content: string };
 type FileSummary = {
@@ -34,40 +35,24 @@ const CHUNK_SIZE = 7000;
 const BATCH_SIZE_DEFAULT = 5;
 
 export async function snapshotDir(root: string): Promise<FileSnapshot[]> {
-  const absRoot = path.resolve(process.cwd(), root);
-  const pattern = `${root.replace(/\\/g, "/")}/**/*`;
-  const matches = globSync(pattern, { nodir: true, dot: true, absolute: true });
-  const exclude = new Set([
-    "node_modules",
-    ".git",
-    "dist",
-    "build",
-    "package-lock.json",
-    "migrations",
-    "schemas",
-    "generated_pdfs",
-    "tmp_uploads",
-  ]);
-  const out: FileSnapshot[] = [];
-  for (const abs of matches) {
-    const rel = path.relative(absRoot, abs);
-    if (rel.split(path.sep).some((p) => exclude.has(p))) continue;
-    try {
-      const stat = await fs.stat(abs);
-      if (stat.size > MAX_FILE_BYTES) {
-        const content =
-          (await fs.readFile(abs, "utf8")).slice(0, MAX_FILE_BYTES) +
-          "\n\n/* ...truncated... */";
-        out.push({ relPath: rel, absPath: abs, content });
-        continue;
-      }
-      const content = await fs.readFile(abs, "utf8");
-      out.push({ relPath: rel, absPath: abs, content });
-    } catch (err) {
-      // skip
-    }
-  }
-  return out;
+  const workspace = new Workspace(path.resolve(process.cwd(), root));
+  const files = await workspace.snapshot({
+    ignore: [
+      ...SNAPSHOT_IGNORE,
+      "build",
+      "package-lock.json",
+      "migrations",
+      "schemas",
+      "generated_pdfs",
+      "tmp_uploads",
+    ],
+    maxChars: MAX_FILE_BYTES,
+  });
+  return files.map((f) => ({
+    relPath: f.path,
+    absPath: path.join(workspace.root, f.path),
+    content: f.content,
+  }));
 }
 
 /* --- function-call loop for a single chunk ---
@@ -91,7 +76,13 @@ If you want the server to run helpers (redact/save/extract), call one of the pro
   ];
 
   for (let i = 0; i < maxFunctionCalls; i++) {
-    const resp: any = await callModelWithFunctions(messages, FUNCTIONS_DEF);
+    const resp: any = await callModelWithFunctions(
+      messages,
+      FUNCTIONS_DEF,
+      undefined,
+      false,
+      { feature: "docs" }
+    );
     const choice = resp?.choices?.[0];
     const msg = choice?.message ?? choice ?? {};
     if (msg?.function_call) {
@@ -131,7 +122,8 @@ If you want the server to run helpers (redact/save/extract), call one of the pro
     messages,
     FUNCTIONS_DEF,
     800,
-    /*forceText*/ true
+    /*forceText*/ true,
+    { feature: "docs" }
   );
   const finalText =
     finalResp?.choices?.[0]?.message?.content ??
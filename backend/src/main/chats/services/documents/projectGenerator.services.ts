@@ -1,13 +1,29 @@
 /*
   projectGenerator.service.ts
   A Node.js / NestJS-friendly service implementing AI function-calling
-  and workspace operations based on JSON prompt chunks for dynamic server creation.
+  and workspace operations based on JSON prompts for dynamic server creation.
 */
 
 import fs from "fs/promises";
 import path from "path";
-import { spawn } from "child_process";
 import { callModelWithFunctions } from "utils/aiClient";
+import { projectWorkspace } from "workspace/workspace";
+import { modelAuthor } from "workspace/workspace.history";
+import llmRegistry from "llm/llm.registry";
+import contextManager from "llm/context.manager";
+import { toLlmTools } from "llm/llm.messages";
+import jobQueue from "jobs/jobs.queue";
+import { JobError, JobNotFoundError } from "jobs/jobs.errors";
+import { WorkspaceOperation } from "workspace/workspace.types";
+import workspaceRegistry from "workspace/workspace.registry";
+import proposalQueue, {
+  ProposalError,
+  ProposalStatus,
+  proposalSummary,
+} from "workspace/workspace.proposals";
+import { patchOperationProperties } from "../../schemas/ai/functions";
+import verifyService, { verifyEnabled } from "verify/verify.service";
+import { RepairResult, VerifyEvent } from "verify/verify.types";
 
 // Import your existing OpenAI functions and AI client
 // Adjust these import paths to match your project structure
@@ -40,7 +56,7 @@ export const openaiFunctions = [
   {
     name: "emitFiles",
     description:
-      "Emit file operations: create/update/delete files inside the project's workspace. The server must validate and sandbox all operations.",
+      "Emit file operations: create/update/delete/patch files inside the project's workspace. The server must validate and sandbox all operations.",
     parameters: {
       type: "object",
       properties: {
@@ -51,8 +67,9 @@ export const openaiFunctions = [
             type: "object",
             properties: {
               path: { type: "string" },
-              action: { type: "string", enum: ["create", "update", "delete"] },
+              action: { type: "string", enum: ["create", "update", "delete", "patch"] },
               content: { type: "string" },
+              ...patchOperationProperties,
               encoding: {
                 type: "string",
                 enum: ["utf8", "base64"],
@@ -80,38 +97,20 @@ export const openaiFunctions = [
   {
     name: "applyPatch",
     description:
-      "Apply an approved patch (emitFiles-like) to a project workspace. This is only callable after user approval.",
+      "Apply a change proposal after the user reviewed it. Only the files and hunks the user approved are written; emitFiles returns the proposalId.",
     parameters: {
       type: "object",
       properties: {
         projectId: { type: "string" },
-        operations: {
-          type: "array",
-          items: {
-            type: "object",
-            properties: {
-              path: { type: "string" },
-              action: { type: "string", enum: ["create", "update", "delete"] },
-              content: { type: "string" },
-              encoding: {
-                type: "string",
-                enum: ["utf8", "base64"],
-                default: "utf8",
-              },
-            },
-            required: ["path", "action"],
-            additionalProperties: false,
-          },
-        },
-        approvedBy: { type: "string" },
+        proposalId: { type: "string" },
       },
-      required: ["projectId", "operations", "approvedBy"],
+      required: ["projectId", "proposalId"],
     },
   },
   {
     name: "runCommand",
     description:
-      "Run a sandboxed command inside the workspace and return logs and exit code.",
+      "Run a sandboxed command inside the workspace and return logs and exit code. A command policy checks the binary and every argument; a denied command comes back with the reason and what is allowed instead.",
     parameters: {
       type: "object",
       properties: {
@@ -229,12 +228,7 @@ interface AIClientOptions {
   model?: string;
 }
 
-interface FileOperation {
-  path: string;
-  action: "create" | "update" | "delete";
-  content?: string;
-  encoding?: "utf8" | "base64";
-}
+type FileOperation = WorkspaceOperation;
 
 interface ModuleNode {
   id?: string;
@@ -255,9 +249,14 @@ interface ProjectGenerationResult {
   success: boolean;
   projectId: string;
   moduleTree?: ModuleNode;
+  // the generated files, under review unless auto-approved
+  proposalId?: string;
+  proposalStatus?: ProposalStatus;
   filesCreated: number;
   errors: Array<{ path: string; error: string }>;
   executionTime?: number;
+  // verify stage: build/test of the generated project and the repairs made
+  verify?: RepairResult;
 }
 
 // --- AI Client Helper (Mock implementation - replace with your actual implementation) ---
@@ -287,9 +286,18 @@ interface ProjectGenerationResult {
 //   );
 // }
 
+export type CommandOutputListener = (
+  stream: "stdout" | "stderr",
+  chunk: string
+) => void;
+
+export interface DispatchHooks {
+  // live output of runCommand while the child process is running
+  onOutput?: CommandOutputListener;
+}
+
 export class ProjectGeneratorService {
   private readonly workspacesRoot: string;
-  private readonly jobs = new Map<string, any>();
   private readonly aiOptions: AIClientOptions;
 
   constructor(
@@ -316,40 +324,8 @@ export class ProjectGeneratorService {
   }
 
   // --- File system helpers ---
-  private ensureProjectRoot(projectId: string): string {
-    const root = path.join(this.workspacesRoot, projectId);
-    const normalized = path.resolve(root);
-
-    if (!normalized.startsWith(path.resolve(this.workspacesRoot))) {
-      throw new Error("Invalid project path - potential path traversal attack");
-    }
-
-    return normalized;
-  }
-
-  private sanitizePath(filePath: string): string {
-    if (path.isAbsolute(filePath)) {
-      throw new Error("Absolute paths not allowed");
-    }
-
-    if (filePath.includes("..")) {
-      throw new Error("Parent path segments not allowed");
-    }
-
-    return filePath.replace(/^\/+/, "");
-  }
-
-  // --- Chunk processing ---
-  private splitIntoChunks(text: string, chunkSize = 28000): string[] {
-    const chunks: string[] = [];
-    let i = 0;
-
-    while (i < text.length) {
-      chunks.push(text?.slice(i, i + chunkSize));
-      i += chunkSize;
-    }
-
-    return chunks;
+  private workspace(projectId: string) {
+    return projectWorkspace(projectId, this.workspacesRoot);
   }
 
   // --- Main method for creating projects from JSON prompts ---
@@ -361,6 +337,12 @@ export class ProjectGeneratorService {
       maxFilesPerModule?: number;
       verbosity?: "short" | "medium" | "detailed";
       generateServer?: boolean;
+      // false skips the verify stage (BUILD_VERIFY=off does for every project)
+      verify?: boolean;
+      signal?: AbortSignal;
+      // the job generating the project; verify commands run in its slot
+      parentJobId?: string;
+      onVerify?: (event: VerifyEvent) => void;
     } = {}
   ): Promise<ProjectGenerationResult> {
     const startTime = Date.now();
@@ -389,8 +371,8 @@ export class ProjectGeneratorService {
         content: `You are an expert project generator assistant specialized in creating dynamic server applications.
 
 WORKFLOW:
-1. First, you'll receive JSON chunks marked as "INGEST_CHUNK i/N" - acknowledge each with "CHUNK i/N ACKNOWLEDGED"
-2. After all chunks are ingested, you'll be asked to call the 'build_module_tree_from_prompt' function
+1. You receive the project specification as JSON
+2. Call the 'build_module_tree_from_prompt' function with the project structure
 3. Generate a complete, production-ready server project structure
 
 REQUIREMENTS FOR DYNAMIC SERVER CREATION:
@@ -405,59 +387,23 @@ REQUIREMENTS FOR DYNAMIC SERVER CREATION:
 The module tree should represent a complete server application with all necessary components.`,
       };
 
-      // Process chunks
-      const chunks = this.splitIntoChunks(payloadText, 28000);
-      const messages: OpenAIMessage[] = [systemMessage];
-
-      console.log(`📦 Processing ${chunks.length} chunks...`);
-
-      // Ingest chunks
-      for (let i = 0; i < chunks.length; i++) {
-        messages.push({
+      // One call: the specification goes in with the request, fitted to the
+      // model's context window (see llm/context.manager)
+      const messages: OpenAIMessage[] = [
+        systemMessage,
+        {
           role: "user",
-          content: `INGEST_CHUNK ${i + 1}/${chunks.length}
-
-Do NOT create the project yet. Only acknowledge that you have ingested this chunk with "CHUNK ${
-            i + 1
-          }/${chunks.length} ACKNOWLEDGED"
-
-${chunks[i]}`,
-        });
-
-        console.log(`📤 Sending chunk ${i + 1}/${chunks.length}...`);
-
-        const response = await callModelWithFunctions(
-          messages,
-          openaiFunctions,
-          28000,
-          false
-        );
-        const ackMessage =
-          response.choices?.[0]?.message?.content ||
-          `CHUNK ${i + 1}/${chunks.length} ACKNOWLEDGED`;
-
-        console.log(
-          `✅ Chunk ${i + 1} acknowledged: ${ackMessage.substring(0, 100)}...`
-        );
-
-        messages.push({
-          role: "assistant",
-          content: ackMessage,
-        });
-      }
-
-      // Generate project structure
-      console.log(`🧠 Generating project structure for: ${projectName}`);
-
-      messages.push({
-        role: "user",
-        content: `All chunks have been ingested successfully. Now use the 'build_module_tree_from_prompt' function to create a complete server project structure.
+          content: `PROJECT SPECIFICATION (JSON):\n${payloadText}`,
+        },
+        {
+          role: "user",
+          content: `Now use the 'build_module_tree_from_prompt' function to create a complete server project structure.
 
 Requirements:
 - projectName: "${projectName}"
 - Generate a comprehensive server application structure
 - Include all necessary files for a production-ready server
-- Consider the specifications from the ingested JSON
+- Follow the specification above
 - Create proper module hierarchy with appropriate files
 
 Options:
@@ -466,13 +412,29 @@ Options:
 - verbosity: "${options.verbosity || "detailed"}"
 
 Call the function now.`,
+        },
+      ];
+      const model = llmRegistry.get("chat").defaultModel;
+      // the answer may take at most half the window, the rest is for the specification
+      const maxTokens = Math.min(32768, Math.floor(contextManager.contextWindow(model) / 2));
+      const { messages: packed, report } = contextManager.pack({
+        model,
+        messages,
+        maxOutputTokens: maxTokens,
+        tools: toLlmTools(openaiFunctions),
       });
+      if (report.trimmedMessages) {
+        console.warn(`⚠️ Specification shortened to fit the context window of ${report.model}`);
+      }
+
+      console.log(`🧠 Generating project structure for: ${projectName} (~${report.promptTokens} prompt tokens)`);
 
       const finalResponse = await callModelWithFunctions(
-        messages,
+        packed,
         openaiFunctions,
-        32768,
-        false
+        maxTokens,
+        false,
+        { signal: options.signal }
       );
       const choice = finalResponse.choices?.[0];
 
@@ -528,7 +490,11 @@ Call the function now.`,
       const emitResult = await this.handleEmitFiles({
         projectId,
         operations,
-        meta: { requestId: `gen-${Date.now()}`, userId },
+        meta: {
+          requestId: `gen-${Date.now()}`,
+          userId,
+          summary: `Generate ${projectName}`,
+        },
       });
 
       const errors = emitResult.results
@@ -538,8 +504,13 @@ Call the function now.`,
           error: r.error || "Unknown error",
         }));
 
-      const successCount = emitResult.results.filter((r) => r.ok).length;
-      console.log(`✅ Successfully created ${successCount} files`);
+      const pending = emitResult.status === "pending";
+      const successCount = emitResult.results.filter((r) => r.status === "applied").length;
+      console.log(
+        pending
+          ? `📨 Proposed ${emitResult.results.length} files for review (proposal ${emitResult.proposalId})`
+          : `✅ Successfully created ${successCount} files`
+      );
 
       if (errors.length > 0) {
         console.warn(`⚠️ ${errors.length} file operation errors:`, errors);
@@ -550,6 +521,22 @@ Call the function now.`,
         await this.generateServerStartupFiles(projectId, projectName);
       }
 
+      // Build and test the project, patching what fails; nothing to build
+      // while the files are under review
+      let verify: RepairResult | undefined;
+      if (!pending && options.verify !== false && verifyEnabled()) {
+        verify = await verifyService.repair(projectId, {
+          llm: llmRegistry.get("builder"),
+          workspace: this.workspace(projectId),
+          goal: `Server project "${projectName}" generated from a JSON specification`,
+          signal: options.signal,
+          parentJobId: options.parentJobId,
+          requestedBy: userId ? `user:${userId}` : undefined,
+          onEvent: options.onVerify,
+        });
+        console.log(`🧪 Verify ${verify.ok ? "passed" : `failed (${verify.stopReason})`} after ${verify.rounds.length} repair rounds`);
+      }
+
       const executionTime = Date.now() - startTime;
       console.log(`🎉 Project generation completed in ${executionTime}ms`);
 
@@ -557,9 +544,12 @@ Call the function now.`,
         success: true,
         projectId,
         moduleTree,
+        proposalId: emitResult.proposalId,
+        proposalStatus: emitResult.status,
         filesCreated: successCount,
         errors,
         executionTime,
+        verify,
       };
     } catch (error) {
       console.error("❌ Project generation failed:", error);
@@ -575,8 +565,8 @@ Call the function now.`,
       .toLowerCase()
       .replace(/[^a-z0-9-_]/g, "-")}-${Date.now()}`;
 
-    const root = this.ensureProjectRoot(projectId);
-    await fs.mkdir(root, { recursive: true });
+    const workspace = this.workspace(projectId);
+    await workspace.ensure();
 
     // Create project metadata
     const metadata = {
@@ -587,10 +577,9 @@ Call the function now.`,
       version: "1.0.0",
     };
 
-    await fs.writeFile(
-      path.join(root, ".project-meta.json"),
-      JSON.stringify(metadata, null, 2),
-      "utf8"
+    await workspace.write(
+      ".project-meta.json",
+      JSON.stringify(metadata, null, 2)
     );
 
     return projectId;
@@ -753,7 +742,7 @@ class ${moduleName?.charAt(0)?.toUpperCase() + moduleName?.slice(1)}:
     projectId: string,
     projectName: string
   ) {
-    const root = this.ensureProjectRoot(projectId);
+    const workspace = this.workspace(projectId);
 
     // Generate package.json
     const packageJson = {
@@ -823,189 +812,114 @@ Generated at: ${new Date().toISOString()}
 `;
 
     await Promise.all([
-      fs.writeFile(
-        path.join(root, "package.json"),
-        JSON.stringify(packageJson, null, 2)
-      ),
-      fs.writeFile(path.join(root, ".env"), envContent),
-      fs.writeFile(path.join(root, "README.md"), readmeContent),
-      fs.writeFile(
-        path.join(root, ".gitignore"),
+      workspace.write("package.json", JSON.stringify(packageJson, null, 2)),
+      workspace.write(".env", envContent),
+      workspace.write("README.md", readmeContent),
+      workspace.write(
+        ".gitignore",
         "node_modules/\n.env\n*.log\ndist/\n.DS_Store\n"
       ),
     ]);
   }
 
   // --- Handler methods (implement all the functions from openaiFunctions) ---
+  // the generated files as a proposal in this service's project directory;
+  // written at once only with PROPOSALS_AUTO_APPROVE
   async handleEmitFiles(payload: {
     projectId: string;
     operations: FileOperation[];
     meta?: any;
   }) {
-    const root = this.ensureProjectRoot(payload.projectId);
-    const results: Array<{
-      path: string;
-      action: string;
-      ok: boolean;
-      error?: string;
-    }> = [];
-
-    for (const operation of payload.operations) {
-      try {
-        const relativePath = this.sanitizePath(operation.path);
-        const fullPath = path.join(root, relativePath);
-
-        switch (operation.action) {
-          case "create":
-          case "update":
-            await fs.mkdir(path.dirname(fullPath), { recursive: true });
-            const content =
-              operation.encoding === "base64"
-                ? Buffer.from(operation.content || "", "base64")
-                : operation.content || "";
-
-            await fs.writeFile(
-              fullPath,
-              content as any,
-              operation.encoding === "base64" ? undefined : "utf8"
-            );
-            results.push({
-              path: relativePath,
-              action: operation.action,
-              ok: true,
-            });
-            break;
-
-          case "delete":
-            try {
-              await fs.rm(fullPath, { force: true });
-              results.push({
-                path: relativePath,
-                action: operation.action,
-                ok: true,
-              });
-            } catch (e: any) {
-              if (e.code === "ENOENT") {
-                results.push({
-                  path: relativePath,
-                  action: operation.action,
-                  ok: true,
-                });
-              } else {
-                throw e;
-              }
-            }
-            break;
-
-          default:
-            results.push({
-              path: operation.path,
-              action: operation.action,
-              ok: false,
-              error: `Unknown action: ${operation.action}`,
-            });
-        }
-      } catch (error: any) {
-        results.push({
-          path: operation.path,
-          action: operation.action,
-          ok: false,
-          error: error.message,
-        });
-      }
-    }
+    const workspace = this.workspace(payload.projectId);
+    await workspace.ensure();
+    const llm = llmRegistry.get("chat");
+    const proposal = await proposalQueue.propose({
+      workspaceId: payload.projectId,
+      root: workspace.root,
+      title: payload.meta?.summary ?? `Emit ${payload.operations.length} files`,
+      author: modelAuthor(llm.name, llm.defaultModel),
+      operations: payload.operations,
+    });
 
-    return { projectId: payload.projectId, results };
+    return {
+      projectId: payload.projectId,
+      proposalId: proposal.id,
+      status: proposal.status,
+      results: proposal.files.map((f) => ({
+        path: f.path,
+        action: f.action,
+        status: f.status,
+        ok: f.status !== "failed" && f.status !== "invalid",
+        ...(f.message ? { error: f.message } : {}),
+      })),
+    };
   }
 
-  async handleApplyPatch(payload: {
+  // emitFiles from a tool call: queued as a proposal, written by handleApplyPatch once reviewed
+  async handleProposeFiles(payload: {
     projectId: string;
     operations: FileOperation[];
-    approvedBy: string;
+    meta?: any;
   }) {
-    if (!payload.approvedBy) {
-      throw new Error("Patch must be approved by a user");
-    }
-
-    return this.handleEmitFiles({
-      projectId: payload.projectId,
+    const proposal = await proposalQueue.propose({
+      workspaceId: payload.projectId,
+      root: this.workspace(payload.projectId).root,
+      title: payload.meta?.summary,
+      author: { name: payload.meta?.userId || "assistant" },
       operations: payload.operations,
-      meta: {
-        approvedBy: payload.approvedBy,
-        timestamp: new Date().toISOString(),
-      },
     });
-  }
-
-  async handleListFiles(projectId: string, relativePath = "", depth = 2) {
-    const root = this.ensureProjectRoot(projectId);
-    const startPath = path.join(root, this.sanitizePath(relativePath || ""));
 
-    const walkDirectory = async (
-      currentPath: string,
-      basePath: string,
-      remainingDepth: number
-    ): Promise<any[]> => {
-      if (remainingDepth < 0) return [];
+    return {
+      projectId: payload.projectId,
+      ...proposalSummary(proposal),
+      proposalId: proposal.id,
+      note:
+        proposal.status === "pending"
+          ? "Changes are awaiting user approval; nothing was written yet."
+          : "Changes were approved automatically (PROPOSALS_AUTO_APPROVE).",
+    };
+  }
 
-      try {
-        const stat = await fs.stat(currentPath);
-
-        if (stat.isFile()) {
-          return [
-            {
-              path: path.relative(basePath, currentPath),
-              type: "file",
-              size: stat.size,
-              modified: stat.mtime.toISOString(),
-            },
-          ];
-        }
-
-        if (stat.isDirectory()) {
-          const files = await fs.readdir(currentPath);
-          const items: any[] = [];
-
-          for (const fileName of files) {
-            const childPath = path.join(currentPath, fileName);
-            const childStat = await fs.stat(childPath);
-
-            if (childStat.isDirectory()) {
-              items.push({
-                path: path.relative(basePath, childPath) + path.sep,
-                type: "dir",
-                modified: childStat.mtime.toISOString(),
-              });
-
-              if (remainingDepth > 0) {
-                const children = await walkDirectory(
-                  childPath,
-                  basePath,
-                  remainingDepth - 1
-                );
-                items.push(...children);
-              }
-            } else {
-              items.push({
-                path: path.relative(basePath, childPath),
-                type: "file",
-                size: childStat.size,
-                modified: childStat.mtime.toISOString(),
-              });
-            }
-          }
-
-          return items;
-        }
-      } catch (error: any) {
-        console.warn(`Error reading directory ${currentPath}:`, error.message);
-        return [];
-      }
+  // only the files and hunks a user approved on the proposal are written
+  async handleApplyPatch(payload: {
+    projectId: string;
+    proposalId: string;
+    appliedBy?: string;
+  }) {
+    const current = await proposalQueue.get(payload.proposalId);
+    const target = current.root ?? workspaceRegistry.get(current.workspaceId).root;
+    if (target !== this.workspace(payload.projectId).root) {
+      throw new ProposalError(
+        `Proposal ${payload.proposalId} does not belong to project ${payload.projectId}`
+      );
+    }
+    const proposal = await proposalQueue.apply(
+      payload.proposalId,
+      payload.appliedBy ?? "assistant"
+    );
 
-      return [];
+    return {
+      projectId: payload.projectId,
+      proposalId: proposal.id,
+      status: proposal.status,
+      results: proposal.files.map((f) => ({
+        path: f.path,
+        action: f.action,
+        status: f.status,
+        ok: f.status === "applied",
+        ...(f.status === "failed" ? { error: f.message } : {}),
+        ...(f.version ? { version: f.version } : {}),
+      })),
     };
+  }
 
-    const listing = await walkDirectory(startPath, root, depth);
+  async handleListFiles(projectId: string, relativePath = "", depth = 2) {
+    const entries = await this.workspace(projectId).list(relativePath, depth);
+    const listing = entries.map((e) =>
+      e.type === "dir"
+        ? { path: `${e.path}/`, type: e.type, modified: e.modified }
+        : e
+    );
     return { projectId, path: relativePath, listing };
   }
 
@@ -1014,33 +928,17 @@ Generated at: ${new Date().toISOString()}
     relativePath: string,
     maxBytes = 64000
   ) {
-    const root = this.ensureProjectRoot(projectId);
-    const fullPath = path.join(root, this.sanitizePath(relativePath));
-
-    const stat = await fs.stat(fullPath);
-    if (!stat.isFile()) {
-      throw new Error("Path is not a file");
-    }
-
-    const bytesToRead = Math.min(stat.size, maxBytes);
-    const buffer = Buffer.alloc(bytesToRead);
-
-    const fileHandle = await fs.open(fullPath, "r");
-    try {
-      await fileHandle.read(buffer, 0, bytesToRead, 0);
-    } finally {
-      await fileHandle.close();
-    }
-
-    const truncated = stat.size > maxBytes;
+    const file = await this.workspace(projectId).read(relativePath, {
+      maxBytes,
+    });
 
     return {
       projectId,
       path: relativePath,
-      content: buffer.toString("utf8"),
-      truncated,
-      size: stat.size,
-      modified: stat.mtime.toISOString(),
+      content: file.content,
+      truncated: file.truncated,
+      size: file.size,
+      modified: file.modified,
     };
   }
 
@@ -1049,8 +947,7 @@ Generated at: ${new Date().toISOString()}
     relativePath: string,
     tool: "prettier" | "eslint"
   ) {
-    const root = this.ensureProjectRoot(projectId);
-    const fullPath = path.join(root, this.sanitizePath(relativePath));
+    const fullPath = await this.workspace(projectId).resolve(relativePath);
     const code = await fs.readFile(fullPath, "utf8");
 
     if (tool === "prettier") {
@@ -1088,91 +985,94 @@ Generated at: ${new Date().toISOString()}
         cpuShares?: number;
       };
     };
-  }) {
-    const root = this.ensureProjectRoot(payload.projectId);
-    const workingDir = payload.cwd
-      ? path.join(root, this.sanitizePath(payload.cwd))
-      : root;
-
-    if (!workingDir.startsWith(root)) {
-      throw new Error("Working directory outside project root not allowed");
-    }
-
-    const jobId = `${payload.projectId}-${Date.now()}`;
+  }, onOutput?: CommandOutputListener) {
     const timeoutMs = payload.options?.timeoutMs || 30000;
+    const memoryMb = payload.options?.resourceLimits?.memoryMb;
+    // runCommand jobs run in the registry's workspace of the project
+    if (workspaceRegistry.get(payload.projectId).root !== this.workspace(payload.projectId).root) {
+      throw new JobError(`Project ${payload.projectId} is not in the jobs' workspaces`);
+    }
 
-    return new Promise((resolve, reject) => {
-      const child = spawn(payload.cmd, payload.args || [], {
-        cwd: workingDir,
-        shell: true,
-        stdio: ["ignore", "pipe", "pipe"],
-      });
-
-      let stdout = "";
-      let stderr = "";
-
-      child.stdout?.on("data", (data) => {
-        stdout += data.toString();
-      });
-
-      child.stderr?.on("data", (data) => {
-        stderr += data.toString();
-      });
-
-      const timeoutHandle = setTimeout(() => {
-        child.kill("SIGKILL");
-        reject(new Error(`Command timed out after ${timeoutMs}ms`));
-      }, timeoutMs);
-
-      child.on("close", (code) => {
-        clearTimeout(timeoutHandle);
-
-        const result = {
-          jobId,
-          projectId: payload.projectId,
-          cmd: payload.cmd,
-          args: payload.args || [],
-          cwd: payload.cwd,
-          exitCode: code,
-          stdout: stdout?.slice(-20000),
-          stderr: stderr?.slice(-20000),
-          finishedAt: new Date().toISOString(),
-        };
-
-        this.jobs.set(jobId, result);
-        resolve(result);
-      });
-
-      child.on("error", (error) => {
-        clearTimeout(timeoutHandle);
-        reject(error);
-      });
+    // no shell: a command line is split into words (see sandbox/sandbox)
+    const job = await jobQueue.enqueue({
+      projectId: payload.projectId,
+      type: "runCommand",
+      input: {
+        cmd: payload.cmd,
+        args: payload.args || [],
+        cwd: payload.cwd,
+        timeoutMs,
+        memoryMb,
+      },
+      requestedBy: "assistant",
     });
+    const unsubscribe = onOutput
+      ? jobQueue.onLog(job.id, (entry) => {
+          if (entry.stream !== "info") onOutput(entry.stream, entry.text);
+        })
+      : undefined;
+    const done = await jobQueue.wait(job.id).finally(() => unsubscribe?.());
+    if (done.result?.timedOut) {
+      throw new Error(`Command timed out after ${timeoutMs}ms`);
+    }
+    if (!done.result) {
+      throw new Error(done.error ?? `Command ${done.status}`);
+    }
+
+    return {
+      jobId: job.id,
+      projectId: payload.projectId,
+      cmd: payload.cmd,
+      args: payload.args || [],
+      cwd: payload.cwd,
+      exitCode: done.result.exitCode,
+      stdout: done.result.stdout,
+      stderr: done.result.stderr,
+      isolation: done.result.isolation,
+      finishedAt: done.finishedAt,
+    };
   }
 
   async handleRunJobStatus(projectId: string, jobId: string, tailLines = 200) {
-    const job = this.jobs.get(jobId);
+    const job = await jobQueue.get(jobId, projectId).catch((err) => {
+      if (err instanceof JobNotFoundError) return null;
+      throw err;
+    });
 
     if (!job) {
       return { projectId, jobId, status: "not_found" };
     }
 
-    const stdout = job.stdout?.split("\n")?.slice(-tailLines).join("\n") || "";
-    const stderr = job.stderr?.split("\n")?.slice(-tailLines).join("\n") || "";
+    // output so far from the log, so running jobs report it too
+    const { entries } = await jobQueue.logs(jobId, Math.max(0, job.logSeq - 2000), 2000);
+    const tail = (stream: string) =>
+      entries
+        .filter((e) => e.stream === stream)
+        .map((e) => e.text)
+        .join("")
+        .split("\n")
+        .slice(-tailLines)
+        .join("\n");
 
     return {
       projectId,
       jobId,
-      status: "finished",
-      exitCode: job.exitCode,
-      stdout,
-      stderr,
+      status: job.status,
+      exitCode: job.result?.exitCode ?? null,
+      stdout: tail("stdout"),
+      stderr: tail("stderr"),
+      error: job.error,
       finishedAt: job.finishedAt,
     };
   }
 
   // --- Function call dispatcher ---
-  async dispatchFunctionCall(fnName: string, args: any, userId?: string) {
+  async dispatchFunctionCall(
+    fnName: string,
+    args: any,
+    userId?: string,
+    hooks: DispatchHooks = {}
+  ) {
     switch (fnName) {
       case "build_module_tree_from_prompt":
         // This function is handled internally by the AI
@@ -1181,7 +1081,7 @@ Generated at: ${new Date().toISOString()}
         );
 
       case "emitFiles":
-        return this.handleEmitFiles(args);
+        return this.handleProposeFiles(args);
 
       case "applyPatch":
         return this.handleApplyPatch(args);
@@ -1196,7 +1096,7 @@ Generated at: ${new Date().toISOString()}
         return this.handleFormatFile(args.projectId, args.path, args.tool);
 
       case "runCommand":
-        return this.handleRunCommand(args);
+        return this.handleRunCommand(args, hooks.onOutput);
 
       case "runJobStatus":
         return this.handleRunJobStatus(
@@ -1,54 +1,35 @@
-import fs from "fs";
-import path from "path";
 import { EmitFilesSchema, ApplyPatchSchema } from "../schemas/zod/chat.schemas";
-import { z } from "zod";
 import { v4 as uuidv4 } from "uuid";
-
-type FileOp = z.infer<typeof EmitFilesSchema>["operations"][number];
-
-const PROJECTS_ROOT =
-  process.env.PROJECTS_ROOT || path.resolve(process.cwd(), "workspaces");
-console.log(PROJECTS_ROOT);
-
-// helper to ensure resolved path is inside project
-export function isPathInside(root: string, resolved: string) {
-  const rootNormalized = path.resolve(root) + path.sep;
-  const resolvedNormalized = path.resolve(resolved) + path.sep;
-  return resolvedNormalized.startsWith(rootNormalized);
-}
-
-function resolveProjectRoot(projectId: string) {
-  // e.g. /var/ai/workspaces/{projectId}
-  const p = path.resolve(PROJECTS_ROOT, projectId);
-  return p;
-}
+import { projectWorkspace } from "workspace/workspace";
+import { VersionAuthor } from "workspace/workspace.history";
+import proposalQueue, {
+  ProposalError,
+  proposalSummary,
+} from "workspace/workspace.proposals";
 
 export class FileService {
-  // store suggestions in memory for demo; replace with DB in production
-  private suggestions: Record<string, any> = {};
-
-  public createSuggestion = async (raw: unknown) => {
+  /**
+   * Queue the operations as a proposal for review; nothing is written until
+   * a user approves files or hunks (see /api/v1/proposals).
+   */
+  public createSuggestion = async (raw: unknown, author?: VersionAuthor) => {
     const parsed = EmitFilesSchema.parse(raw);
-    const suggestionId = uuidv4();
-    // compute simple summary (files count)
-    const summary = {
-      suggestionId,
-      projectId: parsed.projectId,
-      operationsCount: parsed.operations.length,
-      createdAt: new Date().toISOString(),
-      operations: parsed.operations.map((o) => ({
-        path: o.path,
-        action: o.action,
-      })),
-    };
-
-    this.suggestions[suggestionId] = {
-      ...summary,
+    const proposal = await proposalQueue.submit({
+      workspaceId: parsed.projectId,
+      title: parsed.meta?.summary,
+      author: author ?? { name: parsed.meta?.userId || "assistant" },
       operations: parsed.operations,
-      status: "pending",
+    });
+
+    return {
+      ok: true,
+      suggestion: {
+        ...proposalSummary(proposal),
+        proposalId: proposal.id,
+        projectId: parsed.projectId,
+        note: "Changes are awaiting user approval; nothing was written yet.",
+      },
     };
-
-    return { ok: true, suggestion: summary };
   };
 
   /**
@@ -63,19 +44,15 @@ export class FileService {
     }
 
     const projectId = uuidv4();
-    const projectRoot = resolveProjectRoot(projectId);
+    const workspace = projectWorkspace(projectId);
 
     try {
-      fs.mkdirSync(projectRoot, { recursive: true });
+      const projectRoot = await workspace.ensure();
 
       const readmeContent = `# ${payload.title}\n\n${
         payload.prompt
       }\n\nGenerated: ${new Date().toISOString()}\n`;
-      fs.writeFileSync(
-        path.join(projectRoot, "README.md"),
-        readmeContent,
-        "utf8"
-      );
+      await workspace.write("README.md", readmeContent);
 
       const stack = (payload.stack || "").toLowerCase();
       const files: { path: string; content: string }[] = [
@@ -94,11 +71,7 @@ export class FileService {
           scripts: { start: "node index.js" },
         };
         const pkgContent = JSON.stringify(pkg, null, 2);
-        fs.writeFileSync(
-          path.join(projectRoot, "package.json"),
-          pkgContent,
-          "utf8"
-        );
+        await workspace.write("package.json", pkgContent);
         files.push({ path: "package.json", content: pkgContent });
       }
 
@@ -108,11 +81,7 @@ export class FileService {
         }\n// scaffold generated on ${new Date().toISOString()}\nconsole.log("Hello from ${
           payload.title
         }");\n`;
-        fs.writeFileSync(
-          path.join(projectRoot, "index.js"),
-          indexContent,
-          "utf8"
-        );
+        await workspace.write("index.js", indexContent);
         files.push({ path: "index.js", content: indexContent });
       }
 
@@ -127,114 +96,39 @@ export class FileService {
     }
   };
 
-  // Apply patch (called after user approves) - writes files to disk with guard
+  // Apply what a user approved on a proposal: only approved files and hunks are written
   public applyPatch = async (raw: unknown) => {
     const parsed = ApplyPatchSchema.parse(raw);
-    const projectRoot = resolveProjectRoot(parsed.projectId);
-    // ensure project root exists
-    fs.mkdirSync(projectRoot, { recursive: true });
-
-    const MAX_BYTES_PER_FILE = 5 * 1024 * 1024; // 5MB per file
-    const results: {
-      path: string;
-      action: string;
-      success: boolean;
-      error?: string;
-    }[] = [];
-
-    for (const op of parsed.operations) {
-      try {
-        // normalize and sanitize path
-        const normalized = path.normalize(op.path || "");
-        const sanitizedRel = normalized.replace(/^([\\/]*\.\.([\\/]|$))+/, "");
-        const target = path.resolve(projectRoot, sanitizedRel);
-
-        if (!isPathInside(projectRoot, target)) {
-          results.push({
-            path: op.path,
-            action: op.action,
-            success: false,
-            error: "Path escapes project root",
-          });
-          continue;
-        }
-
-        // size checks
-        if (op.content && op.encoding !== "base64") {
-          const bufSize = Buffer.byteLength(String(op.content), "utf8");
-          if (bufSize > MAX_BYTES_PER_FILE) {
-            results.push({
-              path: op.path,
-              action: op.action,
-              success: false,
-              error: "file too large",
-            });
-            continue;
-          }
-        }
-        if (op.content && op.encoding === "base64") {
-          const est = Math.ceil((String(op.content).length * 3) / 4);
-          if (est > MAX_BYTES_PER_FILE) {
-            results.push({
-              path: op.path,
-              action: op.action,
-              success: false,
-              error: "file too large (base64)",
-            });
-            continue;
-          }
-        }
-
-        if (op.action === "delete") {
-          if (fs.existsSync(target)) {
-            fs.unlinkSync(target);
-          }
-          results.push({ path: op.path, action: "delete", success: true });
-        } else {
-          // create/update -> ensure dir
-          fs.mkdirSync(path.dirname(target), { recursive: true });
-          const content = op.content ?? "";
-          if (op.encoding === "base64") {
-            fs.writeFileSync(target, Buffer.from(content, "base64"));
-          } else {
-            fs.writeFileSync(target, content, "utf8");
-          }
-          results.push({ path: op.path, action: op.action, success: true });
-        }
-      } catch (err: any) {
-        results.push({
-          path: op.path,
-          action: op.action,
-          success: false,
-          error: String(err),
-        });
-      }
+    const current = await proposalQueue.get(parsed.proposalId);
+    if (parsed.projectId && parsed.projectId !== current.workspaceId) {
+      throw new ProposalError(
+        `Proposal ${parsed.proposalId} belongs to ${current.workspaceId}, not ${parsed.projectId}`
+      );
     }
-
-    // mark suggestion (if exists)
-    // optionally write audit log to DB/file
-    return { ok: true, results };
+    const proposal = await proposalQueue.apply(
+      parsed.proposalId,
+      parsed.appliedBy ?? "assistant"
+    );
+
+    return {
+      ok: proposal.files.some((f) => f.status === "applied"),
+      proposalId: proposal.id,
+      status: proposal.status,
+      version: proposal.files.find((f) => f.version)?.version ?? null,
+      results: proposal.files.map((f) => ({
+        path: f.path,
+        action: f.action,
+        status: f.status,
+        success: f.status === "applied",
+        ...(f.status === "failed" ? { error: f.message } : {}),
+        ...(f.approvedHunks ? { hunks: f.approvedHunks } : {}),
+      })),
+    };
   };
 
   public listFiles = async (projectId: string, relPath = ".", depth = 2) => {
-    const projectRoot = resolveProjectRoot(projectId);
-    const out: { path: string; isDir: boolean }[] = [];
-    const start = path.resolve(projectRoot, relPath);
-
-    function walk(dir: string, level: number) {
-      if (level < 0) return;
-      const items = fs.readdirSync(dir, { withFileTypes: true });
-      for (const it of items) {
-        const p = path.relative(projectRoot, path.join(dir, it.name));
-        out.push({ path: p, isDir: it.isDirectory() });
-        if (it.isDirectory()) {
-          walk(path.join(dir, it.name), level - 1);
-        }
-      }
-    }
-
-    if (fs.existsSync(start)) walk(start, depth);
-    return out;
+    const entries = await projectWorkspace(projectId).list(relPath, depth);
+    return entries.map((e) => ({ path: e.path, isDir: e.type === "dir" }));
   };
 
   public getFile = async (
@@ -242,14 +136,10 @@ export class FileService {
     relPath: string,
     maxBytes = 200_000
   ) => {
-    const projectRoot = resolveProjectRoot(projectId);
-    const target = path.resolve(projectRoot, relPath);
-    if (!isPathInside(projectRoot, target))
-      throw new Error("Path escapes project root");
-    if (!fs.existsSync(target)) throw new Error("File not found");
-    const buf = fs.readFileSync(target);
-    const out = buf.slice(0, maxBytes).toString("utf8");
-    return { content: out, size: buf.length };
+    const { content, size } = await projectWorkspace(projectId).read(relPath, {
+      maxBytes,
+    });
+    return { content, size };
   };
 }
 
@@ -23,33 +23,12 @@ export class EditorController {
       if (!prompt) {
         return res.status(400).json({ error: 'Prompt is required' });
       }
-      // Choose AI provider based on "model" field
-      let aiResult;
-      if (model === 'anthropic') {
-        // @anthropic-ai/sdk usage (placeholder)
-        const { Anthropic } = require('@anthropic-ai/sdk');
-        const client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-        const response = await client.completions.create({
-          model: 'claude-2.1',
-          prompt,
-          max_tokens_to_sample: 1024,
-        });
-        aiResult = { success: true, component: response.completion };
-      } else if (model === 'gemini') {
-        // Google Gemini usage (placeholder)
-        const { GoogleGenerativeAI } = require('@google/generative-ai');
-        const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-        const modelInstance = genAI.getGenerativeModel({ model: process.env.GEMINI_MODEL || 'gemini-1.5-flash' });
-        const result = await modelInstance.generateContent(prompt);
-        aiResult = { success: true, component: result.response.text() };
-      } else {
-        // Default to OpenAI via editorService (existing implementation)
-        aiResult = await this.editorService.generateComponentFromAI(
-          prompt,
-          selectedComponents || [],
-          true,
-        );
-      }
+      // "model" picks the provider (openai | anthropic | gemini)
+      const aiResult = await this.editorService.generateComponentFromAI(
+        prompt,
+        selectedComponents || [],
+        model,
+      );
       if (!aiResult.success) {
         return res.status(500).json({ error: aiResult.error });
       }
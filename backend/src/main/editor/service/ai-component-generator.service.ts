@@ -1,19 +1,14 @@
 // AI Component Generator Service
-import Anthropic from '@anthropic-ai/sdk';
-import OpenAI from 'openai';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY || '',
-});
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || '',
-});
+import llmRegistry from 'llm/llm.registry';
+import promptRegistry from 'prompts/prompt.registry';
 
 interface GenerateComponentRequest {
   prompt: string;
   componentType?: string;
   selectedComponents?: any[];
+  // openai | anthropic | gemini; falls back to LLM_PROVIDER_EDITOR / LLM_PROVIDER
+  provider?: string;
+  // legacy switch, same as provider: 'openai'
   useOpenAI?: boolean;
 }
 
@@ -27,39 +22,20 @@ export interface ComponentResponse {
 
 export class AIComponentGeneratorService {
   async generateComponent(request: GenerateComponentRequest): Promise<ComponentResponse> {
-    const { prompt, componentType, selectedComponents = [], useOpenAI = false } = request;
+    const { prompt, componentType, selectedComponents = [], provider, useOpenAI = false } = request;
 
     const systemPrompt = this.buildSystemPrompt(componentType);
     const userPrompt = this.buildUserPrompt(prompt, selectedComponents);
 
-    if (useOpenAI) {
-      return this.generateWithOpenAI(systemPrompt, userPrompt);
-    } else {
-      return this.generateWithAnthropic(systemPrompt, userPrompt);
-    }
+    return this.generateWithProvider(
+      systemPrompt,
+      userPrompt,
+      provider ?? (useOpenAI ? 'openai' : undefined)
+    );
   }
 
   private buildSystemPrompt(componentType?: string): string {
-    return `You are an expert UI component generator. Generate clean, modern, production-ready HTML/CSS/JavaScript components.
-
-Rules:
-1. Generate semantic HTML5 markup
-2. Use modern CSS (Flexbox, Grid, CSS variables)
-3. Include TailwindCSS classes for styling
-4. Make components responsive and accessible
-5. Keep JavaScript minimal and vanilla (no frameworks)
-6. Return ONLY valid HTML, CSS, and JS - no markdown, no explanations in the code
-
-Component Type: ${componentType || 'any'}
-
-Return format:
-{
-  "html": "...",
-  "css": "...",
-  "js": "...",
-  "explanation": "Brief explanation of the component",
-  "componentType": "button|card|form|navbar|etc"
-}`;
+    return promptRegistry.render('editor.component', { componentType });
   }
 
   private buildUserPrompt(prompt: string, selectedComponents: any[]): string {
@@ -75,52 +51,29 @@ Return format:
     return userPrompt;
   }
 
-  private async generateWithAnthropic(systemPrompt: string, userPrompt: string): Promise<ComponentResponse> {
-    try {
-      const message = await anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 4096,
-        system: systemPrompt,
-        messages: [{
-          role: 'user',
-          content: userPrompt,
-        }],
-      });
-
-      const content = message.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected response type');
-      }
-
-      const result = this.parseResponse(content.text);
-      return result;
-    } catch (error: any) {
-      console.error('Anthropic generation error:', error);
-      throw new Error(`AI generation failed: ${error.message}`);
-    }
-  }
-
-  private async generateWithOpenAI(systemPrompt: string, userPrompt: string): Promise<ComponentResponse> {
+  private async generateWithProvider(
+    systemPrompt: string,
+    userPrompt: string,
+    requested?: string
+  ): Promise<ComponentResponse> {
+    const provider = llmRegistry.get('editor', requested);
     try {
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o',
+      const response = await provider.chat({
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt },
         ],
-        max_tokens: 4096,
+        maxTokens: 4096,
         temperature: 0.7,
       });
 
-      const content = completion.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response from OpenAI');
+      if (!response.text) {
+        throw new Error(`No response from ${provider.name}`);
       }
 
-      const result = this.parseResponse(content);
-      return result;
+      return this.parseResponse(response.text);
     } catch (error: any) {
-      console.error('OpenAI generation error:', error);
+      console.error(`${provider.name} generation error:`, error);
       throw new Error(`AI generation failed: ${error.message}`);
     }
   }
@@ -39,12 +39,12 @@ export class EditorService {
     fs.ensureDirSync(this.projectsDir);
   }
 
-  async generateComponentFromAI(prompt: string, selectedComponents: any[] = [], useOpenAI = false) {
+  async generateComponentFromAI(prompt: string, selectedComponents: any[] = [], provider?: string) {
     try {
       const result = await aiGenerator.generateComponent({
         prompt,
         selectedComponents,
-        useOpenAI,
+        provider,
       });
 
       return {
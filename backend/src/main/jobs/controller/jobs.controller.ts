@@ -0,0 +1,139 @@
+import { NextFunction, Request, Response } from "express";
+import { ZodError } from "zod";
+import jobQueue from "jobs/jobs.queue";
+import { JobError, JobNotFoundError } from "jobs/jobs.errors";
+import commandPolicy, { CommandPolicyError, explainDecision } from "sandbox/sandbox.policy";
+import {
+  CancelJobSchema,
+  CheckCommandSchema,
+  EnqueueJobSchema,
+  JobScopeSchema,
+} from "../schemas/jobs.schemas";
+
+/** 404 for unknown jobs, 400 for invalid requests, 403 for denied commands, 500 otherwise. */
+function sendError(res: Response, err: any, label: string) {
+  if (err instanceof JobNotFoundError) {
+    return res.status(404).json({ ok: false, error: err.message });
+  }
+  if (err instanceof CommandPolicyError) {
+    return res.status(403).json({ ok: false, error: err.message, decision: err.decision });
+  }
+  if (err instanceof ZodError) {
+    return res.status(400).json({ ok: false, error: "Invalid request", issues: err.issues });
+  }
+  if (err instanceof JobError) {
+    return res.status(400).json({ ok: false, error: err.message });
+  }
+  console.error(`[JobsController] ${label} error:`, err);
+  return res.status(500).json({ ok: false, error: err?.message ?? String(err) });
+}
+
+function queryString(req: Request, key: string) {
+  const value = req.query[key];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+class JobsController {
+  /**
+   * Jobs, newest first
+   * GET /api/v1/jobs?projectId=&type=&status=running&limit=100
+   */
+  public getJobs = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 1000);
+      const jobs = await jobQueue.list(
+        {
+          projectId: queryString(req, "projectId"),
+          type: queryString(req, "type"),
+          status: queryString(req, "status"),
+        },
+        limit
+      );
+      return res.json({ ok: true, count: jobs.length, jobs });
+    } catch (err: any) {
+      return sendError(res, err, "List");
+    }
+  };
+
+  /**
+   * Queue a job; follow it via GET /:jobId, /:jobId/logs or the socket room job:<id>
+   * POST /api/v1/jobs { projectId, type: "runCommand", input: { cmd, args?, cwd?, timeoutMs? } }
+   */
+  public enqueueJob = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = EnqueueJobSchema.parse(req.body);
+      const job = await jobQueue.enqueue({ ...body, requestedBy: body.requestedBy ?? "api" });
+      return res.status(202).json({ ok: true, job });
+    } catch (err: any) {
+      return sendError(res, err, "Enqueue");
+    }
+  };
+
+  /**
+   * Decision of the command policy for a command, with its explanation
+   * POST /api/v1/jobs/policy/check { projectId?, cmd, args?, cwd?, timeoutMs? }
+   */
+  public checkCommand = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = CheckCommandSchema.parse(req.body ?? {});
+      const decision = await commandPolicy.evaluate({
+        projectId: body.projectId,
+        command: body.cmd,
+        args: body.args,
+        cwd: body.cwd,
+        timeoutMs: body.timeoutMs,
+      });
+      return res.json({ ok: true, decision, explanation: explainDecision(decision) });
+    } catch (err: any) {
+      return sendError(res, err, "Policy check");
+    }
+  };
+
+  /**
+   * One job with its status and result
+   * GET /api/v1/jobs/:jobId?projectId=
+   */
+  public getJob = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { projectId } = JobScopeSchema.parse(req.query);
+      const job = await jobQueue.get(req.params.jobId, projectId);
+      return res.json({ ok: true, job });
+    } catch (err: any) {
+      return sendError(res, err, "Get");
+    }
+  };
+
+  /**
+   * Log entries from seq `from` on; poll again from `next` until `done`
+   * GET /api/v1/jobs/:jobId/logs?projectId=&from=0&limit=1000
+   */
+  public getJobLogs = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { projectId } = JobScopeSchema.parse(req.query);
+      await jobQueue.get(req.params.jobId, projectId);
+      const from = Math.max(Number(req.query.from) || 0, 0);
+      const limit = Math.min(Math.max(Number(req.query.limit) || 1000, 1), 10000);
+      const logs = await jobQueue.logs(req.params.jobId, from, limit);
+      return res.json({ ok: true, ...logs });
+    } catch (err: any) {
+      return sendError(res, err, "Logs");
+    }
+  };
+
+  /**
+   * Cancel a queued or running job
+   * POST /api/v1/jobs/:jobId/cancel { projectId, cancelledBy? }
+   */
+  public cancelJob = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { projectId, cancelledBy } = CancelJobSchema.parse(req.body ?? {});
+      await jobQueue.get(req.params.jobId, projectId);
+      const job = await jobQueue.cancel(req.params.jobId, cancelledBy);
+      return res.json({ ok: true, job });
+    } catch (err: any) {
+      return sendError(res, err, "Cancel");
+    }
+  };
+}
+
+export default new JobsController();
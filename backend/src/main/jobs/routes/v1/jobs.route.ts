@@ -0,0 +1,20 @@
+import { Router } from "express";
+import jobsController from "main/jobs/controller/jobs.controller";
+
+const jobsRouter = Router();
+
+// Queue and list jobs
+jobsRouter.get("/", jobsController.getJobs);
+jobsRouter.post("/", jobsController.enqueueJob);
+
+// What the command policy says about a command
+jobsRouter.post("/policy/check", jobsController.checkCommand);
+
+// Poll a job and tail its log
+jobsRouter.get("/:jobId", jobsController.getJob);
+jobsRouter.get("/:jobId/logs", jobsController.getJobLogs);
+
+// Cancel a queued or running job
+jobsRouter.post("/:jobId/cancel", jobsController.cancelJob);
+
+export default jobsRouter;
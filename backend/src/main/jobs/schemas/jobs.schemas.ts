@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+/** POST /api/v1/jobs (and the job:enqueue socket event) */
+export const EnqueueJobSchema = z.object({
+  projectId: z.string().min(1),
+  type: z.string().min(1),
+  // checked against the schema of the job type
+  input: z.record(z.string(), z.unknown()).default({}),
+  requestedBy: z.string().min(1).optional(),
+});
+
+/** ?projectId= of the job routes; a job is only found through its own project */
+export const JobScopeSchema = z.object({
+  projectId: z.string().min(1),
+});
+
+/** POST /api/v1/jobs/:jobId/cancel */
+export const CancelJobSchema = z.object({
+  projectId: z.string().min(1),
+  cancelledBy: z.string().min(1).optional(),
+});
+
+/** POST /api/v1/jobs/policy/check: what the command policy says, without running */
+export const CheckCommandSchema = z.object({
+  projectId: z.string().min(1).optional(),
+  cmd: z.string().min(1).max(200),
+  args: z.array(z.string()).max(100).optional(),
+  cwd: z.string().optional(),
+  timeoutMs: z.number().int().positive().optional(),
+});
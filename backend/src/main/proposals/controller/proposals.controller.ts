@@ -0,0 +1,170 @@
+import { NextFunction, Request, Response } from "express";
+import { ZodError } from "zod";
+import proposalQueue, {
+  ProposalError,
+  ProposalFilter,
+  ProposalNotFoundError,
+  ReviewDecision,
+} from "workspace/workspace.proposals";
+import { WorkspacePathError } from "workspace/workspace.policy";
+import {
+  ApplyProposalSchema,
+  ReviewProposalSchema,
+  SubmitProposalSchema,
+} from "../schemas/proposals.schemas";
+
+/** 404 for unknown proposals, 400 for invalid requests or decisions, 500 otherwise. */
+function sendError(res: Response, err: any, label: string) {
+  if (err instanceof ProposalNotFoundError) {
+    return res.status(404).json({ ok: false, error: err.message });
+  }
+  if (err instanceof ZodError) {
+    return res.status(400).json({ ok: false, error: "Invalid request", issues: err.issues });
+  }
+  if (err instanceof ProposalError || err instanceof WorkspacePathError) {
+    return res.status(400).json({ ok: false, error: err.message });
+  }
+  console.error(`[ProposalsController] ${label} error:`, err);
+  return res.status(500).json({ ok: false, error: err?.message ?? String(err) });
+}
+
+function filterFrom(req: Request): ProposalFilter {
+  const pick = (key: string) => {
+    const value = req.query[key];
+    return typeof value === "string" && value.trim() ? value.trim() : undefined;
+  };
+  return { workspaceId: pick("workspaceId"), status: pick("status") };
+}
+
+class ProposalsController {
+  /**
+   * Proposals without diffs, newest first
+   * GET /api/v1/proposals?workspaceId=&status=pending
+   */
+  public getProposals = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const proposals = await proposalQueue.list(filterFrom(req));
+      return res.json({ ok: true, count: proposals.length, proposals });
+    } catch (err: any) {
+      return sendError(res, err, "List");
+    }
+  };
+
+  /**
+   * Propose file operations for review instead of applying them
+   * POST /api/v1/proposals { workspaceId, title?, description?, author?, operations }
+   */
+  public submitProposal = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const body = SubmitProposalSchema.parse(req.body);
+      const proposal = await proposalQueue.submit({
+        ...body,
+        author: body.author ?? { name: "api" },
+      });
+      return res.status(201).json({ ok: true, proposal });
+    } catch (err: any) {
+      return sendError(res, err, "Submit");
+    }
+  };
+
+  /**
+   * Who submitted, approved, rejected and applied what, newest first
+   * GET /api/v1/proposals/audit?workspaceId=&proposalId=&limit=200
+   */
+  public getAudit = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const limit = Math.min(Math.max(Number(req.query.limit) || 200, 1), 5000);
+      const proposalId =
+        typeof req.query.proposalId === "string" ? req.query.proposalId : undefined;
+      const entries = await proposalQueue.audit({
+        ...filterFrom(req),
+        proposalId,
+        limit,
+      });
+      return res.json({ ok: true, count: entries.length, entries });
+    } catch (err: any) {
+      return sendError(res, err, "Audit");
+    }
+  };
+
+  /**
+   * One proposal with the unified diff and hunks of every file
+   * GET /api/v1/proposals/:proposalId
+   */
+  public getProposal = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const proposal = await proposalQueue.get(req.params.proposalId);
+      return res.json({ ok: true, proposal });
+    } catch (err: any) {
+      return sendError(res, err, "Get");
+    }
+  };
+
+  /**
+   * Approve or reject files (or some hunks of a file); approved files are
+   * applied unless apply is false
+   * POST /api/v1/proposals/:proposalId/review
+   *   { reviewer, files: [{ path, decision, hunks? }] | decision, comment?, apply? }
+   */
+  public reviewProposal = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const body = ReviewProposalSchema.parse(req.body);
+      const { proposalId } = req.params;
+      let decisions: ReviewDecision[] = body.files ?? [];
+      if (body.decision) {
+        const current = await proposalQueue.get(proposalId);
+        decisions = current.files
+          .filter((f) => f.status === "pending")
+          .map((f) => ({ path: f.path, decision: body.decision! }));
+      }
+      let proposal = await proposalQueue.review(
+        proposalId,
+        body.reviewer,
+        decisions,
+        body.comment
+      );
+      if (body.apply && proposal.status === "approved") {
+        proposal = await proposalQueue.apply(proposalId, body.reviewer);
+      }
+      return res.json({ ok: true, proposal });
+    } catch (err: any) {
+      return sendError(res, err, "Review");
+    }
+  };
+
+  /**
+   * Apply the approved, not yet applied files
+   * POST /api/v1/proposals/:proposalId/apply { appliedBy }
+   */
+  public applyProposal = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { appliedBy } = ApplyProposalSchema.parse(req.body);
+      const proposal = await proposalQueue.apply(req.params.proposalId, appliedBy);
+      return res.json({ ok: true, proposal });
+    } catch (err: any) {
+      return sendError(res, err, "Apply");
+    }
+  };
+}
+
+export default new ProposalsController();
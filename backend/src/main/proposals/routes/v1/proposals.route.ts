@@ -0,0 +1,20 @@
+import { Router } from "express";
+import proposalsController from "main/proposals/controller/proposals.controller";
+
+const proposalsRouter = Router();
+
+// Change proposals awaiting review
+proposalsRouter.get("/", proposalsController.getProposals);
+proposalsRouter.post("/", proposalsController.submitProposal);
+
+// Audit trail of submissions, decisions and applies
+proposalsRouter.get("/audit", proposalsController.getAudit);
+
+// One proposal with its per-file diffs
+proposalsRouter.get("/:proposalId", proposalsController.getProposal);
+
+// Approve / reject files or hunks, then apply what was approved
+proposalsRouter.post("/:proposalId/review", proposalsController.reviewProposal);
+proposalsRouter.post("/:proposalId/apply", proposalsController.applyProposal);
+
+export default proposalsRouter;
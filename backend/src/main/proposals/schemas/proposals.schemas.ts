@@ -0,0 +1,45 @@
+import { z } from "zod";
+import { FileOpSchema } from "main/chats/schemas/zod/chat.schemas";
+
+/** POST /api/v1/proposals */
+export const SubmitProposalSchema = z.object({
+  workspaceId: z.string().min(1),
+  title: z.string().max(500).optional(),
+  description: z.string().max(20_000).optional(),
+  author: z
+    .object({ name: z.string().min(1), email: z.string().optional() })
+    .optional(),
+  operations: z.array(FileOpSchema).min(1).max(200),
+});
+
+/**
+ * POST /api/v1/proposals/:proposalId/review: per-file decisions, or one
+ * `decision` for every pending file.
+ */
+export const ReviewProposalSchema = z
+  .object({
+    reviewer: z.string().trim().min(1),
+    decision: z.enum(["approve", "reject"]).optional(),
+    files: z
+      .array(
+        z.object({
+          path: z.string().min(1),
+          decision: z.enum(["approve", "reject"]),
+          hunks: z.array(z.number().int().positive()).optional(),
+        })
+      )
+      .min(1)
+      .optional(),
+    comment: z.string().max(2000).optional(),
+    // write the approved files right away (default)
+    apply: z.boolean().optional().default(true),
+  })
+  .refine((body) => Boolean(body.files) !== Boolean(body.decision), {
+    message: "Give either files (per-file decisions) or decision (all pending files)",
+    path: ["files"],
+  });
+
+/** POST /api/v1/proposals/:proposalId/apply */
+export const ApplyProposalSchema = z.object({
+  appliedBy: z.string().trim().min(1),
+});
@@ -0,0 +1,102 @@
+import { NextFunction, Request, Response } from "express";
+import usageLedger, { UsageFilter } from "llm/usage.ledger";
+import { providerHealth } from "llm/llm.resilience";
+
+/** Ledger filters from the query string (projectId, socketId, feature, provider, since). */
+function filterFrom(req: Request): UsageFilter {
+  const pick = (key: string) => {
+    const value = req.query[key];
+    return typeof value === "string" && value.trim() ? value.trim() : undefined;
+  };
+  return {
+    projectId: pick("projectId"),
+    socketId: pick("socketId"),
+    generationId: pick("generationId"),
+    feature: pick("feature"),
+    provider: pick("provider"),
+    since: pick("since"),
+  };
+}
+
+class UsageController {
+  /**
+   * Token usage and estimated cost, totalled and grouped by feature, model,
+   * project and socket session
+   * GET /api/v1/usage?projectId=&socketId=&feature=&provider=&since=
+   */
+  public getSummary = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const summary = await usageLedger.summarize(filterFrom(req));
+      return res.json({ ok: true, ...summary });
+    } catch (err: any) {
+      console.error("[UsageController] Summary error:", err);
+      return res.status(500).json({ ok: false, error: err.message });
+    }
+  };
+
+  /**
+   * Individual calls, newest first
+   * GET /api/v1/usage/entries?limit=200&...filters
+   */
+  public getEntries = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const limit = Math.min(Math.max(Number(req.query.limit) || 200, 1), 5000);
+      const entries = await usageLedger.list(filterFrom(req), limit);
+      return res.json({ ok: true, count: entries.length, entries });
+    } catch (err: any) {
+      console.error("[UsageController] Entries error:", err);
+      return res.status(500).json({ ok: false, error: err.message });
+    }
+  };
+
+  /**
+   * Usage of one project
+   * GET /api/v1/usage/projects/:projectId
+   */
+  public getProjectUsage = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { projectId } = req.params;
+      const { totals, byFeature, byModel } = await usageLedger.summarize({
+        ...filterFrom(req),
+        projectId,
+      });
+      if (totals.calls === 0) {
+        return res.status(404).json({
+          ok: false,
+          error: "No usage recorded for this project",
+        });
+      }
+      return res.json({ ok: true, projectId, totals, byFeature, byModel });
+    } catch (err: any) {
+      console.error("[UsageController] Project usage error:", err);
+      return res.status(500).json({ ok: false, error: err.message });
+    }
+  };
+
+  /**
+   * Rate-limit budget of each provider used so far and whether it is
+   * currently degraded (calls go to the feature's fallback meanwhile)
+   * GET /api/v1/usage/providers
+   */
+  public getProviderHealth = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    return res.json({ ok: true, providers: providerHealth() });
+  };
+}
+
+export default new UsageController();
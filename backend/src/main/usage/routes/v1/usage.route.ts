@@ -0,0 +1,18 @@
+import { Router } from "express";
+import usageController from "main/usage/controller/usage.controller";
+
+const usageRouter = Router();
+
+// Totals grouped by feature, model, project and socket
+usageRouter.get("/", usageController.getSummary);
+
+// Individual calls
+usageRouter.get("/entries", usageController.getEntries);
+
+// Provider budgets and degraded state
+usageRouter.get("/providers", usageController.getProviderHealth);
+
+// Usage of one project
+usageRouter.get("/projects/:projectId", usageController.getProjectUsage);
+
+export default usageRouter;
@@ -1,6 +1,6 @@
 import { NextFunction, Response, Request } from "express";
 import * as path from "path";
-import fileSystemService from "../services/fileSystem.service";
+import { Workspace } from "workspace/workspace";
 import builderService from "../services/builder.service";
 import conversationService from "../services/conversation.service";
 import embeddingService from "../services/embedding.service";
@@ -43,7 +43,7 @@ class BuilderController {
       }
 
       // 1. Optional: Snapshot current state (for rollback)
-      const existingSnapshot = fileSystemService.snapshotDir(projectRoot);
+      const existingSnapshot = await new Workspace(projectRoot).snapshot();
       console.log(
         `[BuilderController] Snapshotted ${existingSnapshot.length} existing files`
       );
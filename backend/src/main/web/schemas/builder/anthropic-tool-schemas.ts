@@ -98,6 +98,19 @@ export const BuildTreeInputSchema = z.object({
     .default({}),
 });
 
+// buildTree tool call arguments as sent by the model in the planning step
+export const BuildTreeToolArgsSchema = z.object({
+  projectName: z.string().min(1),
+  prompt: z.string().optional(),
+  tree: z.array(TreeNodeSchema).min(1).describe("Planned project structure (array of root nodes)"),
+  options: z
+    .object({
+      generateIds: z.boolean().optional(),
+      includeSampleFiles: z.boolean().optional(),
+    })
+    .optional(),
+});
+
 // buildTree output: normalized tree, plus logs/warnings
 export const BuildTreeOutputSchema = z.object({
   ok: z.boolean(),
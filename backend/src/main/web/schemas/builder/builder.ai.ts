@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { TreeNodeSchema } from "./anthropic-tool-schemas";
+import { LLM_PROVIDER_NAMES } from "llm/llm.types";
 
 /**
  * Builder Request Schema - validates incoming build requests
@@ -10,8 +11,9 @@ export const BuilderRequestSchema = z.object({
   options: z
     .object({
       projectName: z.string().optional().describe("Optional custom project name (derived from prompt if not provided)"),
-      useOpenAI: z.boolean().optional().default(false).describe("Use OpenAI instead of Anthropic"),
-      useGemini: z.boolean().optional().default(false).describe("Use Gemini API"),
+      provider: z.enum(LLM_PROVIDER_NAMES).optional().describe("LLM provider (defaults to LLM_PROVIDER_BUILDER / LLM_PROVIDER / anthropic)"),
+      useOpenAI: z.boolean().optional().default(false).describe("Deprecated: same as provider \"openai\""),
+      useGemini: z.boolean().optional().default(false).describe("Deprecated: same as provider \"gemini\""),
       maxTokens: z.number().optional().default(8192).describe("Maximum tokens for AI response"),
       ragTopK: z.number().optional().default(5).describe("Number of similar projects to retrieve from Pinecone"),
       dryRun: z.boolean().optional().default(false).describe("If true, plan only without emitting files"),
@@ -40,6 +42,19 @@ export const BuilderResponseSchema = z.object({
   conversationId: z.string().optional().describe("Pinecone conversation ID for retrieval"),
   warnings: z.array(z.string()).optional(),
   error: z.string().optional(),
+  usage: z
+    .object({
+      calls: z.number(),
+      inputTokens: z.number(),
+      outputTokens: z.number(),
+      cachedInputTokens: z.number(),
+      cacheWriteTokens: z.number(),
+      cacheHitRate: z.number().describe("Share of prompt tokens read from the provider's prompt cache"),
+      totalTokens: z.number(),
+      costUsd: z.number().nullable().describe("Estimated USD cost, null when no model price is known"),
+    })
+    .optional()
+    .describe("Token usage of the model calls made for this build"),
 });
 
 /**
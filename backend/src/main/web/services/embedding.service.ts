@@ -1,17 +1,14 @@
-import OpenAI from "openai";
+import llmRegistry from "llm/llm.registry";
+import { openAIEndpoint } from "llm/providers/openai.compat";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || "",
-});
-
-const EMBEDDING_MODEL = "text-embedding-3-small";
-const EMBEDDING_DIMENSIONS = 1536;
+// must match the embedding model (local models are often 384 / 768 / 1024)
+const EMBEDDING_DIMENSIONS = Number(process.env.EMBEDDING_DIMENSIONS) || 1536;
 
 class EmbeddingService {
   /**
    * Generate embedding for a single text input
    * @param text - Text to generate embedding for
-   * @returns 1024-dimensional vector
+   * @returns EMBEDDING_DIMENSIONS-dimensional vector
    */
   async generateEmbedding(text: string): Promise<number[]> {
     try {
@@ -19,18 +16,16 @@ class EmbeddingService {
         throw new Error("Text cannot be empty");
       }
 
-      const response = await openai.embeddings.create({
-        model: EMBEDDING_MODEL,
-        input: text,
-        encoding_format: "float",
+      const [embedding] = await llmRegistry.get("embeddings").embed({
+        input: [text],
         dimensions: EMBEDDING_DIMENSIONS,
       });
 
-      if (!response.data || response.data.length === 0) {
-        throw new Error("No embedding data returned from OpenAI");
+      if (!embedding) {
+        throw new Error("No embedding data returned from provider");
       }
 
-      return response.data[0].embedding;
+      return embedding;
     } catch (error: any) {
       console.error("[EmbeddingService] Error generating embedding:", error);
       throw new Error(`Embedding generation failed: ${error.message}`);
@@ -40,7 +35,7 @@ class EmbeddingService {
   /**
    * Generate embeddings for multiple texts in batch
    * @param texts - Array of texts to generate embeddings for
-   * @returns Array of 1024-dimensional vectors
+   * @returns Array of EMBEDDING_DIMENSIONS-dimensional vectors
    */
   async generateBatch(texts: string[]): Promise<number[][]> {
     try {
@@ -54,18 +49,16 @@ class EmbeddingService {
         throw new Error("All texts are empty");
       }
 
-      const response = await openai.embeddings.create({
-        model: EMBEDDING_MODEL,
+      const embeddings = await llmRegistry.get("embeddings").embed({
         input: validTexts,
-        encoding_format: "float",
         dimensions: EMBEDDING_DIMENSIONS,
       });
 
-      if (!response.data || response.data.length === 0) {
-        throw new Error("No embedding data returned from OpenAI");
+      if (embeddings.length === 0) {
+        throw new Error("No embedding data returned from provider");
       }
 
-      return response.data.map((item) => item.embedding);
+      return embeddings;
     } catch (error: any) {
       console.error(
         "[EmbeddingService] Error generating batch embeddings:",
@@ -83,10 +76,18 @@ class EmbeddingService {
   }
 
   /**
-   * Check if OpenAI API key is configured
+   * Check if the embeddings provider (LLM_PROVIDER_EMBEDDINGS) has an API key
    */
   isConfigured(): boolean {
-    return !!(process.env.OPENAI_API_KEY && process.env.OPENAI_API_KEY.length > 0);
+    try {
+      const provider = llmRegistry.resolveName("embeddings");
+      if (provider === "gemini") return !!process.env.GEMINI_API_KEY;
+      // a local OpenAI-compatible endpoint needs no key
+      if (provider === "openai") return !!openAIEndpoint("embeddings").apiKey;
+      return false; // no embeddings endpoint
+    } catch {
+      return false;
+    }
   }
 }
 
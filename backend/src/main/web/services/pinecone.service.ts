@@ -1,12 +1,14 @@
 import { Pinecone } from "@pinecone-database/pinecone";
 
-const pinecone = new Pinecone({
-  apiKey: process.env.PINECONE_API_KEY || "",
-});
-let index: any;   
+// created in init(): the client throws without an api key, which must not
+// stop the server from booting
+let index: any;
 
 export const PineconeService = {
   async init() {
+    const pinecone = new Pinecone({
+      apiKey: process.env.PINECONE_API_KEY || "",
+    });
     index = pinecone.Index(process.env.PINECONE_INDEX || "");
   },
 
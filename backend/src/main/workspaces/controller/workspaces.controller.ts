@@ -0,0 +1,198 @@
+import { NextFunction, Request, Response } from "express";
+import workspaceRegistry from "workspace/workspace.registry";
+import { WorkspacePathError } from "workspace/workspace.policy";
+import { VersionNotFoundError } from "workspace/workspace.history";
+import { BackupNotFoundError } from "workspace/workspace.backups";
+
+/** 404 for unknown versions or backups, 400 for invalid workspace ids, 500 otherwise. */
+function sendError(res: Response, err: any, label: string) {
+  if (err instanceof VersionNotFoundError || err instanceof BackupNotFoundError) {
+    return res.status(404).json({ ok: false, error: err.message });
+  }
+  if (err instanceof WorkspacePathError) {
+    return res.status(400).json({ ok: false, error: err.message });
+  }
+  console.error(`[WorkspacesController] ${label} error:`, err);
+  return res.status(500).json({ ok: false, error: err?.message ?? String(err) });
+}
+
+class WorkspacesController {
+  /**
+   * Named workspaces (web, ai-server, ...); any other id is a project
+   * under PROJECTS_ROOT
+   * GET /api/v1/workspaces
+   */
+  public getWorkspaces = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    return res.json({ ok: true, workspaces: workspaceRegistry.list() });
+  };
+
+  /**
+   * Recorded versions, newest first
+   * GET /api/v1/workspaces/:workspaceId/versions?limit=50
+   */
+  public getVersions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const workspace = workspaceRegistry.get(req.params.workspaceId);
+      const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 1000);
+      const versions = await workspace.history.list(limit);
+      return res.json({ ok: true, count: versions.length, versions });
+    } catch (err: any) {
+      return sendError(res, err, "Versions");
+    }
+  };
+
+  /**
+   * One version with the files it changed
+   * GET /api/v1/workspaces/:workspaceId/versions/:versionId
+   */
+  public getVersion = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const workspace = workspaceRegistry.get(req.params.workspaceId);
+      const version = await workspace.history.get(req.params.versionId);
+      return res.json({ ok: true, version });
+    } catch (err: any) {
+      return sendError(res, err, "Version");
+    }
+  };
+
+  /**
+   * Unified diff between two versions
+   * GET /api/v1/workspaces/:workspaceId/diff?from=<id>&to=<id>
+   */
+  public getDiff = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const from = typeof req.query.from === "string" ? req.query.from : undefined;
+      const to = typeof req.query.to === "string" ? req.query.to : undefined;
+      if (!from && !to) {
+        return res
+          .status(400)
+          .json({ ok: false, error: "from and/or to version is required" });
+      }
+      const workspace = workspaceRegistry.get(req.params.workspaceId);
+      // only `to`: the changes it made; only `from`: everything since
+      const diff = from
+        ? await workspace.history.diff(from, to ?? "HEAD")
+        : await workspace.history.diff(to!);
+      return res.json({ ok: true, ...diff });
+    } catch (err: any) {
+      return sendError(res, err, "Diff");
+    }
+  };
+
+  /**
+   * Bring the workspace back to a version, recorded as a new version
+   * POST /api/v1/workspaces/:workspaceId/versions/:versionId/restore { restoredBy? }
+   */
+  public restoreVersion = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const workspace = workspaceRegistry.get(req.params.workspaceId);
+      const restoredBy =
+        typeof req.body?.restoredBy === "string" && req.body.restoredBy.trim()
+          ? { name: req.body.restoredBy.trim() }
+          : undefined;
+      const result = await workspace.history.restore(
+        req.params.versionId,
+        restoredBy
+      );
+      return res.json({ ok: true, ...result });
+    } catch (err: any) {
+      return sendError(res, err, "Restore");
+    }
+  };
+
+  /**
+   * Backups of applied batches, newest first (kept per the retention policy)
+   * GET /api/v1/workspaces/:workspaceId/backups
+   */
+  public getBackups = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const workspace = workspaceRegistry.get(req.params.workspaceId);
+      const backups = await workspace.backups.list();
+      return res.json({ ok: true, count: backups.length, backups });
+    } catch (err: any) {
+      return sendError(res, err, "Backups");
+    }
+  };
+
+  /**
+   * One backup with the files its batch updated, deleted or created
+   * GET /api/v1/workspaces/:workspaceId/backups/:backupId
+   */
+  public getBackup = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const workspace = workspaceRegistry.get(req.params.workspaceId);
+      const backup = await workspace.backups.get(req.params.backupId);
+      return res.json({ ok: true, backup });
+    } catch (err: any) {
+      return sendError(res, err, "Backup");
+    }
+  };
+
+  /**
+   * Put the files of a backup (or only `paths`) back to their content before
+   * its batch; the restore is itself backed up and versioned
+   * POST /api/v1/workspaces/:workspaceId/backups/:backupId/restore { paths?, restoredBy? }
+   */
+  public restoreBackup = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const paths = req.body?.paths;
+      if (
+        paths !== undefined &&
+        !(Array.isArray(paths) && paths.every((p) => typeof p === "string"))
+      ) {
+        return res
+          .status(400)
+          .json({ ok: false, error: "paths must be an array of strings" });
+      }
+      const workspace = workspaceRegistry.get(req.params.workspaceId);
+      const restoredBy =
+        typeof req.body?.restoredBy === "string" && req.body.restoredBy.trim()
+          ? { name: req.body.restoredBy.trim() }
+          : undefined;
+      const { results, backupId, version } = await workspace.restoreBackup(
+        req.params.backupId,
+        { paths, author: restoredBy }
+      );
+      return res.json({
+        ok: !results.some((r) => r.status === "failed"),
+        restoredFrom: req.params.backupId,
+        results,
+        // undoes this restore
+        backupId,
+        version: version ?? null,
+      });
+    } catch (err: any) {
+      return sendError(res, err, "Restore backup");
+    }
+  };
+}
+
+export default new WorkspacesController();
@@ -0,0 +1,36 @@
+import { Router } from "express";
+import workspacesController from "main/workspaces/controller/workspaces.controller";
+
+const workspacesRouter = Router();
+
+// Named workspaces
+workspacesRouter.get("/", workspacesController.getWorkspaces);
+
+// Version history of a workspace (one version per applied batch)
+workspacesRouter.get("/:workspaceId/versions", workspacesController.getVersions);
+workspacesRouter.get(
+  "/:workspaceId/versions/:versionId",
+  workspacesController.getVersion
+);
+
+// Diff between two versions
+workspacesRouter.get("/:workspaceId/diff", workspacesController.getDiff);
+
+// Restore a version
+workspacesRouter.post(
+  "/:workspaceId/versions/:versionId/restore",
+  workspacesController.restoreVersion
+);
+
+// Backups of applied batches and restoring from them
+workspacesRouter.get("/:workspaceId/backups", workspacesController.getBackups);
+workspacesRouter.get(
+  "/:workspaceId/backups/:backupId",
+  workspacesController.getBackup
+);
+workspacesRouter.post(
+  "/:workspaceId/backups/:backupId/restore",
+  workspacesController.restoreBackup
+);
+
+export default workspacesRouter;
@@ -0,0 +1,235 @@
+// src/mcp/client/mcp.client.ts
+import { ChildProcessWithoutNullStreams, spawn } from "child_process";
+import readline from "readline";
+import {
+  JsonRpcResponse,
+  MCP_LATEST_PROTOCOL_VERSION,
+  McpTool,
+  McpToolResult,
+} from "../mcp.types";
+
+const REQUEST_TIMEOUT_MS = Number(process.env.MCP_CLIENT_TIMEOUT_MS || 60000);
+
+export type McpServerConfig =
+  | {
+      transport: "stdio";
+      command: string;
+      args?: string[];
+      env?: Record<string, string>;
+      cwd?: string;
+    }
+  | {
+      transport: "http";
+      url: string;
+      headers?: Record<string, string>;
+    };
+
+const CLIENT_INFO = { name: "multi-purpose-mcp-server-client", version: "1.0.0" };
+
+/**
+ * Minimal MCP client for one external server (stdio child process or
+ * Streamable HTTP endpoint). Only what the build loops need: tools.
+ */
+export class McpClient {
+  private nextId = 1;
+  private child?: ChildProcessWithoutNullStreams;
+  private sessionId?: string;
+  private readonly pending = new Map<
+    number,
+    { resolve: (r: any) => void; reject: (e: Error) => void; timer: NodeJS.Timeout }
+  >();
+
+  constructor(
+    public readonly name: string,
+    private readonly config: McpServerConfig
+  ) {}
+
+  async connect() {
+    if (this.config.transport === "stdio") this.spawnChild(this.config);
+
+    await this.request("initialize", {
+      protocolVersion: MCP_LATEST_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    });
+    await this.notify("notifications/initialized");
+    console.log(`[McpClient] connected to ${this.name}`);
+  }
+
+  async listTools(): Promise<McpTool[]> {
+    const tools: McpTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.request("tools/list", cursor ? { cursor } : {});
+      tools.push(...(page?.tools ?? []));
+      cursor = page?.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  async callTool(name: string, args: any): Promise<McpToolResult> {
+    return this.request("tools/call", { name, arguments: args ?? {} });
+  }
+
+  async close() {
+    for (const { reject, timer } of this.pending.values()) {
+      clearTimeout(timer);
+      reject(new Error(`MCP server ${this.name} closed`));
+    }
+    this.pending.clear();
+
+    if (this.child) {
+      this.child.kill();
+      this.child = undefined;
+    }
+    if (this.config.transport === "http" && this.sessionId) {
+      await fetch(this.config.url, {
+        method: "DELETE",
+        headers: { ...this.config.headers, "mcp-session-id": this.sessionId },
+      }).catch(() => undefined);
+      this.sessionId = undefined;
+    }
+  }
+
+  private async request(method: string, params?: any): Promise<any> {
+    const id = this.nextId++;
+    const message = { jsonrpc: "2.0", id, method, params };
+
+    const response =
+      this.config.transport === "stdio"
+        ? await this.sendStdio(id, message)
+        : await this.sendHttp(this.config, message, id);
+
+    if (response?.error) {
+      throw new Error(
+        `MCP ${this.name} ${method} failed: ${response.error.message} (${response.error.code})`
+      );
+    }
+    return response?.result;
+  }
+
+  private async notify(method: string, params?: any) {
+    const message = { jsonrpc: "2.0", method, ...(params ? { params } : {}) };
+    if (this.config.transport === "stdio") {
+      this.child?.stdin.write(JSON.stringify(message) + "\n");
+    } else {
+      await this.sendHttp(this.config, message);
+    }
+  }
+
+  // --- stdio ---
+  private spawnChild(config: Extract<McpServerConfig, { transport: "stdio" }>) {
+    const child = spawn(config.command, config.args ?? [], {
+      cwd: config.cwd,
+      env: { ...process.env, ...config.env },
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    this.child = child;
+
+    readline.createInterface({ input: child.stdout }).on("line", (line) => {
+      let msg: JsonRpcResponse;
+      try {
+        msg = JSON.parse(line);
+      } catch {
+        return; // not a protocol frame
+      }
+      const id = typeof msg.id === "number" ? msg.id : NaN;
+      const entry = this.pending.get(id);
+      if (!entry) return; // notifications / server requests are ignored
+      clearTimeout(entry.timer);
+      this.pending.delete(id);
+      entry.resolve(msg);
+    });
+    child.stderr.on("data", (d) =>
+      console.warn(`[McpClient:${this.name}] ${String(d).trimEnd()}`)
+    );
+    child.on("exit", (code) => {
+      console.warn(`[McpClient] ${this.name} exited with code ${code}`);
+      this.disconnect(child, `MCP server ${this.name} exited (${code})`);
+    });
+    // spawn failures (ENOENT, EACCES) and broken pipes arrive as events;
+    // unhandled they would take the whole backend down
+    child.on("error", (err) => {
+      console.warn(`[McpClient] ${this.name} failed:`, err.message);
+      this.disconnect(child, `MCP server ${this.name} failed: ${err.message}`);
+    });
+    child.stdin.on("error", (err) => {
+      console.warn(`[McpClient] ${this.name} stdin closed:`, err.message);
+      this.disconnect(child, `MCP server ${this.name} stdin closed: ${err.message}`);
+    });
+  }
+
+  private disconnect(child: ChildProcessWithoutNullStreams, reason: string) {
+    if (this.child !== child) return;
+    this.child = undefined;
+    child.kill();
+    for (const { reject, timer } of this.pending.values()) {
+      clearTimeout(timer);
+      reject(new Error(reason));
+    }
+    this.pending.clear();
+  }
+
+  private sendStdio(id: number, message: any): Promise<JsonRpcResponse> {
+    if (!this.child) {
+      return Promise.reject(new Error(`MCP server ${this.name} is not running`));
+    }
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`MCP ${this.name} ${message.method} timed out`));
+      }, REQUEST_TIMEOUT_MS);
+      this.pending.set(id, { resolve, reject, timer });
+      this.child!.stdin.write(JSON.stringify(message) + "\n");
+    });
+  }
+
+  // --- Streamable HTTP ---
+  private async sendHttp(
+    config: Extract<McpServerConfig, { transport: "http" }>,
+    message: any,
+    id?: number
+  ): Promise<JsonRpcResponse | undefined> {
+    const res = await fetch(config.url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        accept: "application/json, text/event-stream",
+        ...config.headers,
+        ...(this.sessionId ? { "mcp-session-id": this.sessionId } : {}),
+      },
+      body: JSON.stringify(message),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    const sessionId = res.headers.get("mcp-session-id");
+    if (sessionId) this.sessionId = sessionId;
+
+    if (!res.ok) {
+      throw new Error(`MCP ${this.name} HTTP ${res.status}: ${await res.text()}`);
+    }
+    if (id === undefined || res.status === 202) return undefined;
+
+    const body = await res.text();
+    if (!String(res.headers.get("content-type")).includes("text/event-stream")) {
+      return JSON.parse(body);
+    }
+
+    // SSE: pick the response matching our id, skip progress notifications
+    for (const event of body.split(/\r?\n\r?\n/)) {
+      const data = event
+        .split(/\r?\n/)
+        .filter((l) => l.startsWith("data:"))
+        .map((l) => l.slice(5).trimStart())
+        .join("\n");
+      if (!data) continue;
+      try {
+        const msg = JSON.parse(data);
+        if (msg.id === id) return msg;
+      } catch {
+        // ignore malformed events
+      }
+    }
+    throw new Error(`MCP ${this.name}: no response for request ${id}`);
+  }
+}
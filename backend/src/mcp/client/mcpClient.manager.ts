@@ -0,0 +1,179 @@
+// src/mcp/client/mcpClient.manager.ts
+import fs from "fs-extra";
+import path from "path";
+import type { ChatCompletionFunctionTool } from "openai/resources/chat/completions";
+import type { Tool as AnthropicTool } from "@anthropic-ai/sdk/resources/messages.js";
+import { McpClient, McpServerConfig } from "./mcp.client";
+import { McpTool } from "../mcp.types";
+
+type ExternalServerConfig = McpServerConfig & {
+  enabled?: boolean;
+  // glob-ish tool name patterns ("*" wildcard); deny wins over allow
+  allow?: string[];
+  deny?: string[];
+};
+
+export interface ExternalTool {
+  qualifiedName: string; // what the model sees: <server>__<tool>
+  server: string;
+  name: string;
+  description?: string;
+  inputSchema: Record<string, any>;
+}
+
+export interface ExternalToolResult {
+  ok: boolean;
+  server: string;
+  tool: string;
+  content: string;
+  structuredContent?: any;
+}
+
+const SEPARATOR = "__";
+
+function matches(patterns: string[] | undefined, name: string) {
+  return (patterns ?? []).some((p) =>
+    new RegExp(
+      "^" + p.split("*").map((s) => s.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*") + "$"
+    ).test(name)
+  );
+}
+
+/**
+ * Connects to the external MCP servers listed in MCP_SERVERS_CONFIG
+ * (default ./mcp.servers.json) and exposes their tools to our agent loops.
+ *
+ * {
+ *   "servers": {
+ *     "fs": { "transport": "stdio", "command": "npx", "args": ["-y", "@modelcontextprotocol/server-filesystem", "/data"], "deny": ["write_*"] },
+ *     "search": { "transport": "http", "url": "http://localhost:8080/mcp", "allow": ["search"] }
+ *   }
+ * }
+ */
+class McpClientManager {
+  private readonly clients = new Map<string, McpClient>();
+  private tools: ExternalTool[] = [];
+  private ready?: Promise<void>;
+
+  /** Connect once; later calls reuse the same promise. Never throws. */
+  init(): Promise<void> {
+    if (!this.ready) this.ready = this.connectAll();
+    return this.ready;
+  }
+
+  async listTools(): Promise<ExternalTool[]> {
+    await this.init();
+    return this.tools;
+  }
+
+  async openAITools(): Promise<ChatCompletionFunctionTool[]> {
+    return (await this.listTools()).map((t) => ({
+      type: "function",
+      function: {
+        name: t.qualifiedName,
+        description: `[${t.server}] ${t.description ?? t.name}`,
+        parameters: t.inputSchema,
+      },
+    }));
+  }
+
+  async anthropicTools(): Promise<AnthropicTool[]> {
+    return (await this.listTools()).map((t) => ({
+      name: t.qualifiedName,
+      description: `[${t.server}] ${t.description ?? t.name}`,
+      input_schema: { type: "object", ...t.inputSchema },
+    }));
+  }
+
+  isExternalTool(name?: string): boolean {
+    return !!name && this.tools.some((t) => t.qualifiedName === name);
+  }
+
+  /** Route a model tool call back to the server that owns it. */
+  async callTool(qualifiedName: string, args: any): Promise<ExternalToolResult> {
+    await this.init();
+    const tool = this.tools.find((t) => t.qualifiedName === qualifiedName);
+    const client = tool && this.clients.get(tool.server);
+    if (!tool || !client) {
+      throw new Error(`Unknown external tool: ${qualifiedName}`);
+    }
+
+    const result = await client.callTool(tool.name, args);
+    const content = (result?.content ?? [])
+      .map((c: any) => (c?.type === "text" ? c.text : JSON.stringify(c)))
+      .join("\n");
+    return {
+      ok: !result?.isError,
+      server: tool.server,
+      tool: tool.name,
+      content,
+      structuredContent: result?.structuredContent,
+    };
+  }
+
+  async close() {
+    await Promise.all([...this.clients.values()].map((c) => c.close()));
+    this.clients.clear();
+    this.tools = [];
+    this.ready = undefined;
+  }
+
+  private async connectAll() {
+    const servers = await this.loadConfig();
+
+    for (const [name, config] of Object.entries(servers)) {
+      if (config.enabled === false) continue;
+      const client = new McpClient(name, config);
+      try {
+        await client.connect();
+        const tools = await client.listTools();
+        this.clients.set(name, client);
+
+        for (const tool of tools) {
+          if (config.allow?.length && !matches(config.allow, tool.name)) continue;
+          if (matches(config.deny, tool.name)) continue;
+          this.tools.push(this.toExternalTool(name, tool));
+        }
+      } catch (err) {
+        console.warn(`[McpClientManager] failed to connect to ${name}:`, err);
+        await client.close().catch(() => undefined);
+      }
+    }
+
+    if (this.clients.size) {
+      console.log(
+        `[McpClientManager] ${this.tools.length} external tools from ${this.clients.size} servers`
+      );
+    }
+  }
+
+  private async loadConfig(): Promise<Record<string, ExternalServerConfig>> {
+    const file = path.resolve(
+      process.env.MCP_SERVERS_CONFIG || "mcp.servers.json"
+    );
+    if (!(await fs.pathExists(file))) return {};
+    try {
+      const parsed = await fs.readJson(file);
+      return parsed?.servers ?? {};
+    } catch (err) {
+      console.warn(`[McpClientManager] invalid config ${file}:`, err);
+      return {};
+    }
+  }
+
+  private toExternalTool(server: string, tool: McpTool): ExternalTool {
+    // OpenAI/Anthropic tool names: ^[a-zA-Z0-9_-]{1,64}$
+    const qualifiedName = `${server}${SEPARATOR}${tool.name}`
+      .replace(/[^a-zA-Z0-9_-]/g, "_")
+      .slice(0, 64);
+    return {
+      qualifiedName,
+      server,
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema ?? { type: "object", properties: {} },
+    };
+  }
+}
+
+export default new McpClientManager();
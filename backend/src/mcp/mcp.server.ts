@@ -0,0 +1,295 @@
+// src/mcp/mcp.server.ts
+import path from "path";
+import { openaiFunctions } from "main/chats/schemas/ai/functions";
+import { ProjectGeneratorService } from "main/chats/services/documents/projectGenerator.services";
+import promptRegistry from "prompts/prompt.registry";
+import {
+  JSON_RPC_ERRORS,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  MCP_LATEST_PROTOCOL_VERSION,
+  MCP_PROTOCOL_VERSIONS,
+  McpError,
+  McpRequestContext,
+  McpTool,
+  McpToolCallContext,
+  McpToolHandler,
+  McpToolResult,
+} from "./mcp.types";
+import {
+  McpResourceRegistry,
+  defaultResourceRoots,
+} from "./resources/resource.registry";
+
+// Workspace tools published over MCP. build_module_tree_from_prompt is
+// answered by the model itself so it is not exposed as a callable tool.
+const MCP_TOOL_NAMES = [
+  "emitFiles",
+  "applyPatch",
+  "listFiles",
+  "getFile",
+  "formatFile",
+  "runCommand",
+  "runJobStatus",
+];
+
+const SERVER_INFO = {
+  name: "multi-purpose-mcp-server",
+  version: process.env.npm_package_version || "1.0.0",
+};
+
+export class McpServer {
+  private readonly generator: ProjectGeneratorService;
+  private readonly resources: McpResourceRegistry;
+  private readonly tools = new Map<
+    string,
+    { definition: McpTool; handler: McpToolHandler }
+  >();
+
+  constructor(
+    workspacesRoot = path.resolve(
+      process.cwd(),
+      process.env.PROJECTS_ROOT || "workspaces"
+    )
+  ) {
+    this.generator = new ProjectGeneratorService(workspacesRoot);
+    this.resources = new McpResourceRegistry(
+      defaultResourceRoots(workspacesRoot)
+    );
+    this.resources.watch();
+
+    for (const fn of openaiFunctions) {
+      if (!MCP_TOOL_NAMES.includes(fn.name)) continue;
+      this.registerTool(
+        { name: fn.name, description: fn.description, inputSchema: fn.parameters },
+        (args, ctx) => this.callWorkspaceTool(fn.name, args, ctx)
+      );
+    }
+  }
+
+  registerTool(definition: McpTool, handler: McpToolHandler) {
+    this.tools.set(definition.name, { definition, handler });
+  }
+
+  /** Drop per-session state (resource subscriptions) once a transport session ends. */
+  closeSession(sessionId: string) {
+    this.resources.detachSession(sessionId);
+  }
+
+  close() {
+    this.resources.close();
+  }
+
+  /**
+   * Handle one decoded JSON-RPC message. Returns the response to send back,
+   * or null for notifications (which never get a response).
+   */
+  async handleMessage(
+    message: JsonRpcRequest,
+    ctx: McpRequestContext
+  ): Promise<JsonRpcResponse | null> {
+    if (!message || typeof message !== "object") {
+      return this.errorResponse(
+        null,
+        new McpError(JSON_RPC_ERRORS.INVALID_REQUEST, "Invalid Request")
+      );
+    }
+    const isNotification = message.id === undefined || message.id === null;
+    const id = isNotification ? null : (message.id as any);
+
+    if (message.jsonrpc !== "2.0" || !message.method) {
+      return this.errorResponse(
+        id,
+        new McpError(JSON_RPC_ERRORS.INVALID_REQUEST, "Invalid Request")
+      );
+    }
+
+    try {
+      const result = await this.dispatch(message.method, message.params, ctx);
+      return isNotification ? null : { jsonrpc: "2.0", id, result };
+    } catch (err: any) {
+      if (isNotification) {
+        console.error(`[McpServer] notification ${message.method} failed:`, err);
+        return null;
+      }
+      return this.errorResponse(id, err);
+    }
+  }
+
+  private async dispatch(method: string, params: any, ctx: McpRequestContext) {
+    switch (method) {
+      case "initialize":
+        this.resources.attachSession(this.sessionKey(ctx), ctx.notify);
+        return this.initialize(params);
+      case "notifications/initialized":
+      case "notifications/cancelled":
+        return {};
+      case "ping":
+        return {};
+      case "tools/list":
+        return {
+          tools: Array.from(this.tools.values()).map((t) => t.definition),
+        };
+      case "tools/call":
+        return this.callTool(params, ctx);
+      case "prompts/list":
+        return { prompts: this.listPrompts() };
+      case "prompts/get":
+        return this.getPrompt(params);
+      case "resources/list":
+        return this.resources.list(params?.cursor);
+      case "resources/templates/list":
+        return { resourceTemplates: this.resources.templates() };
+      case "resources/read":
+        return this.resources.read(this.requireUri(params));
+      case "resources/subscribe":
+        await this.resources.subscribe(
+          this.requireUri(params),
+          this.sessionKey(ctx),
+          ctx.notify
+        );
+        return {};
+      case "resources/unsubscribe":
+        this.resources.unsubscribe(this.requireUri(params), this.sessionKey(ctx));
+        return {};
+      default:
+        throw new McpError(
+          JSON_RPC_ERRORS.METHOD_NOT_FOUND,
+          `Method not found: ${method}`
+        );
+    }
+  }
+
+  private initialize(params: any) {
+    const requested = params?.protocolVersion;
+    const protocolVersion = MCP_PROTOCOL_VERSIONS.includes(requested)
+      ? requested
+      : MCP_LATEST_PROTOCOL_VERSION;
+
+    return {
+      protocolVersion,
+      capabilities: {
+        tools: { listChanged: false },
+        resources: { subscribe: true, listChanged: true },
+        prompts: { listChanged: false },
+      },
+      serverInfo: SERVER_INFO,
+    };
+  }
+
+  private async callTool(
+    params: any,
+    ctx: McpRequestContext
+  ): Promise<McpToolResult> {
+    const name = params?.name;
+    const tool = name ? this.tools.get(name) : undefined;
+    if (!tool) {
+      throw new McpError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        `Unknown tool: ${String(name)}`
+      );
+    }
+
+    const progressToken = params?._meta?.progressToken;
+    const toolCtx: McpToolCallContext = {
+      ...ctx,
+      progress: (progress, total, message) => {
+        if (progressToken === undefined) return;
+        ctx.notify("notifications/progress", {
+          progressToken,
+          progress,
+          ...(total !== undefined ? { total } : {}),
+          ...(message ? { message } : {}),
+        });
+      },
+    };
+
+    // Tool failures are reported inside the result (isError) so the calling
+    // model can see and react to them, per the MCP spec.
+    try {
+      const output = await tool.handler(params?.arguments ?? {}, toolCtx);
+      return {
+        content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+        structuredContent: output,
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: "text", text: err?.message ?? String(err) }],
+        isError: true,
+      };
+    }
+  }
+
+  private callWorkspaceTool(name: string, args: any, ctx: McpToolCallContext) {
+    let received = 0;
+    return this.generator.dispatchFunctionCall(name, args, undefined, {
+      onOutput: (stream, chunk) => {
+        received += chunk.length;
+        ctx.progress(received, undefined, `[${stream}] ${chunk}`);
+      },
+    });
+  }
+
+  private listPrompts() {
+    return promptRegistry.list().map((def) => ({
+      name: def.name,
+      description: `${def.description} (v${def.version})`,
+      arguments: def.arguments.map((arg) => ({
+        name: arg.name,
+        description: [
+          arg.description,
+          arg.enum ? `one of: ${arg.enum.join(" | ")}` : "",
+          arg.default ? `default: ${arg.default}` : "",
+        ]
+          .filter(Boolean)
+          .join("; "),
+        required: !!arg.required,
+      })),
+    }));
+  }
+
+  private getPrompt(params: any) {
+    const name = params?.name;
+    if (!name || typeof name !== "string") {
+      throw new McpError(JSON_RPC_ERRORS.INVALID_PARAMS, "name is required");
+    }
+
+    try {
+      const def = promptRegistry.get(name);
+      const text = promptRegistry.render(name, params?.arguments ?? {});
+      return {
+        description: def.description,
+        messages: [{ role: "user", content: { type: "text", text } }],
+      };
+    } catch (err: any) {
+      throw new McpError(JSON_RPC_ERRORS.INVALID_PARAMS, err.message);
+    }
+  }
+
+  private requireUri(params: any): string {
+    if (!params?.uri || typeof params.uri !== "string") {
+      throw new McpError(JSON_RPC_ERRORS.INVALID_PARAMS, "uri is required");
+    }
+    return params.uri;
+  }
+
+  private sessionKey(ctx: McpRequestContext) {
+    return ctx.sessionId ?? "stdio";
+  }
+
+  private errorResponse(id: any, err: any): JsonRpcResponse {
+    const code =
+      err instanceof McpError ? err.code : JSON_RPC_ERRORS.INTERNAL_ERROR;
+    return {
+      jsonrpc: "2.0",
+      id,
+      error: {
+        code,
+        message: err?.message ?? String(err),
+        ...(err instanceof McpError && err.data !== undefined
+          ? { data: err.data }
+          : {}),
+      },
+    };
+  }
+}
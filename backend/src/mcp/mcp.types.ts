@@ -0,0 +1,84 @@
+// src/mcp/mcp.types.ts
+// Minimal JSON-RPC 2.0 / Model Context Protocol shapes used by our server.
+
+export const MCP_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+export const MCP_LATEST_PROTOCOL_VERSION = MCP_PROTOCOL_VERSIONS[0];
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id?: JsonRpcId | null;
+  method: string;
+  params?: any;
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: JsonRpcId | null;
+  result?: any;
+  error?: JsonRpcError;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params?: any;
+}
+
+export type JsonRpcMessage =
+  | JsonRpcRequest
+  | JsonRpcResponse
+  | JsonRpcNotification;
+
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+} as const;
+
+export class McpError extends Error {
+  constructor(public code: number, message: string, public data?: any) {
+    super(message);
+    this.name = "McpError";
+  }
+}
+
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, any>;
+}
+
+export type McpContent = { type: "text"; text: string };
+
+export interface McpToolResult {
+  content: McpContent[];
+  structuredContent?: any;
+  isError?: boolean;
+}
+
+// Context handed to request handlers so they can push notifications back
+// on the transport that carried the request (progress, log messages, ...).
+export interface McpRequestContext {
+  sessionId?: string;
+  notify: (method: string, params?: any) => void;
+}
+
+export interface McpToolCallContext extends McpRequestContext {
+  // no-op unless the caller sent params._meta.progressToken
+  progress: (progress: number, total?: number, message?: string) => void;
+}
+
+export type McpToolHandler = (
+  args: any,
+  ctx: McpToolCallContext
+) => Promise<any>;
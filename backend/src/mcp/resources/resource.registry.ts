@@ -0,0 +1,320 @@
+// src/mcp/resources/resource.registry.ts
+import fs from "fs-extra";
+import path from "path";
+import { JSON_RPC_ERRORS, McpError } from "../mcp.types";
+import { WorkspacePathError, resolveInside } from "workspace/workspace.policy";
+
+/**
+ * A directory published as MCP resources. URIs look like
+ * `<scheme>://<first segment>/<rest of path>` relative to `dir`.
+ */
+export interface ResourceRoot {
+  scheme: string;
+  dir: string;
+  name: string;
+  description: string;
+  uriTemplate: string;
+}
+
+export type ResourceNotifier = (method: string, params?: any) => void;
+
+const IGNORED = new Set(["node_modules", ".git", ".mcp_backups"]);
+const LIST_PAGE_SIZE = Number(process.env.MCP_RESOURCE_PAGE_SIZE || 200);
+const MAX_READ_BYTES = Number(
+  process.env.MCP_RESOURCE_MAX_BYTES || 5 * 1024 * 1024
+);
+const NOTIFY_DEBOUNCE_MS = 200;
+
+const MIME_TYPES: Record<string, string> = {
+  ".json": "application/json",
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".css": "text/css",
+  ".js": "text/javascript",
+  ".mjs": "text/javascript",
+  ".ts": "text/x-typescript",
+  ".tsx": "text/x-typescript",
+  ".md": "text/markdown",
+  ".sql": "application/sql",
+  ".txt": "text/plain",
+  ".svg": "image/svg+xml",
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".zip": "application/zip",
+};
+const BINARY_EXTS = new Set([
+  ".pdf",
+  ".png",
+  ".jpg",
+  ".jpeg",
+  ".gif",
+  ".webp",
+  ".zip",
+  ".woff",
+  ".woff2",
+  ".ico",
+]);
+
+export function defaultResourceRoots(workspacesRoot: string): ResourceRoot[] {
+  const cwd = process.cwd();
+  return [
+    {
+      scheme: "workspace",
+      dir: workspacesRoot,
+      name: "Workspace file",
+      description: "Files of a generated project workspace",
+      uriTemplate: "workspace://{projectId}/{path}",
+    },
+    {
+      scheme: "editor",
+      dir: path.join(cwd, "projects"),
+      name: "Editor project",
+      description: "Projects saved by the visual editor (project.json, index.html, styles.css)",
+      uriTemplate: "editor://{projectId}/{path}",
+    },
+    {
+      scheme: "docs",
+      dir: path.resolve(cwd, "generated_pdfs"),
+      name: "Generated documentation",
+      description: "Documentation summaries, HTML and PDFs",
+      uriTemplate: "docs://{path}",
+    },
+    {
+      scheme: "sql",
+      dir: path.resolve(cwd, "generated_sql"),
+      name: "Generated SQL schema",
+      description: "SQL output per project (schema.sql, schema.json, schema.html, ...)",
+      uriTemplate: "sql://{projectId}/{path}",
+    },
+    {
+      scheme: "manifest",
+      dir: path.resolve(cwd, "generated_json"),
+      name: "Generated manifest",
+      description: "Site/document manifests (response.json) per project",
+      uriTemplate: "manifest://{projectName}/{path}",
+    },
+  ];
+}
+
+export class McpResourceRegistry {
+  private readonly roots: ResourceRoot[];
+  // uri -> session key -> notifier
+  private readonly subscriptions = new Map<string, Map<string, ResourceNotifier>>();
+  // session key -> notifier, for list_changed broadcasts
+  private readonly sessions = new Map<string, ResourceNotifier>();
+  private readonly watchers: fs.FSWatcher[] = [];
+  private readonly pendingUpdates = new Map<string, NodeJS.Timeout>();
+  private listChangedTimer?: NodeJS.Timeout;
+
+  constructor(roots: ResourceRoot[]) {
+    this.roots = roots;
+  }
+
+  templates() {
+    return this.roots.map((r) => ({
+      uriTemplate: r.uriTemplate,
+      name: r.name,
+      description: r.description,
+    }));
+  }
+
+  async list(cursor?: string) {
+    const all: Array<{ uri: string; name: string; mimeType: string; size: number }> =
+      [];
+    for (const root of this.roots) {
+      if (!(await fs.pathExists(root.dir))) continue;
+      for (const rel of await this.walk(root.dir, "")) {
+        const stat = await fs.stat(path.join(root.dir, rel)).catch(() => null);
+        if (!stat) continue;
+        all.push({
+          uri: this.toUri(root, rel),
+          name: rel,
+          mimeType: this.mimeType(rel),
+          size: stat.size,
+        });
+      }
+    }
+
+    const offset = Math.max(parseInt(cursor || "0", 10) || 0, 0);
+    const page = all.slice(offset, offset + LIST_PAGE_SIZE);
+    const next = offset + LIST_PAGE_SIZE;
+    return {
+      resources: page,
+      ...(next < all.length ? { nextCursor: String(next) } : {}),
+    };
+  }
+
+  async read(uri: string) {
+    const { fullPath, rel } = await this.resolve(uri);
+    const stat = await fs.stat(fullPath).catch(() => null);
+    if (!stat || !stat.isFile()) {
+      throw new McpError(-32002, `Resource not found: ${uri}`, { uri });
+    }
+    if (stat.size > MAX_READ_BYTES) {
+      throw new McpError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        `Resource exceeds ${MAX_READ_BYTES} bytes: ${uri}`
+      );
+    }
+
+    const mimeType = this.mimeType(rel);
+    const buffer = await fs.readFile(fullPath);
+    const content = BINARY_EXTS.has(path.extname(rel).toLowerCase())
+      ? { uri, mimeType, blob: buffer.toString("base64") }
+      : { uri, mimeType, text: buffer.toString("utf8") };
+    return { contents: [content] };
+  }
+
+  async subscribe(uri: string, sessionKey: string, notify: ResourceNotifier) {
+    await this.resolve(uri); // validate
+    const subs = this.subscriptions.get(uri) ?? new Map();
+    subs.set(sessionKey, notify);
+    this.subscriptions.set(uri, subs);
+    this.sessions.set(sessionKey, notify);
+  }
+
+  unsubscribe(uri: string, sessionKey: string) {
+    const subs = this.subscriptions.get(uri);
+    if (!subs) return;
+    subs.delete(sessionKey);
+    if (subs.size === 0) this.subscriptions.delete(uri);
+  }
+
+  /** Track a session for list_changed notifications. */
+  attachSession(sessionKey: string, notify: ResourceNotifier) {
+    this.sessions.set(sessionKey, notify);
+  }
+
+  /** Forget everything a session subscribed to. */
+  detachSession(sessionKey: string) {
+    this.sessions.delete(sessionKey);
+    for (const uri of [...this.subscriptions.keys()]) {
+      this.unsubscribe(uri, sessionKey);
+    }
+  }
+
+  /**
+   * Watch every root recursively so any writer (REST controllers, builders,
+   * MCP tools) produces resources/updated notifications.
+   */
+  watch() {
+    for (const root of this.roots) {
+      try {
+        fs.ensureDirSync(root.dir);
+        const watcher = fs.watch(
+          root.dir,
+          { recursive: true },
+          (eventType, filename) => {
+            if (!filename) return;
+            const rel = filename.toString().split(path.sep).join("/");
+            if (rel.split("/").some((p) => IGNORED.has(p))) return;
+            this.onFileChanged(root, rel, eventType);
+          }
+        );
+        watcher.on("error", (err) =>
+          console.warn(`[McpResourceRegistry] watcher error on ${root.dir}:`, err)
+        );
+        this.watchers.push(watcher);
+      } catch (err) {
+        console.warn(`[McpResourceRegistry] cannot watch ${root.dir}:`, err);
+      }
+    }
+  }
+
+  close() {
+    for (const watcher of this.watchers.splice(0)) watcher.close();
+    for (const timer of this.pendingUpdates.values()) clearTimeout(timer);
+    this.pendingUpdates.clear();
+    if (this.listChangedTimer) clearTimeout(this.listChangedTimer);
+  }
+
+  private onFileChanged(root: ResourceRoot, rel: string, eventType: string) {
+    const uri = this.toUri(root, rel);
+
+    // editors and generators write in bursts; coalesce per uri
+    if (this.subscriptions.has(uri)) {
+      clearTimeout(this.pendingUpdates.get(uri));
+      this.pendingUpdates.set(
+        uri,
+        setTimeout(() => {
+          this.pendingUpdates.delete(uri);
+          for (const notify of this.subscriptions.get(uri)?.values() ?? []) {
+            notify("notifications/resources/updated", { uri });
+          }
+        }, NOTIFY_DEBOUNCE_MS)
+      );
+    }
+
+    // "rename" covers creation and deletion
+    if (eventType === "rename" && !this.listChangedTimer) {
+      this.listChangedTimer = setTimeout(() => {
+        this.listChangedTimer = undefined;
+        for (const notify of this.sessions.values()) {
+          notify("notifications/resources/list_changed");
+        }
+      }, NOTIFY_DEBOUNCE_MS);
+    }
+  }
+
+  private async resolve(uri: string) {
+    const match = /^([a-z][a-z0-9+.-]*):\/\/(.+)$/i.exec(String(uri || ""));
+    const root = match && this.roots.find((r) => r.scheme === match[1]);
+    if (!match || !root) {
+      throw new McpError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        `Unsupported resource uri: ${uri}`
+      );
+    }
+
+    let segments: string[];
+    try {
+      segments = match[2].split("/").filter(Boolean).map(decodeURIComponent);
+    } catch {
+      // malformed percent-escape
+      throw new McpError(JSON_RPC_ERRORS.INVALID_PARAMS, `Invalid resource uri: ${uri}`);
+    }
+    if (segments.some((s) => s === ".." || s === "." || s.includes("\\"))) {
+      throw new McpError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        "Parent path segments not allowed"
+      );
+    }
+
+    const rel = segments.join("/");
+    try {
+      // same traversal and symlink rules as every workspace access
+      const resolved = await resolveInside(root.dir, rel);
+      if (!resolved.rel) throw new WorkspacePathError(rel, "Path is the root");
+      return { root, rel, fullPath: resolved.full };
+    } catch (err) {
+      if (!(err instanceof WorkspacePathError)) throw err;
+      throw new McpError(JSON_RPC_ERRORS.INVALID_PARAMS, "Invalid resource path");
+    }
+  }
+
+  private async walk(base: string, rel: string): Promise<string[]> {
+    const out: string[] = [];
+    const entries = await fs
+      .readdir(path.join(base, rel), { withFileTypes: true })
+      .catch(() => []);
+    for (const entry of entries) {
+      if (IGNORED.has(entry.name)) continue;
+      const childRel = rel ? `${rel}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) out.push(...(await this.walk(base, childRel)));
+      else if (entry.isFile()) out.push(childRel);
+    }
+    return out;
+  }
+
+  private toUri(root: ResourceRoot, rel: string) {
+    return `${root.scheme}://${rel.split("/").map(encodeURIComponent).join("/")}`;
+  }
+
+  private mimeType(rel: string) {
+    return MIME_TYPES[path.extname(rel).toLowerCase()] ?? "text/plain";
+  }
+}
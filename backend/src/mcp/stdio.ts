@@ -0,0 +1,11 @@
+// src/mcp/stdio.ts
+// Entry point: run the MCP server over stdio, e.g. `npm run mcp:stdio`.
+import { McpServer } from "./mcp.server";
+import { StdioTransport } from "./transports/stdio.transport";
+
+// stdout carries JSON-RPC frames; route stray console.log output to stderr
+console.log = (...args: any[]) => console.error(...args);
+
+const transport = new StdioTransport(new McpServer());
+transport.start();
+console.error("[MCP] stdio server ready");
@@ -0,0 +1,92 @@
+// src/mcp/tools/builder.tool.ts
+import * as path from "path";
+import { v4 as uuidv4 } from "uuid";
+import builderService from "main/web/services/builder.service";
+import { Workspace } from "workspace/workspace";
+import { BuilderRequestSchema } from "main/web/schemas/builder/builder.ai";
+import { LLM_PROVIDER_NAMES } from "llm/llm.types";
+import { McpServer } from "../mcp.server";
+
+const projectRoot = path.resolve(__dirname, "../../../../web");
+
+// builder:* events in the order BuilderService emits them; the index is the
+// progress value reported to MCP clients.
+const BUILDER_STAGES = [
+  "builder:started",
+  "builder:retrieving_context",
+  "builder:planning",
+  "builder:tree_generated",
+  "builder:generating_files",
+  "builder:files_emitted",
+  "builder:completed",
+];
+
+/**
+ * Publish BuilderService.buildProject as the `buildProject` MCP tool. The
+ * builder:* Socket.IO events are mirrored as notifications/progress.
+ */
+export function registerBuilderTool(server: McpServer) {
+  server.registerTool(
+    {
+      name: "buildProject",
+      description:
+        "Plan and generate a web project from a natural language prompt (RAG context, module tree, file emission). Reports progress per build stage.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          userPrompt: { type: "string" },
+          options: {
+            type: "object",
+            properties: {
+              projectName: { type: "string" },
+              provider: { type: "string", enum: [...LLM_PROVIDER_NAMES] },
+              maxTokens: { type: "number" },
+              ragTopK: { type: "number" },
+              dryRun: { type: "boolean" },
+            },
+          },
+        },
+        required: ["userPrompt"],
+      },
+    },
+    async (args, ctx) => {
+      // builder events are keyed by socketId; MCP callers get a private one
+      const socketId = `mcp:${ctx.sessionId ?? "stdio"}:${uuidv4()}`;
+      const input = BuilderRequestSchema.parse({ ...args, socketId });
+      const total = BUILDER_STAGES.length;
+
+      let last = 0;
+      const report = (value: number, message: string) => {
+        // notifications/progress must increase monotonically
+        if (value <= last) return;
+        last = value;
+        ctx.progress(value, total, message);
+      };
+
+      const unsubscribe = builderService.subscribe(socketId, (event, payload) => {
+        const stage = BUILDER_STAGES.indexOf(event);
+        if (stage >= 0) {
+          report(stage + 1, payload?.message ?? event);
+        } else if (event === "builder:file_progress") {
+          // fractional progress inside the generating_files stage
+          const fraction = Math.min(Number(payload?.progress) || 0, 1);
+          report(
+            BUILDER_STAGES.indexOf("builder:generating_files") + 1 + fraction * 0.99,
+            `${payload?.status ?? "generating"} ${payload?.path ?? ""}`.trim()
+          );
+        }
+      });
+
+      try {
+        return await builderService.buildProject(
+          input.userPrompt,
+          socketId,
+          input.options,
+          await new Workspace(projectRoot).snapshot()
+        );
+      } finally {
+        unsubscribe();
+      }
+    }
+  );
+}
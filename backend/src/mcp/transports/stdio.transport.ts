@@ -0,0 +1,72 @@
+// src/mcp/transports/stdio.transport.ts
+import readline from "readline";
+import { McpServer } from "../mcp.server";
+import {
+  JSON_RPC_ERRORS,
+  JsonRpcMessage,
+  JsonRpcNotification,
+} from "../mcp.types";
+
+/**
+ * Newline-delimited JSON-RPC over stdin/stdout. stdout is reserved for
+ * protocol frames, so anything that logs must go to stderr.
+ */
+export class StdioTransport {
+  private rl?: readline.Interface;
+  private readonly pending = new Set<Promise<void>>();
+
+  constructor(
+    private readonly server: McpServer,
+    private readonly input: NodeJS.ReadableStream = process.stdin,
+    private readonly output: NodeJS.WritableStream = process.stdout
+  ) {}
+
+  start() {
+    this.rl = readline.createInterface({ input: this.input });
+    this.rl.on("line", (line) => {
+      const task = this.onLine(line).finally(() => this.pending.delete(task));
+      this.pending.add(task);
+    });
+    this.rl.on("close", async () => {
+      // let in-flight tool calls answer before the process goes away
+      await Promise.allSettled([...this.pending]);
+      console.error("[StdioTransport] stdin closed, exiting");
+      process.exit(0);
+    });
+  }
+
+  send(message: JsonRpcMessage) {
+    this.output.write(JSON.stringify(message) + "\n");
+  }
+
+  notify(method: string, params?: any) {
+    const notification: JsonRpcNotification = { jsonrpc: "2.0", method };
+    if (params !== undefined) notification.params = params;
+    this.send(notification);
+  }
+
+  private async onLine(line: string) {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    let message: any;
+    try {
+      message = JSON.parse(trimmed);
+    } catch {
+      this.send({
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: JSON_RPC_ERRORS.PARSE_ERROR, message: "Parse error" },
+      });
+      return;
+    }
+
+    // responses to server-initiated requests are not used yet
+    if (message && message.method === undefined) return;
+
+    const response = await this.server.handleMessage(message, {
+      notify: (method, params) => this.notify(method, params),
+    });
+    if (response) this.send(response);
+  }
+}
@@ -0,0 +1,329 @@
+// src/mcp/transports/streamableHttp.transport.ts
+import crypto from "crypto";
+import { Router, Request, Response, NextFunction } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { McpServer } from "../mcp.server";
+import {
+  JSON_RPC_ERRORS,
+  JsonRpcMessage,
+  JsonRpcNotification,
+  JsonRpcResponse,
+} from "../mcp.types";
+
+const SESSION_HEADER = "mcp-session-id";
+const KEEPALIVE_MS = Number(process.env.MCP_SSE_KEEPALIVE_MS || 25000);
+const SESSION_TTL_MS = Number(
+  process.env.MCP_SESSION_TTL_MS || 60 * 60 * 1000
+);
+const CORS_HEADERS =
+  "Authorization, Content-Type, Accept, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID";
+
+export interface StreamableHttpOptions {
+  // bearer token every request must carry; without one the endpoint refuses all requests
+  token?: string;
+  // browser origins allowed besides the server's own; "*" allows any
+  allowedOrigins?: string[];
+}
+
+/** MCP_HTTP_TOKEN and MCP_ALLOWED_ORIGINS (comma-separated). */
+export function streamableHttpOptionsFromEnv(): StreamableHttpOptions {
+  return {
+    token: process.env.MCP_HTTP_TOKEN || undefined,
+    allowedOrigins: (process.env.MCP_ALLOWED_ORIGINS || "")
+      .split(",")
+      .map((o) => o.trim().replace(/\/+$/, ""))
+      .filter(Boolean),
+  };
+}
+
+function sameToken(given: string, expected: string) {
+  // equal-length digests, so the comparison takes the same time for any input
+  const digest = (value: string) => crypto.createHash("sha256").update(value).digest();
+  return crypto.timingSafeEqual(digest(given), digest(expected));
+}
+
+interface McpHttpSession {
+  id: string;
+  createdAt: number;
+  lastSeen: number;
+  // standalone GET streams for server-initiated notifications
+  streams: Set<Response>;
+}
+
+/**
+ * MCP Streamable HTTP transport (POST/GET/DELETE on a single endpoint).
+ * - POST carries client messages; requests are answered as JSON, or as an
+ *   SSE stream for tools/call so progress notifications can be interleaved.
+ * - GET opens a long-lived SSE stream for notifications outside a request.
+ * - DELETE terminates the session.
+ * Every request needs `Authorization: Bearer <token>`. Browsers may only
+ * call it from the server's own origin or an allowed one: the tools write
+ * files and run commands, so any other Origin is refused (DNS rebinding).
+ */
+export class StreamableHttpTransport {
+  private readonly sessions = new Map<string, McpHttpSession>();
+  private sweeper?: NodeJS.Timeout;
+
+  constructor(
+    private readonly server: McpServer,
+    private readonly options: StreamableHttpOptions = streamableHttpOptionsFromEnv()
+  ) {
+    if (!options.token) {
+      console.warn(
+        "[StreamableHttpTransport] MCP_HTTP_TOKEN is not set: every request to the HTTP endpoint is refused"
+      );
+    }
+  }
+
+  router(): Router {
+    const router = Router();
+    router.use(this.guard);
+    router.post("/", this.handlePost);
+    router.get("/", this.handleGet);
+    router.delete("/", this.handleDelete);
+
+    if (!this.sweeper) {
+      this.sweeper = setInterval(() => this.expireSessions(), 60 * 1000);
+      this.sweeper.unref();
+    }
+    return router;
+  }
+
+  /** Push a notification to every open GET stream of a session. */
+  notifySession(sessionId: string, method: string, params?: any) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    const notification: JsonRpcNotification = { jsonrpc: "2.0", method };
+    if (params !== undefined) notification.params = params;
+    for (const stream of session.streams) {
+      this.writeEvent(stream, notification);
+    }
+  }
+
+  close() {
+    if (this.sweeper) clearInterval(this.sweeper);
+    for (const id of [...this.sessions.keys()]) this.closeSession(id);
+  }
+
+  // Origin check and CORS for allowed origins first (preflights carry no
+  // credentials), then the bearer token
+  private guard = (req: Request, res: Response, next: NextFunction) => {
+    const origin = req.header("origin");
+    if (origin !== undefined) {
+      if (!this.originAllowed(origin, req)) {
+        return res.status(403).json(
+          this.rpcError(JSON_RPC_ERRORS.INVALID_REQUEST, `Forbidden: origin ${origin} is not allowed`)
+        );
+      }
+      res.setHeader("Access-Control-Allow-Origin", origin);
+      res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id");
+      res.setHeader("Vary", "Origin");
+    }
+    if (req.method === "OPTIONS") {
+      res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE");
+      res.setHeader("Access-Control-Allow-Headers", CORS_HEADERS);
+      return res.status(204).end();
+    }
+
+    if (!this.options.token) {
+      return res.status(503).json(
+        this.rpcError(JSON_RPC_ERRORS.INTERNAL_ERROR, "MCP over HTTP is disabled: MCP_HTTP_TOKEN is not set")
+      );
+    }
+    const given = req.header("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+    if (!given || !sameToken(given, this.options.token)) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="mcp"');
+      return res.status(401).json(
+        this.rpcError(JSON_RPC_ERRORS.INVALID_REQUEST, "Unauthorized: a valid bearer token is required")
+      );
+    }
+    next();
+  };
+
+  private originAllowed(origin: string, req: Request) {
+    const allowed = this.options.allowedOrigins ?? [];
+    if (allowed.includes("*") || allowed.includes(origin)) return true;
+    try {
+      // same origin: the page was served by this server
+      return new URL(origin).host === req.header("host");
+    } catch {
+      // "null" (sandboxed frames, file://) and anything else unparsable
+      return false;
+    }
+  }
+
+  private handlePost = async (req: Request, res: Response) => {
+    const body = req.body;
+    if (!body || typeof body !== "object") {
+      return res.status(400).json(
+        this.rpcError(JSON_RPC_ERRORS.PARSE_ERROR, "Parse error")
+      );
+    }
+
+    const messages: any[] = Array.isArray(body) ? body : [body];
+    const isInitialize = messages.some((m) => m?.method === "initialize");
+
+    let session: McpHttpSession | undefined;
+    if (isInitialize) {
+      session = {
+        id: uuidv4(),
+        createdAt: Date.now(),
+        lastSeen: Date.now(),
+        streams: new Set(),
+      };
+      this.sessions.set(session.id, session);
+      res.setHeader("Mcp-Session-Id", session.id);
+      console.log(`[StreamableHttpTransport] session ${session.id} opened`);
+    } else {
+      session = this.requireSession(req, res);
+      if (!session) return;
+    }
+
+    // responses to server-initiated requests and notifications are accepted
+    // without a body in return
+    const requests = messages.filter(
+      (m) => m?.method && m.id !== undefined && m.id !== null
+    );
+    if (requests.length === 0) {
+      await Promise.all(
+        messages
+          .filter((m) => m?.method)
+          .map((m) =>
+            this.server.handleMessage(m, {
+              sessionId: session!.id,
+              notify: (method, params) =>
+                this.notifySession(session!.id, method, params),
+            })
+          )
+      );
+      return res.status(202).end();
+    }
+
+    const wantsStream =
+      String(req.headers.accept || "").includes("text/event-stream") &&
+      requests.some((m) => m.method === "tools/call");
+
+    if (wantsStream) {
+      this.openEventStream(res);
+      const notify = (method: string, params?: any) => {
+        const notification: JsonRpcNotification = { jsonrpc: "2.0", method };
+        if (params !== undefined) notification.params = params;
+        this.writeEvent(res, notification);
+      };
+
+      await Promise.all(
+        messages.map(async (m) => {
+          const response = await this.server.handleMessage(m, {
+            sessionId: session!.id,
+            notify,
+          });
+          if (response) this.writeEvent(res, response);
+        })
+      );
+      return res.end();
+    }
+
+    const responses = (
+      await Promise.all(
+        messages.map((m) =>
+          this.server.handleMessage(m, {
+            sessionId: session!.id,
+            notify: (method, params) =>
+              this.notifySession(session!.id, method, params),
+          })
+        )
+      )
+    ).filter((r): r is JsonRpcResponse => r !== null);
+
+    return res.json(Array.isArray(body) ? responses : responses[0]);
+  };
+
+  private handleGet = (req: Request, res: Response) => {
+    const session = this.requireSession(req, res);
+    if (!session) return;
+
+    if (!String(req.headers.accept || "").includes("text/event-stream")) {
+      return res.status(405).json(
+        this.rpcError(
+          JSON_RPC_ERRORS.INVALID_REQUEST,
+          "GET requires Accept: text/event-stream"
+        )
+      );
+    }
+
+    this.openEventStream(res);
+    session.streams.add(res);
+
+    const keepalive = setInterval(() => res.write(": keepalive\n\n"), KEEPALIVE_MS);
+    req.on("close", () => {
+      clearInterval(keepalive);
+      session.streams.delete(res);
+    });
+  };
+
+  private handleDelete = (req: Request, res: Response) => {
+    const session = this.requireSession(req, res);
+    if (!session) return;
+    this.closeSession(session.id);
+    return res.status(204).end();
+  };
+
+  private requireSession(req: Request, res: Response) {
+    const sessionId = req.header(SESSION_HEADER);
+    if (!sessionId) {
+      res.status(400).json(
+        this.rpcError(
+          JSON_RPC_ERRORS.INVALID_REQUEST,
+          "Bad Request: Mcp-Session-Id header is required"
+        )
+      );
+      return undefined;
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      res.status(404).json(
+        this.rpcError(JSON_RPC_ERRORS.INVALID_REQUEST, "Session not found")
+      );
+      return undefined;
+    }
+
+    session.lastSeen = Date.now();
+    return session;
+  }
+
+  private closeSession(sessionId: string) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    for (const stream of session.streams) stream.end();
+    this.sessions.delete(sessionId);
+    this.server.closeSession(sessionId);
+    console.log(`[StreamableHttpTransport] session ${sessionId} closed`);
+  }
+
+  private expireSessions() {
+    const now = Date.now();
+    for (const session of this.sessions.values()) {
+      if (session.streams.size === 0 && now - session.lastSeen > SESSION_TTL_MS) {
+        this.closeSession(session.id);
+      }
+    }
+  }
+
+  private openEventStream(res: Response) {
+    res.status(200);
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    res.flushHeaders();
+  }
+
+  private writeEvent(res: Response, message: JsonRpcMessage) {
+    if (res.writableEnded) return;
+    res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  private rpcError(code: number, message: string): JsonRpcResponse {
+    return { jsonrpc: "2.0", id: null, error: { code, message } };
+  }
+}
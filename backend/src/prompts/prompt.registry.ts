@@ -0,0 +1,97 @@
+// src/prompts/prompt.registry.ts
+// Versioned catalogue of the system prompts used by the builders, doc
+// generator, SQL generator and editor. Also served over MCP prompts/*.
+import { builderPrompts } from "./templates/builder.prompts";
+import { docPrompts } from "./templates/docs.prompts";
+import { sqlPrompts } from "./templates/sql.prompts";
+import { editorPrompts } from "./templates/editor.prompts";
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+  // allowed values for enum-like arguments (stack type, dialect, ...)
+  enum?: readonly string[];
+  default?: string;
+}
+
+export interface PromptDefinition {
+  name: string;
+  version: number;
+  description: string;
+  arguments: PromptArgument[];
+  render: (args: Record<string, string>) => string;
+}
+
+export class PromptRegistry {
+  // name -> definitions sorted by version (ascending)
+  private readonly prompts = new Map<string, PromptDefinition[]>();
+
+  register(def: PromptDefinition) {
+    const versions = this.prompts.get(def.name) ?? [];
+    if (versions.some((v) => v.version === def.version)) {
+      throw new Error(`Prompt ${def.name}@${def.version} already registered`);
+    }
+    versions.push(def);
+    versions.sort((a, b) => a.version - b.version);
+    this.prompts.set(def.name, versions);
+  }
+
+  /** Latest version of every prompt. */
+  list(): PromptDefinition[] {
+    return Array.from(this.prompts.values()).map((v) => v[v.length - 1]);
+  }
+
+  /**
+   * Look a prompt up by name, optionally pinned to a version either through
+   * the `version` argument or a `name@version` reference.
+   */
+  get(ref: string, version?: number): PromptDefinition {
+    const [name, pinned] = ref.split("@");
+    const versions = this.prompts.get(name);
+    if (!versions?.length) throw new Error(`Unknown prompt: ${name}`);
+
+    const wanted = version ?? (pinned ? Number(pinned) : undefined);
+    if (wanted === undefined) return versions[versions.length - 1];
+
+    const def = versions.find((v) => v.version === wanted);
+    if (!def) throw new Error(`Unknown prompt version: ${name}@${wanted}`);
+    return def;
+  }
+
+  /** Validate arguments against the definition and render the prompt text. */
+  render(
+    ref: string,
+    args: Record<string, string | undefined> = {},
+    version?: number
+  ): string {
+    const def = this.get(ref, version);
+    const resolved: Record<string, string> = {};
+
+    for (const arg of def.arguments) {
+      const value = args[arg.name] ?? arg.default;
+      if (value === undefined || value === "") {
+        if (arg.required) {
+          throw new Error(`Prompt ${def.name}: argument "${arg.name}" is required`);
+        }
+        continue;
+      }
+      if (arg.enum && !arg.enum.includes(value)) {
+        throw new Error(
+          `Prompt ${def.name}: argument "${arg.name}" must be one of ${arg.enum.join(", ")}`
+        );
+      }
+      resolved[arg.name] = String(value);
+    }
+
+    return def.render(resolved);
+  }
+}
+
+const promptRegistry = new PromptRegistry();
+
+[...builderPrompts, ...docPrompts, ...sqlPrompts, ...editorPrompts].forEach(
+  (def) => promptRegistry.register(def)
+);
+
+export default promptRegistry;
@@ -0,0 +1,51 @@
+// src/prompts/templates/docs.prompts.ts
+import type { PromptDefinition } from "../prompt.registry";
+
+const detailLevelArg = {
+  name: "detailLevel",
+  description: "How verbose the generated documentation should be",
+  enum: ["short", "medium", "detailed"] as const,
+  default: "short",
+};
+
+export const docPrompts: PromptDefinition[] = [
+  {
+    name: "docs.module",
+    version: 1,
+    description:
+      "Documentation generator: detailed module documentation JSON (summary, key points, endpoints, HTML)",
+    arguments: [detailLevelArg],
+    render: ({ detailLevel }) =>
+      "You are a documentation generator. Return ONLY valid JSON (no commentary). Produce detailed module documentation JSON for the provided module node. Use safeId for ids, and ensure outputs are escaped where appropriate. The JSON schema required (exact keys):\n\n" +
+      "{\n" +
+      '  "id": string,             // same as module.id\n' +
+      '  "title": string,\n' +
+      '  "summary": string,        // 5-10 paragraphs for detailed\n' +
+      '  "key_points": string[],   // 12-18 concise bullet points\n' +
+      '  "important_lines": string[], // up to 20 lines (commands, config, sample code)\n' +
+      '  "api_endpoints": [{method, path, note, example}], // proper api in list of endpoints\n' +
+      '  "html": string            // safe HTML fragment for this module (use <section id="{id}"> ... )\n' +
+      "}\n\nBe verbose when detailLevel is 'detailed'. Keep HTML self-contained and simple (no scripts)." +
+      `\n\nRequested detailLevel: ${detailLevel}.`,
+  },
+  {
+    name: "docs.file",
+    version: 1,
+    description:
+      "Documentation generator: detailed file documentation JSON (summary, key points, endpoints, HTML)",
+    arguments: [detailLevelArg],
+    render: ({ detailLevel }) =>
+      "You are a documentation generator. Return ONLY valid JSON (no commentary). Produce detailed file documentation JSON for the provided file. Schema required:\n\n" +
+      "{\n" +
+      '  "id": string,\n' +
+      '  "fileName": string,\n' +
+      '  "summary": string,\n' +
+      '  "key_points": string[],\n' +
+      '  "important_lines": string[],\n' +
+      '  "api_endpoints": [{method, path, note, example}],\n' +
+      '  "html": string\n' +
+      "}\n\nKeep HTML simple and include code blocks where relevant." +
+      "If you produce a generate_site_manifest function_call, follow up (in a subsequent assistant message) with a generate_flowchart_schema function_call that includes the manifest (or rootModule) as arguments, to request a Mermaid flowchart. If the model can produce the flowchart itself, call generate_flowchart_schema instead of generate_site_manifest." +
+      `\n\nRequested detailLevel: ${detailLevel}.`,
+  },
+];
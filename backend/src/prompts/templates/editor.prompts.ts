@@ -0,0 +1,38 @@
+// src/prompts/templates/editor.prompts.ts
+import type { PromptDefinition } from "../prompt.registry";
+
+export const editorPrompts: PromptDefinition[] = [
+  {
+    name: "editor.component",
+    version: 1,
+    description:
+      "UI component generator for the visual editor (returns html/css/js JSON)",
+    arguments: [
+      {
+        name: "componentType",
+        description: "Kind of component to generate (button, card, form, navbar, ...)",
+        default: "any",
+      },
+    ],
+    render: ({ componentType }) => `You are an expert UI component generator. Generate clean, modern, production-ready HTML/CSS/JavaScript components.
+
+Rules:
+1. Generate semantic HTML5 markup
+2. Use modern CSS (Flexbox, Grid, CSS variables)
+3. Include TailwindCSS classes for styling
+4. Make components responsive and accessible
+5. Keep JavaScript minimal and vanilla (no frameworks)
+6. Return ONLY valid HTML, CSS, and JS - no markdown, no explanations in the code
+
+Component Type: ${componentType}
+
+Return format:
+{
+  "html": "...",
+  "css": "...",
+  "js": "...",
+  "explanation": "Brief explanation of the component",
+  "componentType": "button|card|form|navbar|etc"
+}`,
+  },
+];
@@ -0,0 +1,32 @@
+// src/prompts/templates/sql.prompts.ts
+import type { PromptDefinition } from "../prompt.registry";
+
+const dialectArg = {
+  name: "dialect",
+  description: "SQL dialect the generated schema targets",
+  enum: ["postgres", "mysql", "sqlite", "mssql"] as const,
+  default: "postgres",
+};
+
+export const sqlPrompts: PromptDefinition[] = [
+  {
+    name: "sql.schema",
+    version: 1,
+    description:
+      "JSON-only system prompt for generate_sql_schema_with_tree function calling",
+    arguments: [dialectArg],
+    render: ({ dialect }) =>
+      "You are a JSON-only assistant. When appropriate, call the function 'generate_sql_schema_with_tree' and place a JSON object in function_call.arguments. The object must contain a top-level `tables` array. Avoid any commentary in the function_call.arguments." +
+      ` Target SQL dialect: ${dialect}.`,
+  },
+  {
+    name: "sql.schema-retry",
+    version: 1,
+    description:
+      "Strict JSON-only retry prompt used when the function call returned no tables",
+    arguments: [dialectArg],
+    render: ({ dialect }) =>
+      'You are a JSON-only assistant. Reply with a single JSON object and no surrounding text. The JSON object must be { "tables": [ ... ] } and each table must include tableName and columns (name,type).' +
+      ` Target SQL dialect: ${dialect}.`,
+  },
+];
@@ -0,0 +1,354 @@
+// src/sandbox/sandbox.policy.ts
+// The one place that decides which commands a model may run. A policy is
+// declarative JSON:
+//
+// {
+//   "defaults": { "timeoutMs": 300000, "maxTimeoutMs": 1800000, "maxOutputChars": 200000,
+//                 "network": false, "cwd": { "deny": ["node_modules/**"] } },
+//   "commands": {
+//     "npm": { "subcommands": ["install", "ci", "run", "test"], "forbiddenFlags": ["-g", "--prefix"],
+//              "networkSubcommands": ["install", "ci"], "timeoutMs": 600000 },
+//     "node": { "forbiddenFlags": ["-e", "--eval"], "argPatterns": ["^[\\w@./:=,+-]+$"] },
+//     "npx": { "allow": false, "reason": "npx runs arbitrary packages; use an npm script" }
+//   }
+// }
+//
+// COMMAND_POLICY_FILE (default ./command-policy.json) is the global policy,
+// the builtin one below applies without it. COMMAND_POLICY_DIR (default
+// ./command-policies) may hold `<projectId>.json` for a single workspace:
+// its defaults and command rules replace the global ones they name, or the
+// whole global policy with "inherit": false. Both live outside the
+// workspaces, so a model cannot loosen its own policy. Files are re-read
+// when they change; a broken file denies everything it covers.
+//
+// Commands that are not listed are denied; the whole argument list is
+// checked (a subcommand, every flag and argument), not just the binary.
+import fs from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { normalizeRelPath } from "workspace/workspace.policy";
+import { splitCommand } from "./sandbox";
+import { CommandDecision, CommandRequest } from "./sandbox.types";
+
+const CwdRulesSchema = z.object({
+  // workspace-relative directories, "*" / "**" wildcards; "" is the root
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+});
+
+const CommandRuleSchema = z.object({
+  allow: z.boolean().default(true),
+  // shown when the rule denies
+  reason: z.string().optional(),
+  // the first positional argument must be one of these
+  subcommands: z.array(z.string()).optional(),
+  // flags refused as "-x", "--flag" or "--flag=value"; single-letter ones
+  // also inside bundles like "-gx"
+  forbiddenFlags: z.array(z.string()).optional(),
+  // regular expressions no argument may match
+  forbiddenArgs: z.array(z.string()).optional(),
+  // regular expressions every argument must match one of
+  argPatterns: z.array(z.string()).optional(),
+  maxArgs: z.number().int().min(0).optional(),
+  cwd: CwdRulesSchema.optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  maxTimeoutMs: z.number().int().positive().optional(),
+  maxOutputChars: z.number().int().positive().optional(),
+  network: z.boolean().optional(),
+  // subcommands that get network even where `network` is off, e.g. the
+  // package manager's install downloading from the registry
+  networkSubcommands: z.array(z.string()).optional(),
+  memoryMb: z.number().int().positive().optional(),
+});
+
+const PolicyDefaultsSchema = z.object({
+  timeoutMs: z.number().int().positive().optional(),
+  maxTimeoutMs: z.number().int().positive().optional(),
+  maxOutputChars: z.number().int().positive().optional(),
+  network: z.boolean().optional(),
+  memoryMb: z.number().int().positive().optional(),
+  cwd: CwdRulesSchema.optional(),
+});
+
+export const CommandPolicySchema = z.object({
+  // project policies only: false ignores the global policy
+  inherit: z.boolean().default(true),
+  defaults: PolicyDefaultsSchema.default({}),
+  commands: z.record(z.string(), CommandRuleSchema).default({}),
+});
+
+export type CommandRule = z.infer<typeof CommandRuleSchema>;
+export type CommandPolicy = z.infer<typeof CommandPolicySchema>;
+
+// flags that make a package manager install globally or run arbitrary code
+const PACKAGE_MANAGER_FLAGS = ["-g", "--global", "--prefix", "--location", "--unsafe-perm"];
+
+// absolute, home-relative or parent paths, also as "--flag=value"; commands
+// run in the workspace and have no business naming files outside it
+const OUTSIDE_WORKSPACE_ARGS = ["^[/~]", "=[/~]", "(^|[/=])\\.\\.(/|$)"];
+
+export const BUILTIN_POLICY: CommandPolicy = CommandPolicySchema.parse({
+  defaults: {
+    timeoutMs: 5 * 60_000,
+    maxTimeoutMs: 30 * 60_000,
+    maxOutputChars: 200_000,
+    network: false,
+    cwd: { deny: ["node_modules/**", ".git/**"] },
+  },
+  commands: {
+    npm: {
+      subcommands: ["install", "i", "ci", "run", "run-script", "test", "t", "start", "ls", "list", "outdated", "uninstall", "remove"],
+      forbiddenFlags: PACKAGE_MANAGER_FLAGS,
+      networkSubcommands: ["install", "i", "ci", "outdated"],
+    },
+    pnpm: {
+      subcommands: ["install", "i", "add", "remove", "rm", "run", "test", "t", "start", "ls", "list", "outdated"],
+      forbiddenFlags: PACKAGE_MANAGER_FLAGS,
+      networkSubcommands: ["install", "i", "add", "outdated"],
+    },
+    yarn: {
+      subcommands: ["install", "add", "remove", "run", "test", "start", "list", "outdated"],
+      forbiddenFlags: PACKAGE_MANAGER_FLAGS,
+      networkSubcommands: ["install", "add", "outdated"],
+    },
+    npx: {
+      allow: false,
+      reason: "npx downloads and runs arbitrary packages",
+    },
+    node: {
+      forbiddenFlags: ["-e", "--eval", "-p", "--print", "-r", "--require", "--import", "--loader", "--experimental-loader", "-i", "--interactive"],
+    },
+    git: {
+      subcommands: ["status", "diff", "log", "show", "add", "commit", "init", "branch", "checkout", "switch", "restore", "rev-parse", "ls-files", "stash", "tag"],
+      // -c sets config such as core.sshCommand or core.pager; -C, --git-dir
+      // and --work-tree point git at another repository, --output writes a file
+      forbiddenFlags: ["-c", "--config-env", "--exec-path", "--upload-pack", "--receive-pack", "--ext-diff",
+        "-C", "--git-dir", "--work-tree", "--namespace", "--output"],
+      forbiddenArgs: OUTSIDE_WORKSPACE_ARGS,
+    },
+    ls: { forbiddenArgs: OUTSIDE_WORKSPACE_ARGS },
+    echo: { forbiddenArgs: OUTSIDE_WORKSPACE_ARGS },
+  },
+});
+
+export class CommandPolicyError extends Error {
+  constructor(public readonly decision: CommandDecision) {
+    super(explainDecision(decision));
+    this.name = "CommandPolicyError";
+  }
+}
+
+export function commandPolicyFile() {
+  return path.resolve(process.cwd(), process.env.COMMAND_POLICY_FILE || "command-policy.json");
+}
+
+export function commandPolicyDir() {
+  return path.resolve(process.cwd(), process.env.COMMAND_POLICY_DIR || "command-policies");
+}
+
+/** One-paragraph explanation of a decision, as fed back to the model. */
+export function explainDecision(decision: CommandDecision) {
+  const line = [decision.command, ...decision.args].join(" ");
+  if (decision.allowed) return `Allowed by command policy (${decision.rule}): ${line}`;
+  return (
+    `Denied by command policy (${decision.policy}, ${decision.rule}): ${decision.reason}` +
+    (decision.hint ? `. ${decision.hint}` : "")
+  );
+}
+
+function globToRegExp(glob: string) {
+  const rel = glob.replace(/^\.?\/+/, "").replace(/\/+$/, "");
+  let source = "";
+  for (let i = 0; i < rel.length; i++) {
+    const ch = rel[i];
+    if (rel.startsWith("/**", i) && i + 3 === rel.length) {
+      // "dir/**" covers dir itself too
+      source += "(/.*)?";
+      i += 2;
+    } else if (rel.startsWith("**", i)) {
+      source += ".*";
+      i += 1;
+    } else if (ch === "*") source += "[^/]*";
+    else if (ch === "?") source += "[^/]";
+    else source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function matchesGlob(patterns: string[] | undefined, rel: string) {
+  return (patterns ?? []).some((p) => globToRegExp(p).test(rel));
+}
+
+function flagMatches(arg: string, flag: string) {
+  if (arg === flag || arg.startsWith(`${flag}=`)) return true;
+  // "-g" inside "-gx", but only for single-dash letter bundles
+  return /^-[a-zA-Z]$/.test(flag) && /^-[a-zA-Z]{2,}$/.test(arg) && arg.includes(flag[1]);
+}
+
+type LoadedPolicy = { name: string; policy: CommandPolicy } | { name: string; error: string };
+
+export class CommandPolicyEngine {
+  private readonly cache = new Map<string, { version: string; loaded: LoadedPolicy }>();
+
+  async evaluate(request: CommandRequest): Promise<CommandDecision> {
+    const resolved = await this.policyFor(request.projectId);
+    const base = {
+      command: "",
+      args: [] as string[],
+      cwd: "",
+      policy: resolved.name,
+      limits: { timeoutMs: 0, maxOutputChars: 0, network: false },
+    };
+    const deny = (rule: string, reason: string, hint?: string): CommandDecision => ({
+      ...base,
+      allowed: false,
+      rule,
+      reason,
+      ...(hint ? { hint } : {}),
+    });
+
+    if ("error" in resolved) return deny("file", `the policy could not be read (${resolved.error})`);
+    const { policy } = resolved;
+
+    let argv: string[];
+    try {
+      argv = [...splitCommand(request.command), ...(request.args ?? [])];
+    } catch (err: any) {
+      return deny("syntax", err?.message ?? String(err));
+    }
+    const [command = "", ...args] = argv;
+    Object.assign(base, { command, args });
+    if (!command) return deny("syntax", "no command given");
+
+    try {
+      base.cwd = normalizeRelPath(request.cwd ?? "");
+    } catch (err: any) {
+      return deny("cwd", err?.message ?? String(err));
+    }
+
+    const allowed = Object.entries(policy.commands)
+      .filter(([, r]) => r.allow)
+      .map(([name]) => name);
+    if (/[\\/]/.test(command)) {
+      return deny("commands", `"${command}" is a path; commands are run by name`, `Allowed commands: ${allowed.join(", ")}`);
+    }
+    const rule = policy.commands[command];
+    const at = `commands.${command}`;
+    if (!rule) {
+      return deny("commands", `"${command}" is not an allowed command`, `Allowed commands: ${allowed.join(", ")}`);
+    }
+    if (!rule.allow) return deny(at, rule.reason ?? `"${command}" is not allowed`);
+
+    if (rule.maxArgs !== undefined && args.length > rule.maxArgs) {
+      return deny(`${at}.maxArgs`, `${command} takes at most ${rule.maxArgs} arguments`);
+    }
+    for (const arg of args) {
+      const flag = rule.forbiddenFlags?.find((f) => flagMatches(arg, f));
+      if (flag) {
+        return deny(`${at}.forbiddenFlags`, rule.reason ?? `the flag ${flag} is not allowed for ${command}`);
+      }
+      const pattern = rule.forbiddenArgs?.find((p) => new RegExp(p).test(arg));
+      if (pattern) {
+        return deny(`${at}.forbiddenArgs`, rule.reason ?? `the argument "${arg}" is not allowed for ${command}`);
+      }
+      if (rule.argPatterns && !rule.argPatterns.some((p) => new RegExp(p).test(arg))) {
+        return deny(`${at}.argPatterns`, `the argument "${arg}" does not match the allowed patterns for ${command}`);
+      }
+    }
+    const subcommand = args.find((a) => !a.startsWith("-"));
+    if (rule.subcommands && subcommand !== undefined && !rule.subcommands.includes(subcommand)) {
+      return deny(
+        `${at}.subcommands`,
+        `"${command} ${subcommand}" is not an allowed subcommand`,
+        `Allowed: ${rule.subcommands.map((s) => `${command} ${s}`).join(", ")}`
+      );
+    }
+
+    const cwdRules = rule.cwd ?? policy.defaults.cwd;
+    const cwdRule = rule.cwd ? `${at}.cwd` : "defaults.cwd";
+    if (matchesGlob(cwdRules?.deny, base.cwd)) {
+      return deny(cwdRule, `commands may not run in "${base.cwd || "."}"`);
+    }
+    if (cwdRules?.allow && !matchesGlob(cwdRules.allow, base.cwd)) {
+      return deny(cwdRule, `commands may not run in "${base.cwd || "."}"`, `Allowed directories: ${cwdRules.allow.join(", ")}`);
+    }
+
+    const maxTimeoutMs = rule.maxTimeoutMs ?? policy.defaults.maxTimeoutMs ?? 30 * 60_000;
+    const timeoutMs = Math.min(
+      request.timeoutMs ?? rule.timeoutMs ?? policy.defaults.timeoutMs ?? 5 * 60_000,
+      maxTimeoutMs
+    );
+    const memoryMb = rule.memoryMb ?? policy.defaults.memoryMb;
+    return {
+      ...base,
+      allowed: true,
+      rule: at,
+      reason: `${command} is allowed`,
+      limits: {
+        timeoutMs,
+        maxOutputChars: rule.maxOutputChars ?? policy.defaults.maxOutputChars ?? 200_000,
+        network:
+          (rule.network ?? policy.defaults.network ?? false) ||
+          Boolean(subcommand !== undefined && rule.networkSubcommands?.includes(subcommand)),
+        ...(memoryMb ? { memoryMb } : {}),
+      },
+    };
+  }
+
+  /** Decision that throws CommandPolicyError on deny. */
+  async enforce(request: CommandRequest) {
+    const decision = await this.evaluate(request);
+    if (!decision.allowed) throw new CommandPolicyError(decision);
+    return decision;
+  }
+
+  /** The policy that applies to a workspace, merged as described above. */
+  async policyFor(projectId?: string): Promise<LoadedPolicy> {
+    const global = (await this.load(commandPolicyFile(), "global")) ?? {
+      name: "builtin",
+      policy: BUILTIN_POLICY,
+    };
+    if (!projectId || !/^[\w.-]+$/.test(projectId) || projectId.startsWith(".")) return global;
+
+    const project = await this.load(path.join(commandPolicyDir(), `${projectId}.json`), `project:${projectId}`);
+    if (!project) return global;
+    if ("error" in project || !project.policy.inherit) return project;
+    if ("error" in global) return global;
+    return {
+      name: `${project.name}+${global.name}`,
+      policy: {
+        inherit: true,
+        defaults: { ...global.policy.defaults, ...project.policy.defaults },
+        commands: { ...global.policy.commands, ...project.policy.commands },
+      },
+    };
+  }
+
+  // null when the file does not exist
+  private async load(file: string, name: string): Promise<LoadedPolicy | null> {
+    const stats = await fs.stat(file).catch(() => null);
+    if (!stats) return null;
+    const version = `${stats.mtimeMs}:${stats.size}`;
+    const cached = this.cache.get(file);
+    if (cached?.version === version) return cached.loaded;
+
+    let loaded: LoadedPolicy;
+    try {
+      const policy = CommandPolicySchema.parse(JSON.parse(await fs.readFile(file, "utf8")));
+      // patterns are compiled here once so a bad one fails the file, not a command
+      for (const rule of Object.values(policy.commands)) {
+        for (const p of [...(rule.forbiddenArgs ?? []), ...(rule.argPatterns ?? [])]) new RegExp(p);
+      }
+      loaded = { name, policy };
+    } catch (err: any) {
+      console.warn(`[CommandPolicy] invalid policy ${file}:`, err?.message ?? err);
+      loaded = { name, error: err instanceof z.ZodError ? "invalid policy" : err?.message ?? String(err) };
+    }
+    this.cache.set(file, { version, loaded });
+    return loaded;
+  }
+}
+
+const commandPolicy = new CommandPolicyEngine();
+
+export default commandPolicy;
@@ -0,0 +1,391 @@
+// src/sandbox/sandbox.ts
+// The one way commands requested by a model are run (runCommand tools, run
+// steps of the generators). Every command:
+// - runs without a shell, in a directory inside its workspace; a command
+//   line is split into words, shell operators are refused;
+// - gets a scrubbed environment: PATH, a throwaway HOME, locale and the
+//   names in SANDBOX_ENV_PASSTHROUGH, never the server's API keys;
+// - runs under prlimit (CPU time, heap, processes, file size, open files)
+//   when prlimit is installed, and is killed with its process group after
+//   the timeout;
+// - runs under bubblewrap: it sees the system directories read-only, its
+//   workspace read-write, a private /tmp, its own pids and no network
+//   unless the caller allows it; home directories, other workspaces, the
+//   server directory and its data directories are not mounted at all.
+//
+// SANDBOX_ISOLATION: auto / bwrap (default) refuse to run commands without
+// bubblewrap; network-only falls back to `unshare -rn`, which only takes
+// the network away; off runs commands unisolated. The last two are meant
+// for development machines and must be chosen explicitly.
+import { spawn, execFile } from "child_process";
+import { constants as fsConstants } from "fs";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { isInside, resolveInside } from "workspace/workspace.policy";
+import {
+  SandboxCommand,
+  SandboxIsolation,
+  SandboxLimits,
+  SandboxResult,
+} from "./sandbox.types";
+
+const SHELL_OPERATORS = /[|&;<>()`$\n]/;
+// mounted read-only inside bubblewrap; everything else does not exist there
+const SYSTEM_PATHS = ["/usr", "/bin", "/sbin", "/lib", "/lib32", "/lib64", "/etc", "/opt", "/run/systemd/resolve"];
+// data directories of the server, hidden when they lie under a system path
+const DATA_DIR_VARS = [
+  "PROJECTS_ROOT",
+  "JOBS_DIR",
+  "PROPOSALS_DIR",
+  "WORKSPACE_HISTORY_DIR",
+  "WORKSPACE_BACKUPS_DIR",
+  "GENERATION_PARTIALS_DIR",
+  "LLM_CASSETTE_DIR",
+  "COMMAND_POLICY_DIR",
+];
+const KILL_GRACE_MS = 2000;
+const UNLIMITED: SandboxLimits = {
+  cpuSeconds: 0,
+  memoryMb: 0,
+  processes: 0,
+  fileSizeMb: 0,
+  openFiles: 0,
+};
+
+export class SandboxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SandboxError";
+  }
+}
+
+export function sandboxLimits(): SandboxLimits {
+  const limit = (key: string, fallback: number) => {
+    const value = Number(process.env[key] ?? fallback);
+    return Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback;
+  };
+  return {
+    cpuSeconds: limit("SANDBOX_CPU_SECONDS", 300),
+    memoryMb: limit("SANDBOX_MEMORY_MB", 2048),
+    processes: limit("SANDBOX_MAX_PROCESSES", 256),
+    fileSizeMb: limit("SANDBOX_MAX_FILE_MB", 200),
+    openFiles: limit("SANDBOX_MAX_OPEN_FILES", 1024),
+  };
+}
+
+/**
+ * Words of a command line: whitespace separated, with '...' / "..." quoting
+ * and backslash escapes. Pipes, redirects, `;`, `&&`, `$(...)` and the like
+ * are refused, as nothing interprets them.
+ */
+export function splitCommand(line: string): string[] {
+  const words: string[] = [];
+  let word = "";
+  let inWord = false;
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+      else if (ch === "\\" && quote === '"' && i + 1 < line.length) word += line[++i];
+      else word += ch;
+      continue;
+    }
+    if (ch === "'" || ch === '"') {
+      quote = ch;
+      inWord = true;
+    } else if (ch === "\\" && i + 1 < line.length) {
+      word += line[++i];
+      inWord = true;
+    } else if (/\s/.test(ch)) {
+      if (inWord) words.push(word);
+      word = "";
+      inWord = false;
+    } else if (SHELL_OPERATORS.test(ch)) {
+      throw new SandboxError(
+        `Shell syntax is not supported ("${ch}"); run one command with its arguments`
+      );
+    } else {
+      word += ch;
+      inWord = true;
+    }
+  }
+  if (quote) throw new SandboxError(`Unterminated ${quote} quote in command`);
+  if (inWord) words.push(word);
+  return words;
+}
+
+export class Sandbox {
+  private probed?: Promise<{ isolation: SandboxIsolation; prlimit: boolean }>;
+  private warned = false;
+
+  /** What this machine offers: isolation backend and whether prlimit exists. */
+  capabilities() {
+    return (this.probed ??= this.probe());
+  }
+
+  async run(spec: SandboxCommand): Promise<SandboxResult> {
+    const root = path.resolve(spec.root);
+    const [command, ...args] = spec.args?.length
+      ? [...splitCommand(spec.command), ...spec.args]
+      : splitCommand(spec.command);
+    if (!command) throw new SandboxError("No command given");
+
+    const { rel: cwdRel, full: cwd } = await resolveInside(root, spec.cwd ?? "");
+    const stats = await fs.stat(cwd).catch(() => null);
+    if (!stats?.isDirectory()) {
+      throw new SandboxError(`Working directory not found: ${cwdRel || "."}`);
+    }
+
+    const { isolation, prlimit } = await this.capabilities();
+    const mode = isolationMode();
+    if (isolation === "none" && mode !== "off") {
+      throw new SandboxError(
+        "bubblewrap is not usable here, so commands would not be isolated from the host; " +
+          "install bubblewrap, or set SANDBOX_ISOLATION=network-only or off to run them anyway"
+      );
+    }
+    const limits = { ...sandboxLimits(), ...spec.limits };
+    const network = spec.network === true;
+    const timeoutMs = spec.timeoutMs ?? Number(process.env.SANDBOX_TIMEOUT_MS || 5 * 60_000);
+    const maxOutput =
+      spec.maxOutputChars ?? Number(process.env.SANDBOX_MAX_OUTPUT_CHARS || 200_000);
+
+    const home = await fs.mkdtemp(path.join(os.tmpdir(), "sandbox-home-"));
+    const argv = [
+      ...(await this.isolationArgs(isolation, { root, cwd, home, network })),
+      ...(prlimit ? this.prlimitArgs(limits) : []),
+      command,
+      ...args,
+    ];
+    const started = Date.now();
+
+    try {
+      return await new Promise<SandboxResult>((resolve, reject) => {
+        const child = spawn(argv[0], argv.slice(1), {
+          cwd,
+          env: this.environment(home, spec.env),
+          shell: false,
+          // own process group, so the whole tree can be killed
+          detached: true,
+          stdio: ["ignore", "pipe", "pipe"],
+        });
+
+        const output = { stdout: "", stderr: "" };
+        let truncated = false;
+        let timedOut = false;
+        let aborted = false;
+        let closed = false;
+
+        const kill = () => {
+          for (const [sig, delay] of [["SIGTERM", 0], ["SIGKILL", KILL_GRACE_MS]] as const) {
+            setTimeout(() => {
+              try {
+                // the group id may be reused once the command is gone
+                if (child.pid && !closed) process.kill(-child.pid, sig);
+              } catch {
+                // already gone
+              }
+            }, delay).unref();
+          }
+        };
+        const timer = setTimeout(() => {
+          timedOut = true;
+          kill();
+        }, timeoutMs);
+        const onAbort = () => {
+          aborted = true;
+          kill();
+        };
+        spec.signal?.addEventListener("abort", onAbort, { once: true });
+        if (spec.signal?.aborted) onAbort();
+
+        for (const stream of ["stdout", "stderr"] as const) {
+          child[stream]?.on("data", (data: Buffer) => {
+            const chunk = data.toString();
+            output[stream] += chunk;
+            if (output[stream].length > maxOutput) {
+              output[stream] = output[stream].slice(-maxOutput);
+              truncated = true;
+            }
+            try {
+              spec.onOutput?.(stream, chunk);
+            } catch (err) {
+              console.warn("[Sandbox] output listener error", err);
+            }
+          });
+        }
+
+        const done = () => {
+          clearTimeout(timer);
+          spec.signal?.removeEventListener("abort", onAbort);
+        };
+        child.on("error", (err) => {
+          done();
+          reject(err);
+        });
+        child.on("close", (code, signal) => {
+          closed = true;
+          done();
+          resolve({
+            command,
+            args,
+            cwd: cwdRel,
+            exitCode: code,
+            signal: signal ?? null,
+            stdout: output.stdout,
+            stderr: output.stderr,
+            truncated,
+            timedOut,
+            aborted,
+            durationMs: Date.now() - started,
+            isolation,
+            network: network || isolation === "none",
+            limits: prlimit ? limits : UNLIMITED,
+          });
+        });
+      });
+    } finally {
+      await fs.rm(home, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+
+  private environment(home: string, extra: Record<string, string> = {}) {
+    const env: NodeJS.ProcessEnv = {
+      PATH: process.env.PATH || "/usr/local/bin:/usr/bin:/bin",
+      HOME: home,
+      TMPDIR: os.tmpdir(),
+      LANG: process.env.LANG || "C.UTF-8",
+      TERM: "dumb",
+      CI: "1",
+      npm_config_update_notifier: "false",
+    };
+    const passthrough = (process.env.SANDBOX_ENV_PASSTHROUGH || "")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean);
+    for (const name of passthrough) {
+      if (process.env[name] !== undefined) env[name] = process.env[name];
+    }
+    for (const [name, value] of Object.entries(extra)) {
+      if (name === "PATH" || name === "HOME") continue;
+      env[name] = String(value);
+    }
+    return env;
+  }
+
+  private async isolationArgs(
+    isolation: SandboxIsolation,
+    { root, cwd, home, network }: { root: string; cwd: string; home: string; network: boolean }
+  ) {
+    if (isolation === "unshare") {
+      return network ? [] : ["unshare", "--net", "--map-root-user", "--"];
+    }
+    if (isolation !== "bwrap") return [];
+
+    const underSystem = (dir: string) => SYSTEM_PATHS.some((p) => isInside(p, dir));
+    // node and npm may be installed outside the system paths (nvm, volta)
+    const nodePrefix = path.dirname(path.dirname(process.execPath));
+    // the server's .env and keys and its data stay out of sight, unless
+    // they lie in the workspace itself
+    const hidden: string[] = [];
+    const dataDirs = DATA_DIR_VARS.map((name) => process.env[name])
+      .filter((dir): dir is string => Boolean(dir))
+      .map((dir) => path.resolve(dir));
+    for (const dir of [process.cwd(), os.homedir(), ...dataDirs]) {
+      if (!underSystem(dir) && !isInside(nodePrefix, dir)) continue;
+      if (isInside(root, dir)) continue;
+      if (await fs.stat(dir).then((s) => s.isDirectory(), () => false)) hidden.push(dir);
+    }
+
+    return [
+      "bwrap",
+      "--die-with-parent",
+      "--new-session",
+      "--unshare-pid",
+      "--unshare-ipc",
+      "--unshare-uts",
+      ...(network ? [] : ["--unshare-net"]),
+      ...SYSTEM_PATHS.flatMap((p) => ["--ro-bind-try", p, p]),
+      ...(underSystem(nodePrefix) ? [] : ["--ro-bind", nodePrefix, nodePrefix]),
+      ...hidden.flatMap((dir) => ["--tmpfs", dir]),
+      "--dev", "/dev",
+      "--proc", "/proc",
+      "--tmpfs", os.tmpdir(),
+      "--bind", root, root,
+      "--bind", home, home,
+      "--chdir", cwd,
+      "--",
+    ];
+  }
+
+  private prlimitArgs(limits: SandboxLimits) {
+    const mb = 1024 * 1024;
+    const args = ["prlimit"];
+    if (limits.cpuSeconds) args.push(`--cpu=${limits.cpuSeconds}`);
+    if (limits.memoryMb) args.push(`--data=${limits.memoryMb * mb}`);
+    if (limits.processes) args.push(`--nproc=${limits.processes}`);
+    if (limits.fileSizeMb) args.push(`--fsize=${limits.fileSizeMb * mb}`);
+    if (limits.openFiles) args.push(`--nofile=${limits.openFiles}`);
+    args.push("--");
+    return args;
+  }
+
+  private async probe(): Promise<{ isolation: SandboxIsolation; prlimit: boolean }> {
+    const mode = isolationMode();
+    const prlimit = Boolean(await findExecutable("prlimit"));
+    if (!prlimit) console.warn("[Sandbox] prlimit not found; commands run without resource limits");
+    if (mode === "off") return { isolation: "none", prlimit };
+
+    const bwrap =
+      (await findExecutable("bwrap")) &&
+      (await succeeds("bwrap", ["--ro-bind", "/", "/", "--unshare-net", "--", "true"]));
+    if (bwrap) return { isolation: "bwrap", prlimit };
+    if (mode !== "network-only") {
+      this.warn("bubblewrap unavailable; commands are refused (see SANDBOX_ISOLATION)");
+      return { isolation: "none", prlimit };
+    }
+
+    const unshare =
+      (await findExecutable("unshare")) &&
+      (await succeeds("unshare", ["--net", "--map-root-user", "--", "true"]));
+    if (!unshare) {
+      this.warn("bubblewrap and unshare unavailable; commands are refused (see SANDBOX_ISOLATION)");
+      return { isolation: "none", prlimit };
+    }
+    this.warn("bubblewrap unavailable; commands have no network but can read and write outside their workspace");
+    return { isolation: "unshare", prlimit };
+  }
+
+  private warn(message: string) {
+    if (this.warned) return;
+    this.warned = true;
+    console.warn(`[Sandbox] ${message}`);
+  }
+}
+
+function isolationMode() {
+  return (process.env.SANDBOX_ISOLATION || "auto").toLowerCase();
+}
+
+async function findExecutable(name: string) {
+  for (const dir of (process.env.PATH || "").split(path.delimiter)) {
+    if (!dir) continue;
+    const candidate = path.join(dir, name);
+    const ok = await fs.access(candidate, fsConstants.X_OK).then(() => true, () => false);
+    if (ok) return candidate;
+  }
+  return null;
+}
+
+function succeeds(file: string, args: string[]) {
+  return new Promise<boolean>((resolve) => {
+    execFile(file, args, { timeout: 5000 }, (err) => resolve(!err));
+  });
+}
+
+const sandbox = new Sandbox();
+
+export default sandbox;
@@ -0,0 +1,94 @@
+// src/sandbox/sandbox.types.ts
+
+/** Per-process limits set with prlimit; 0 leaves a limit unset. */
+export interface SandboxLimits {
+  cpuSeconds: number;
+  memoryMb: number; // data segment (heap) size
+  processes: number;
+  fileSizeMb: number; // largest file the command may write
+  openFiles: number;
+}
+
+/**
+ * How commands are isolated:
+ * - "bwrap": bubblewrap; read-only system directories and nothing else
+ *   outside the workspace, private /tmp, own pid namespace, no network
+ *   unless allowed;
+ * - "unshare": SANDBOX_ISOLATION=network-only without bubblewrap; no network
+ *   (own network namespace), but the filesystem is not isolated;
+ * - "none": scrubbed environment and limits only; commands are refused
+ *   unless SANDBOX_ISOLATION=off.
+ */
+export type SandboxIsolation = "bwrap" | "unshare" | "none";
+
+export type OutputStream = "stdout" | "stderr";
+export type OutputListener = (stream: OutputStream, chunk: string) => void;
+
+export interface SandboxCommand {
+  // workspace root: the working directory tree and the only writable path
+  root: string;
+  command: string;
+  // without args, `command` is split like a shell word list (no operators)
+  args?: string[];
+  cwd?: string; // relative to root
+  // added to the scrubbed environment
+  env?: Record<string, string>;
+  timeoutMs?: number;
+  limits?: Partial<SandboxLimits>;
+  // allow network access (default false)
+  network?: boolean;
+  // kills the command; the result is marked aborted
+  signal?: AbortSignal;
+  // stdout / stderr each keep their last this many characters
+  maxOutputChars?: number;
+  onOutput?: OutputListener;
+}
+
+export interface SandboxResult {
+  command: string;
+  args: string[];
+  cwd: string; // relative to root, "" for the root
+  exitCode: number | null;
+  // signal that ended the process, e.g. SIGKILL after the timeout
+  signal: string | null;
+  stdout: string;
+  stderr: string;
+  truncated: boolean;
+  timedOut: boolean;
+  aborted: boolean;
+  durationMs: number;
+  isolation: SandboxIsolation;
+  network: boolean;
+  limits: SandboxLimits;
+}
+
+/** A command to check against the command policy (see sandbox.policy). */
+export interface CommandRequest {
+  // workspace whose project policy applies; without it the global one
+  projectId?: string;
+  command: string;
+  args?: string[];
+  cwd?: string;
+  timeoutMs?: number;
+}
+
+export interface CommandDecision {
+  allowed: boolean;
+  command: string;
+  args: string[];
+  cwd: string; // relative to the workspace root
+  // which policy decided: "builtin", "global", "project:<id>" (+ "global")
+  policy: string;
+  // the part of it that decided, e.g. "commands.npm.subcommands"
+  rule: string;
+  reason: string;
+  // what would be allowed instead
+  hint?: string;
+  // what the command runs with when allowed
+  limits: {
+    timeoutMs: number;
+    maxOutputChars: number;
+    network: boolean;
+    memoryMb?: number;
+  };
+}
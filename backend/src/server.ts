@@ -9,14 +9,19 @@ import { main } from "tcp/uses";
 import { loadRoutes } from "utils/loadRoutes";
 import { KafkaManager } from "./kafka/kafkaManager";
 import { SocketManager } from "./socket/socketManager";
+import { McpServer } from "./mcp/mcp.server";
+import { StreamableHttpTransport } from "./mcp/transports/streamableHttp.transport";
+import { registerBuilderTool } from "./mcp/tools/builder.tool";
 
 const app = express();
 const server = http.createServer(app);
 
-app.use(
-  cors({
-    origin: "*",
-  })
+// /mcp answers CORS itself, for its allowed origins only
+const corsAnyOrigin = cors({
+  origin: "*",
+});
+app.use((req, res, next) =>
+  req.path === "/mcp" || req.path.startsWith("/mcp/") ? next() : corsAnyOrigin(req, res, next)
 );
 
 // JSON middleware (move earlier)
@@ -39,6 +44,17 @@ const socketManager = new SocketManager(server, kafkaManager, {
 import { setupEditorSocketHandlers } from './socket/editorSocketHandlers';
 setupEditorSocketHandlers(socketManager.io);
 
+// Job queue over Socket.IO (enqueue, list, get, tail, cancel)
+import { setupJobSocketHandlers } from "./socket/jobSocketHandlers";
+setupJobSocketHandlers(socketManager.io);
+
+// MCP Streamable HTTP endpoint (same tool set as `npm run mcp:stdio`);
+// bearer token MCP_HTTP_TOKEN, browser origins MCP_ALLOWED_ORIGINS
+const mcpServer = new McpServer();
+registerBuilderTool(mcpServer);
+const mcpTransport = new StreamableHttpTransport(mcpServer);
+app.use("/mcp", mcpTransport.router());
+
 const PORT = process.env.SERVER_PORT || 5001;
 
 async function start() {
@@ -74,6 +90,8 @@ async function start() {
 
     const shutdown = async () => {
       console.log("Shutting down...");
+      mcpTransport.close();
+      mcpServer.close();
       try {
         await socketManager.close();
       } catch (e) {
@@ -22,7 +22,7 @@ export function setupEditorSocketHandlers(io: IOServer) {
         const result = await aiGenerator.generateComponent({
           prompt: message,
           selectedComponents: context?.components || [],
-          useOpenAI: false, // Use Anthropic by default
+          provider: data.provider, // defaults to LLM_PROVIDER_EDITOR / Anthropic
         });
 
         // Send generated code back to client
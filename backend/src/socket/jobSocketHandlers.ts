@@ -0,0 +1,89 @@
+// Socket API of the job queue (same operations as /api/v1/jobs). Every
+// request takes an optional ack callback answered with { ok, ... }.
+// Tailing joins the room job:<id>: the ack carries the log so far, later
+// lines arrive as `job:log` and status changes as `job:updated`.
+// Attaching streams the output terminal-style as run:* events (see
+// jobs/jobs.stream), replaying from `from` after a reconnect.
+import { Server as IOServer, Socket } from "socket.io";
+import { ZodError } from "zod";
+import jobQueue from "../jobs/jobs.queue";
+import runStreams from "../jobs/jobs.stream";
+import { CommandPolicyError } from "../sandbox/sandbox.policy";
+import { EnqueueJobSchema } from "../main/jobs/schemas/jobs.schemas";
+
+type Ack = (response: any) => void;
+
+function handle(socket: Socket, event: string, fn: (data: any) => Promise<any>) {
+  socket.on(event, async (data: any, ack?: Ack) => {
+    const reply = typeof ack === "function" ? ack : () => {};
+    try {
+      reply({ ok: true, ...(await fn(data ?? {})) });
+    } catch (err: any) {
+      const expected = ["JobNotFoundError", "JobError", "CommandPolicyError"];
+      if (!(err instanceof ZodError) && !expected.includes(err?.name)) {
+        console.error(`[JobSocket] ${event} error:`, err);
+      }
+      reply({
+        ok: false,
+        error: err instanceof ZodError ? "Invalid request" : err?.message ?? String(err),
+        ...(err instanceof ZodError ? { issues: err.issues } : {}),
+        ...(err instanceof CommandPolicyError ? { decision: err.decision } : {}),
+      });
+    }
+  });
+}
+
+export function setupJobSocketHandlers(io: IOServer) {
+  io.on("connection", (socket: Socket) => {
+    handle(socket, "job:enqueue", async (data) => {
+      const body = EnqueueJobSchema.parse(data);
+      const job = await jobQueue.enqueue({
+        ...body,
+        requestedBy: body.requestedBy ?? `socket:${socket.id}`,
+      });
+      socket.join(`job:${job.id}`);
+      return { job };
+    });
+
+    handle(socket, "job:list", async (data) => ({
+      jobs: await jobQueue.list(
+        { projectId: data.projectId, type: data.type, status: data.status },
+        Math.min(Math.max(Number(data.limit) || 100, 1), 1000)
+      ),
+    }));
+
+    handle(socket, "job:get", async (data) => ({ job: await jobQueue.get(String(data.jobId)) }));
+
+    handle(socket, "job:tail", async (data) => {
+      const jobId = String(data.jobId);
+      const from = Math.max(Number(data.from) || 0, 0);
+      // join first so no line falls between the read and the live events
+      socket.join(`job:${jobId}`);
+      return jobQueue.logs(jobId, from, 10000);
+    });
+
+    handle(socket, "job:untail", async (data) => {
+      socket.leave(`job:${String(data.jobId)}`);
+      return {};
+    });
+
+    handle(socket, "run:attach", async (data) => ({
+      job: await runStreams.attach(
+        String(data.jobId),
+        socket.id,
+        Math.max(Number(data.from) || 0, 0)
+      ),
+    }));
+
+    handle(socket, "run:detach", async (data) => {
+      runStreams.detach(String(data.jobId), socket.id);
+      return {};
+    });
+
+    socket.on("disconnect", () => runStreams.detachSocket(socket.id));
+
+    handle(socket, "job:cancel", async (data) => ({
+      job: await jobQueue.cancel(String(data.jobId), data.cancelledBy ?? `socket:${socket.id}`),
+    }));
+  });
+}
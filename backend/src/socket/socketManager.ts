@@ -1,6 +1,7 @@
 import { Server as HttpServer } from "http";
 import { Server as IOServer } from "socket.io";
 import { KafkaManager } from "../kafka/kafkaManager";
+import generationRegistry from "../llm/generation.registry";
 
 export type SocketEventPayload = {
   event: string;
@@ -84,6 +85,15 @@ export class SocketManager {
         }
       });
 
+      // cancel a running generation started by this socket; the owning
+      // request answers with `ai:aborted` once it has stopped
+      socket.on("ai:abort", (data: { id?: string }) => {
+        const id = String(data?.id ?? "");
+        if (!generationRegistry.abort(id, socket.id)) {
+          socket.emit("ai:aborted", { id, found: false });
+        }
+      });
+
       // Editor-specific events
       socket.on('editor:chat_message', async (data: any) => {
         try {
@@ -1,29 +1,90 @@
 // src/utils/aiClient.ts
 import { PROJECT_TOOLS } from "main/chats/schemas/ai/code.bulder";
-import { OpenAI } from "openai";
-const apiKey = process.env.OPENAI_API_KEY;
-if (!apiKey) throw new Error("Missing OPENAI_API_KEY");
-const client = new OpenAI({ apiKey });
+import llmRegistry from "llm/llm.registry";
+import {
+  toChatCompletion,
+  toLlmMessages,
+  toLlmTools,
+} from "llm/llm.messages";
+import { LlmCallOptions } from "llm/llm.types";
+import contextManager, {
+  ContextOptions,
+  defaultContextMode,
+} from "llm/context.manager";
+import {
+  ToolCallResult,
+  ToolSchemas,
+  ToolValidationError,
+  callWithToolRepair,
+} from "llm/tool.validation";
+
+export interface ValidatedCallOptions extends LlmCallOptions {
+  // zod schemas that replace the JSON schema check of the named functions
+  toolSchemas?: ToolSchemas;
+  // with forceText: the function whose arguments the JSON answer stands for
+  // (defaults to the first one)
+  textTool?: string;
+}
 
 /**
  * callModelWithFunctions wrapper.
- * If forceText true -> set function_call: "none" so model must return text.
+ * If forceText true -> tool choice "none" so model must return text.
+ * The provider comes from options.provider, LLM_PROVIDER_<FEATURE> or
+ * LLM_PROVIDER; the result keeps the chat-completion shape
+ * (choices[0].message.function_call) whatever the provider.
  */
 export async function callModelWithFunctions(
   messages: any[],
   functions: any[],
   maxTokens = 32768,
-  forceText = false
+  forceText = false,
+  options: LlmCallOptions = {}
 ) {
-  return await client.chat.completions.create({
-    model: process.env.OPENAI_MODEL || "gpt-4.1-2025-04-14",
-    messages,
-    functions: functions as any,
-    function_call: forceText ? "none" : "auto",
-    max_tokens: maxTokens,
+  const llm = llmRegistry.get(options.feature ?? "chat", options.provider);
+  const response = await llm.chat({
+    model: options.model,
+    messages: toLlmMessages(messages),
+    tools: toLlmTools(functions),
+    toolChoice: forceText ? "none" : "auto",
+    maxTokens,
     temperature: 0.0,
-    stream: false,
+    signal: options.signal,
   });
+  return toChatCompletion(response);
+}
+
+/**
+ * callModelWithFunctions with the function call validated against its schema
+ * (repair turns included, see llm/tool.validation). With forceText the JSON
+ * text answer is validated as the arguments of `options.textTool`. Throws
+ * ToolValidationError when the model never produces valid arguments.
+ */
+export async function callModelWithValidatedFunctions<T = any>(
+  messages: any[],
+  functions: any[],
+  maxTokens = 32768,
+  forceText = false,
+  options: ValidatedCallOptions = {}
+): Promise<ToolCallResult<T> & { completion: ReturnType<typeof toChatCompletion> }> {
+  const llm = llmRegistry.get(options.feature ?? "chat", options.provider);
+  const tools = toLlmTools(functions);
+  const result = await callWithToolRepair<T>(
+    llm,
+    {
+      model: options.model,
+      messages: toLlmMessages(messages),
+      tools,
+      toolChoice: forceText ? "none" : "auto",
+      maxTokens,
+      temperature: 0.0,
+      signal: options.signal,
+    },
+    {
+      schemas: options.toolSchemas,
+      textTool: forceText ? options.textTool ?? tools[0]?.name : undefined,
+    }
+  );
+  return { ...result, completion: toChatCompletion(result.response) };
 }
 
 type ChatMsg = {
@@ -51,16 +112,24 @@ function splitStringPreserveWords(s: string, size: number): string[] {
 }
 
 /**
- * callModelWithToolsStream with message-chunking.
+ * callModelWithToolsStream: one streamed call with the function call.
  *
  * @param messages conversation messages (include system messages)
  * @param maxTokens model max tokens
  * @param tools tools / functions array
  * @param socketId optional socket id to emit chunk events (uses global __expressIoInstance)
  * @param eventPrefix event prefix for socket emits (defaults "ai")
- * @param requireAcknowledgement wait for ack after each chunk before sending next (default true)
- * @param chunkMessages whether to chunk large messages (default true)
- * @param chunkSize chunk size in characters (default 3000)
+ * @param requireAcknowledgement chunked mode: wait for ack after each chunk before sending next (default true)
+ * @param chunkMessages chunked mode: whether to chunk large messages (default true)
+ * @param chunkSize chunked mode: chunk size in characters (default 3000)
+ * @param options provider / feature / model selection, zod schemas for the
+ *   tools, the project snapshot and the context mode
+ *
+ * The messages and snapshot are packed into the model's context window (see
+ * llm/context.manager) and sent as a single call; contextMode "chunked"
+ * restores the chunk-and-acknowledge sequence. The final function call is
+ * validated with repair turns; a call that stays invalid throws
+ * ToolValidationError instead of falling back to defaults.
  */
 export async function callModelWithToolsStream(
   messages: any[],
@@ -70,8 +139,13 @@ export async function callModelWithToolsStream(
   eventPrefix = "ai",
   requireAcknowledgement = true,
   chunkMessages = true,
-  chunkSize = 3000
+  chunkSize = 3000,
+  options: ValidatedCallOptions & ContextOptions = {}
 ) {
+  const llm = llmRegistry.get(options.feature ?? "chat", options.provider);
+  const llmTools = toLlmTools(tools);
+  const chunked = (options.contextMode ?? defaultContextMode()) === "chunked";
+
   // helper: socket emit
   function emit(event: string, payload: any) {
     try {
@@ -88,18 +162,29 @@ export async function callModelWithToolsStream(
   const ackRegex =
     /\b(?:understand|understood|acknowledge|acknowledged|got it|i understand|ready to proceed|ready to continue|will proceed|proceeding)\b/i;
 
-  // 1) Separate system messages (always included) and other messages (subject to chunking)
-  const systemMessages: ChatMsg[] = messages.filter(
-    (m: any) => m.role === "system"
-  );
-  const otherMessages: ChatMsg[] = messages
-    .filter((m: any) => m.role !== "system")
-    .map((m: any) => ({ role: m.role, content: String(m.content ?? "") }));
+  // 1) Fit messages and snapshot into the window
+  const input: ChatMsg[] = messages.map((m: any) => ({
+    role: m.role,
+    content: String(m.content ?? ""),
+  }));
+  const { messages: packed, report } = contextManager.pack({
+    model: options.model || llm.defaultModel,
+    messages: input,
+    maxOutputTokens: maxTokens,
+    tools: llmTools,
+    snapshot: options.snapshot,
+    focus: options.snapshotFocus ?? lastUserContent(input),
+  });
+  emit("context", report);
 
-  // 2) Expand otherMessages into `expandedMessages` by splitting any long content
+  // 2) Separate system messages (always included) and other messages (subject to chunking)
+  const systemMessages = packed.filter((m) => m.role === "system");
+  const otherMessages = packed.filter((m) => m.role !== "system");
+
+  // 3) Chunked mode: expand otherMessages by splitting any long content
   const expandedMessages: ChatMsg[] = [];
   for (const m of otherMessages) {
-    if (chunkMessages && m.content.length > chunkSize) {
+    if (chunked && chunkMessages && m.content.length > chunkSize) {
       const parts = splitStringPreserveWords(m.content, chunkSize);
       parts.forEach((part, idx) => {
         // keep the same role; annotate chunk index for clarity
@@ -111,14 +196,12 @@ export async function callModelWithToolsStream(
     }
   }
 
-  // 3) If no chunking needed or only small messages, we will still follow the final-call path.
-  // Prepare to send chunk-by-chunk: for each expanded message, send conversation upto that message and wait for ack.
   let accumulatedFullMessage = "";
   let finalToolCallName = "";
   let finalToolCallArgsBuffer = "";
 
-  // chunk-phase: send each expanded message one-by-one to the model (text-only)
-  for (let i = 0; i < expandedMessages.length; i++) {
+  // chunk-phase (chunked mode only): send each expanded message one-by-one to the model (text-only)
+  for (let i = 0; chunked && i < expandedMessages.length; i++) {
     const msgsSoFar: ChatMsg[] = [
       ...systemMessages,
       // include the expanded messages up to index i (so model sees all prior chunks as context)
@@ -126,268 +209,133 @@ export async function callModelWithToolsStream(
     ];
 
     // stream this chunk and wait for acknowledgement
-    const stream = await client.chat.completions.create({
-      model: process.env.OPENAI_MODEL || "gpt-4.1-2025-04-14",
-      messages: msgsSoFar as any,
+    const stream = llm.stream({
+      model: options.model,
+      messages: toLlmMessages(msgsSoFar),
       // during chunking we force text only to get acknowledgement
-      // note: don't pass tools here to prevent premature function calls
-      max_tokens: Math.min(2048, maxTokens),
+      tools: llmTools,
+      toolChoice: "none",
+      maxTokens: Math.min(2048, maxTokens),
       temperature: 0.0,
-      stream: true,
-      tools: tools as unknown as any,
+      signal: options.signal,
     });
 
-    try {
-      // parse streaming chunk for this partial message
-      let chunkFull = "";
-      for await (const c of stream as any) {
-        const choice = c.choices?.[0] ?? {};
-        const delta = choice.delta ?? {};
-
-        if (typeof delta.content === "string") {
-          chunkFull += delta.content;
-          emit("chunk", {
-            type: "text",
-            text: delta.content,
-            index: i,
-            total: expandedMessages.length,
-          });
-        } else if (Array.isArray(delta.content)) {
-          for (const block of delta.content) {
-            if (
-              block?.type === "output_text" &&
-              typeof block.text === "string"
-            ) {
-              chunkFull += block.text;
-              emit("chunk", {
-                type: "text",
-                text: block.text,
-                index: i,
-                total: expandedMessages.length,
-              });
-            }
-          }
-        }
-
-        // detect ack in this chunk's cumulative text
-        if (!acknowledged && ackRegex.test(chunkFull)) {
-          acknowledged = true;
-          emit("ack", {
-            index: i,
-            total: expandedMessages.length,
-            matched: chunkFull.match(ackRegex)?.[0] ?? null,
-          });
-        }
+    // parse streaming chunk for this partial message
+    let chunkFull = "";
+    for await (const event of stream) {
+      if (event.type === "text") {
+        chunkFull += event.text;
+        emit("chunk", {
+          type: "text",
+          text: event.text,
+          index: i,
+          total: expandedMessages.length,
+        });
       }
 
-      // append chunk-level full message to accumulatedFullMessage for debugging/logging
-      accumulatedFullMessage +=
-        `\n[chunk ${i + 1}/${expandedMessages.length} reply]:\n` + chunkFull;
-
-      // if ack required but not seen yet, check the chunkFull too
-      if (requireAcknowledgement && !acknowledged) {
-        // allow some leniency: check aggregated accumulatedFullMessage
-        if (ackRegex.test(accumulatedFullMessage)) {
-          acknowledged = true;
-          emit("ack", {
-            index: i,
-            total: expandedMessages.length,
-            matched: (accumulatedFullMessage.match(ackRegex) || [null])[0],
-          });
-        }
+      // detect ack in this chunk's cumulative text
+      if (!acknowledged && ackRegex.test(chunkFull)) {
+        acknowledged = true;
+        emit("ack", {
+          index: i,
+          total: expandedMessages.length,
+          matched: chunkFull.match(ackRegex)?.[0] ?? null,
+        });
       }
+    }
 
-      // If acknowledgement is required and still not observed, we retry a limited amount: emit warning then continue
-      if (requireAcknowledgement && !acknowledged) {
-        emit("warning", {
-          message: `No acknowledgement for chunk ${i + 1}/${
-            expandedMessages.length
-          }. Proceeding to next chunk anyway after buffer.`,
+    // append chunk-level full message to accumulatedFullMessage for debugging/logging
+    accumulatedFullMessage +=
+      `\n[chunk ${i + 1}/${expandedMessages.length} reply]:\n` + chunkFull;
+
+    // if ack required but not seen yet, check the chunkFull too
+    if (requireAcknowledgement && !acknowledged) {
+      // allow some leniency: check aggregated accumulatedFullMessage
+      if (ackRegex.test(accumulatedFullMessage)) {
+        acknowledged = true;
+        emit("ack", {
+          index: i,
+          total: expandedMessages.length,
+          matched: (accumulatedFullMessage.match(ackRegex) || [null])[0],
         });
-        // we still continue; model may ack later or we'll rely on final ack rules
       }
-    } finally {
-      try {
-        if (typeof (stream as any).return === "function")
-          await (stream as any).return();
-      } catch {}
+    }
+
+    // If acknowledgement is required and still not observed, we retry a limited amount: emit warning then continue
+    if (requireAcknowledgement && !acknowledged) {
+      emit("warning", {
+        message: `No acknowledgement for chunk ${i + 1}/${
+          expandedMessages.length
+        }. Proceeding to next chunk anyway after buffer.`,
+      });
+      // we still continue; model may ack later or we'll rely on final ack rules
     }
   } // end chunk-phase
 
   // 4) Final call: send the full expanded conversation and allow tools/function calls (final step)
   const finalMessages = [...systemMessages, ...expandedMessages];
 
-  // Optional: append an explicit finalizing user message to signal "now produce the function call"
-  finalMessages.push({
-    role: "user",
-    content:
-      "END_OF_CHUNKS: You have now received all chunks. Please perform the requested action and produce the function call with valid JSON arguments.",
-  });
-
-  // Now call the model with tools enabled and streaming to capture the function call
-  const finalStream = await client.chat.completions.create({
-    model: process.env.OPENAI_MODEL || "gpt-4.1-2025-04-14",
-    messages: finalMessages as any,
-    tools: tools as unknown as any,
-    max_tokens: maxTokens,
-    temperature: 0.0,
-    stream: true,
-    // allow function calls automatically
-    // note: some SDKs use `function_call` key; omit to let model choose
-  });
-
-  let finalFullMessage = "";
-  let toolCallName = "";
-  let toolCallArgsBuffer = "";
-
-  try {
-    for await (const chunk of finalStream as any) {
-      const choice = chunk.choices?.[0] ?? {};
-      const delta = choice.delta ?? {};
+  // Chunked mode: append an explicit finalizing user message to signal "now produce the function call"
+  if (chunked) {
+    finalMessages.push({
+      role: "user",
+      content:
+        "END_OF_CHUNKS: You have now received all chunks. Please perform the requested action and produce the function call with valid JSON arguments.",
+    });
+  }
 
-      // accumulate plain text
-      if (typeof delta.content === "string") {
-        finalFullMessage += delta.content;
-        emit("chunk", { type: "text", text: delta.content, final: true });
-      } else if (Array.isArray(delta.content)) {
-        for (const block of delta.content) {
-          if (block?.type === "output_text" && typeof block.text === "string") {
-            finalFullMessage += block.text;
-            emit("chunk", { type: "text", text: block.text, final: true });
-          }
+  // Stream the final call; the function call must match its schema and gets
+  // repair turns when it does not (an invalid call throws ToolValidationError)
+  const result = await callWithToolRepair(
+    llm,
+    {
+      model: options.model,
+      messages: toLlmMessages(finalMessages),
+      tools: llmTools,
+      toolChoice: "auto",
+      maxTokens,
+      temperature: 0.0,
+      signal: options.signal,
+    },
+    {
+      schemas: options.toolSchemas,
+      stream: true,
+      onEvent: (event) => {
+        if (event.type === "text") {
+          emit("chunk", { type: "text", text: event.text, final: true });
         }
-      }
-
-      // tool_calls style (array)
-      if (Array.isArray(delta.tool_calls)) {
-        for (const toolCallDelta of delta.tool_calls as any[]) {
-          if (toolCallDelta?.index !== 0) continue;
-          const fn =
-            toolCallDelta.function ?? toolCallDelta.tool ?? toolCallDelta;
-          if (!toolCallName && typeof fn?.name === "string") {
-            toolCallName = fn.name;
-            emit("tool_name", { name: toolCallName });
-          }
-
-          if (typeof fn?.arguments === "string") {
-            toolCallArgsBuffer += fn.arguments;
-            emit("tool_args", { argsChunk: fn.arguments });
-          } else if (Array.isArray(fn?.arguments)) {
-            for (const a of fn.arguments) {
-              if (a?.type === "output_text" && typeof a.text === "string") {
-                toolCallArgsBuffer += a.text;
-                emit("tool_args", { argsChunk: a.text });
-              }
-            }
-          }
-
-          if (typeof toolCallDelta.arguments === "string") {
-            toolCallArgsBuffer += toolCallDelta.arguments;
-            emit("tool_args", { argsChunk: toolCallDelta.arguments });
-          } else if (Array.isArray(toolCallDelta.arguments)) {
-            for (const a of toolCallDelta.arguments) {
-              if (a?.type === "output_text" && typeof a.text === "string") {
-                toolCallArgsBuffer += a.text;
-                emit("tool_args", { argsChunk: a.text });
-              }
-            }
-          }
+        // only the first tool call is used
+        if (event.type === "tool_call_start" && event.index === 0) {
+          emit("tool_name", { name: event.name });
         }
-      }
-
-      // single-tool variant
-      if (!toolCallArgsBuffer && delta.tool_call) {
-        const single = delta.tool_call;
-        if (typeof single.arguments === "string") {
-          toolCallArgsBuffer += single.arguments;
-          emit("tool_args", { argsChunk: single.arguments });
-        } else if (Array.isArray(single.arguments)) {
-          for (const a of single.arguments) {
-            if (a?.type === "output_text" && typeof a.text === "string") {
-              toolCallArgsBuffer += a.text;
-              emit("tool_args", { argsChunk: a.text });
-            }
-          }
+        if (event.type === "tool_call_delta" && event.index === 0) {
+          emit("tool_args", { argsChunk: event.argumentsDelta });
         }
-        if (!toolCallName && typeof single.name === "string") {
-          toolCallName = single.name;
-          emit("tool_name", { name: toolCallName });
-        }
-      }
-
-      // if final ack / done possible
-      if (acknowledged && toolCallName && toolCallArgsBuffer) {
-        emit("done", {
-          toolCallName,
-          toolCallArgsBuffer,
-          fullMessage: finalFullMessage,
-        });
-      }
+      },
+      onRepair: (repair) => emit("tool_repair", repair),
     }
-  } finally {
-    try {
-      if (typeof (finalStream as any).return === "function")
-        await (finalStream as any).return();
-    } catch {}
-  }
+  ).catch((err) => {
+    if (err instanceof ToolValidationError) {
+      emit("error", {
+        message: err.message,
+        tool: err.toolName,
+        issues: err.issues,
+      });
+    }
+    throw err;
+  });
 
-  // Normalise strings
-  const fullMessage = String(finalFullMessage ?? accumulatedFullMessage ?? "");
-  finalToolCallName = String(toolCallName ?? "");
-  finalToolCallArgsBuffer = String(toolCallArgsBuffer ?? "");
+  const fullMessage = result.response.text || accumulatedFullMessage;
+  finalToolCallName = result.call.name;
+  finalToolCallArgsBuffer = JSON.stringify(result.args);
 
-  // Post-stream safety checks, fallbacks & warnings (same logic as prior helper)
-  if (!finalToolCallName) {
-    const inferred =
-      /build_module_tree_from_prompt|emitFiles|emit_files|build_tree/i.exec(
-        fullMessage
-      );
-    finalToolCallName = inferred?.[0] ?? "unknown";
+  if (chunked && requireAcknowledgement && !acknowledged) {
     emit("warning", {
-      message: `No explicit tool call detected; inferred '${finalToolCallName}'`,
-      fullMessage,
+      message:
+        "No acknowledgement detected before final tool args — accepting validated args anyway.",
     });
   }
 
-  if (requireAcknowledgement && !acknowledged) {
-    if (finalToolCallArgsBuffer && finalToolCallArgsBuffer.trim().length > 0) {
-      emit("warning", {
-        message:
-          "No acknowledgement detected before final tool args — accepting buffered args anyway.",
-      });
-    } else {
-      if (/emitfiles|emit_files|emitFiles/i.test(finalToolCallName)) {
-        finalToolCallArgsBuffer = JSON.stringify({ operations: [] });
-        emit("warning", {
-          message: "No args detected; defaulting to empty operations.",
-        });
-      } else {
-        finalToolCallArgsBuffer = JSON.stringify({
-          id: "root",
-          name: "Root Module",
-          description: "Fallback root module (no output from model).",
-          children: [],
-        });
-        emit("warning", {
-          message: "No args detected; defaulting to fallback module tree.",
-        });
-      }
-    }
-  }
-
-  if (!finalToolCallArgsBuffer || finalToolCallArgsBuffer.trim().length === 0) {
-    if (/emitfiles|emit_files|emitFiles/i.test(finalToolCallName)) {
-      finalToolCallArgsBuffer = JSON.stringify({ operations: [] });
-    } else {
-      finalToolCallArgsBuffer = JSON.stringify({
-        id: "root",
-        name: "Root Module",
-        description: "Fallback root module (empty buffer).",
-        children: [],
-      });
-    }
-  }
-
   // final done emit
   emit("done", {
     toolCallName: finalToolCallName,
@@ -411,7 +359,12 @@ export async function callModelWithToolsStream(
     fullMessage,
     toolCallName: finalToolCallName,
     toolCallArgsBuffer: finalToolCallArgsBuffer,
+    toolArgs: result.args,
     acknowledged,
+    context: report,
   };
 }
-//
+
+function lastUserContent(messages: ChatMsg[]) {
+  return [...messages].reverse().find((m) => m.role === "user")?.content ?? "";
+}
@@ -0,0 +1,262 @@
+// src/verify/verify.diagnostics.ts
+// Turns compiler, linter and test runner output into diagnostics. Each
+// parser knows one output format (tsc, eslint stylish, esbuild/vite,
+// jest/vitest failure blocks, node syntax errors); what none of them
+// recognises falls back to any "file:line:col" the output mentions.
+import path from "path";
+import { Diagnostic, VerifyStepKind } from "./verify.types";
+
+const MAX_DIAGNOSTICS = 50;
+const MAX_MESSAGE_CHARS = 800;
+// eslint-disable-next-line no-control-regex
+const ANSI = /\u001b\[[0-9;]*[A-Za-z]/g;
+const SOURCE_FILE = /\.(c|m)?(j|t)sx?$|\.(vue|svelte|json|css|scss|html)$/;
+
+interface ParseContext {
+  root: string;
+  // the step's working directory, relative to the root
+  cwd: string;
+  step: VerifyStepKind;
+}
+
+type Draft = Omit<Diagnostic, "step" | "file"> & { file?: string };
+
+/**
+ * Workspace-relative form of a path from the output (absolute, relative to
+ * the step's cwd, or a file:// URL); undefined for paths outside the
+ * workspace and for dependencies.
+ */
+export function workspaceFile(raw: string, root: string, cwd = "") {
+  const file = raw.trim().replace(/^file:\/\//, "").replace(/^\.\//, "");
+  // node:internal/..., http://...: not a file
+  if (!file || /^[a-z][\w+.-]*:/i.test(file)) return undefined;
+  const full = path.isAbsolute(file) ? path.normalize(file) : path.resolve(root, cwd, file);
+  const rel = path.relative(root, full).split(path.sep).join("/");
+  if (!rel || rel.startsWith("..") || path.isAbsolute(rel)) return undefined;
+  if (rel.split("/").includes("node_modules")) return undefined;
+  return rel;
+}
+
+function clip(message: string) {
+  const text = message.trim();
+  return text.length > MAX_MESSAGE_CHARS ? `${text.slice(0, MAX_MESSAGE_CHARS)}…` : text;
+}
+
+// a.ts(3,5): error TS2322: ... and a.ts:3:5 - error TS2322: ...
+function parseTsc(lines: string[]): Draft[] {
+  const out: Draft[] = [];
+  const patterns = [
+    /^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/,
+    /^(.+?):(\d+):(\d+) - (error|warning) (TS\d+): (.*)$/,
+  ];
+  for (let i = 0; i < lines.length; i++) {
+    for (const pattern of patterns) {
+      const m = lines[i].match(pattern);
+      if (!m) continue;
+      // the message goes on in indented lines
+      let message = m[6];
+      while (i + 1 < lines.length && /^\s{2,}\S/.test(lines[i + 1]) && !/^\s+\d+\s/.test(lines[i + 1])) {
+        message += `\n${lines[++i].trim()}`;
+      }
+      out.push({
+        file: m[1],
+        line: Number(m[2]),
+        column: Number(m[3]),
+        severity: m[4] as Draft["severity"],
+        code: m[5],
+        message,
+        source: "tsc",
+      });
+      break;
+    }
+  }
+  return out;
+}
+
+// eslint "stylish": the file on its own line, then "  3:5  error  message  rule"
+function parseEslint(lines: string[]): Draft[] {
+  const out: Draft[] = [];
+  let file: string | undefined;
+  for (const line of lines) {
+    if (/^\S.*\S$/.test(line) && SOURCE_FILE.test(line.trim()) && !/\s{2}/.test(line)) {
+      file = line.trim();
+      continue;
+    }
+    const m = line.match(/^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}(\S+))?\s*$/);
+    if (m && file) {
+      out.push({
+        file,
+        line: Number(m[1]),
+        column: Number(m[2]),
+        severity: m[3] as Draft["severity"],
+        message: m[4],
+        code: m[5],
+        source: "eslint",
+      });
+    } else if (!line.trim()) {
+      file = undefined;
+    }
+  }
+  return out;
+}
+
+// esbuild / vite: "✘ [ERROR] message" and, a few lines down, "    src/a.ts:3:4:"
+function parseEsbuild(lines: string[]): Draft[] {
+  const out: Draft[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const m = lines[i].match(/^\s*(?:✘|X) \[(ERROR|WARNING)\] (.*)$/);
+    if (!m) continue;
+    const draft: Draft = {
+      severity: m[1] === "ERROR" ? "error" : "warning",
+      message: m[2],
+      source: "esbuild",
+    };
+    for (let j = i + 1; j < Math.min(lines.length, i + 6); j++) {
+      const at = lines[j].match(/^\s+(\S+?):(\d+):(\d+):\s*$/);
+      if (at) {
+        Object.assign(draft, { file: at[1], line: Number(at[2]), column: Number(at[3]) });
+        break;
+      }
+    }
+    out.push(draft);
+  }
+  return out;
+}
+
+// stack frame "at fn (/abs/file.js:3:5)" or "at /abs/file.js:3:5" inside the workspace
+function workspaceFrame(lines: string[], context: ParseContext) {
+  for (const line of lines) {
+    const frame =
+      line.match(/\(([^()\s]+):(\d+):(\d+)\)\s*$/) ??
+      line.match(/^\s+(?:at|❯)\s+([^()\s]+):(\d+):(\d+)\s*$/);
+    if (frame && workspaceFile(frame[1], context.root, context.cwd)) {
+      return { file: frame[1], line: Number(frame[2]), column: Number(frame[3]) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * How node prints an uncaught error: "/abs/file.js:3" (or "node:assert:90"
+ * when thrown inside node), the source line, a caret, then "SyntaxError: ..."
+ * or "AssertionError [ERR_ASSERTION]: ..." and the stack.
+ */
+function parseNodeErrors(lines: string[], context: ParseContext): Draft[] {
+  const out: Draft[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const at = lines[i].match(/^(\S+?):(\d+)$/);
+    if (!at) continue;
+    for (let j = i + 1; j < Math.min(lines.length, i + 6); j++) {
+      const error = lines[j].match(/^(\w*Error)(?: \[\w+\])?: (.*)$/);
+      if (!error) continue;
+      const rest = lines.slice(j + 1, j + 30);
+      const stack = rest.findIndex((l) => /^\s+at\s/.test(l));
+      // e.g. the two values an assertion compared
+      const details = rest.slice(0, stack < 0 ? 6 : Math.min(stack, 6)).filter((l) => l.trim() && !/^Node\.js v/.test(l));
+      const location = workspaceFile(at[1], context.root, context.cwd)
+        ? { file: at[1], line: Number(at[2]) }
+        : workspaceFrame(rest, context);
+      out.push({
+        ...location,
+        severity: "error",
+        code: error[1],
+        message: [`${error[1]}: ${error[2]}`, ...details.map((l) => l.trim())].join("\n"),
+        source: "node",
+      });
+      i = j;
+      break;
+    }
+  }
+  return out;
+}
+
+/**
+ * jest ("● Suite › name") and vitest ("FAIL  file > suite > name") failure
+ * blocks: the title and the first lines of the message, pointed at the
+ * first stack frame inside the workspace.
+ */
+function parseTestFailures(lines: string[], context: ParseContext): Draft[] {
+  const out: Draft[] = [];
+  const starts: Array<{ index: number; title: string; source: string }> = [];
+  lines.forEach((line, index) => {
+    const jest = line.match(/^\s*● (.+)$/);
+    if (jest) {
+      starts.push({ index, title: jest[1].trim(), source: "jest" });
+      return;
+    }
+    const vitest = line.match(/^\s*(?:FAIL|×|✗)\s+(\S+\s+>\s+.+)$/);
+    if (vitest) starts.push({ index, title: vitest[1].trim(), source: "vitest" });
+  });
+
+  starts.forEach((start, n) => {
+    const end = n + 1 < starts.length ? starts[n + 1].index : lines.length;
+    const body = lines.slice(start.index + 1, end);
+    const message: string[] = [];
+    for (const line of body) {
+      if (/^\s+at\s|^\s*❯\s/.test(line)) break;
+      if (line.trim()) message.push(line.trim());
+      if (message.length >= 12) break;
+    }
+    out.push({
+      severity: "error",
+      message: [start.title, ...message].join("\n"),
+      source: start.source,
+      ...workspaceFrame(body, context),
+    });
+  });
+  return out;
+}
+
+// anything else that names a workspace file: "src/a.js:3:5: message"
+function parseLocations(lines: string[], context: ParseContext): Draft[] {
+  const out: Draft[] = [];
+  for (const line of lines) {
+    const m = line.match(/((?:\/|\.{0,2}\/?)[\w@.\-/]+\.\w+):(\d+)(?::(\d+))?:?\s*(?:-\s*)?(?:(error|warning)\b:?\s*)?(.*)$/);
+    if (!m || !workspaceFile(m[1], context.root, context.cwd)) continue;
+    out.push({
+      file: m[1],
+      line: Number(m[2]),
+      column: m[3] ? Number(m[3]) : undefined,
+      severity: m[4] === "warning" ? "warning" : "error",
+      message: m[5] || line.trim(),
+      source: "output",
+    });
+  }
+  return out;
+}
+
+/** Diagnostics in the output of a failed step, errors first, deduplicated and capped. */
+export function parseDiagnostics(output: string, context: ParseContext): Diagnostic[] {
+  const lines = output.replace(ANSI, "").replace(/\r\n?/g, "\n").split("\n");
+  const parsers = [parseTsc, parseEslint, parseEsbuild, parseNodeErrors, parseTestFailures];
+  let drafts = parsers.flatMap((parse) => parse(lines, context));
+  if (!drafts.length) drafts = parseLocations(lines, context);
+
+  const seen = new Set<string>();
+  const diagnostics: Diagnostic[] = [];
+  for (const draft of drafts) {
+    const file = draft.file ? workspaceFile(draft.file, context.root, context.cwd) : undefined;
+    // located in a dependency or outside the workspace: keep the message only
+    const diagnostic: Diagnostic = {
+      ...draft,
+      file,
+      line: file ? draft.line : undefined,
+      column: file ? draft.column : undefined,
+      message: clip(draft.message),
+      step: context.step,
+    };
+    const key = `${file}:${diagnostic.line}:${diagnostic.column}:${diagnostic.message}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    diagnostics.push(diagnostic);
+  }
+  return diagnostics
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1))
+    .slice(0, MAX_DIAGNOSTICS);
+}
+
+/** One line per diagnostic, as fed back to the model. */
+export function formatDiagnostic(d: Diagnostic) {
+  const where = d.file ? `${d.file}${d.line ? `:${d.line}${d.column ? `:${d.column}` : ""}` : ""}` : "(no file)";
+  return `${where} ${d.severity}${d.code ? ` ${d.code}` : ""} [${d.source}]: ${d.message}`;
+}
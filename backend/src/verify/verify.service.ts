@@ -0,0 +1,401 @@
+// src/verify/verify.service.ts
+// The verify stage of the builders: after files were emitted, run the
+// project's install/build/test/lint commands (see verify.stacks) as
+// "runCommand" jobs, so the command policy, the sandbox, job logs and the
+// run:* terminal stream all apply, and parse what failed into diagnostics.
+// repair() feeds the failing files and their diagnostics back to the model
+// for targeted patches and verifies again, until the project passes or
+// VERIFY_MAX_ROUNDS is used up. The patches are proposals: unless
+// PROPOSALS_AUTO_APPROVE is on, the loop stops for the user's review.
+import path from "path";
+import jobQueue from "jobs/jobs.queue";
+import runStreams from "jobs/jobs.stream";
+import { CommandPolicyError } from "sandbox/sandbox.policy";
+import workspaceRegistry from "workspace/workspace.registry";
+import { Workspace } from "workspace/workspace";
+import { WorkspaceOperation } from "workspace/workspace.types";
+import { modelAuthor } from "workspace/workspace.history";
+import proposalQueue, {
+  Proposal,
+  ProposalError,
+  proposalSummary,
+} from "workspace/workspace.proposals";
+import { throwIfAborted } from "llm/generation.registry";
+import { LlmMessage, LlmTool } from "llm/llm.types";
+import { ToolValidationError, callWithToolRepair } from "llm/tool.validation";
+import promptRegistry from "prompts/prompt.registry";
+import { EmitFilesToolSchema } from "main/chats/schemas/zod/chat.schemas";
+import { patchOperationProperties } from "main/chats/schemas/ai/functions";
+import { planVerify } from "./verify.stacks";
+import { formatDiagnostic, parseDiagnostics } from "./verify.diagnostics";
+import {
+  Diagnostic,
+  RepairOptions,
+  RepairResult,
+  RepairRound,
+  RepairStopReason,
+  VerifyEvent,
+  VerifyOptions,
+  VerifyResult,
+  VerifyStep,
+  VerifyStepResult,
+} from "./verify.types";
+
+const OUTPUT_TAIL_CHARS = 4000;
+// what one repair round shows the model
+const MAX_REPAIR_FILES = 8;
+const MAX_FILE_BYTES = 100_000;
+const MAX_PROMPT_FILE_CHARS = 200_000;
+const MAX_PROMPT_DIAGNOSTICS = 30;
+const IMPORT_EXTENSIONS = ["", ".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", "/index.ts", "/index.js"];
+
+const REPAIR_TOOL: LlmTool = {
+  name: "emitFiles",
+  description:
+    "Fix the failures: patch (preferred) or update the files shown; create a file only when one is missing",
+  parameters: {
+    type: "object",
+    properties: {
+      operations: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            path: { type: "string" },
+            action: { type: "string", enum: ["create", "update", "patch"] },
+            content: { type: "string" },
+            ...patchOperationProperties,
+          },
+          required: ["path", "action"],
+        },
+      },
+    },
+    required: ["operations"],
+  },
+};
+
+const RepairFilesSchema = EmitFilesToolSchema.refine(
+  (args) => args.operations.every((op) => op.action !== "delete"),
+  { message: "repairs do not delete files", path: ["operations"] }
+);
+
+/** BUILD_VERIFY=off turns the verify stage of the builders off. */
+export function verifyEnabled() {
+  return !/^(off|false|0|no)$/i.test(process.env.BUILD_VERIFY ?? "");
+}
+
+/** Repair rounds after the first verify (VERIFY_MAX_ROUNDS, default 3; 0 only verifies). */
+export function verifyMaxRounds() {
+  const value = Number(process.env.VERIFY_MAX_ROUNDS ?? 3);
+  return Number.isFinite(value) && value >= 0 ? Math.floor(value) : 3;
+}
+
+function tail(text: string) {
+  return text.length > OUTPUT_TAIL_CHARS ? text.slice(-OUTPUT_TAIL_CHARS) : text;
+}
+
+function fence(text: string) {
+  // a fence longer than any backtick run inside
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marks = "`".repeat(longest + 1);
+  return `${marks}\n${text}\n${marks}`;
+}
+
+function localImports(content: string, file: string) {
+  const specs = new Set<string>();
+  const pattern = /(?:from\s+|import\s*\(\s*|require\s*\(\s*|import\s+)["'](\.{1,2}\/[^"']+)["']/g;
+  for (const m of content.matchAll(pattern)) {
+    specs.add(path.posix.normalize(path.posix.join(path.posix.dirname(file), m[1])));
+  }
+  return [...specs];
+}
+
+export class VerifyService {
+  /** Run the plan of the project's workspace; later steps are skipped after a failure. */
+  async run(projectId: string, options: VerifyOptions = {}): Promise<VerifyResult> {
+    const workspace = options.workspace ?? workspaceRegistry.get(projectId);
+    const plan = await planVerify(workspace);
+    const emit = (event: VerifyEvent) => options.onEvent?.(event);
+    emit({ stage: "plan", stack: plan.stack, steps: plan.steps.map((s) => s.name) });
+
+    const steps: VerifyStepResult[] = [];
+    let failed = false;
+    for (const step of plan.steps) {
+      // syntax checks are independent of each other; everything else needs the step before
+      if (failed && step.kind !== "syntax") {
+        steps.push({ step, status: "skipped", diagnostics: [] });
+        continue;
+      }
+      throwIfAborted(options.signal);
+      emit({ stage: "step", step: step.name, kind: step.kind, status: "running" });
+      const result = await this.runStep(projectId, workspace, step, options);
+      steps.push(result);
+      emit({
+        stage: "step",
+        step: step.name,
+        kind: step.kind,
+        status: result.status,
+        exitCode: result.exitCode,
+        jobId: result.jobId,
+        error: result.error,
+        diagnostics: result.diagnostics.length,
+      });
+      if (result.status === "failed") failed = true;
+    }
+
+    const diagnostics = steps.flatMap((s) => (s.status === "failed" ? s.diagnostics : []));
+    if (diagnostics.length) emit({ stage: "diagnostics", diagnostics });
+    return { ok: !failed, stack: plan.stack, steps, diagnostics };
+  }
+
+  /**
+   * Verify, then let the model patch what failed and verify again, until
+   * the project passes or the rounds are used up. Patches are proposed for
+   * the workspace that is verified; a proposal left for review ends the loop.
+   */
+  async repair(projectId: string, options: RepairOptions): Promise<RepairResult> {
+    const workspace = options.workspace ?? workspaceRegistry.get(projectId);
+    const { llm, signal } = options;
+    const maxRounds = options.maxRounds ?? verifyMaxRounds();
+    const author = options.author ?? modelAuthor(llm.name, llm.defaultModel);
+    const emit = (event: VerifyEvent) => options.onEvent?.(event);
+    const rounds: RepairRound[] = [];
+    // operations of the last round that did not apply, shown in the next one
+    let rejected: string[] = [];
+
+    let verify = await this.run(projectId, { ...options, workspace });
+    const done = (stopReason: RepairStopReason): RepairResult => {
+      const result = { ok: verify.ok, stopReason, rounds, verify };
+      emit({ stage: "done", ok: verify.ok, stopReason, rounds: rounds.length });
+      return result;
+    };
+
+    for (let round = 1; ; round++) {
+      if (verify.ok) return done("passed");
+      const failed = verify.steps.find((s) => s.status === "failed")!;
+      // nothing ran (cancelled, sandbox error) or the dependencies did not install
+      if (failed.step.kind === "install" || failed.exitCode === undefined) return done("environment");
+      if (round > maxRounds) return done("budget");
+      throwIfAborted(signal);
+
+      const files = await this.relevantFiles(workspace, verify.diagnostics);
+      emit({
+        stage: "repair",
+        round,
+        step: failed.step.name,
+        diagnostics: verify.diagnostics.length,
+        files: files.map((f) => f.path),
+      });
+
+      let operations: WorkspaceOperation[];
+      try {
+        operations = await this.askForFixes(options, verify, failed, files, rejected);
+      } catch (err) {
+        if (!(err instanceof ToolValidationError)) throw err;
+        console.warn(`[VerifyService] no usable fix in round ${round}: ${err.message}`);
+        return done("no-fix");
+      }
+      throwIfAborted(signal);
+
+      const entry = {
+        round,
+        failedStep: failed.step.name,
+        diagnostics: verify.diagnostics.length,
+        files: files.map((f) => f.path),
+      };
+      let proposal: Proposal;
+      try {
+        proposal = await proposalQueue.propose({
+          workspaceId: projectId,
+          root: workspace.root,
+          title: `Fix ${failed.step.name} (verify round ${round})`,
+          description: verify.diagnostics.slice(0, 20).map(formatDiagnostic).join("\n"),
+          author,
+          operations,
+        });
+      } catch (err) {
+        if (!(err instanceof ProposalError)) throw err;
+        // no operation would change a file: shown in the next round
+        rejected = [err.message];
+        rounds.push({ ...entry, applied: 0, failed: operations.length, version: null });
+        emit({ stage: "applied", round, proposal: null, error: err.message, version: null });
+        continue;
+      }
+
+      const applied = proposal.files.filter((f) => f.status === "applied").length;
+      const version = proposal.files.find((f) => f.version)?.version ?? null;
+      rejected = proposal.files
+        .filter((f) => f.status === "failed" || f.status === "invalid")
+        .map((f) => `${f.path} (${f.action}): ${f.message ?? "failed"}`);
+      rounds.push({
+        ...entry,
+        applied,
+        failed: rejected.length,
+        version,
+        proposalId: proposal.id,
+      });
+      emit({ stage: "applied", round, proposal: proposalSummary(proposal), version });
+      // the fix waits for the user; verify again once it is applied
+      if (proposal.status === "pending") return done("review");
+      // nothing changed: the next round shows what did not apply instead of verifying again
+      if (!applied) continue;
+
+      verify = await this.run(projectId, { ...options, workspace });
+    }
+  }
+
+  private async runStep(
+    projectId: string,
+    workspace: Workspace,
+    step: VerifyStep,
+    options: VerifyOptions
+  ): Promise<VerifyStepResult> {
+    let jobId: string;
+    try {
+      const job = await jobQueue.enqueue({
+        projectId,
+        type: "runCommand",
+        input: { cmd: step.cmd, args: step.args, cwd: step.cwd, timeoutMs: step.timeoutMs },
+        requestedBy: options.requestedBy ?? "verify",
+        parentId: options.parentJobId,
+        // the commands run where the files are, whatever the registry says
+        workspaceRoot: workspace.root,
+      });
+      jobId = job.id;
+    } catch (err) {
+      // the operator does not allow this command here: not the code's fault
+      if (err instanceof CommandPolicyError) {
+        return { step, status: "skipped", error: err.message, diagnostics: [] };
+      }
+      throw err;
+    }
+    if (options.socketId) {
+      await runStreams
+        .attach(jobId, options.socketId)
+        .catch((err) => console.warn("[VerifyService] run stream attach failed", err));
+    }
+
+    const onAbort = () => void jobQueue.cancel(jobId, "verify").catch(() => {});
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    if (options.signal?.aborted) onAbort();
+    const done = await jobQueue.wait(jobId).finally(() => {
+      options.signal?.removeEventListener("abort", onAbort);
+    });
+    throwIfAborted(options.signal);
+
+    const result = done.result;
+    if (done.status === "succeeded") {
+      return { step, status: "passed", exitCode: 0, durationMs: result?.durationMs, jobId, diagnostics: [] };
+    }
+    if (!result) {
+      return { step, status: "failed", jobId, error: done.error ?? done.status, diagnostics: [] };
+    }
+    const output = `${result.stdout ?? ""}\n${result.stderr ?? ""}`;
+    return {
+      step,
+      status: "failed",
+      exitCode: result.exitCode,
+      timedOut: result.timedOut,
+      durationMs: result.durationMs,
+      jobId,
+      error: done.error,
+      diagnostics: parseDiagnostics(output, { root: workspace.root, cwd: step.cwd ?? "", step: step.kind }),
+      outputTail: tail(output.trim()),
+    };
+  }
+
+  /**
+   * Files the diagnostics point at, most mentioned first, plus the local
+   * modules a failing test imports (the bug is often there, not in the test).
+   */
+  private async relevantFiles(workspace: Workspace, diagnostics: Diagnostic[]) {
+    const counts = new Map<string, number>();
+    for (const d of diagnostics) {
+      if (d.file) counts.set(d.file, (counts.get(d.file) ?? 0) + 1);
+    }
+    const queue = [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([file]) => file);
+    if (!queue.length) queue.push("package.json");
+    const testFiles = new Set(diagnostics.filter((d) => d.step === "test" && d.file).map((d) => d.file!));
+
+    const files: Array<{ path: string; content: string }> = [];
+    const seen = new Set<string>();
+    let chars = 0;
+    while (queue.length && files.length < MAX_REPAIR_FILES) {
+      const rel = queue.shift()!;
+      if (seen.has(rel)) continue;
+      seen.add(rel);
+      const read = await workspace.read(rel, { maxBytes: MAX_FILE_BYTES }).catch(() => null);
+      // a truncated file would come back cut off from an update
+      if (!read || read.truncated || chars + read.content.length > MAX_PROMPT_FILE_CHARS) continue;
+      chars += read.content.length;
+      files.push({ path: read.path, content: read.content });
+
+      if (testFiles.has(rel)) {
+        for (const spec of localImports(read.content, rel)) {
+          for (const ext of IMPORT_EXTENSIONS) {
+            const candidate = `${spec}${ext}`;
+            // read() fails for missing files, directories and paths outside the workspace
+            if (await workspace.read(candidate, { maxBytes: 1 }).then(() => true, () => false)) {
+              queue.push(candidate);
+              break;
+            }
+          }
+        }
+      }
+    }
+    return files;
+  }
+
+  private async askForFixes(
+    options: RepairOptions,
+    verify: VerifyResult,
+    failed: VerifyStepResult,
+    files: Array<{ path: string; content: string }>,
+    rejected: string[]
+  ): Promise<WorkspaceOperation[]> {
+    const diagnostics = verify.diagnostics.slice(0, MAX_PROMPT_DIAGNOSTICS);
+    const status = failed.timedOut ? "timed out" : `exit ${failed.exitCode ?? "?"}`;
+    const user = [
+      ...(options.goal ? [`GOAL OF THE PROJECT:\n${options.goal}`, ""] : []),
+      `STACK: ${verify.stack}`,
+      `FAILED STEP: ${failed.step.name} (${status})`,
+      "",
+      `DIAGNOSTICS (${verify.diagnostics.length}${
+        verify.diagnostics.length > diagnostics.length ? `, first ${diagnostics.length}` : ""
+      }):`,
+      diagnostics.length ? diagnostics.map((d) => `- ${formatDiagnostic(d)}`).join("\n") : "none parsed, see the output",
+      "",
+      "OUTPUT (end):",
+      fence(failed.outputTail ?? failed.error ?? ""),
+      ...(rejected.length
+        ? ["", "FIXES OF THE LAST ROUND THAT DID NOT APPLY (the files below are current):", ...rejected.map((r) => `- ${r}`)]
+        : []),
+      "",
+      `FILES (${files.length}):`,
+      ...files.map((f) => `=== ${f.path} ===\n${fence(f.content)}`),
+      "",
+      "Return the emitFiles tool call now.",
+    ].join("\n");
+
+    const messages: LlmMessage[] = [
+      { role: "system", content: promptRegistry.render("builder.repair") },
+      { role: "user", content: user },
+    ];
+    const { args } = await callWithToolRepair(
+      options.llm,
+      { messages, tools: [REPAIR_TOOL], toolChoice: { name: REPAIR_TOOL.name }, signal: options.signal },
+      { schemas: { [REPAIR_TOOL.name]: RepairFilesSchema } }
+    );
+    return (args.operations as any[]).map((op) => ({
+      path: op.path,
+      action: op.action,
+      content: op.content,
+      diff: op.diff,
+      edits: op.edits,
+    }));
+  }
+}
+
+const verifyService = new VerifyService();
+
+export default verifyService;
@@ -0,0 +1,120 @@
+// src/verify/verify.stacks.ts
+// Which commands verify a project, read from its files: a package.json gets
+// install (only while node_modules is missing), typecheck, build, test and
+// lint from its scripts, with the package manager of its lockfile; plain
+// html/js projects get a syntax check of their scripts.
+import { promises as fs } from "fs";
+import { Workspace } from "workspace/workspace";
+import { VerifyPlan, VerifyStep } from "./verify.types";
+
+// "npm init" writes this test script; it always fails
+const PLACEHOLDER_TEST = /no test specified/i;
+const MAX_SYNTAX_FILES = 20;
+const INSTALL_TIMEOUT_MS = 10 * 60_000;
+const SCRIPT_FILE = /\.(c|m)?js$/;
+const SKIP_DIRS = new Set(["node_modules", ".git", "dist", "build", "coverage", ".next", "vendor"]);
+
+type PackageManager = "npm" | "pnpm" | "yarn";
+
+async function exists(workspace: Workspace, rel: string) {
+  const full = await workspace.resolve(rel).catch(() => null);
+  return full ? Boolean(await fs.stat(full).catch(() => null)) : false;
+}
+
+async function readPackageJson(workspace: Workspace): Promise<any | null> {
+  try {
+    return JSON.parse((await workspace.read("package.json")).content);
+  } catch {
+    return null;
+  }
+}
+
+async function packageManager(workspace: Workspace): Promise<PackageManager> {
+  if (await exists(workspace, "pnpm-lock.yaml")) return "pnpm";
+  if (await exists(workspace, "yarn.lock")) return "yarn";
+  return "npm";
+}
+
+function runScript(pm: PackageManager, script: string) {
+  return pm === "yarn" ? [script] : ["run", script];
+}
+
+async function nodeSteps(workspace: Workspace, pkg: any): Promise<VerifyStep[]> {
+  const pm = await packageManager(workspace);
+  const scripts: Record<string, string> = pkg.scripts ?? {};
+  const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+  const steps: VerifyStep[] = [];
+
+  if (Object.keys(deps).length && !(await exists(workspace, "node_modules"))) {
+    steps.push({
+      kind: "install",
+      name: `${pm} install`,
+      cmd: pm,
+      // lifecycle scripts of dependencies do not run in the workspace
+      args: pm === "npm" ? ["install", "--ignore-scripts", "--no-audit", "--no-fund"] : ["install", "--ignore-scripts"],
+      timeoutMs: INSTALL_TIMEOUT_MS,
+    });
+  }
+
+  if (scripts.typecheck) {
+    steps.push({ kind: "typecheck", name: `${pm} run typecheck`, cmd: pm, args: runScript(pm, "typecheck") });
+  } else if (!scripts.build && deps.typescript && (await exists(workspace, "tsconfig.json"))) {
+    // no script runs the compiler: run it from node_modules (npx is not allowed)
+    steps.push({
+      kind: "typecheck",
+      name: "tsc --noEmit",
+      cmd: "node",
+      args: ["node_modules/typescript/bin/tsc", "--noEmit", "--pretty", "false"],
+    });
+  }
+  if (scripts.build) {
+    steps.push({ kind: "build", name: `${pm} run build`, cmd: pm, args: runScript(pm, "build") });
+  }
+  if (scripts.test && !PLACEHOLDER_TEST.test(scripts.test)) {
+    steps.push({ kind: "test", name: `${pm} test`, cmd: pm, args: ["test"] });
+  }
+  if (scripts.lint) {
+    steps.push({ kind: "lint", name: `${pm} run lint`, cmd: pm, args: runScript(pm, "lint") });
+  }
+  return steps;
+}
+
+async function scriptFiles(workspace: Workspace, rel = "", found: string[] = []) {
+  const entries = await fs
+    .readdir(await workspace.resolve(rel), { withFileTypes: true })
+    .catch(() => []);
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (found.length >= MAX_SYNTAX_FILES) break;
+    const child = rel ? `${rel}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (!SKIP_DIRS.has(entry.name) && !entry.name.startsWith(".")) {
+        await scriptFiles(workspace, child, found);
+      }
+    } else if (entry.isFile() && SCRIPT_FILE.test(entry.name) && !/\.min\.js$/.test(entry.name)) {
+      found.push(child);
+    }
+  }
+  return found;
+}
+
+/** The steps that verify the workspace, in order; an empty plan has nothing to run. */
+export async function planVerify(workspace: Workspace): Promise<VerifyPlan> {
+  const pkg = await readPackageJson(workspace);
+  if (pkg) {
+    const pm = await packageManager(workspace);
+    return { stack: `node (${pm})`, steps: await nodeSteps(workspace, pkg) };
+  }
+
+  const files = await scriptFiles(workspace);
+  if (!files.length) return { stack: "static", steps: [] };
+  return {
+    stack: "html",
+    steps: files.map((file) => ({
+      kind: "syntax",
+      name: `node --check ${file}`,
+      cmd: "node",
+      args: ["--check", file],
+      timeoutMs: 30_000,
+    })),
+  };
+}
@@ -0,0 +1,117 @@
+// src/verify/verify.types.ts
+import type { LlmProvider } from "llm/llm.types";
+import type { VersionAuthor } from "workspace/workspace.history";
+import type { Workspace } from "workspace/workspace";
+
+export type VerifyStepKind = "install" | "typecheck" | "build" | "test" | "lint" | "syntax";
+
+/** One command of the verify stage, run as a "runCommand" job. */
+export interface VerifyStep {
+  kind: VerifyStepKind;
+  // e.g. "npm run build", shown in events and fed back to the model
+  name: string;
+  cmd: string;
+  args: string[];
+  cwd?: string;
+  timeoutMs?: number;
+}
+
+export interface VerifyPlan {
+  // "node (npm)", "html", "static", ...
+  stack: string;
+  steps: VerifyStep[];
+}
+
+/** A compiler, linter or test failure, pointed at a workspace file when the output says where. */
+export interface Diagnostic {
+  // workspace-relative, "/"-separated
+  file?: string;
+  line?: number;
+  column?: number;
+  severity: "error" | "warning";
+  message: string;
+  // TS2322, no-undef, ...
+  code?: string;
+  // parser that recognised it: tsc, eslint, esbuild, jest, vitest, node, output
+  source: string;
+  step: VerifyStepKind;
+}
+
+export interface VerifyStepResult {
+  step: VerifyStep;
+  // "skipped": denied by the command policy, or not run after an earlier failure
+  status: "passed" | "failed" | "skipped";
+  exitCode?: number | null;
+  timedOut?: boolean;
+  durationMs?: number;
+  jobId?: string;
+  error?: string;
+  diagnostics: Diagnostic[];
+  // end of the output, for failures nothing could be parsed from
+  outputTail?: string;
+}
+
+export interface VerifyResult {
+  ok: boolean;
+  stack: string;
+  steps: VerifyStepResult[];
+  // of the failed step
+  diagnostics: Diagnostic[];
+}
+
+export interface VerifyEvent {
+  stage: "plan" | "step" | "diagnostics" | "repair" | "applied" | "done";
+  [key: string]: any;
+}
+
+export interface VerifyOptions {
+  // what is verified and patched; the registry's workspace of the project by default
+  workspace?: Workspace;
+  signal?: AbortSignal;
+  // run:* output of every step goes to this socket (see jobs/jobs.stream)
+  socketId?: string;
+  requestedBy?: string;
+  // set when a job runs the verify stage: its commands run in that job's slot
+  parentJobId?: string;
+  onEvent?: (event: VerifyEvent) => void;
+}
+
+export interface RepairOptions extends VerifyOptions {
+  llm: LlmProvider;
+  // what was asked for, so fixes keep to it
+  goal?: string;
+  // repair rounds after the first verify; VERIFY_MAX_ROUNDS by default
+  maxRounds?: number;
+  author?: VersionAuthor;
+}
+
+export type RepairStopReason =
+  | "passed"
+  // rounds used up with the build still failing
+  | "budget"
+  // the model's tool call stayed invalid after its repair turns
+  | "no-fix"
+  // install failed: a network or registry problem, not the code
+  | "environment"
+  // the fix is a proposal waiting for the user's review
+  | "review";
+
+export interface RepairRound {
+  round: number;
+  failedStep: string;
+  diagnostics: number;
+  files: string[];
+  applied: number;
+  failed: number;
+  version?: string | null;
+  // the proposal the round's fix was submitted as
+  proposalId?: string;
+}
+
+export interface RepairResult {
+  ok: boolean;
+  stopReason: RepairStopReason;
+  rounds: RepairRound[];
+  // the last verify run
+  verify: VerifyResult;
+}
@@ -0,0 +1,240 @@
+// src/workspace/workspace.backups.ts
+// Copies of what one apply() batch overwrote or deleted, so the batch can be
+// undone later (the in-batch rollback uses the same copies).
+//
+// Backups live outside the workspace (WORKSPACE_BACKUPS_DIR, default
+// ./workspace_backups, one <name>-<hash> directory per workspace root), so
+// snapshots, listings and the version history never see them. Each backup
+// is `<id>/files/<path>` plus a manifest.json naming the files the batch
+// updated, deleted or created; a folder without manifest is a batch still
+// running (or one that crashed).
+//
+// After every backup the retention policy drops the oldest ones beyond
+// WORKSPACE_BACKUP_MAX_COUNT, older than WORKSPACE_BACKUP_MAX_AGE_DAYS or
+// above WORKSPACE_BACKUP_MAX_BYTES in total; the newest is always kept.
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { storeName } from "./workspace.history";
+import { AppliedChange, WorkspaceOperation } from "./workspace.types";
+
+const MANIFEST = "manifest.json";
+// folders without manifest older than this are left over from a crash
+const STALE_MS = 60 * 60 * 1000;
+
+export interface BackupFile {
+  path: string;
+  // what the batch did to the file; "created" files have no copy
+  change: "updated" | "deleted" | "created";
+  size: number;
+}
+
+export interface Backup {
+  id: string;
+  createdAt: string;
+  // summary of the batch, e.g. its version message
+  label?: string;
+  size: number;
+  files: BackupFile[];
+}
+
+export interface BackupRetention {
+  // 0 disables a limit
+  maxCount: number;
+  maxAgeDays: number;
+  maxBytes: number;
+}
+
+export class BackupNotFoundError extends Error {
+  constructor(public readonly backupId: string) {
+    super(`Unknown backup: ${backupId}`);
+    this.name = "BackupNotFoundError";
+  }
+}
+
+export function backupsRoot() {
+  return path.resolve(
+    process.cwd(),
+    process.env.WORKSPACE_BACKUPS_DIR || "workspace_backups"
+  );
+}
+
+export function backupRetention(): BackupRetention {
+  const limit = (key: string, fallback: number) => {
+    const value = Number(process.env[key] ?? fallback);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+  return {
+    maxCount: limit("WORKSPACE_BACKUP_MAX_COUNT", 20),
+    maxAgeDays: limit("WORKSPACE_BACKUP_MAX_AGE_DAYS", 14),
+    maxBytes: limit("WORKSPACE_BACKUP_MAX_BYTES", 200 * 1024 * 1024),
+  };
+}
+
+// ids are generated here; anything else can never name a folder
+function checkBackupId(id: string) {
+  if (!/^\d{13}-[0-9a-f]{6}$/.test(String(id))) throw new BackupNotFoundError(id);
+}
+
+export class WorkspaceBackups {
+  readonly dir: string;
+
+  constructor(readonly root: string, dir?: string) {
+    this.dir = dir ?? path.join(backupsRoot(), storeName(root));
+  }
+
+  /** A new, empty backup folder for one batch of changes. */
+  async create() {
+    const id = `${Date.now()}-${crypto.randomBytes(3).toString("hex")}`;
+    const folder = path.join(this.dir, id);
+    await fs.mkdir(path.join(folder, "files"), { recursive: true });
+    return folder;
+  }
+
+  /**
+   * Copy the file at `full` into `folder` as `rel`; returns the copy's path.
+   * A file changed twice in one batch keeps its first copy, the content
+   * before the batch.
+   */
+  async copy(folder: string, rel: string, full: string) {
+    const target = path.join(folder, "files", ...rel.split("/"));
+    const exists = await fs.access(target).then(() => true, () => false);
+    if (!exists) {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.copyFile(full, target);
+    }
+    return target;
+  }
+
+  /**
+   * Write the manifest of a finished batch and apply the retention policy;
+   * null (and the folder removed) when the batch changed nothing.
+   */
+  async finish(folder: string, changes: AppliedChange[], label?: string): Promise<Backup | null> {
+    const files = new Map<string, BackupFile>();
+    for (const change of changes) {
+      if (files.has(change.path)) continue;
+      const copy = path.join(folder, "files", ...change.path.split("/"));
+      const size = change.created ? 0 : (await fs.stat(copy).catch(() => null))?.size ?? 0;
+      files.set(change.path, {
+        path: change.path,
+        change: change.created ? "created" : change.deleted ? "deleted" : "updated",
+        size,
+      });
+    }
+    if (!files.size) {
+      await this.discard(folder);
+      return null;
+    }
+
+    const id = path.basename(folder);
+    const backup: Backup = {
+      id,
+      createdAt: new Date(Number(id.split("-")[0])).toISOString(),
+      ...(label ? { label: label.split("\n")[0].slice(0, 200) } : {}),
+      size: [...files.values()].reduce((sum, f) => sum + f.size, 0),
+      files: [...files.values()],
+    };
+    await fs.writeFile(path.join(folder, MANIFEST), JSON.stringify(backup, null, 2));
+    await this.prune().catch((err) => {
+      console.warn("[WorkspaceBackups] retention failed", err);
+    });
+    return backup;
+  }
+
+  /** Drop a backup folder that is no longer needed (e.g. after a rollback). */
+  async discard(folder: string) {
+    await fs.rm(folder, { recursive: true, force: true });
+  }
+
+  /** Finished backups, newest first. */
+  async list(): Promise<Backup[]> {
+    const names = await fs.readdir(this.dir).catch(() => [] as string[]);
+    const backups: Backup[] = [];
+    for (const name of names) {
+      const backup = await this.readManifest(name);
+      if (backup) backups.push(backup);
+    }
+    return backups.sort((a, b) => b.id.localeCompare(a.id));
+  }
+
+  async get(id: string): Promise<Backup> {
+    checkBackupId(id);
+    const backup = await this.readManifest(id);
+    if (!backup) throw new BackupNotFoundError(id);
+    return backup;
+  }
+
+  /**
+   * Operations that put the files of a backup (or only `paths` of it) back
+   * to their content before that batch: copies are written back and files
+   * the batch created are deleted.
+   */
+  async restoreOperations(id: string, paths?: string[]): Promise<WorkspaceOperation[]> {
+    const backup = await this.get(id);
+    const wanted = paths?.length ? new Set(paths) : null;
+    const files = wanted ? backup.files.filter((f) => wanted.has(f.path)) : backup.files;
+    const unknown = wanted ? [...wanted].filter((p) => !files.some((f) => f.path === p)) : [];
+    if (unknown.length) {
+      throw new BackupNotFoundError(`${id} (no ${unknown.join(", ")})`);
+    }
+
+    const operations: WorkspaceOperation[] = [];
+    for (const file of files) {
+      if (file.change === "created") {
+        operations.push({ path: file.path, action: "delete" });
+        continue;
+      }
+      const copy = path.join(this.dir, id, "files", ...file.path.split("/"));
+      const data = await fs.readFile(copy);
+      operations.push({
+        path: file.path,
+        action: "update",
+        content: data.toString("base64"),
+        encoding: "base64",
+      });
+    }
+    return operations;
+  }
+
+  /** Apply the retention policy; returns the ids removed. */
+  async prune(retention: BackupRetention = backupRetention()) {
+    const removed: string[] = [];
+    const now = Date.now();
+
+    for (const name of await fs.readdir(this.dir).catch(() => [] as string[])) {
+      const full = path.join(this.dir, name);
+      const hasManifest = await fs.access(path.join(full, MANIFEST)).then(() => true, () => false);
+      const stats = await fs.stat(full).catch(() => null);
+      if (!hasManifest && stats && now - stats.mtimeMs > STALE_MS) {
+        await this.discard(full);
+        removed.push(name);
+      }
+    }
+
+    const maxAgeMs = retention.maxAgeDays * 24 * 60 * 60 * 1000;
+    let total = 0;
+    for (const [index, backup] of (await this.list()).entries()) {
+      total += backup.size;
+      if (index === 0) continue;
+      const expired =
+        (retention.maxCount > 0 && index >= retention.maxCount) ||
+        (maxAgeMs > 0 && now - Date.parse(backup.createdAt) > maxAgeMs) ||
+        (retention.maxBytes > 0 && total > retention.maxBytes);
+      if (!expired) continue;
+      await this.discard(path.join(this.dir, backup.id));
+      total -= backup.size;
+      removed.push(backup.id);
+    }
+    return removed;
+  }
+
+  private async readManifest(id: string): Promise<Backup | null> {
+    try {
+      const text = await fs.readFile(path.join(this.dir, id, MANIFEST), "utf8");
+      return JSON.parse(text) as Backup;
+    } catch {
+      return null;
+    }
+  }
+}
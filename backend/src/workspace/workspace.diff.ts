@@ -0,0 +1,191 @@
+// src/workspace/workspace.diff.ts
+// Line diff (Myers) of two texts as unified diff hunks, used to preview a
+// proposed change and to rebuild a patch from the hunks a reviewer kept.
+// The output is read back by workspace.patch.
+const CONTEXT = 3;
+// beyond this many changed lines the change is shown as a full replacement
+const MAX_EDITS = 2000;
+
+export interface DiffHunk {
+  index: number; // 1-based
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  // " ", "-" or "+" followed by the line; "\ No newline at end of file" markers included
+  lines: string[];
+}
+
+export interface TextDiff {
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+}
+
+type Edit = { kind: " " | "-" | "+"; line: string };
+
+/** Hunks turning `oldText` into `newText`; both may be "" for a missing file. */
+export function diffText(oldText: string, newText: string): TextDiff {
+  const a = splitKeepingEol(oldText);
+  const b = splitKeepingEol(newText);
+  const edits = diffLines(a, b);
+  return {
+    hunks: toHunks(edits),
+    additions: edits.filter((e) => e.kind === "+").length,
+    deletions: edits.filter((e) => e.kind === "-").length,
+  };
+}
+
+/**
+ * Unified diff text of `hunks` (a subset of one diff is fine: new-side line
+ * numbers are recomputed for the hunks kept).
+ */
+export function formatPatch(
+  path: string,
+  hunks: DiffHunk[],
+  options: { oldMissing?: boolean; newMissing?: boolean } = {}
+) {
+  const out = [
+    `--- ${options.oldMissing ? "/dev/null" : `a/${path}`}`,
+    `+++ ${options.newMissing ? "/dev/null" : `b/${path}`}`,
+  ];
+  let delta = 0;
+  for (const hunk of [...hunks].sort((x, y) => x.oldStart - y.oldStart)) {
+    // an empty side names the line before it
+    const newStart =
+      hunk.oldStart + delta + (hunk.oldLines ? 0 : 1) - (hunk.newLines ? 0 : 1);
+    out.push(
+      `@@ -${hunk.oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@`,
+      ...hunk.lines
+    );
+    delta += hunk.newLines - hunk.oldLines;
+  }
+  return out.join("\n") + "\n";
+}
+
+// lines with their terminators, so a missing final newline is a difference
+function splitKeepingEol(text: string) {
+  return text ? text.match(/[^\n]*\n|[^\n]+$/g) ?? [] : [];
+}
+
+function diffLines(a: string[], b: string[]): Edit[] {
+  // common prefix and suffix are kept out of the search
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  const middle =
+    myers(a.slice(start, endA), b.slice(start, endB)) ??
+    [
+      ...a.slice(start, endA).map((line): Edit => ({ kind: "-", line })),
+      ...b.slice(start, endB).map((line): Edit => ({ kind: "+", line })),
+    ];
+  return [
+    ...a.slice(0, start).map((line): Edit => ({ kind: " ", line })),
+    ...middle,
+    ...a.slice(endA).map((line): Edit => ({ kind: " ", line })),
+  ];
+}
+
+// shortest edit script; null when it needs more than MAX_EDITS changes
+function myers(a: string[], b: string[]): Edit[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d]: v[-(d+1)..d+1] before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, MAX_EDITS); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace, d);
+    }
+  }
+  return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[], depth: number) {
+  const edits: Edit[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = depth; d >= 0; d--) {
+    const at = (k: number) => trace[d][k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      edits.push({ kind: " ", line: a[x] });
+    }
+    if (d > 0) {
+      if (x === prevX) edits.push({ kind: "+", line: b[--y] });
+      else edits.push({ kind: "-", line: a[--x] });
+    }
+  }
+  return edits.reverse();
+}
+
+function toHunks(edits: Edit[]): DiffHunk[] {
+  const changed = edits.map((e, i) => (e.kind === " " ? -1 : i)).filter((i) => i >= 0);
+  if (!changed.length) return [];
+
+  // runs of changes closer than two contexts share a hunk
+  const groups: Array<[number, number]> = [];
+  for (const i of changed) {
+    const last = groups[groups.length - 1];
+    if (last && i - last[1] <= 2 * CONTEXT + 1) last[1] = i;
+    else groups.push([i, i]);
+  }
+
+  // line numbers (0-based) of both sides before each edit
+  const oldAt: number[] = [];
+  const newAt: number[] = [];
+  let o = 0;
+  let n = 0;
+  for (const e of edits) {
+    oldAt.push(o);
+    newAt.push(n);
+    if (e.kind !== "+") o++;
+    if (e.kind !== "-") n++;
+  }
+
+  return groups.map(([first, last], index) => {
+    const from = Math.max(0, first - CONTEXT);
+    const to = Math.min(edits.length - 1, last + CONTEXT);
+    const slice = edits.slice(from, to + 1);
+    const oldLines = slice.filter((e) => e.kind !== "+").length;
+    const newLines = slice.filter((e) => e.kind !== "-").length;
+    const lines: string[] = [];
+    for (const e of slice) {
+      lines.push(e.kind + e.line.replace(/\r?\n$/, ""));
+      if (!e.line.endsWith("\n")) lines.push("\\ No newline at end of file");
+    }
+    return {
+      index: index + 1,
+      // an empty side starts at the line before it, as diff(1) writes it
+      oldStart: oldLines ? oldAt[from] + 1 : oldAt[from],
+      oldLines,
+      newStart: newLines ? newAt[from] + 1 : newAt[from],
+      newLines,
+      lines,
+    };
+  });
+}
@@ -0,0 +1,322 @@
+// src/workspace/workspace.history.ts
+// Version history of a workspace as a git repository. Every batch an agent
+// applies becomes one commit, authored by the model (or the user who
+// approved it) with the prompt summary as message, so changes can be
+// reviewed, diffed and reverted.
+//
+// The repository lives outside the workspace (WORKSPACE_HISTORY_DIR, default
+// ./workspace_history, one <name>-<hash>.git per workspace root) with the
+// workspace as its work tree: a project that is already a git repository
+// keeps its own history untouched, and snapshots never see the history.
+// Edits made outside the agents are committed as "External changes" before
+// the next batch so each agent commit only holds that batch.
+// WORKSPACE_HISTORY=off disables recording.
+import { execFile } from "child_process";
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+export interface VersionAuthor {
+  name: string;
+  email?: string;
+}
+
+export interface VersionInfo {
+  author: VersionAuthor;
+  // first line is the summary shown in version lists
+  message: string;
+}
+
+export interface VersionFile {
+  // A added, M modified, D deleted, R renamed
+  status: string;
+  path: string;
+}
+
+export interface WorkspaceVersion {
+  id: string;
+  shortId: string;
+  author: string;
+  email: string;
+  date: string;
+  summary: string;
+  message: string;
+  files: VersionFile[];
+}
+
+export interface VersionDiff {
+  from: string;
+  to: string;
+  files: Array<{ path: string; additions: number; deletions: number; binary: boolean }>;
+  patch: string;
+  truncated: boolean;
+}
+
+export class VersionNotFoundError extends Error {
+  constructor(public readonly version: string) {
+    super(`Unknown version: ${version}`);
+    this.name = "VersionNotFoundError";
+  }
+}
+
+const SYSTEM_AUTHOR: VersionAuthor = { name: "workspace", email: "workspace@localhost" };
+const EXTERNAL_CHANGES: VersionInfo = {
+  author: SYSTEM_AUTHOR,
+  message: "External changes\n\nFiles changed outside the agents since the last version.",
+};
+const EXCLUDES = ["node_modules/", "dist/", ".mcp_backups/", "*.tmp"];
+const MAX_PATCH_CHARS = 200_000;
+const EMPTY_TREE = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+const RECORD_SEP = "\x1e";
+const FIELD_SEP = "\x1f";
+
+// git commands of one repository run one at a time (index.lock)
+const queues = new Map<string, Promise<unknown>>();
+
+export function historyEnabled() {
+  return process.env.WORKSPACE_HISTORY !== "off";
+}
+
+export function historyRoot() {
+  return path.resolve(
+    process.cwd(),
+    process.env.WORKSPACE_HISTORY_DIR || "workspace_history"
+  );
+}
+
+/** First line of a prompt, clipped for a commit summary, with the prompt as body. */
+export function versionMessage(summary: string, details?: string) {
+  const firstLine = (summary || "").trim().split("\n")[0] || "Update files";
+  const title = firstLine.length > 72 ? `${firstLine.slice(0, 69)}...` : firstLine;
+  const body = (details ?? summary ?? "").trim().slice(0, 4000);
+  return body && body !== title ? `${title}\n\n${body}` : title;
+}
+
+/** Commit author for a model call, e.g. "claude-sonnet-4 <anthropic@models.local>". */
+export function modelAuthor(provider: string, model?: string): VersionAuthor {
+  return { name: model || provider, email: `${provider}@models.local` };
+}
+
+/** `<basename>-<hash of root>`: the name of a workspace's data kept outside it. */
+export function storeName(root: string) {
+  const name = path.basename(root).replace(/[^\w.-]+/g, "-") || "workspace";
+  const hash = crypto.createHash("sha1").update(root).digest("hex").slice(0, 12);
+  return `${name}-${hash}`;
+}
+
+function authorArg(author: VersionAuthor) {
+  const clean = (s: string) => s.replace(/[<>\n\r]/g, "").trim();
+  const name = clean(author.name) || SYSTEM_AUTHOR.name;
+  const email =
+    clean(author.email ?? "") ||
+    `${name.toLowerCase().replace(/[^a-z0-9._-]+/g, "-")}@workspace.local`;
+  return `${name} <${email}>`;
+}
+
+// hashes (or HEAD) only, so an id can never be read as a git option
+function checkVersionId(id: string) {
+  if (!/^(HEAD|[0-9a-f]{4,40})$/i.test(String(id))) throw new VersionNotFoundError(id);
+}
+
+export class WorkspaceHistory {
+  readonly gitDir: string;
+
+  constructor(readonly root: string, gitDir?: string) {
+    this.gitDir = gitDir ?? path.join(historyRoot(), `${storeName(root)}.git`);
+  }
+
+  /**
+   * Create the repository on first use (committing what is already there as
+   * the baseline) and commit edits made since the last recorded version.
+   */
+  async checkpoint() {
+    return this.serial(async () => {
+      await this.init();
+      return this.commitPending(EXTERNAL_CHANGES);
+    });
+  }
+
+  /** Commit the current state of the workspace; null when nothing changed. */
+  async commit(info: VersionInfo): Promise<WorkspaceVersion | null> {
+    return this.serial(async () => {
+      await this.init();
+      return this.commitPending(info);
+    });
+  }
+
+  /** Versions, newest first. */
+  async list(limit = 50): Promise<WorkspaceVersion[]> {
+    if (!(await this.exists())) return [];
+    return this.serial(() => this.log(["-n", String(Math.max(1, limit))]));
+  }
+
+  async get(id: string): Promise<WorkspaceVersion> {
+    const [version] = await this.serial(async () =>
+      this.log(["-n", "1", await this.revParse(id)])
+    );
+    return version;
+  }
+
+  /** Changes from one version to another (default: the one before `from` to `from`). */
+  async diff(from: string, to?: string): Promise<VersionDiff> {
+    return this.serial(async () => {
+      const toId = await this.revParse(to ?? from);
+      const fromId = to ? await this.revParse(from) : await this.parentOf(toId);
+      const numstat = await this.git(["diff", "--numstat", fromId, toId]);
+      const files = numstat
+        .split("\n")
+        .filter(Boolean)
+        .map((line) => {
+          const [added, deleted, ...rest] = line.split("\t");
+          return {
+            path: rest.join("\t"),
+            additions: added === "-" ? 0 : Number(added),
+            deletions: deleted === "-" ? 0 : Number(deleted),
+            binary: added === "-",
+          };
+        });
+      const patch = await this.git(["diff", fromId, toId]);
+      return {
+        from: fromId,
+        to: toId,
+        files,
+        patch: patch.slice(0, MAX_PATCH_CHARS),
+        truncated: patch.length > MAX_PATCH_CHARS,
+      };
+    });
+  }
+
+  /**
+   * Bring the workspace back to a version. History is kept: pending edits
+   * are committed first and the restore itself is a new version.
+   */
+  async restore(id: string, author: VersionAuthor = SYSTEM_AUTHOR) {
+    return this.serial(async () => {
+      const target = await this.revParse(id);
+      await this.commitPending(EXTERNAL_CHANGES);
+      await this.git(["restore", `--source=${target}`, "--staged", "--worktree", "--", ":/"]);
+      const restored = await this.commitPending({
+        author,
+        message: `Restore version ${target.slice(0, 8)}`,
+      });
+      return { restoredFrom: target, version: restored };
+    });
+  }
+
+  private async exists() {
+    return fs
+      .access(path.join(this.gitDir, "HEAD"))
+      .then(() => true)
+      .catch(() => false);
+  }
+
+  private async init() {
+    if (await this.exists()) return;
+    await fs.mkdir(this.gitDir, { recursive: true });
+    await this.git(["init", "-q"]);
+    await fs.mkdir(path.join(this.gitDir, "info"), { recursive: true });
+    await fs.writeFile(path.join(this.gitDir, "info", "exclude"), EXCLUDES.join("\n") + "\n");
+    await this.commitPending({
+      author: SYSTEM_AUTHOR,
+      message: "Baseline\n\nWorkspace content when version history started.",
+    });
+  }
+
+  private async commitPending(info: VersionInfo): Promise<WorkspaceVersion | null> {
+    await this.git(["add", "-A", "--", ":/"]);
+    const status = await this.git(["status", "--porcelain"]);
+    if (!status.trim()) return null;
+    await this.git(["commit", "-q", "--no-verify", `--author=${authorArg(info.author)}`, "-m", info.message]);
+    const [version] = await this.log(["-n", "1", "HEAD"]);
+    return version;
+  }
+
+  private async log(args: string[]): Promise<WorkspaceVersion[]> {
+    const format = `${RECORD_SEP}%H${FIELD_SEP}%an${FIELD_SEP}%ae${FIELD_SEP}%aI${FIELD_SEP}%s${FIELD_SEP}%B${FIELD_SEP}`;
+    const out = await this.git(["log", `--format=${format}`, "--name-status", ...args]).catch(
+      (err) => {
+        // a repository without commits yet
+        if (/does not have any commits/.test(String(err?.message))) return "";
+        throw err;
+      }
+    );
+    return out
+      .split(RECORD_SEP)
+      .filter((record) => record.trim())
+      .map((record) => {
+        const [id, author, email, date, summary, message, names = ""] = record.split(FIELD_SEP);
+        const files = names
+          .split("\n")
+          .filter((line) => line.includes("\t"))
+          .map((line) => {
+            const parts = line.split("\t");
+            return { status: parts[0].charAt(0), path: parts[parts.length - 1] };
+          });
+        return {
+          id,
+          shortId: id.slice(0, 8),
+          author,
+          email,
+          date,
+          summary,
+          message: message.trim(),
+          files,
+        };
+      });
+  }
+
+  private async revParse(id: string) {
+    checkVersionId(id);
+    try {
+      return (await this.git(["rev-parse", "--verify", "--quiet", `${id}^{commit}`])).trim();
+    } catch {
+      throw new VersionNotFoundError(id);
+    }
+  }
+
+  // the first version is compared with the empty tree
+  private async parentOf(id: string) {
+    try {
+      return (await this.git(["rev-parse", "--verify", "--quiet", `${id}^`])).trim();
+    } catch {
+      return EMPTY_TREE;
+    }
+  }
+
+  private serial<T>(fn: () => Promise<T>): Promise<T> {
+    const previous = queues.get(this.gitDir) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(fn);
+    queues.set(this.gitDir, next);
+    next.finally(() => {
+      if (queues.get(this.gitDir) === next) queues.delete(this.gitDir);
+    }).catch(() => {});
+    return next;
+  }
+
+  private git(args: string[]): Promise<string> {
+    const env: NodeJS.ProcessEnv = { ...process.env, GIT_TERMINAL_PROMPT: "0" };
+    for (const key of ["GIT_DIR", "GIT_WORK_TREE", "GIT_INDEX_FILE"]) delete env[key];
+    return new Promise((resolve, reject) => {
+      execFile(
+        "git",
+        [
+          `--git-dir=${this.gitDir}`,
+          `--work-tree=${this.root}`,
+          "-c", "core.quotepath=off",
+          "-c", "commit.gpgsign=false",
+          "-c", `user.name=${SYSTEM_AUTHOR.name}`,
+          "-c", `user.email=${SYSTEM_AUTHOR.email}`,
+          ...args,
+        ],
+        { cwd: this.root, env, maxBuffer: 64 * 1024 * 1024 },
+        (err, stdout, stderr) => {
+          if (err) {
+            reject(new Error(`git ${args[0]} failed: ${String(stderr || err.message).trim()}`));
+          } else {
+            resolve(stdout);
+          }
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,372 @@
+// src/workspace/workspace.patch.ts
+// Applies the "patch" file operation: a unified diff (`diff`) or a list of
+// search/replace edits (`edits`) against the current text of one file.
+//
+// Unified diff hunks are placed the way patch(1) does it: at the line the
+// header names, otherwise at the nearest position where the context
+// matches, then ignoring whitespace differences, then with up to MAX_FUZZ
+// context lines dropped at either end. Hunk headers without line numbers
+// ("@@ @@") are searched for in the whole file. A diff may hold several
+// files; the section for the operation's path is used.
+//
+// Search/replace edits must match exactly once, or once ignoring
+// indentation and trailing whitespace.
+//
+// A patch is all or nothing: when a hunk is rejected the file is left as it
+// was and every hunk is reported, so the model can resend the rejected ones.
+import { normalizeRelPath } from "./workspace.policy";
+import { HunkResult, PatchEdit } from "./workspace.types";
+
+const MAX_FUZZ = 2;
+// file lines returned with a rejected hunk, around where it was expected
+const FOUND_LINES = 8;
+
+interface Hunk {
+  // 0-based line the old side starts at; null when the header has no numbers
+  start: number | null;
+  lines: Array<{ kind: " " | "-" | "+"; text: string }>;
+  oldNoEol: boolean;
+  newNoEol: boolean;
+}
+
+export interface PatchOutcome {
+  content: string;
+  hunks: HunkResult[];
+  rejected: number;
+}
+
+/** Apply `diff` or `edits` to `original`; `rel` selects the section of a multi-file diff. */
+export function applyPatch(
+  original: string,
+  patch: { diff?: string; edits?: PatchEdit[] },
+  rel: string
+): PatchOutcome {
+  if (typeof patch.diff === "string" && patch.diff.trim()) {
+    return applyUnifiedDiff(original, parseUnifiedDiff(patch.diff, rel));
+  }
+  if (Array.isArray(patch.edits) && patch.edits.length) {
+    return applyEdits(original, patch.edits);
+  }
+  throw new Error("patch needs a unified diff (diff) or search/replace edits (edits)");
+}
+
+/** One-line summary of the rejected hunks, for results the model reads. */
+export function describeRejects(hunks: HunkResult[]) {
+  const rejected = hunks.filter((h) => h.status === "rejected");
+  const details = rejected
+    .map((h) => `hunk ${h.index}${h.line ? ` (line ${h.line})` : ""}: ${h.message}`)
+    .join("; ");
+  return `${rejected.length} of ${hunks.length} hunks rejected, file unchanged: ${details}`;
+}
+
+// --- unified diff --------------------------------------------------------
+
+function parseUnifiedDiff(diff: string, rel: string): Hunk[] {
+  const sections = splitFiles(diff.replace(/\r\n/g, "\n").split("\n"));
+  let section = sections[0];
+  if (sections.length > 1) {
+    const wanted = normalizeRelPath(rel);
+    section = sections.find((s) => s.path !== null && s.path === wanted)!;
+    if (!section) {
+      throw new Error(`diff has ${sections.length} files, none of them is ${wanted}`);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  const lines = section.lines;
+  let i = 0;
+  while (i < lines.length) {
+    const header = /^@@\s*(?:-(\d+)(?:,(\d+))?\s+\+(\d+)(?:,(\d+))?\s*)?@@/.exec(lines[i]);
+    if (!header) {
+      i++;
+      continue;
+    }
+    const counted = header[1] !== undefined;
+    let oldLeft = counted ? Number(header[2] ?? 1) : Infinity;
+    let newLeft = counted ? Number(header[4] ?? 1) : Infinity;
+    const oldStart = Number(header[1]);
+    const hunk: Hunk = {
+      // "-0,0" (or "-N,0") inserts after line N
+      start: counted ? (oldLeft === 0 ? oldStart : oldStart - 1) : null,
+      lines: [],
+      oldNoEol: false,
+      newNoEol: false,
+    };
+    i++;
+
+    while (i < lines.length && (oldLeft > 0 || newLeft > 0)) {
+      const line = lines[i];
+      if (!counted && /^(@@|--- |\+\+\+ |diff )/.test(line)) break;
+      if (line.startsWith("\\")) {
+        // "\ No newline at end of file" belongs to the line before it
+        const last = hunk.lines[hunk.lines.length - 1];
+        if (last?.kind !== "+") hunk.oldNoEol = true;
+        if (last?.kind !== "-") hunk.newNoEol = true;
+        i++;
+        continue;
+      }
+      // editors and models drop the space of empty context lines
+      const kind = (line === "" ? " " : line[0]) as Hunk["lines"][number]["kind"];
+      if (kind !== " " && kind !== "-" && kind !== "+") {
+        if (counted) throw new Error(`Invalid unified diff: unexpected line "${line.slice(0, 80)}"`);
+        break;
+      }
+      hunk.lines.push({ kind, text: line.slice(1) });
+      if (kind !== "+") oldLeft--;
+      if (kind !== "-") newLeft--;
+      i++;
+    }
+    // a trailing "\ No newline" right after the counted lines
+    if (i < lines.length && lines[i].startsWith("\\")) {
+      const last = hunk.lines[hunk.lines.length - 1];
+      if (last?.kind !== "+") hunk.oldNoEol = true;
+      if (last?.kind !== "-") hunk.newNoEol = true;
+      i++;
+    }
+    if (!counted) {
+      // the newline ending the diff text is not an empty context line
+      while (hunk.lines.length && hunk.lines[hunk.lines.length - 1].kind === " " &&
+        hunk.lines[hunk.lines.length - 1].text === "") {
+        hunk.lines.pop();
+      }
+    }
+    if (hunk.lines.length) hunks.push(hunk);
+  }
+
+  if (!hunks.length) throw new Error("Invalid unified diff: no @@ hunks found");
+  return hunks;
+}
+
+// split at "--- a/x" / "+++ b/x" headers; text before the first one is its own section
+function splitFiles(lines: string[]) {
+  const sections: Array<{ path: string | null; lines: string[] }> = [];
+  let current: { path: string | null; lines: string[] } = { path: null, lines: [] };
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      if (current.lines.some((l) => l.startsWith("@@"))) sections.push(current);
+      const target = headerPath(lines[i + 1]) ?? headerPath(lines[i]);
+      current = { path: target, lines: [] };
+      i++;
+      continue;
+    }
+    current.lines.push(lines[i]);
+  }
+  if (current.lines.some((l) => l.startsWith("@@")) || !sections.length) sections.push(current);
+  return sections;
+}
+
+function headerPath(line: string) {
+  const raw = line.slice(4).split("\t")[0].trim();
+  if (!raw || raw === "/dev/null") return null;
+  try {
+    return normalizeRelPath(raw.replace(/^[ab]\//, ""));
+  } catch {
+    return null;
+  }
+}
+
+function applyUnifiedDiff(original: string, hunks: Hunk[]): PatchOutcome {
+  const text = splitLines(original);
+  let lines = text.lines;
+  let eofNewline = text.eofNewline;
+  const results: HunkResult[] = [];
+  // hunks are placed in order and never before the end of the previous one
+  let floor = 0;
+  // lines added minus lines removed so far, to shift the header positions
+  let shift = 0;
+
+  hunks.forEach((hunk, n) => {
+    const expected = hunk.start === null ? floor : Math.max(floor, hunk.start + shift);
+    const placed = placeHunk(lines, hunk, expected, floor);
+    if (!placed) {
+      const found = lines.slice(expected, expected + FOUND_LINES).join("\n");
+      results.push({
+        index: n + 1,
+        status: "rejected",
+        ...(hunk.start !== null ? { line: hunk.start + 1 } : {}),
+        message: lines.length || hunk.lines.every((l) => l.kind === "+")
+          ? "context not found"
+          : "file is empty or missing",
+        ...(found ? { found } : {}),
+      });
+      return;
+    }
+
+    const { at, target, body, fuzz, whitespace } = placed;
+    // context lines keep the file's own text (it may differ in whitespace)
+    const replacement: string[] = [];
+    let cursor = at;
+    for (const line of body) {
+      if (line.kind === "+") replacement.push(line.text);
+      else if (line.kind === " ") replacement.push(lines[cursor++]);
+      else cursor++;
+    }
+    const removed = cursor - at;
+    const touchesEnd = cursor === lines.length;
+    lines = [...lines.slice(0, at), ...replacement, ...lines.slice(cursor)];
+    if (touchesEnd && fuzz === 0) {
+      if (hunk.newNoEol) eofNewline = false;
+      else if (hunk.oldNoEol) eofNewline = true;
+    }
+
+    results.push({
+      index: n + 1,
+      status: "applied",
+      line: at + 1,
+      ...(hunk.start !== null && at !== target ? { offset: at - target } : {}),
+      ...(fuzz ? { fuzz } : {}),
+      ...(whitespace ? { whitespace } : {}),
+    });
+    floor = at + replacement.length;
+    shift += replacement.length - removed;
+  });
+
+  return outcome(joinLines(lines, eofNewline, text.eol), results);
+}
+
+function placeHunk(lines: string[], hunk: Hunk, expected: number, floor: number) {
+  for (let fuzz = 0; fuzz <= MAX_FUZZ; fuzz++) {
+    const body = trimContext(hunk.lines, fuzz);
+    if (!body) break;
+    const old = body.filter((l) => l.kind !== "+").map((l) => l.text);
+    // dropped leading context moves the expected position down
+    const dropped = hunk.lines.indexOf(body[0]);
+    for (const whitespace of [false, true]) {
+      const at = findBlock(lines, old, expected + dropped, floor, whitespace);
+      if (at !== -1) return { at, target: expected + dropped, body, fuzz, whitespace };
+    }
+  }
+  return null;
+}
+
+// drop `fuzz` context lines at both ends; null when the hunk has too little context
+function trimContext(lines: Hunk["lines"], fuzz: number) {
+  if (!fuzz) return lines;
+  let top = 0;
+  while (top < fuzz && lines[top]?.kind === " ") top++;
+  let bottom = lines.length;
+  while (lines.length - bottom < fuzz && lines[bottom - 1]?.kind === " ") bottom--;
+  if (top < fuzz && lines.length - bottom < fuzz) return null;
+  const body = lines.slice(top, bottom);
+  return body.some((l) => l.kind !== " ") ? body : null;
+}
+
+// index of `block` in `lines` at or after `floor`, nearest to `expected`
+function findBlock(
+  lines: string[],
+  block: string[],
+  expected: number,
+  floor: number,
+  whitespace: boolean
+) {
+  const last = lines.length - block.length;
+  if (last < floor) return -1;
+  if (!block.length) return Math.min(Math.max(expected, floor), lines.length);
+  const same = whitespace
+    ? (a: string, b: string) => a.replace(/\s+/g, " ").trim() === b.replace(/\s+/g, " ").trim()
+    : (a: string, b: string) => a === b;
+  const matches = (at: number) => block.every((line, k) => same(lines[at + k], line));
+
+  const start = Math.min(Math.max(expected, floor), last);
+  for (let distance = 0; start - distance >= floor || start + distance <= last; distance++) {
+    if (start + distance <= last && matches(start + distance)) return start + distance;
+    if (distance && start - distance >= floor && matches(start - distance)) return start - distance;
+  }
+  return -1;
+}
+
+// --- search/replace edits -------------------------------------------------
+
+function applyEdits(original: string, edits: PatchEdit[]): PatchOutcome {
+  const text = splitLines(original);
+  let content = text.lines.join("\n");
+  const results: HunkResult[] = [];
+
+  edits.forEach((edit, n) => {
+    const index = n + 1;
+    const search = String(edit?.search ?? "").replace(/\r\n/g, "\n");
+    const replace = String(edit?.replace ?? "").replace(/\r\n/g, "\n");
+    if (!search) {
+      if (content) {
+        results.push({ index, status: "rejected", message: "empty search text on a non-empty file" });
+      } else {
+        content = replace;
+        results.push({ index, status: "applied", line: 1 });
+      }
+      return;
+    }
+
+    const exact = occurrences(content, search);
+    if (exact.length === 1) {
+      content = content.slice(0, exact[0]) + replace + content.slice(exact[0] + search.length);
+      results.push({ index, status: "applied", line: lineOf(content, exact[0]) });
+      return;
+    }
+    if (exact.length > 1) {
+      results.push({
+        index,
+        status: "rejected",
+        message: `search text matches ${exact.length} times; include more surrounding lines`,
+      });
+      return;
+    }
+
+    // same lines apart from indentation and trailing whitespace
+    const lines = content.split("\n");
+    const wanted = search.replace(/\n$/, "").split("\n").map((l) => l.trim());
+    const found: number[] = [];
+    for (let at = 0; at + wanted.length <= lines.length; at++) {
+      if (wanted.every((l, k) => lines[at + k].trim() === l)) found.push(at);
+    }
+    if (found.length === 1) {
+      const replaced = replace.replace(/\n$/, "");
+      lines.splice(found[0], wanted.length, ...(replaced ? replaced.split("\n") : []));
+      content = lines.join("\n");
+      results.push({ index, status: "applied", line: found[0] + 1, whitespace: true });
+      return;
+    }
+    results.push({
+      index,
+      status: "rejected",
+      message: found.length
+        ? `search text matches ${found.length} times ignoring whitespace; include more surrounding lines`
+        : "search text not found",
+    });
+  });
+
+  // a file created from an empty search keeps the replacement's own ending
+  const eofNewline = original ? text.eofNewline : false;
+  return outcome(joinLines(content.split("\n"), eofNewline, text.eol), results);
+}
+
+function occurrences(content: string, search: string) {
+  const found: number[] = [];
+  for (let at = content.indexOf(search); at !== -1; at = content.indexOf(search, at + 1)) {
+    found.push(at);
+  }
+  return found;
+}
+
+function lineOf(content: string, offset: number) {
+  return content.slice(0, offset).split("\n").length;
+}
+
+// --- helpers ----------------------------------------------------------------
+
+function outcome(content: string, hunks: HunkResult[]): PatchOutcome {
+  return { content, hunks, rejected: hunks.filter((h) => h.status === "rejected").length };
+}
+
+// lines without their terminators; CRLF files keep CRLF when joined again
+function splitLines(text: string) {
+  const eol = /\r\n/.test(text) ? "\r\n" : "\n";
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const eofNewline = text.length > 0 && lines[lines.length - 1] === "";
+  if (eofNewline || text.length === 0) lines.pop();
+  return { lines, eofNewline: eofNewline || text.length === 0, eol };
+}
+
+function joinLines(lines: string[], eofNewline: boolean, eol: string) {
+  if (!lines.length) return "";
+  return lines.join(eol) + (eofNewline ? eol : "");
+}
@@ -0,0 +1,120 @@
+// src/workspace/workspace.policy.ts
+// The one path policy every workspace access goes through:
+// - paths are relative to the workspace root; "\" separators, leading "/"
+//   and "./" are tolerated ("/index.html" is "index.html"), drive letters
+//   and NUL bytes are not;
+// - after normalisation the path must stay inside the root ("a/../b" is
+//   fine, "../b" is not);
+// - symlinks are followed only while their real target stays inside the
+//   real root, for the path itself and every existing parent directory;
+// - .git and .mcp_backups belong to the tooling and cannot be written or
+//   deleted through a workspace.
+import fs from "fs/promises";
+import path from "path";
+
+export const RESERVED_DIRS: readonly string[] = [".git", ".mcp_backups"];
+
+export const SNAPSHOT_IGNORE: readonly string[] = [
+  "node_modules",
+  ".git",
+  "dist",
+  ".mcp_backups",
+];
+
+// single-file write limit (WORKSPACE_MAX_FILE_BYTES, default 5 MB)
+export function maxFileBytes() {
+  const value = Number(process.env.WORKSPACE_MAX_FILE_BYTES || 5 * 1024 * 1024);
+  return Number.isFinite(value) && value > 0 ? value : 5 * 1024 * 1024;
+}
+
+export class WorkspacePathError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly reason: string
+  ) {
+    super(`${reason}: "${path}"`);
+    this.name = "WorkspacePathError";
+  }
+}
+
+/** Workspace-relative form of `p` with "/" separators ("" for the root). */
+export function normalizeRelPath(p: string): string {
+  if (typeof p !== "string") throw new WorkspacePathError(String(p), "Invalid path");
+  if (p.includes("\0")) throw new WorkspacePathError(p, "Invalid path");
+  const slashed = p.trim().replace(/\\/g, "/");
+  if (/^[a-z]:/i.test(slashed)) throw new WorkspacePathError(p, "Absolute paths not allowed");
+
+  const normalized = path.posix.normalize(slashed.replace(/^\/+/, "") || ".");
+  if (normalized === ".." || normalized.startsWith("../")) {
+    throw new WorkspacePathError(p, "Path escapes workspace root");
+  }
+  return normalized === "." ? "" : normalized.replace(/\/+$/, "");
+}
+
+export function isInside(root: string, target: string) {
+  const rel = path.relative(root, target);
+  return rel === "" || (!rel.startsWith("..") && !path.isAbsolute(rel));
+}
+
+export function isReserved(rel: string) {
+  return rel.split("/").some((segment) => RESERVED_DIRS.includes(segment));
+}
+
+/** Lexical resolution: the absolute path of `rel`, without touching the disk. */
+export function resolveLexical(root: string, rel: string) {
+  const normalized = normalizeRelPath(rel);
+  const full = path.resolve(root, normalized);
+  if (!isInside(root, full)) {
+    throw new WorkspacePathError(rel, "Path escapes workspace root");
+  }
+  return { rel: normalized, full };
+}
+
+/**
+ * Real path of the deepest existing part of `full` with the missing rest
+ * appended, so paths about to be created are checked through their parents.
+ */
+async function realPathOf(full: string): Promise<string> {
+  const missing: string[] = [];
+  let current = full;
+  for (;;) {
+    try {
+      return path.join(await fs.realpath(current), ...missing.reverse());
+    } catch (err: any) {
+      if (err?.code !== "ENOENT" && err?.code !== "ENOTDIR") throw err;
+      const parent = path.dirname(current);
+      if (parent === current) return full;
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+/** Full policy: lexical check plus the symlink check against the real root. */
+export async function resolveInside(root: string, rel: string) {
+  const resolved = resolveLexical(root, rel);
+  const realRoot = await realPathOf(root);
+  if (!isInside(realRoot, await realPathOf(resolved.full))) {
+    throw new WorkspacePathError(rel, "Symlink points outside workspace root");
+  }
+  return resolved;
+}
+
+/** Resolution for writes and deletes: also refuses the reserved directories. */
+export async function resolveWritable(root: string, rel: string) {
+  const resolved = await resolveInside(root, rel);
+  if (!resolved.rel) throw new WorkspacePathError(rel, "Path is the workspace root");
+  if (isReserved(resolved.rel)) {
+    throw new WorkspacePathError(rel, "Path is reserved for workspace tooling");
+  }
+  return resolved;
+}
+
+/** A project id is a single path segment below the projects root. */
+export function projectDir(parentRoot: string, projectId: string) {
+  const rel = normalizeRelPath(projectId);
+  if (!rel || rel.includes("/") || isReserved(rel)) {
+    throw new WorkspacePathError(projectId, "Invalid project id");
+  }
+  return path.resolve(parentRoot, rel);
+}
@@ -0,0 +1,643 @@
+// src/workspace/workspace.proposals.ts
+// Change sets an agent proposes instead of writing them. A proposal holds
+// one entry per file with the unified diff against the file as it was when
+// proposed. Reviewers approve or reject each file, or only some hunks of it,
+// and apply() writes what was approved as a patch: edits made to the file in
+// the meantime are kept, or reported as a conflict. Binary files and
+// deletions are approved as a whole and refused when the file changed since.
+//
+// Proposals are stored as PROPOSALS_DIR/<id>.json (default ./proposals);
+// every submission, decision and apply is also appended to
+// PROPOSALS_DIR/audit.jsonl. Changes are announced over Socket.IO to the
+// rooms "proposals" and "proposals:<workspaceId>" as proposal:created,
+// proposal:updated and proposal:applied.
+//
+// Agent loops hand their changes in through propose(); only with
+// PROPOSALS_AUTO_APPROVE=on are they approved and applied right away.
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { DiffHunk, diffText, formatPatch } from "./workspace.diff";
+import { VersionAuthor, versionMessage } from "./workspace.history";
+import { applyPatch, describeRejects } from "./workspace.patch";
+import { maxFileBytes, normalizeRelPath, resolveWritable } from "./workspace.policy";
+import workspaceRegistry from "./workspace.registry";
+import { Workspace } from "./workspace";
+import { WorkspaceOperation } from "./workspace.types";
+
+// "invalid": the operation could not be turned into a change (bad path,
+// rejected patch hunks...); it is shown but cannot be approved
+export type ProposalFileStatus =
+  | "pending"
+  | "approved"
+  | "rejected"
+  | "applied"
+  | "failed"
+  | "invalid";
+
+export type ProposalStatus = "pending" | "approved" | "applied" | "rejected" | "failed";
+
+export interface ProposalFile {
+  path: string;
+  action: "create" | "update" | "delete";
+  status: ProposalFileStatus;
+  // sha1 of the file when proposed; null when it did not exist
+  baseHash: string | null;
+  additions: number;
+  deletions: number;
+  diff: string;
+  hunks: DiffHunk[];
+  // base64 content of a binary file, approved and written as a whole
+  binary?: string;
+  // the approved hunks (1-based); absent when the whole file was approved
+  approvedHunks?: number[];
+  reviewedBy?: string;
+  reviewedAt?: string;
+  // the workspace version the file was applied in
+  version?: string | null;
+  message?: string;
+}
+
+export interface ProposalAuditEntry {
+  at: string;
+  proposalId: string;
+  workspaceId: string;
+  actor: string;
+  action: "submitted" | "approved" | "rejected" | "applied" | "failed";
+  path?: string;
+  hunks?: number[];
+  comment?: string;
+  version?: string | null;
+}
+
+export interface Proposal {
+  id: string;
+  workspaceId: string;
+  // server-only: the directory of a workspace the registry does not
+  // resolve from workspaceId, e.g. a generator's own projects directory
+  root?: string;
+  title: string;
+  description?: string;
+  author: VersionAuthor;
+  createdAt: string;
+  updatedAt: string;
+  status: ProposalStatus;
+  files: ProposalFile[];
+  audit: ProposalAuditEntry[];
+}
+
+export interface ProposalInput {
+  workspaceId: string;
+  // see Proposal.root
+  root?: string;
+  // "create" of a file that exists: leave it out ("skip") or propose the
+  // new content as an update ("overwrite", default)
+  existing?: "skip" | "overwrite";
+  title?: string;
+  description?: string;
+  author: VersionAuthor;
+  operations: WorkspaceOperation[];
+}
+
+export interface ReviewDecision {
+  path: string;
+  decision: "approve" | "reject";
+  // approve only these hunks (1-based); the others are dropped
+  hunks?: number[];
+}
+
+export interface ProposalFilter {
+  workspaceId?: string;
+  status?: string;
+}
+
+export class ProposalNotFoundError extends Error {
+  constructor(public readonly proposalId: string) {
+    super(`Unknown proposal: ${proposalId}`);
+    this.name = "ProposalNotFoundError";
+  }
+}
+
+/** A submission or review the proposal cannot take in its current state. */
+export class ProposalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProposalError";
+  }
+}
+
+/** The proposal without diffs and audit trail, for lists and events. */
+export function proposalSummary(proposal: Proposal) {
+  const { files, audit, root, ...rest } = proposal;
+  return {
+    ...rest,
+    files: files.map(({ path, action, status, additions, deletions, message }) => ({
+      path,
+      action,
+      status,
+      additions,
+      deletions,
+      ...(message ? { message } : {}),
+    })),
+  };
+}
+
+const AUTO_APPROVER = "auto-approve";
+
+/** PROPOSALS_AUTO_APPROVE=on: changes of agent loops skip the review. */
+export function autoApproveEnabled() {
+  return /^(on|true|1|yes)$/i.test(process.env.PROPOSALS_AUTO_APPROVE ?? "");
+}
+
+/** What became of a proposal's files, as told to the model. */
+export function describeProposal(proposal: Proposal) {
+  const files = proposal.files.map(
+    (f) => `${f.action} ${f.path}: ${f.status}${f.message ? ` (${f.message})` : ""}`
+  );
+  const head =
+    proposal.status === "pending"
+      ? `Proposal ${proposal.id} is awaiting review by the user; nothing was written yet.`
+      : `Proposal ${proposal.id} is ${proposal.status}.`;
+  return [head, ...files].join("\n");
+}
+
+function proposalStatus(files: ProposalFile[]): ProposalStatus {
+  const has = (status: ProposalFileStatus) => files.some((f) => f.status === status);
+  if (has("pending")) return "pending";
+  if (has("approved")) return "approved";
+  if (has("failed")) return "failed";
+  if (has("applied")) return "applied";
+  return "rejected";
+}
+
+function sha1(data: Buffer) {
+  return crypto.createHash("sha1").update(data).digest("hex");
+}
+
+// what a file becomes while the operations of one submission are folded in
+interface FileDraft {
+  baseHash: string | null;
+  original: string | null;
+  text: string | null;
+  binary?: string;
+  error?: string;
+}
+
+export class ProposalQueue {
+  private readonly dir = path.resolve(
+    process.cwd(),
+    process.env.PROPOSALS_DIR || "proposals"
+  );
+  private loaded?: Promise<Map<string, Proposal>>;
+  // submissions, reviews and applies run one at a time
+  private tail: Promise<unknown> = Promise.resolve();
+  private readonly unsaved: ProposalAuditEntry[] = [];
+
+  /** Turn operations into a pending proposal; operations on the same path are combined. */
+  async submit(input: ProposalInput): Promise<Proposal> {
+    const workspace = input.root
+      ? new Workspace(input.root)
+      : workspaceRegistry.get(input.workspaceId);
+    const drafts = new Map<string, FileDraft>();
+    const invalid: ProposalFile[] = [];
+
+    for (const op of input.operations) {
+      let rel: string;
+      let full: string;
+      try {
+        ({ rel, full } = await resolveWritable(workspace.root, op?.path));
+      } catch (err: any) {
+        invalid.push(this.invalidFile(String(op?.path), op?.action, err?.message));
+        continue;
+      }
+      let draft = drafts.get(rel);
+      if (!draft) {
+        const data = await fs.readFile(full).catch(() => null);
+        const original = data ? data.toString("utf8") : null;
+        draft = { baseHash: data ? sha1(data) : null, original, text: original };
+        drafts.set(rel, draft);
+      }
+      if (draft.error) continue;
+      if (op.action === "create" && input.existing === "skip" && draft.baseHash !== null) continue;
+      try {
+        this.fold(draft, op, rel);
+      } catch (err: any) {
+        draft.error = err?.message ?? String(err);
+      }
+    }
+
+    const files: ProposalFile[] = [...invalid];
+    for (const [rel, draft] of drafts) {
+      const file = this.draftFile(rel, draft);
+      if (file) files.push(file);
+    }
+    if (!files.some((f) => f.status === "pending")) {
+      const reasons = files.map((f) => `${f.path}: ${f.message}`).join("; ");
+      throw new ProposalError(
+        reasons ? `Nothing to propose (${reasons})` : "Nothing to propose: no file would change"
+      );
+    }
+
+    const now = new Date().toISOString();
+    const proposal: Proposal = {
+      id: uuidv4(),
+      workspaceId: input.workspaceId,
+      ...(input.root ? { root: workspace.root } : {}),
+      title: (input.title || "").trim() || `Change ${files.length} file(s)`,
+      ...(input.description ? { description: input.description } : {}),
+      author: input.author,
+      createdAt: now,
+      updatedAt: now,
+      status: "pending",
+      files,
+      audit: [],
+    };
+    return this.serial(async () => {
+      const proposals = await this.load();
+      this.record(proposal, { actor: input.author.name, action: "submitted" });
+      proposals.set(proposal.id, proposal);
+      await this.save(proposal);
+      this.emit("proposal:created", proposal);
+      return proposal;
+    });
+  }
+
+  /**
+   * Changes of an agent loop: submitted for review, or with
+   * PROPOSALS_AUTO_APPROVE on, approved and applied at once.
+   */
+  async propose(input: ProposalInput): Promise<Proposal> {
+    const proposal = await this.submit(input);
+    if (!autoApproveEnabled()) return proposal;
+    const decisions = proposal.files
+      .filter((f) => f.status === "pending")
+      .map((f) => ({ path: f.path, decision: "approve" as const }));
+    await this.review(proposal.id, AUTO_APPROVER, decisions, "PROPOSALS_AUTO_APPROVE");
+    return this.apply(proposal.id, AUTO_APPROVER);
+  }
+
+  /** Proposals, newest first. */
+  async list(filter: ProposalFilter = {}) {
+    const proposals = [...(await this.load()).values()]
+      .filter((p) => !filter.workspaceId || p.workspaceId === filter.workspaceId)
+      .filter((p) => !filter.status || p.status === filter.status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return proposals.map(proposalSummary);
+  }
+
+  async get(id: string): Promise<Proposal> {
+    const proposal = (await this.load()).get(String(id));
+    if (!proposal) throw new ProposalNotFoundError(id);
+    return proposal;
+  }
+
+  /**
+   * Record approve / reject decisions for pending files. All decisions are
+   * checked before any is recorded.
+   */
+  async review(
+    id: string,
+    reviewer: string,
+    decisions: ReviewDecision[],
+    comment?: string
+  ): Promise<Proposal> {
+    return this.serial(async () => {
+      const proposal = await this.get(id);
+      const checked = decisions.map((decision) => {
+        const rel = normalizeRelPath(decision.path);
+        const file = proposal.files.find((f) => f.path === rel);
+        if (!file) throw new ProposalError(`${decision.path} is not part of proposal ${id}`);
+        if (file.status !== "pending") {
+          throw new ProposalError(`${file.path} is already ${file.status}`);
+        }
+        return { file, decision, hunks: this.checkHunks(file, decision) };
+      });
+      if (new Set(checked.map((c) => c.file)).size !== checked.length) {
+        throw new ProposalError("A file can only be decided once per review");
+      }
+
+      const now = new Date().toISOString();
+      for (const { file, decision, hunks } of checked) {
+        file.status = decision.decision === "approve" ? "approved" : "rejected";
+        file.reviewedBy = reviewer;
+        file.reviewedAt = now;
+        if (hunks) file.approvedHunks = hunks;
+        this.record(proposal, {
+          actor: reviewer,
+          action: decision.decision === "approve" ? "approved" : "rejected",
+          path: file.path,
+          ...(hunks ? { hunks } : {}),
+          ...(comment ? { comment } : {}),
+        });
+      }
+      proposal.status = proposalStatus(proposal.files);
+      proposal.updatedAt = now;
+      await this.save(proposal);
+      this.emit("proposal:updated", proposal);
+      return proposal;
+    });
+  }
+
+  /**
+   * Write the approved files (only their approved hunks) to the workspace as
+   * one version authored by the reviewers.
+   */
+  async apply(id: string, actor: string): Promise<Proposal> {
+    return this.serial(async () => {
+      const proposal = await this.get(id);
+      const approved = proposal.files.filter((f) => f.status === "approved");
+      if (!approved.length) {
+        throw new ProposalError(`Proposal ${id} has no approved files to apply`);
+      }
+      const workspace = proposal.root
+        ? new Workspace(proposal.root)
+        : workspaceRegistry.get(proposal.workspaceId);
+
+      const operations: WorkspaceOperation[] = [];
+      const targets: ProposalFile[] = [];
+      const conflicts: ProposalFile[] = [];
+      for (const file of approved) {
+        const conflict = await this.conflict(workspace.root, file);
+        if (conflict) {
+          file.status = "failed";
+          file.message = conflict;
+          conflicts.push(file);
+          continue;
+        }
+        operations.push(this.operation(file));
+        targets.push(file);
+      }
+
+      const reviewers = [...new Set(targets.map((f) => f.reviewedBy ?? actor))];
+      const { results, version } = operations.length
+        ? await workspace.apply(operations, {
+            rollbackOnError: false,
+            version: {
+              author: { name: reviewers.join(", ") || actor },
+              message: versionMessage(
+                proposal.title,
+                [
+                  `Proposal ${proposal.id} by ${proposal.author.name}`,
+                  `Approved by ${reviewers.join(", ")}`,
+                  ...targets.map((f) => `${f.action} ${f.path}`),
+                ].join("\n")
+              ),
+            },
+          })
+        : { results: [], version: null };
+
+      results.forEach((result, i) => {
+        const file = targets[i];
+        file.status = result.status === "failed" ? "failed" : "applied";
+        file.version = version?.id ?? null;
+        if (result.status === "failed") file.message = result.message;
+        else delete file.message;
+      });
+      for (const file of [...targets, ...conflicts]) {
+        this.record(proposal, {
+          actor,
+          action: file.status === "applied" ? "applied" : "failed",
+          path: file.path,
+          ...(file.status === "applied" ? { version: file.version ?? null } : {}),
+          ...(file.message ? { comment: file.message } : {}),
+        });
+      }
+
+      proposal.status = proposalStatus(proposal.files);
+      proposal.updatedAt = new Date().toISOString();
+      await this.save(proposal);
+      this.emit("proposal:applied", proposal, { version: version?.id ?? null });
+      return proposal;
+    });
+  }
+
+  /** Audit entries of all proposals, newest first. */
+  async audit(filter: ProposalFilter & { proposalId?: string; limit?: number } = {}) {
+    const text = await fs.readFile(path.join(this.dir, "audit.jsonl"), "utf8").catch(() => "");
+    const entries: ProposalAuditEntry[] = [];
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // a torn last line after a crash
+      }
+    }
+    return entries
+      .filter((e) => !filter.workspaceId || e.workspaceId === filter.workspaceId)
+      .filter((e) => !filter.proposalId || e.proposalId === filter.proposalId)
+      .reverse()
+      .slice(0, filter.limit ?? 200);
+  }
+
+  private fold(draft: FileDraft, op: WorkspaceOperation, rel: string) {
+    switch (op.action) {
+      case "delete":
+        if (draft.text === null && draft.binary === undefined) throw new Error("file not found");
+        draft.text = null;
+        delete draft.binary;
+        return;
+      case "create":
+      case "update": {
+        const size =
+          op.encoding === "base64"
+            ? Buffer.from(op.content ?? "", "base64").length
+            : Buffer.byteLength(String(op.content ?? ""), "utf8");
+        if (size > maxFileBytes()) {
+          throw new Error(`File too large (${size} bytes, limit ${maxFileBytes()})`);
+        }
+        if (op.encoding === "base64") {
+          draft.binary = op.content ?? "";
+          draft.text = null;
+        } else {
+          draft.text = String(op.content ?? "");
+          delete draft.binary;
+        }
+        return;
+      }
+      case "patch": {
+        if (draft.binary !== undefined) throw new Error("patch works on text files only");
+        const { content, hunks, rejected } = applyPatch(draft.text ?? "", op, rel);
+        if (rejected) throw new Error(describeRejects(hunks));
+        draft.text = content;
+        return;
+      }
+      default:
+        throw new Error("Invalid operation shape");
+    }
+  }
+
+  private draftFile(rel: string, draft: FileDraft): ProposalFile | null {
+    const existed = draft.baseHash !== null;
+    const base = { path: rel, baseHash: draft.baseHash };
+    if (draft.error) {
+      return { ...this.invalidFile(rel, existed ? "update" : "create", draft.error), ...base };
+    }
+    if (draft.binary !== undefined) {
+      if (existed && sha1(Buffer.from(draft.binary, "base64")) === draft.baseHash) return null;
+      return {
+        ...base,
+        action: existed ? "update" : "create",
+        status: "pending",
+        additions: 0,
+        deletions: 0,
+        diff: "Binary file",
+        hunks: [],
+        binary: draft.binary,
+      };
+    }
+    if (draft.text === draft.original) return null;
+
+    const { hunks, additions, deletions } = diffText(draft.original ?? "", draft.text ?? "");
+    const missing = { oldMissing: !existed, newMissing: draft.text === null };
+    return {
+      ...base,
+      action: !existed ? "create" : draft.text === null ? "delete" : "update",
+      status: "pending",
+      additions,
+      deletions,
+      diff: formatPatch(rel, hunks, missing),
+      hunks,
+    };
+  }
+
+  private invalidFile(rel: string, action: any, message: string): ProposalFile {
+    return {
+      path: rel,
+      action: action === "delete" || action === "create" ? action : "update",
+      status: "invalid",
+      baseHash: null,
+      additions: 0,
+      deletions: 0,
+      diff: "",
+      hunks: [],
+      message: message || "Invalid operation",
+    };
+  }
+
+  // the approved hunks, or undefined when the whole file is approved
+  private checkHunks(file: ProposalFile, decision: ReviewDecision) {
+    if (decision.decision !== "approve" || !decision.hunks) return undefined;
+    const hunks = [...new Set(decision.hunks.map(Number))].sort((a, b) => a - b);
+    if (!hunks.length) {
+      throw new ProposalError(`Approve at least one hunk of ${file.path}, or reject it`);
+    }
+    if (file.binary !== undefined || file.action === "delete") {
+      throw new ProposalError(`${file.path} can only be approved as a whole`);
+    }
+    const unknown = hunks.filter((h) => !Number.isInteger(h) || h < 1 || h > file.hunks.length);
+    if (unknown.length) {
+      throw new ProposalError(`${file.path} has no hunk ${unknown.join(", ")}`);
+    }
+    return hunks.length === file.hunks.length ? undefined : hunks;
+  }
+
+  // why an approved file can no longer be applied as reviewed
+  private async conflict(root: string, file: ProposalFile) {
+    let full: string;
+    try {
+      ({ full } = await resolveWritable(root, file.path));
+    } catch (err: any) {
+      return err?.message ?? String(err);
+    }
+    const data = await fs.readFile(full).catch(() => null);
+    const current = data ? sha1(data) : null;
+    if (file.action === "create" && current !== null) {
+      return "Conflict: the file was created after the proposal";
+    }
+    if ((file.action === "delete" || file.binary !== undefined) && current !== file.baseHash) {
+      return "Conflict: the file changed after the proposal";
+    }
+    return null;
+  }
+
+  private operation(file: ProposalFile): WorkspaceOperation {
+    if (file.action === "delete") return { path: file.path, action: "delete" };
+    if (file.binary !== undefined) {
+      return { path: file.path, action: file.action, content: file.binary, encoding: "base64" };
+    }
+    const hunks = file.approvedHunks
+      ? file.hunks.filter((h) => file.approvedHunks!.includes(h.index))
+      : file.hunks;
+    return {
+      path: file.path,
+      action: "patch",
+      diff: formatPatch(file.path, hunks, { oldMissing: file.action === "create" }),
+    };
+  }
+
+  private record(
+    proposal: Proposal,
+    entry: Omit<ProposalAuditEntry, "at" | "proposalId" | "workspaceId">
+  ) {
+    const full: ProposalAuditEntry = {
+      at: new Date().toISOString(),
+      proposalId: proposal.id,
+      workspaceId: proposal.workspaceId,
+      ...entry,
+    };
+    proposal.audit.push(full);
+    this.unsaved.push(full);
+  }
+
+  private load() {
+    return (this.loaded ??= (async () => {
+      const proposals = new Map<string, Proposal>();
+      const names = await fs.readdir(this.dir).catch(() => [] as string[]);
+      for (const name of names.filter((n) => n.endsWith(".json"))) {
+        try {
+          const proposal: Proposal = JSON.parse(
+            await fs.readFile(path.join(this.dir, name), "utf8")
+          );
+          proposals.set(proposal.id, proposal);
+        } catch (err) {
+          console.warn(`[ProposalQueue] skipping unreadable ${name}`, err);
+        }
+      }
+      return proposals;
+    })());
+  }
+
+  // the proposal file, then the audit entries recorded since the last save
+  private async save(proposal: Proposal) {
+    await fs.mkdir(this.dir, { recursive: true });
+    const target = path.join(this.dir, `${proposal.id}.json`);
+    const tmp = `${target}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(proposal, null, 2), "utf8");
+    await fs.rename(tmp, target);
+
+    const entries = this.unsaved.splice(0);
+    if (!entries.length) return;
+    await fs
+      .appendFile(
+        path.join(this.dir, "audit.jsonl"),
+        entries.map((e) => JSON.stringify(e)).join("\n") + "\n"
+      )
+      .catch((err) => console.warn("[ProposalQueue] failed to append audit entries", err));
+  }
+
+  private serial<T>(fn: () => Promise<T>): Promise<T> {
+    const next = this.tail.catch(() => {}).then(fn);
+    this.tail = next.catch(() => {});
+    return next;
+  }
+
+  private emit(eventName: string, proposal: Proposal, extra: Record<string, any> = {}) {
+    try {
+      const io = (global as any).__expressIoInstance;
+      if (io) {
+        io.to(["proposals", `proposals:${proposal.workspaceId}`]).emit(eventName, {
+          ...proposalSummary(proposal),
+          ...extra,
+        });
+      }
+    } catch (err) {
+      console.warn("Socket emit error:", err);
+    }
+  }
+}
+
+const proposalQueue = new ProposalQueue();
+
+export default proposalQueue;
@@ -0,0 +1,27 @@
+// src/workspace/workspace.registry.ts
+// Workspaces addressable by id, e.g. from the /api/v1/workspaces endpoints:
+// fixed directories the controllers write to are registered by name
+// ("web", "ai-server", ...), any other id is a project under PROJECTS_ROOT.
+import path from "path";
+import { Workspace, projectWorkspace } from "./workspace";
+
+export class WorkspaceRegistry {
+  private readonly named = new Map<string, string>();
+
+  register(name: string, root: string) {
+    this.named.set(name, path.resolve(root));
+  }
+
+  get(id: string): Workspace {
+    const root = this.named.get(id);
+    return root ? new Workspace(root) : projectWorkspace(id);
+  }
+
+  list() {
+    return [...this.named.entries()].map(([id, root]) => ({ id, root }));
+  }
+}
+
+const workspaceRegistry = new WorkspaceRegistry();
+
+export default workspaceRegistry;
@@ -0,0 +1,543 @@
+// src/workspace/workspace.ts
+// A directory the agents read and write: generated projects under
+// PROJECTS_ROOT, the web builder output, the server a chat edits. Every
+// access resolves paths through workspace.policy, so traversal, symlink and
+// reserved-directory rules are the same for all controllers.
+//
+// apply() runs a batch of create/update/delete/patch operations: changed and
+// deleted files are copied to a backup outside the workspace first
+// (workspace.backups), and a failure rolls the batch back from those copies
+// unless rollbackOnError is false. A kept backup can restore the batch's
+// files later. With `version` set the batch is also committed to the
+// workspace history (workspace.history).
+import { Stats } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import {
+  SNAPSHOT_IGNORE,
+  isInside,
+  maxFileBytes,
+  projectDir,
+  resolveInside,
+  resolveWritable,
+} from "./workspace.policy";
+import {
+  VersionAuthor,
+  VersionInfo,
+  WorkspaceHistory,
+  WorkspaceVersion,
+  historyEnabled,
+  versionMessage,
+} from "./workspace.history";
+import { WorkspaceBackups } from "./workspace.backups";
+import { applyPatch, describeRejects } from "./workspace.patch";
+import {
+  AppliedChange,
+  ApplyOptions,
+  ApplyResult,
+  ReadResult,
+  SnapshotOptions,
+  WorkspaceEmitter,
+  WorkspaceEntry,
+  WorkspaceFile,
+  WorkspaceOperation,
+  WorkspaceOperationResult,
+} from "./workspace.types";
+
+const ACTIONS = ["create", "update", "delete", "patch"];
+
+interface WalkedEntry {
+  rel: string;
+  full: string;
+  stats: Stats;
+}
+
+/** Root of the per-project workspaces (PROJECTS_ROOT, default ./workspaces). */
+export function projectsRoot() {
+  return path.resolve(process.cwd(), process.env.PROJECTS_ROOT || "workspaces");
+}
+
+/** Workspace of a project: `<parentRoot>/<projectId>`, the id being a single segment. */
+export function projectWorkspace(
+  projectId: string,
+  parentRoot = projectsRoot(),
+  emitter?: WorkspaceEmitter
+) {
+  return new Workspace(projectDir(parentRoot, projectId), emitter);
+}
+
+export class Workspace {
+  readonly root: string;
+  private historyOf?: WorkspaceHistory;
+  private backupsOf?: WorkspaceBackups;
+
+  /**
+   * @param root directory the workspace is confined to
+   * @param emitter receives file.operation / file.operations.summary events from apply()
+   */
+  constructor(
+    root: string,
+    private readonly emitter?: WorkspaceEmitter
+  ) {
+    this.root = path.resolve(root);
+  }
+
+  get history() {
+    return (this.historyOf ??= new WorkspaceHistory(this.root));
+  }
+
+  get backups() {
+    return (this.backupsOf ??= new WorkspaceBackups(this.root));
+  }
+
+  async ensure() {
+    await fs.mkdir(this.root, { recursive: true });
+    return this.root;
+  }
+
+  /** Absolute path of `rel` after the traversal and symlink checks. */
+  async resolve(rel: string) {
+    return (await resolveInside(this.root, rel)).full;
+  }
+
+  /** Workspace-relative, "/"-separated form of an absolute path inside the root. */
+  relative(full: string) {
+    return path.relative(this.root, full).split(path.sep).join("/");
+  }
+
+  /** Text of every file, skipping ignored names at any depth and files above the size limit. */
+  async snapshot(options: SnapshotOptions = {}): Promise<WorkspaceFile[]> {
+    const ignore = new Set(options.ignore ?? SNAPSHOT_IGNORE);
+    const maxBytes = options.maxFileBytes ?? 10000 * 1024;
+    const maxChars = options.maxChars ?? 100000;
+
+    const files: WorkspaceFile[] = [];
+    for (const entry of await this.walk("", Infinity, ignore)) {
+      if (!entry.stats.isFile() || entry.stats.size > maxBytes) continue;
+      try {
+        let content = await fs.readFile(entry.full, "utf8");
+        if (content.length > maxChars) {
+          content = content.slice(0, maxChars) + "\n/* ...truncated... */";
+        }
+        files.push({ path: entry.rel, content });
+      } catch {
+        // vanished or unreadable since the walk
+      }
+    }
+    return files;
+  }
+
+  /** Files and directories below `rel`, `depth` levels further down (0 = direct children). */
+  async list(rel = "", depth = 2): Promise<WorkspaceEntry[]> {
+    const { rel: start, full } = await resolveInside(this.root, rel);
+    const stats = await fs.stat(full).catch(() => null);
+    if (!stats) return [];
+    const entries = stats.isFile()
+      ? [{ rel: start, full, stats }]
+      : await this.walk(start, depth, new Set());
+    return entries.map(({ rel, stats }) => ({
+      path: rel,
+      type: stats.isDirectory() ? "dir" : "file",
+      ...(stats.isDirectory() ? {} : { size: stats.size }),
+      modified: stats.mtime.toISOString(),
+    }));
+  }
+
+  /** The first `maxBytes` of a file as UTF-8. */
+  async read(rel: string, options: { maxBytes?: number } = {}): Promise<ReadResult> {
+    const { rel: normalized, full } = await resolveInside(this.root, rel);
+    const stats = await fs.stat(full).catch(() => null);
+    if (!stats) throw new Error(`File not found: ${rel}`);
+    if (!stats.isFile()) throw new Error(`Path is not a file: ${rel}`);
+
+    const maxBytes = options.maxBytes ?? stats.size;
+    const length = Math.min(stats.size, maxBytes);
+    const buffer = Buffer.alloc(length);
+    const handle = await fs.open(full, "r");
+    try {
+      await handle.read(buffer, 0, length, 0);
+    } finally {
+      await handle.close();
+    }
+    return {
+      path: normalized,
+      content: buffer.toString("utf8"),
+      size: stats.size,
+      truncated: stats.size > maxBytes,
+      modified: stats.mtime.toISOString(),
+    };
+  }
+
+  /** Write a file atomically, creating its directories; returns the absolute path. */
+  async write(rel: string, content: string | Buffer) {
+    const { full } = await resolveWritable(this.root, rel);
+    const data = typeof content === "string" ? Buffer.from(content, "utf8") : content;
+    this.checkWrite(rel, data, await fs.stat(full).catch(() => null));
+    await this.writeAtomic(full, data);
+    return full;
+  }
+
+  /** Delete a file; false when it did not exist. */
+  async delete(rel: string) {
+    const { full } = await resolveWritable(this.root, rel);
+    const stats = await fs.lstat(full).catch(() => null);
+    if (!stats) return false;
+    if (stats.isDirectory()) throw new Error(`Path is a directory: ${rel}`);
+    await fs.rm(full, { force: true });
+    return true;
+  }
+
+  /** A new, empty backup folder for one batch of changes. */
+  async createBackupFolder() {
+    return this.backups.create();
+  }
+
+  /** Copy a file into `folder`; returns the copy's path. */
+  async backup(rel: string, folder: string) {
+    const { rel: normalized, full } = await resolveInside(this.root, rel);
+    return this.backups.copy(folder, normalized, full);
+  }
+
+  /**
+   * Put the files of a backup (or only `paths` of it) back to their content
+   * before that batch, as a new batch that is itself backed up and versioned.
+   */
+  async restoreBackup(
+    id: string,
+    options: { paths?: string[]; author?: VersionAuthor } = {}
+  ): Promise<ApplyResult> {
+    const operations = await this.backups.restoreOperations(id, options.paths);
+    return this.apply(operations, {
+      rollbackOnError: true,
+      version: {
+        author: options.author ?? { name: "workspace" },
+        message: versionMessage(
+          `Restore backup ${id}`,
+          operations.map((o) => `${o.action} ${o.path}`).join("\n")
+        ),
+      },
+    });
+  }
+
+  /** Undo applied changes, newest first: remove created files, restore backed-up ones. */
+  async rollback(changes: AppliedChange[]) {
+    for (const change of [...changes].reverse()) {
+      try {
+        const { full } = await resolveWritable(this.root, change.path);
+        if (change.created) await fs.rm(full, { force: true });
+        if (change.backupPath) {
+          await fs.mkdir(path.dirname(full), { recursive: true });
+          await fs.copyFile(change.backupPath, full);
+        }
+      } catch (err) {
+        // best effort: keep restoring the others
+        console.warn(`[Workspace] rollback of ${change.path} failed`, err);
+      }
+    }
+  }
+
+  /** Apply a batch of file operations; see ApplyOptions for backups and rollback. */
+  async apply(
+    operations: WorkspaceOperation[],
+    options: ApplyOptions = {}
+  ): Promise<ApplyResult> {
+    const { rollbackOnError = true, publishEvents = true, signal } = options;
+    const backup = options.backup !== false && !options.dryRun;
+    const results: WorkspaceOperationResult[] = [];
+    const applied: AppliedChange[] = [];
+    let backupFolder: string | null = null;
+    const folder = async () => (backupFolder ??= await this.createBackupFolder());
+    const versioned = Boolean(options.version) && !options.dryRun && historyEnabled();
+
+    if (versioned) await this.checkpoint();
+    let rolledBack = false;
+
+    for (const [index, op] of operations.entries()) {
+      if (signal?.aborted) {
+        for (const rest of operations.slice(index)) {
+          results.push({
+            path: rest?.path ?? "<unknown>",
+            action: rest?.action ?? "create",
+            status: "skipped",
+            message: "Aborted before apply",
+          });
+        }
+        break;
+      }
+
+      let outcome: { result: WorkspaceOperationResult; change?: AppliedChange; event?: any };
+      try {
+        outcome = await this.applyOne(op, options, folder);
+      } catch (err: any) {
+        outcome = {
+          result: {
+            path: op?.path ?? "<unknown>",
+            action: op?.action ?? "create",
+            status: "failed",
+            message: err?.message ?? String(err),
+          },
+        };
+      }
+      results.push(outcome.result);
+      if (outcome.change) applied.push(outcome.change);
+      if (outcome.event && publishEvents) {
+        this.emit("file.operation", { ...outcome.event, ts: new Date().toISOString() });
+      }
+
+      if (outcome.result.status === "failed" && rollbackOnError) {
+        await this.rollback(applied);
+        rolledBack = true;
+        break;
+      }
+    }
+
+    const version =
+      versioned && !rolledBack && applied.length
+        ? await this.recordVersion(options.version!)
+        : null;
+    const backupId = await this.keepBackup(
+      backup && !rolledBack ? applied : [],
+      backupFolder,
+      options.version?.message
+    );
+    if (!backupId) backupFolder = null;
+
+    this.emit("file.operations.summary", {
+      results,
+      backupFolder,
+      backupId,
+      ts: new Date().toISOString(),
+    });
+    return { results, backupFolder, backupId, ...(versioned ? { version } : {}) };
+  }
+
+  // the manifest makes the batch restorable (a batch that only created files
+  // gets one too); after a rollback or without changes the folder is dropped
+  private async keepBackup(
+    changes: AppliedChange[],
+    folder: string | null,
+    label?: string
+  ): Promise<string | null> {
+    try {
+      if (!changes.length) {
+        if (folder) await this.backups.discard(folder);
+        return null;
+      }
+      const kept = await this.backups.finish(
+        folder ?? (await this.backups.create()),
+        changes,
+        label
+      );
+      return kept?.id ?? null;
+    } catch (err) {
+      console.warn("[Workspace] failed to keep backup", err);
+      return null;
+    }
+  }
+
+  /**
+   * Commit edits made since the last version, so they do not end up in the
+   * commit of the batch about to be written.
+   */
+  async checkpoint() {
+    if (!historyEnabled()) return;
+    await this.history.checkpoint().catch((err) => {
+      console.warn("[Workspace] history checkpoint failed", err);
+    });
+  }
+
+  /**
+   * Commit the workspace as it is now to its history; null when nothing
+   * changed. History failures are logged, never thrown.
+   */
+  async recordVersion(info: VersionInfo): Promise<WorkspaceVersion | null> {
+    if (!historyEnabled()) return null;
+    try {
+      return await this.history.commit(info);
+    } catch (err) {
+      console.warn("[Workspace] failed to record version", err);
+      return null;
+    }
+  }
+
+  private async applyOne(
+    op: WorkspaceOperation,
+    options: ApplyOptions,
+    folder: () => Promise<string>
+  ): Promise<{ result: WorkspaceOperationResult; change?: AppliedChange; event?: any }> {
+    const { dryRun = false, backup = true, existing = "overwrite" } = options;
+    if (!op || typeof op.path !== "string" || !ACTIONS.includes(op.action)) {
+      throw new Error("Invalid operation shape");
+    }
+    const { rel, full } = await resolveWritable(this.root, op.path);
+    const stats = await fs.lstat(full).catch(() => null);
+    const base = { path: op.path, action: op.action };
+
+    if (op.action === "delete") {
+      if (!stats) return { result: { ...base, status: "skipped", message: "file not found" } };
+      if (stats.isDirectory()) throw new Error("Path is a directory");
+      if (dryRun) {
+        return { result: { ...base, status: "applied", message: "dry-run (no delete)" } };
+      }
+      const backupPath = backup ? await this.backup(rel, await folder()) : null;
+      await fs.rm(full, { force: true });
+      return {
+        result: { ...base, status: "applied", backupPath },
+        change: { path: rel, deleted: true, backupPath },
+        event: { path: rel, action: "delete", backupPath },
+      };
+    }
+
+    if (op.action === "patch") return this.applyPatchOp(op, rel, full, stats, options, folder);
+
+    const data =
+      op.encoding === "base64"
+        ? Buffer.from(op.content ?? "", "base64")
+        : Buffer.from(String(op.content ?? ""), "utf8");
+    this.checkWrite(op.path, data, stats);
+
+    if (stats && op.action === "create" && existing === "skip") {
+      return { result: { ...base, status: "skipped", message: "File already exists" } };
+    }
+    if (stats && (await fs.readFile(full)).equals(data)) {
+      return { result: { ...base, status: "skipped", message: "content identical" } };
+    }
+    if (dryRun) {
+      return { result: { ...base, status: "applied", message: "dry-run (no write)" } };
+    }
+
+    const backupPath = stats && backup ? await this.backup(rel, await folder()) : null;
+    await this.writeAtomic(full, data);
+    return {
+      result: {
+        ...base,
+        status: "applied",
+        ...(backupPath ? { backupPath } : {}),
+        ...(!stats && op.action === "update" ? { message: "file created (was missing)" } : {}),
+      },
+      change: { path: rel, created: !stats, backupPath },
+      event: {
+        path: rel,
+        action: op.action,
+        content: op.encoding === "base64" ? undefined : op.content,
+        backupPath,
+      },
+    };
+  }
+
+  // the patched text replaces the file only when every hunk applies
+  private async applyPatchOp(
+    op: WorkspaceOperation,
+    rel: string,
+    full: string,
+    stats: Stats | null,
+    options: ApplyOptions,
+    folder: () => Promise<string>
+  ): Promise<{ result: WorkspaceOperationResult; change?: AppliedChange; event?: any }> {
+    const { dryRun = false, backup = true } = options;
+    const base = { path: op.path, action: op.action };
+    if (stats?.isDirectory()) throw new Error("Path is a directory");
+    if (op.encoding === "base64") throw new Error("patch works on text files only");
+
+    const original = stats ? await fs.readFile(full, "utf8") : "";
+    const { content, hunks, rejected } = applyPatch(original, op, rel);
+    if (rejected) {
+      return { result: { ...base, status: "failed", message: describeRejects(hunks), hunks } };
+    }
+    const data = Buffer.from(content, "utf8");
+    this.checkWrite(op.path, data, stats);
+    if (stats && content === original) {
+      return { result: { ...base, status: "skipped", message: "content identical", hunks } };
+    }
+    if (dryRun) {
+      return { result: { ...base, status: "applied", message: "dry-run (no write)", hunks } };
+    }
+
+    const backupPath = stats && backup ? await this.backup(rel, await folder()) : null;
+    await this.writeAtomic(full, data);
+    return {
+      result: {
+        ...base,
+        status: "applied",
+        ...(backupPath ? { backupPath } : {}),
+        ...(!stats ? { message: "file created (was missing)" } : {}),
+        hunks,
+      },
+      change: { path: rel, created: !stats, backupPath },
+      event: { path: rel, action: "patch", content, backupPath },
+    };
+  }
+
+  private checkWrite(rel: string, data: Buffer, stats: Stats | null) {
+    if (stats?.isDirectory()) {
+      throw new Error("Path exists and is a directory (name conflict)");
+    }
+    const limit = maxFileBytes();
+    if (data.length > limit) {
+      throw new Error(`File too large: ${rel} (${data.length} bytes, limit ${limit})`);
+    }
+  }
+
+  private async writeAtomic(target: string, data: Buffer) {
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    const tmp = `${target}.${Date.now()}.${Math.random().toString(36).slice(2, 8)}.tmp`;
+    try {
+      await fs.writeFile(tmp, data);
+      await fs.rename(tmp, target);
+    } catch (err) {
+      await fs.rm(tmp, { force: true }).catch(() => {});
+      throw err;
+    }
+  }
+
+  /**
+   * Depth-first entries below `rel` (a directory before its children).
+   * Symlinks are listed when their target stays inside the root, but
+   * symlinked directories are not descended into.
+   */
+  private async walk(
+    rel: string,
+    depth: number,
+    ignore: ReadonlySet<string>
+  ): Promise<WalkedEntry[]> {
+    const realRoot = await fs.realpath(this.root).catch(() => null);
+    if (!realRoot) return [];
+    const out: WalkedEntry[] = [];
+
+    const visit = async (dirRel: string, remaining: number) => {
+      if (remaining < 0) return;
+      const dir = path.join(this.root, dirRel);
+      const dirents = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+      for (const dirent of dirents) {
+        if (ignore.has(dirent.name)) continue;
+        const childRel = dirRel ? `${dirRel}/${dirent.name}` : dirent.name;
+        const full = path.join(dir, dirent.name);
+        let stats: Stats;
+        try {
+          if (dirent.isSymbolicLink()) {
+            if (!isInside(realRoot, await fs.realpath(full))) continue;
+          }
+          stats = await fs.stat(full);
+        } catch {
+          continue;
+        }
+        out.push({ rel: childRel, full, stats });
+        if (stats.isDirectory() && !dirent.isSymbolicLink()) {
+          await visit(childRel, remaining - 1);
+        }
+      }
+    };
+
+    await visit(rel, depth);
+    return out;
+  }
+
+  private emit(eventName: string, payload: any) {
+    try {
+      this.emitter?.(eventName, payload);
+    } catch (err) {
+      // observers must not break file operations
+      console.warn("[Workspace] emitter error", err);
+    }
+  }
+}
@@ -0,0 +1,110 @@
+// src/workspace/workspace.types.ts
+import type { VersionInfo, WorkspaceVersion } from "./workspace.history";
+
+export type WorkspaceAction = "create" | "update" | "delete" | "patch";
+
+/** One search/replace edit of a "patch" operation. */
+export interface PatchEdit {
+  search: string;
+  replace: string;
+}
+
+export interface WorkspaceOperation {
+  path: string; // relative to the workspace root
+  action: WorkspaceAction;
+  content?: string; // required for create/update
+  encoding?: "utf8" | "base64";
+  // "patch": a unified diff, or search/replace edits (see workspace.patch)
+  diff?: string;
+  edits?: PatchEdit[];
+}
+
+/** How one hunk (or edit) of a "patch" operation went. */
+export interface HunkResult {
+  index: number; // 1-based, in the order given
+  status: "applied" | "rejected";
+  line?: number; // where it was applied, or expected
+  offset?: number; // lines away from the header position
+  fuzz?: number; // context lines ignored at each end
+  whitespace?: boolean; // matched ignoring whitespace
+  message?: string;
+  found?: string; // file lines where a rejected hunk was expected
+}
+
+export interface WorkspaceOperationResult {
+  // as given in the operation
+  path: string;
+  action: WorkspaceAction;
+  status: "applied" | "skipped" | "failed";
+  message?: string;
+  backupPath?: string | null;
+  // "patch" operations
+  hunks?: HunkResult[];
+}
+
+export interface ApplyOptions {
+  dryRun?: boolean;
+  // copy updated / deleted files into a backup first and keep it (default true)
+  backup?: boolean;
+  // undo the batch and stop at the first failure (default true); otherwise
+  // the failure is reported and the next operation runs
+  rollbackOnError?: boolean;
+  // "create" on an existing file: keep it ("skip") or write it ("overwrite", default)
+  existing?: "skip" | "overwrite";
+  // emit file.operation events (default true when the workspace has an emitter)
+  publishEvents?: boolean;
+  // stop before the next operation once aborted; applied ones are kept
+  signal?: AbortSignal;
+  // record the batch as a version (commit) of the workspace history
+  version?: VersionInfo;
+}
+
+export interface ApplyResult {
+  results: WorkspaceOperationResult[];
+  backupFolder: string | null;
+  // backup the batch can be restored from (see Workspace.restoreBackup)
+  backupId?: string | null;
+  // the recorded version; null when nothing changed or history is off
+  version?: WorkspaceVersion | null;
+}
+
+/** What rollback() needs to undo one applied operation. */
+export interface AppliedChange {
+  path: string;
+  // the file did not exist before
+  created?: boolean;
+  deleted?: boolean;
+  // copy of the previous content
+  backupPath?: string | null;
+}
+
+export interface WorkspaceFile {
+  path: string;
+  content: string;
+}
+
+export interface SnapshotOptions {
+  // directory or file names skipped at any depth
+  ignore?: readonly string[];
+  // files above this size are left out
+  maxFileBytes?: number;
+  // longer contents are cut and marked as truncated
+  maxChars?: number;
+}
+
+export interface WorkspaceEntry {
+  path: string;
+  type: "file" | "dir";
+  size?: number;
+  modified: string;
+}
+
+export interface ReadResult {
+  path: string;
+  content: string;
+  size: number;
+  truncated: boolean;
+  modified: string;
+}
+
+export type WorkspaceEmitter = (eventName: string, payload: any) => void;
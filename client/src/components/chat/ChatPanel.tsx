@@ -17,6 +17,16 @@ import {
 } from "lucide-react";
 import MessageList, { type ChatPanelProps, type Message } from "./massegsChat";
 
+// answer to ai:abort (backend llm/generation.registry and socket/socketManager)
+interface AbortedEvent {
+  id: string;
+  // stage the generation stopped in, and where its partial results were saved
+  stage?: string;
+  partialPath?: string | null;
+  // no running generation had that id
+  found?: false;
+}
+
 function formatSummary(results: any[]) {
   let out = "\n\n📁 File Changes Applied:";
   const creates = results.filter(
@@ -60,6 +70,7 @@ export default function ChatPanel({
   activePath,
   reloadFiles,
   compact = false,
+  onSocket,
 }: ChatPanelProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
@@ -73,6 +84,8 @@ export default function ChatPanel({
   const containerRef = useRef<HTMLDivElement | null>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const currentAid = useRef<string>("");
+  // read by the socket effect, which runs once: a new callback must not reconnect
+  const onSocketRef = useRef(onSocket);
   const base = "http://localhost:4000";
 
   // ---------- utils ----------
@@ -84,6 +97,10 @@ export default function ChatPanel({
     return out;
   }
 
+  useEffect(() => {
+    onSocketRef.current = onSocket;
+  }, [onSocket]);
+
   // ---------- socket init & lifecycle ----------
   useEffect(() => {
     const s: Socket = io(base, {
@@ -98,6 +115,7 @@ export default function ChatPanel({
       setReconnectAttempt(null);
       setStatusMessage("Connected to AI service");
       setSocket(s);
+      onSocketRef.current?.(s);
     };
 
     const onDisconnect = (reason: string) => {
@@ -134,6 +152,7 @@ export default function ChatPanel({
       s.off("reconnecting", onReconnecting);
       s.off("reconnect", onReconnect);
       s.disconnect();
+      onSocketRef.current?.(null);
     };
   }, []);
 
@@ -235,6 +254,14 @@ export default function ChatPanel({
       }
     };
 
+    const onAborted = (p: AbortedEvent) => {
+      setSending(false);
+      setIsTyping(false);
+      if (p?.partialPath) {
+        setStatusMessage("Generation aborted, partial results saved");
+      }
+    };
+
     const onFileSummary = (payload: any) => {
       if (!payload?.results) return;
       const summary = formatSummary(payload.results);
@@ -272,6 +299,7 @@ export default function ChatPanel({
     socket.on("ai:tool_name", onToolName);
     socket.on("ai:tool_args", onToolArgs);
     socket.on("ai:done", onDone);
+    socket.on("ai:aborted", onAborted);
     socket.on("file.operations.summary", onFileSummary);
     socket.on("error", onError);
 
@@ -282,6 +310,7 @@ export default function ChatPanel({
       socket.off("ai:tool_name", onToolName);
       socket.off("ai:tool_args", onToolArgs);
       socket.off("ai:done", onDone);
+      socket.off("ai:aborted", onAborted);
       socket.off("file.operations.summary", onFileSummary);
       socket.off("error", onError);
     };
@@ -331,6 +360,8 @@ export default function ChatPanel({
           thinkMode: false,
           stackType: "reactVite",
           socketId: socket.id,
+          // lets ai:abort { id } cancel this run on the server
+          generationId: aid,
         }),
       });
 
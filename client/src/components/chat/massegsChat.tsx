@@ -1,6 +1,7 @@
 import { useState } from "react";
 import Editor from "@monaco-editor/react";
 import { Copy, StopCircle, Trash2 } from "lucide-react";
+import type { Socket } from "socket.io-client";
 
 export interface Message {
   id: string;
@@ -22,6 +23,8 @@ export interface ChatPanelProps {
   activePath?: string;
   reloadFiles?: () => void;
   compact?: boolean;
+  // the chat socket, shared with panels listening to it (e.g. the terminal)
+  onSocket?: (socket: Socket | null) => void;
 }
 
 const MessageList: React.FC<MessageListProps> = ({
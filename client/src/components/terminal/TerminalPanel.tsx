@@ -0,0 +1,334 @@
+// Terminal for commands the assistant runs: output arrives as run:start /
+// run:stdout / run:stderr / run:exit on the chat socket. Chunks carry a seq,
+// so after a reconnect (or a page reload) the panel attaches again from the
+// last seq it has and the server replays what was missed.
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { Socket } from "socket.io-client";
+import {
+  ChevronDown,
+  ChevronUp,
+  RefreshCw,
+  Square,
+  TerminalSquare,
+  Trash2,
+} from "lucide-react";
+import { parseAnsi, spanStyle } from "./ansi";
+import type {
+  JobAck,
+  RunChunkEvent,
+  RunExitEvent,
+  RunInput,
+  RunJob,
+  RunStartEvent,
+  RunStatus,
+} from "../../types/run.types";
+
+interface TerminalPanelProps {
+  socket: Socket | null;
+  className?: string;
+}
+
+interface RunSession {
+  jobId: string;
+  title: string;
+  status: RunStatus;
+  text: string;
+  // seq of the last chunk received; reattaching asks for lastSeq + 1
+  lastSeq: number;
+  exitCode?: number | null;
+  error?: string;
+}
+
+// output kept per session, oldest dropped first
+const MAX_CHARS = 200_000;
+// unfinished runs to reattach after a page reload
+const STORAGE_KEY = "chatide.terminal.runs";
+
+function isFinished(status: RunStatus) {
+  return status === "succeeded" || status === "failed" || status === "cancelled";
+}
+
+function titleOf(input: RunInput | undefined, jobId: string) {
+  if (input?.cmd) return [input.cmd, ...(input.args ?? [])].join(" ");
+  return `job ${jobId.slice(0, 8)}`;
+}
+
+function loadStored(): Record<string, number> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+export default function TerminalPanel({ socket, className = "" }: TerminalPanelProps) {
+  const [sessions, setSessions] = useState<Record<string, RunSession>>({});
+  const [order, setOrder] = useState<string[]>([]);
+  const [active, setActive] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const sessionsRef = useRef(sessions);
+  // read before the first save below overwrites it
+  const [stored] = useState(loadStored);
+  const outputRef = useRef<HTMLPreElement | null>(null);
+
+  useEffect(() => {
+    sessionsRef.current = sessions;
+    const open: Record<string, number> = {};
+    for (const s of Object.values(sessions)) {
+      if (!isFinished(s.status)) open[s.jobId] = s.lastSeq;
+    }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(open));
+  }, [sessions]);
+
+  const update = (jobId: string, fn: (s: RunSession) => RunSession) => {
+    setSessions((all) => (all[jobId] ? { ...all, [jobId]: fn(all[jobId]) } : all));
+  };
+
+  const open = (jobId: string, title: string, status: RunStatus) => {
+    setSessions((all) =>
+      all[jobId]
+        ? { ...all, [jobId]: { ...all[jobId], status } }
+        : { ...all, [jobId]: { jobId, title, status, text: "", lastSeq: -1 } }
+    );
+    setOrder((o) => (o.includes(jobId) ? o : [...o, jobId]));
+    setActive((a) => a ?? jobId);
+  };
+
+  // ---------- run:* events ----------
+  useEffect(() => {
+    if (!socket) return;
+
+    const onStart = (p: RunStartEvent) => {
+      if (!p?.jobId) return;
+      open(p.jobId, titleOf(p.input, p.jobId), p.status ?? "running");
+      setActive(p.jobId);
+      setCollapsed(false);
+    };
+
+    const onChunk = (p: RunChunkEvent) => {
+      if (!p?.jobId || typeof p.data !== "string") return;
+      update(p.jobId, (s) => {
+        // replayed chunks already shown
+        if (p.seq <= s.lastSeq) return s;
+        const text = s.text + p.data;
+        return {
+          ...s,
+          text: text.length > MAX_CHARS ? text.slice(-MAX_CHARS) : text,
+          lastSeq: p.seq,
+        };
+      });
+    };
+
+    const onExit = (p: RunExitEvent) => {
+      if (!p?.jobId) return;
+      update(p.jobId, (s) => ({
+        ...s,
+        status: p.status ?? "succeeded",
+        exitCode: p.code,
+        error: p.error,
+        lastSeq: Math.max(s.lastSeq, (p.seq ?? 0) - 1),
+      }));
+    };
+
+    socket.on("run:start", onStart);
+    socket.on("run:stdout", onChunk);
+    socket.on("run:stderr", onChunk);
+    socket.on("run:exit", onExit);
+    return () => {
+      socket.off("run:start", onStart);
+      socket.off("run:stdout", onChunk);
+      socket.off("run:stderr", onChunk);
+      socket.off("run:exit", onExit);
+    };
+  }, [socket]);
+
+  // ---------- reattach on (re)connect ----------
+  useEffect(() => {
+    if (!socket) return;
+
+    const attach = (jobId: string, from: number) => {
+      socket.emit("run:attach", { jobId, from }, (res: JobAck<{ job: RunJob }>) => {
+        // from here on the session (if any) is what gets reattached
+        delete stored[jobId];
+        if (!res?.ok) {
+          // gone from the server (pruned or unknown)
+          update(jobId, (s) => ({ ...s, status: "failed", error: res?.error }));
+        }
+      });
+    };
+
+    const reattach = () => {
+      const runs: Record<string, number> = { ...stored };
+      for (const s of Object.values(sessionsRef.current)) {
+        if (!isFinished(s.status)) runs[s.jobId] = s.lastSeq;
+      }
+      for (const [jobId, lastSeq] of Object.entries(runs)) {
+        attach(jobId, Math.max(lastSeq + 1, 0));
+      }
+    };
+
+    if (socket.connected) reattach();
+    socket.on("connect", reattach);
+    return () => {
+      socket.off("connect", reattach);
+    };
+  }, [socket, stored]);
+
+  // ---------- auto-scroll ----------
+  const current = active ? sessions[active] : undefined;
+  useEffect(() => {
+    const el = outputRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [current?.text, collapsed]);
+
+  const lines = useMemo(() => parseAnsi(current?.text ?? ""), [current?.text]);
+
+  // ---------- UI actions ----------
+  const attachRunning = () => {
+    if (!socket) return;
+    socket.emit("job:list", { status: "running", limit: 20 }, (res: JobAck<{ jobs: RunJob[] }>) => {
+      if (!res?.ok) {
+        setNotice(res?.error ?? "Could not list running jobs");
+        return;
+      }
+      const fresh = (res.jobs ?? []).filter((j) => !sessionsRef.current[j.id]);
+      setNotice(fresh.length ? null : "No other running commands");
+      for (const job of fresh) {
+        open(job.id, titleOf(job.input, job.id), job.status);
+        socket.emit("run:attach", { jobId: job.id, from: 0 });
+      }
+      setTimeout(() => setNotice(null), 2000);
+    });
+  };
+
+  const cancel = () => {
+    if (!socket || !current || isFinished(current.status)) return;
+    socket.emit("job:cancel", { jobId: current.jobId });
+  };
+
+  const clearFinished = () => {
+    const keep = order.filter((id) => !isFinished(sessions[id]?.status ?? "failed"));
+    setSessions((all) => Object.fromEntries(keep.map((id) => [id, all[id]])));
+    setOrder(keep);
+    setActive(keep[keep.length - 1] ?? null);
+  };
+
+  const statusColor = (status: RunStatus) =>
+    status === "running" || status === "queued"
+      ? "bg-amber-400 animate-pulse"
+      : status === "succeeded"
+        ? "bg-emerald-500"
+        : status === "cancelled"
+          ? "bg-slate-400"
+          : "bg-red-500";
+
+  return (
+    <div
+      className={`
+        bg-[#0b0b0d] rounded-2xl shadow-lg flex flex-col overflow-hidden
+        border border-gray-200 dark:border-gray-700 ${className}
+      `}
+    >
+      {/* Header */}
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-800">
+        <TerminalSquare size={16} className="text-slate-400 shrink-0" />
+        <span className="text-sm font-semibold text-slate-200 shrink-0">Terminal</span>
+
+        <div className="flex-1 flex items-center gap-1 overflow-x-auto">
+          {order.map((id) => {
+            const s = sessions[id];
+            if (!s) return null;
+            return (
+              <button
+                key={id}
+                onClick={() => setActive(id)}
+                title={s.title}
+                className={`flex items-center gap-1.5 px-2 py-0.5 rounded text-xs font-mono max-w-[14rem] transition ${
+                  id === active
+                    ? "bg-gray-800 text-slate-100"
+                    : "text-slate-400 hover:bg-gray-900"
+                }`}
+              >
+                <span className={`w-2 h-2 rounded-full shrink-0 ${statusColor(s.status)}`} />
+                <span className="truncate">{s.title}</span>
+              </button>
+            );
+          })}
+        </div>
+
+        {notice && <span className="text-xs text-slate-400 shrink-0">{notice}</span>}
+        <button
+          onClick={attachRunning}
+          disabled={!socket}
+          title="Attach to running commands"
+          className="p-1 rounded text-slate-400 hover:text-slate-100 hover:bg-gray-800 disabled:opacity-40"
+        >
+          <RefreshCw size={14} />
+        </button>
+        <button
+          onClick={cancel}
+          disabled={!current || isFinished(current.status)}
+          title="Stop the command"
+          className="p-1 rounded text-slate-400 hover:text-red-400 hover:bg-gray-800 disabled:opacity-40"
+        >
+          <Square size={14} />
+        </button>
+        <button
+          onClick={clearFinished}
+          title="Close finished"
+          className="p-1 rounded text-slate-400 hover:text-slate-100 hover:bg-gray-800"
+        >
+          <Trash2 size={14} />
+        </button>
+        <button
+          onClick={() => setCollapsed((c) => !c)}
+          title={collapsed ? "Expand" : "Collapse"}
+          className="p-1 rounded text-slate-400 hover:text-slate-100 hover:bg-gray-800"
+        >
+          {collapsed ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+        </button>
+      </div>
+
+      {/* Output */}
+      {!collapsed && (
+        <pre
+          ref={outputRef}
+          className="h-56 overflow-auto p-3 text-xs leading-5 font-mono text-slate-200 whitespace-pre-wrap break-all"
+        >
+          {current ? (
+            <>
+              <div className="text-slate-500">$ {current.title}</div>
+              {lines.map((line, i) => (
+                <div key={i}>
+                  {line.length === 0
+                    ? " "
+                    : line.map((span, j) => (
+                        <span key={j} style={spanStyle(span.style)}>
+                          {span.text}
+                        </span>
+                      ))}
+                </div>
+              ))}
+              {isFinished(current.status) && (
+                <div
+                  className={
+                    current.status === "succeeded" ? "text-emerald-400" : "text-red-400"
+                  }
+                >
+                  {current.status === "cancelled"
+                    ? "[cancelled]"
+                    : `[exit ${current.exitCode ?? "?"}]${current.error ? ` ${current.error}` : ""}`}
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="text-slate-500">
+              Commands the assistant runs show up here.
+            </div>
+          )}
+        </pre>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+// ANSI escape handling for the terminal panel: SGR colours and styles
+// (16, 256 and true colour), carriage returns redrawing the line, other
+// control sequences dropped.
+
+export interface AnsiStyle {
+  fg?: string;
+  bg?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+}
+
+export interface AnsiSpan {
+  text: string;
+  style: AnsiStyle;
+}
+
+// xterm palette, readable on a dark background
+const PALETTE = [
+  "#1e1e1e", "#f14c4c", "#23d18b", "#f5f543",
+  "#3b8eea", "#d670d6", "#29b8db", "#cccccc",
+  "#666666", "#ff6b6b", "#5af78e", "#f4f99d",
+  "#6cb6ff", "#ff92d0", "#9aedfe", "#ffffff",
+];
+
+// eslint-disable-next-line no-control-regex
+const TOKEN = /\x1b\[([0-9;?]*)([@-~])|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-_]|\r\n|\r|\n/g;
+
+function color256(n: number) {
+  if (n < 16) return PALETTE[n];
+  if (n < 232) {
+    const v = n - 16;
+    const level = (c: number) => (c === 0 ? 0 : 55 + c * 40);
+    return `rgb(${level(Math.floor(v / 36))}, ${level(Math.floor(v / 6) % 6)}, ${level(v % 6)})`;
+  }
+  const gray = 8 + (n - 232) * 10;
+  return `rgb(${gray}, ${gray}, ${gray})`;
+}
+
+function applySgr(style: AnsiStyle, params: string): AnsiStyle {
+  const codes = params === "" ? [0] : params.split(";").map((p) => Number(p) || 0);
+  let next = { ...style };
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i];
+    if (code === 0) next = {};
+    else if (code === 1) next.bold = true;
+    else if (code === 2) next.dim = true;
+    else if (code === 3) next.italic = true;
+    else if (code === 4) next.underline = true;
+    else if (code === 7) next.inverse = true;
+    else if (code === 22) next.bold = next.dim = false;
+    else if (code === 23) next.italic = false;
+    else if (code === 24) next.underline = false;
+    else if (code === 27) next.inverse = false;
+    else if (code >= 30 && code <= 37) next.fg = PALETTE[code - 30];
+    else if (code >= 90 && code <= 97) next.fg = PALETTE[code - 90 + 8];
+    else if (code === 39) next.fg = undefined;
+    else if (code >= 40 && code <= 47) next.bg = PALETTE[code - 40];
+    else if (code >= 100 && code <= 107) next.bg = PALETTE[code - 100 + 8];
+    else if (code === 49) next.bg = undefined;
+    else if (code === 38 || code === 48) {
+      // 38;5;n or 38;2;r;g;b
+      let value: string | undefined;
+      if (codes[i + 1] === 5) {
+        value = color256(codes[i + 2] ?? 0);
+        i += 2;
+      } else if (codes[i + 1] === 2) {
+        value = `rgb(${codes[i + 2] ?? 0}, ${codes[i + 3] ?? 0}, ${codes[i + 4] ?? 0})`;
+        i += 4;
+      }
+      if (code === 38) next.fg = value;
+      else next.bg = value;
+    }
+  }
+  return next;
+}
+
+/** Lines of styled spans for terminal output. */
+export function parseAnsi(text: string): AnsiSpan[][] {
+  const lines: AnsiSpan[][] = [];
+  let line: AnsiSpan[] = [];
+  let style: AnsiStyle = {};
+  let last = 0;
+
+  const push = (chunk: string) => {
+    if (chunk) line.push({ text: chunk, style });
+  };
+
+  for (const match of text.matchAll(TOKEN)) {
+    push(text.slice(last, match.index));
+    last = (match.index ?? 0) + match[0].length;
+    const token = match[0];
+    if (token === "\n" || token === "\r\n") {
+      lines.push(line);
+      line = [];
+    } else if (token === "\r") {
+      // progress output redraws the line
+      line = [];
+    } else if (match[2] === "m") {
+      style = applySgr(style, match[1]);
+    }
+  }
+  push(text.slice(last));
+  lines.push(line);
+  return lines;
+}
+
+export function spanStyle(style: AnsiStyle): Record<string, string> {
+  const css: Record<string, string> = {};
+  const fg = style.inverse ? style.bg ?? PALETTE[0] : style.fg;
+  const bg = style.inverse ? style.fg ?? PALETTE[7] : style.bg;
+  if (fg) css.color = fg;
+  if (bg) css.backgroundColor = bg;
+  if (style.bold) css.fontWeight = "700";
+  if (style.dim) css.opacity = "0.7";
+  if (style.italic) css.fontStyle = "italic";
+  if (style.underline) css.textDecoration = "underline";
+  return css;
+}
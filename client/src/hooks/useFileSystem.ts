@@ -115,7 +115,12 @@ export default function useFileSystem(opts?: {
             );
             return cp;
           });
-        } else if (payload.action === "create" || payload.action === "update") {
+        } else if (
+          payload.action === "create" ||
+          payload.action === "update" ||
+          payload.action === "patch"
+        ) {
+          // patch events carry the patched file content
           if (typeof payload.content === "string") {
             setFiles((prev) => {
               const cp = { ...prev, [path]: payload.content };
@@ -170,8 +170,7 @@ export default function Builder() {
           socketId,
           options: {
             projectName: projectName || undefined,
-            useOpenAI: aiProvider === 'openai',
-            useGemini: aiProvider === 'gemini',
+            provider: aiProvider,
             maxTokens: 8192,
             ragTopK: 5,
             dryRun: false,
@@ -1,15 +1,19 @@
 // src/pages/main/chats/ChatIDE.tsx
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useRef, useState } from "react";
+import type { Socket } from "socket.io-client";
 import useFileSystem from "../../hooks/useFileSystem";
 import ChatPanel from "../../components/chat/ChatPanel";
 import FileTree from "../../components/filetree/FileTree";
 import MonacoEditorWrapper from "../../components/editor/MonacoEditorWrapper";
 import FileActions from "../../components/filetree/FileActions";
+import TerminalPanel from "../../components/terminal/TerminalPanel";
 import gsap from "gsap";
 
 export default function ChatIDEPage() {
   const { files, tree, activePath, setActivePath, reload, hasFiles } =
     useFileSystem();
+  // the chat panel's socket; the terminal listens on it for run:* output
+  const [socket, setSocket] = useState<Socket | null>(null);
 
   const containerRef = useRef<HTMLDivElement | null>(null);
   const chatRef = useRef<HTMLDivElement | null>(null);
@@ -74,6 +78,7 @@ export default function ChatIDEPage() {
             activePath={activePath}
             reloadFiles={reload}
             compact={false}
+            onSocket={setSocket}
           />
         </div>
       </div>
@@ -110,6 +115,7 @@ export default function ChatIDEPage() {
             activePath={activePath}
             reloadFiles={reload}
             compact
+            onSocket={setSocket}
           />
 
           <div
@@ -143,12 +149,12 @@ export default function ChatIDEPage() {
           </div>
         </aside>
 
-        {/* RIGHT: Editor */}
-        <main className="col-span-9 h-full">
+        {/* RIGHT: Editor + Terminal */}
+        <main className="col-span-9 h-full flex flex-col gap-4 min-h-0">
           <div
             className="
               bg-white dark:bg-[#111113]
-              rounded-2xl shadow-lg flex flex-col h-full overflow-hidden
+              rounded-2xl shadow-lg flex flex-col flex-1 min-h-0 overflow-hidden
               border border-gray-200 dark:border-gray-700
             "
           >
@@ -183,6 +189,9 @@ export default function ChatIDEPage() {
               />
             </div>
           </div>
+
+          {/* Terminal: output of commands run for this chat */}
+          <TerminalPanel socket={socket} className="shrink-0" />
         </main>
       </div>
     </div>
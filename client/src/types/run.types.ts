@@ -0,0 +1,59 @@
+// Payloads of the run:* socket events and the job acks the terminal uses;
+// mirrors backend/src/jobs/jobs.stream.ts and socket/jobSocketHandlers.ts
+
+export type RunStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+// input of a runCommand job; other job types carry their own
+export interface RunInput {
+  cmd?: string;
+  args?: string[];
+  cwd?: string;
+}
+
+export interface RunStartEvent {
+  jobId: string;
+  projectId: string;
+  type: string;
+  input?: RunInput;
+  status: RunStatus;
+  from: number;
+}
+
+export interface RunChunkEvent {
+  jobId: string;
+  seq: number;
+  data: string;
+}
+
+export interface RunExitEvent {
+  jobId: string;
+  // the seq the job's next output chunk would get
+  seq: number;
+  status: RunStatus;
+  code: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  error?: string;
+}
+
+export interface RunEvents {
+  "run:start": RunStartEvent;
+  "run:stdout": RunChunkEvent;
+  "run:stderr": RunChunkEvent;
+  "run:exit": RunExitEvent;
+}
+
+export type RunEvent = {
+  [E in keyof RunEvents]: { event: E; payload: RunEvents[E] };
+}[keyof RunEvents];
+
+export interface RunJob {
+  id: string;
+  projectId: string;
+  type: string;
+  status: RunStatus;
+  input?: RunInput;
+}
+
+// ack of every job:* / run:* request
+export type JobAck<T = object> = ({ ok: true } & T) | { ok: false; error?: string };